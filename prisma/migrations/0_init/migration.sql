@@ -0,0 +1,305 @@
+-- CreateEnum
+CREATE TYPE "Role" AS ENUM ('USER', 'MERCHANT', 'ADMIN');
+
+-- CreateEnum
+CREATE TYPE "ProfileStatus" AS ENUM ('INCOMPLETE', 'PENDING_VERIFICATION', 'VERIFIED', 'REJECTED');
+
+-- CreateEnum
+CREATE TYPE "PurchaseStatus" AS ENUM ('ACTIVE', 'FULLY_REDEEMED', 'EXPIRED', 'CANCELLED');
+
+-- CreateEnum
+CREATE TYPE "PaymentStatus" AS ENUM ('PENDING', 'COMPLETED', 'FAILED', 'REFUNDED');
+
+-- CreateEnum
+CREATE TYPE "ActivityCategory" AS ENUM ('AUTH', 'USER', 'MERCHANT', 'GIFT_CARD', 'PURCHASE', 'REDEMPTION', 'SYSTEM');
+
+-- CreateEnum
+CREATE TYPE "ActivitySeverity" AS ENUM ('INFO', 'WARNING', 'ERROR', 'CRITICAL');
+
+-- CreateEnum
+CREATE TYPE "NotificationType" AS ENUM ('MERCHANT_REGISTERED', 'PROFILE_SUBMITTED_FOR_VERIFICATION', 'PURCHASE_MADE', 'REDEMPTION_MADE', 'PROFILE_VERIFIED', 'PROFILE_REJECTED', 'GIFT_CARD_PURCHASED', 'GIFT_CARD_REDEEMED');
+
+-- CreateEnum
+CREATE TYPE "RecipientType" AS ENUM ('ADMIN', 'MERCHANT');
+
+-- CreateTable
+CREATE TABLE "users" (
+    "id" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "password" TEXT,
+    "name" TEXT NOT NULL,
+    "phone" TEXT,
+    "role" "Role" NOT NULL DEFAULT 'USER',
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "provider" TEXT DEFAULT 'local',
+    "googleId" TEXT,
+    "avatar" TEXT,
+    "bio" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "lastLogin" TIMESTAMP(3),
+    "emailVerified" BOOLEAN NOT NULL DEFAULT false,
+    "verificationToken" TEXT,
+    "resetToken" TEXT,
+    "resetTokenExpiry" TIMESTAMP(3),
+    "createdById" TEXT,
+
+    CONSTRAINT "users_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "refresh_tokens" (
+    "id" TEXT NOT NULL,
+    "token" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "refresh_tokens_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "merchant_profiles" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "businessName" TEXT NOT NULL,
+    "businessRegistrationNumber" TEXT,
+    "taxId" TEXT,
+    "businessType" TEXT,
+    "businessCategory" TEXT,
+    "address" TEXT,
+    "city" TEXT,
+    "state" TEXT,
+    "zipCode" TEXT,
+    "country" TEXT,
+    "businessPhone" TEXT,
+    "businessEmail" TEXT,
+    "website" TEXT,
+    "registrationDocument" TEXT,
+    "taxDocument" TEXT,
+    "identityDocument" TEXT,
+    "additionalDocuments" JSONB,
+    "bankName" TEXT,
+    "accountNumber" TEXT,
+    "accountHolderName" TEXT,
+    "ifscCode" TEXT,
+    "swiftCode" TEXT,
+    "profileStatus" "ProfileStatus" NOT NULL DEFAULT 'INCOMPLETE',
+    "isVerified" BOOLEAN NOT NULL DEFAULT false,
+    "verifiedAt" TIMESTAMP(3),
+    "verifiedById" TEXT,
+    "verificationNotes" TEXT,
+    "rejectionReason" TEXT,
+    "rejectedAt" TIMESTAMP(3),
+    "description" TEXT,
+    "logo" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "merchant_profiles_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "gift_cards" (
+    "id" TEXT NOT NULL,
+    "merchantId" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "price" DECIMAL(10,2) NOT NULL,
+    "expiryDate" TIMESTAMP(3) NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "gift_cards_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "purchased_gift_cards" (
+    "id" TEXT NOT NULL,
+    "giftCardId" TEXT NOT NULL,
+    "qrCode" TEXT NOT NULL,
+    "customerName" TEXT NOT NULL,
+    "customerEmail" TEXT NOT NULL,
+    "customerPhone" TEXT NOT NULL,
+    "purchaseAmount" DECIMAL(10,2) NOT NULL,
+    "currentBalance" DECIMAL(10,2) NOT NULL,
+    "status" "PurchaseStatus" NOT NULL DEFAULT 'ACTIVE',
+    "paymentStatus" "PaymentStatus" NOT NULL DEFAULT 'PENDING',
+    "paymentMethod" TEXT,
+    "transactionId" TEXT,
+    "purchasedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "lastUsedAt" TIMESTAMP(3),
+
+    CONSTRAINT "purchased_gift_cards_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "redemptions" (
+    "id" TEXT NOT NULL,
+    "purchasedGiftCardId" TEXT NOT NULL,
+    "redeemedById" TEXT NOT NULL,
+    "amount" DECIMAL(10,2) NOT NULL,
+    "balanceBefore" DECIMAL(10,2) NOT NULL,
+    "balanceAfter" DECIMAL(10,2) NOT NULL,
+    "locationName" TEXT,
+    "locationAddress" TEXT,
+    "notes" TEXT,
+    "redeemedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "redemptions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "activity_logs" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "actorId" TEXT,
+    "actorType" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "category" "ActivityCategory" NOT NULL,
+    "description" TEXT NOT NULL,
+    "resourceType" TEXT,
+    "resourceId" TEXT,
+    "metadata" JSONB,
+    "severity" "ActivitySeverity" NOT NULL DEFAULT 'INFO',
+    "merchantId" TEXT,
+    "ipAddress" TEXT,
+    "userAgent" TEXT,
+
+    CONSTRAINT "activity_logs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "notifications" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "recipientId" TEXT NOT NULL,
+    "recipientType" "RecipientType" NOT NULL,
+    "type" "NotificationType" NOT NULL,
+    "title" TEXT NOT NULL,
+    "message" TEXT NOT NULL,
+    "resourceType" TEXT,
+    "resourceId" TEXT,
+    "isRead" BOOLEAN NOT NULL DEFAULT false,
+    "readAt" TIMESTAMP(3),
+    "actorId" TEXT,
+    "actorName" TEXT,
+
+    CONSTRAINT "notifications_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "notification_preferences" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "merchantRegistered" BOOLEAN NOT NULL DEFAULT true,
+    "profileSubmittedForVerification" BOOLEAN NOT NULL DEFAULT true,
+    "purchaseMade" BOOLEAN NOT NULL DEFAULT true,
+    "redemptionMade" BOOLEAN NOT NULL DEFAULT true,
+    "profileVerified" BOOLEAN NOT NULL DEFAULT true,
+    "profileRejected" BOOLEAN NOT NULL DEFAULT true,
+    "giftCardPurchased" BOOLEAN NOT NULL DEFAULT true,
+    "giftCardRedeemed" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "notification_preferences_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "users_email_key" ON "users"("email");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "users_googleId_key" ON "users"("googleId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "refresh_tokens_token_key" ON "refresh_tokens"("token");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "merchant_profiles_userId_key" ON "merchant_profiles"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "merchant_profiles_businessRegistrationNumber_key" ON "merchant_profiles"("businessRegistrationNumber");
+
+-- CreateIndex
+CREATE INDEX "gift_cards_merchantId_idx" ON "gift_cards"("merchantId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "purchased_gift_cards_qrCode_key" ON "purchased_gift_cards"("qrCode");
+
+-- CreateIndex
+CREATE INDEX "purchased_gift_cards_qrCode_idx" ON "purchased_gift_cards"("qrCode");
+
+-- CreateIndex
+CREATE INDEX "purchased_gift_cards_customerEmail_idx" ON "purchased_gift_cards"("customerEmail");
+
+-- CreateIndex
+CREATE INDEX "purchased_gift_cards_giftCardId_idx" ON "purchased_gift_cards"("giftCardId");
+
+-- CreateIndex
+CREATE INDEX "redemptions_purchasedGiftCardId_idx" ON "redemptions"("purchasedGiftCardId");
+
+-- CreateIndex
+CREATE INDEX "redemptions_redeemedById_idx" ON "redemptions"("redeemedById");
+
+-- CreateIndex
+CREATE INDEX "activity_logs_createdAt_idx" ON "activity_logs"("createdAt" DESC);
+
+-- CreateIndex
+CREATE INDEX "activity_logs_category_idx" ON "activity_logs"("category");
+
+-- CreateIndex
+CREATE INDEX "activity_logs_actorId_idx" ON "activity_logs"("actorId");
+
+-- CreateIndex
+CREATE INDEX "activity_logs_merchantId_idx" ON "activity_logs"("merchantId");
+
+-- CreateIndex
+CREATE INDEX "activity_logs_resourceType_resourceId_idx" ON "activity_logs"("resourceType", "resourceId");
+
+-- CreateIndex
+CREATE INDEX "activity_logs_severity_idx" ON "activity_logs"("severity");
+
+-- CreateIndex
+CREATE INDEX "notifications_recipientId_recipientType_idx" ON "notifications"("recipientId", "recipientType");
+
+-- CreateIndex
+CREATE INDEX "notifications_recipientId_isRead_idx" ON "notifications"("recipientId", "isRead");
+
+-- CreateIndex
+CREATE INDEX "notifications_createdAt_idx" ON "notifications"("createdAt" DESC);
+
+-- CreateIndex
+CREATE INDEX "notifications_type_idx" ON "notifications"("type");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "notification_preferences_userId_key" ON "notification_preferences"("userId");
+
+-- AddForeignKey
+ALTER TABLE "users" ADD CONSTRAINT "users_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "refresh_tokens" ADD CONSTRAINT "refresh_tokens_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "merchant_profiles" ADD CONSTRAINT "merchant_profiles_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "merchant_profiles" ADD CONSTRAINT "merchant_profiles_verifiedById_fkey" FOREIGN KEY ("verifiedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "gift_cards" ADD CONSTRAINT "gift_cards_merchantId_fkey" FOREIGN KEY ("merchantId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "purchased_gift_cards" ADD CONSTRAINT "purchased_gift_cards_giftCardId_fkey" FOREIGN KEY ("giftCardId") REFERENCES "gift_cards"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "redemptions" ADD CONSTRAINT "redemptions_purchasedGiftCardId_fkey" FOREIGN KEY ("purchasedGiftCardId") REFERENCES "purchased_gift_cards"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "redemptions" ADD CONSTRAINT "redemptions_redeemedById_fkey" FOREIGN KEY ("redeemedById") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "notification_preferences" ADD CONSTRAINT "notification_preferences_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,31 @@
+-- AlterTable
+ALTER TABLE "purchased_gift_cards" ADD COLUMN     "paidAt" TIMESTAMP(3),
+ADD COLUMN     "paymentProvider" TEXT;
+
+-- CreateTable
+CREATE TABLE "payment_events" (
+    "id" TEXT NOT NULL,
+    "purchasedGiftCardId" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "providerEventId" TEXT,
+    "eventType" TEXT NOT NULL,
+    "fromStatus" "PaymentStatus" NOT NULL,
+    "toStatus" "PaymentStatus" NOT NULL,
+    "amount" DECIMAL(10,2),
+    "payload" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "payment_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payment_events_providerEventId_key" ON "payment_events"("providerEventId");
+
+-- CreateIndex
+CREATE INDEX "payment_events_purchasedGiftCardId_idx" ON "payment_events"("purchasedGiftCardId");
+
+-- CreateIndex
+CREATE INDEX "purchased_gift_cards_paymentProvider_transactionId_idx" ON "purchased_gift_cards"("paymentProvider", "transactionId");
+
+-- AddForeignKey
+ALTER TABLE "payment_events" ADD CONSTRAINT "payment_events_purchasedGiftCardId_fkey" FOREIGN KEY ("purchasedGiftCardId") REFERENCES "purchased_gift_cards"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,53 @@
+-- CreateEnum
+CREATE TYPE "RefundType" AS ENUM ('PARTIAL', 'FULL');
+
+-- CreateEnum
+CREATE TYPE "RefundStatus" AS ENUM ('PENDING', 'COMPLETED', 'FAILED');
+
+-- AlterEnum
+-- This migration adds more than one value to an enum.
+-- With PostgreSQL versions 11 and earlier, this is not possible
+-- in a single migration. This can be worked around by creating
+-- multiple migrations, each migration adding only one value to
+-- the enum.
+
+
+ALTER TYPE "NotificationType" ADD VALUE 'PURCHASE_REFUNDED';
+ALTER TYPE "NotificationType" ADD VALUE 'GIFT_CARD_REFUNDED';
+
+-- AlterTable
+ALTER TABLE "purchased_gift_cards" ADD COLUMN     "cancellationReason" TEXT,
+ADD COLUMN     "cancelledAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "notification_preferences" ADD COLUMN     "giftCardRefunded" BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN     "purchaseRefunded" BOOLEAN NOT NULL DEFAULT true;
+
+-- CreateTable
+CREATE TABLE "refunds" (
+    "id" TEXT NOT NULL,
+    "purchasedGiftCardId" TEXT NOT NULL,
+    "refundedById" TEXT NOT NULL,
+    "type" "RefundType" NOT NULL,
+    "amount" DECIMAL(10,2) NOT NULL,
+    "balanceBefore" DECIMAL(10,2) NOT NULL,
+    "balanceAfter" DECIMAL(10,2) NOT NULL,
+    "reason" TEXT NOT NULL,
+    "status" "RefundStatus" NOT NULL DEFAULT 'COMPLETED',
+    "providerRefundId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "refunds_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "refunds_purchasedGiftCardId_idx" ON "refunds"("purchasedGiftCardId");
+
+-- CreateIndex
+CREATE INDEX "refunds_refundedById_idx" ON "refunds"("refundedById");
+
+-- AddForeignKey
+ALTER TABLE "refunds" ADD CONSTRAINT "refunds_purchasedGiftCardId_fkey" FOREIGN KEY ("purchasedGiftCardId") REFERENCES "purchased_gift_cards"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "refunds" ADD CONSTRAINT "refunds_refundedById_fkey" FOREIGN KEY ("refundedById") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
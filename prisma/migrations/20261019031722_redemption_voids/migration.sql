@@ -0,0 +1,14 @@
+-- CreateEnum
+CREATE TYPE "RedemptionType" AS ENUM ('REDEMPTION', 'VOID');
+
+-- AlterTable
+ALTER TABLE "redemptions" ADD COLUMN     "reversalOfId" TEXT,
+ADD COLUMN     "type" "RedemptionType" NOT NULL DEFAULT 'REDEMPTION',
+ADD COLUMN     "voidReason" TEXT,
+ADD COLUMN     "voidedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "redemptions_reversalOfId_key" ON "redemptions"("reversalOfId");
+
+-- AddForeignKey
+ALTER TABLE "redemptions" ADD CONSTRAINT "redemptions_reversalOfId_fkey" FOREIGN KEY ("reversalOfId") REFERENCES "redemptions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,34 @@
+-- CreateEnum
+CREATE TYPE "LedgerEntryType" AS ENUM ('ISSUE', 'REDEEM', 'REFUND', 'VOID', 'EXPIRE', 'ADJUST');
+
+-- CreateEnum
+CREATE TYPE "LedgerAccount" AS ENUM ('GIFT_CARD', 'PAYMENTS', 'MERCHANT_REVENUE', 'REFUNDS', 'BREAKAGE', 'ADJUSTMENTS');
+
+-- CreateTable
+CREATE TABLE "ledger_entries" (
+    "id" TEXT NOT NULL,
+    "transactionId" TEXT NOT NULL,
+    "purchasedGiftCardId" TEXT NOT NULL,
+    "type" "LedgerEntryType" NOT NULL,
+    "account" "LedgerAccount" NOT NULL,
+    "amount" DECIMAL(10,2) NOT NULL,
+    "referenceType" TEXT,
+    "referenceId" TEXT,
+    "description" TEXT,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ledger_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ledger_entries_transactionId_idx" ON "ledger_entries"("transactionId");
+
+-- CreateIndex
+CREATE INDEX "ledger_entries_purchasedGiftCardId_account_idx" ON "ledger_entries"("purchasedGiftCardId", "account");
+
+-- CreateIndex
+CREATE INDEX "ledger_entries_type_createdAt_idx" ON "ledger_entries"("type", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "ledger_entries" ADD CONSTRAINT "ledger_entries_purchasedGiftCardId_fkey" FOREIGN KEY ("purchasedGiftCardId") REFERENCES "purchased_gift_cards"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'GIFT_CARDS_EXPIRED';
+
+-- AlterTable
+ALTER TABLE "notification_preferences" ADD COLUMN     "giftCardsExpired" BOOLEAN NOT NULL DEFAULT true;
@@ -0,0 +1,18 @@
+-- AlterTable
+ALTER TABLE "merchant_profiles" ADD COLUMN     "expiryReminderDays" INTEGER[] DEFAULT ARRAY[7]::INTEGER[];
+
+-- CreateTable
+CREATE TABLE "expiry_reminders" (
+    "id" TEXT NOT NULL,
+    "purchasedGiftCardId" TEXT NOT NULL,
+    "daysBefore" INTEGER NOT NULL,
+    "sentAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "expiry_reminders_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "expiry_reminders_purchasedGiftCardId_daysBefore_key" ON "expiry_reminders"("purchasedGiftCardId", "daysBefore");
+
+-- AddForeignKey
+ALTER TABLE "expiry_reminders" ADD CONSTRAINT "expiry_reminders_purchasedGiftCardId_fkey" FOREIGN KEY ("purchasedGiftCardId") REFERENCES "purchased_gift_cards"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "purchased_gift_cards" ADD COLUMN     "deliverAt" TIMESTAMP(3),
+ADD COLUMN     "personalMessage" TEXT,
+ADD COLUMN     "recipientEmail" TEXT,
+ADD COLUMN     "recipientName" TEXT;
+
+-- CreateIndex
+CREATE INDEX "purchased_gift_cards_recipientEmail_idx" ON "purchased_gift_cards"("recipientEmail");
@@ -0,0 +1,8 @@
+-- CreateEnum
+CREATE TYPE "GiftCardPricingType" AS ENUM ('FIXED', 'DENOMINATIONS', 'RANGE');
+
+-- AlterTable
+ALTER TABLE "gift_cards" ADD COLUMN     "denominations" DECIMAL(10,2)[],
+ADD COLUMN     "maxAmount" DECIMAL(10,2),
+ADD COLUMN     "minAmount" DECIMAL(10,2),
+ADD COLUMN     "pricingType" "GiftCardPricingType" NOT NULL DEFAULT 'FIXED';
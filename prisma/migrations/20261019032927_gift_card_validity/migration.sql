@@ -0,0 +1,7 @@
+-- CreateEnum
+CREATE TYPE "ValidityUnit" AS ENUM ('DAYS', 'MONTHS');
+
+-- AlterTable
+ALTER TABLE "gift_cards" ADD COLUMN     "salesStartDate" TIMESTAMP(3),
+ADD COLUMN     "validityUnit" "ValidityUnit",
+ADD COLUMN     "validityValue" INTEGER;
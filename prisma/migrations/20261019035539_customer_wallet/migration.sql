@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "purchased_gift_cards" ADD COLUMN     "claimedAt" TIMESTAMP(3),
+ADD COLUMN     "ownerId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "purchased_gift_cards_ownerId_idx" ON "purchased_gift_cards"("ownerId");
+
+-- AddForeignKey
+ALTER TABLE "purchased_gift_cards" ADD CONSTRAINT "purchased_gift_cards_ownerId_fkey" FOREIGN KEY ("ownerId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
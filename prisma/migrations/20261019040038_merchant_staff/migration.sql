@@ -0,0 +1,45 @@
+-- CreateEnum
+CREATE TYPE "StaffRole" AS ENUM ('OWNER', 'MANAGER', 'CASHIER');
+
+-- AlterEnum
+ALTER TYPE "Role" ADD VALUE 'STAFF';
+
+-- CreateTable
+CREATE TABLE "merchant_staff" (
+    "id" TEXT NOT NULL,
+    "merchantProfileId" TEXT NOT NULL,
+    "userId" TEXT,
+    "email" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "role" "StaffRole" NOT NULL DEFAULT 'CASHIER',
+    "invitedById" TEXT,
+    "inviteToken" TEXT,
+    "inviteExpiresAt" TIMESTAMP(3),
+    "acceptedAt" TIMESTAMP(3),
+    "removedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "merchant_staff_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "merchant_staff_userId_key" ON "merchant_staff"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "merchant_staff_inviteToken_key" ON "merchant_staff"("inviteToken");
+
+-- CreateIndex
+CREATE INDEX "merchant_staff_merchantProfileId_idx" ON "merchant_staff"("merchantProfileId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "merchant_staff_merchantProfileId_email_key" ON "merchant_staff"("merchantProfileId", "email");
+
+-- AddForeignKey
+ALTER TABLE "merchant_staff" ADD CONSTRAINT "merchant_staff_merchantProfileId_fkey" FOREIGN KEY ("merchantProfileId") REFERENCES "merchant_profiles"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "merchant_staff" ADD CONSTRAINT "merchant_staff_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "merchant_staff" ADD CONSTRAINT "merchant_staff_invitedById_fkey" FOREIGN KEY ("invitedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
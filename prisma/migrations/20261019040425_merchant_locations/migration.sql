@@ -0,0 +1,63 @@
+-- AlterTable
+ALTER TABLE "redemptions" ADD COLUMN     "locationId" TEXT;
+
+-- CreateTable
+CREATE TABLE "merchant_locations" (
+    "id" TEXT NOT NULL,
+    "merchantProfileId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "address" TEXT,
+    "city" TEXT,
+    "phone" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "merchant_locations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "_StaffLocations" (
+    "A" TEXT NOT NULL,
+    "B" TEXT NOT NULL,
+
+    CONSTRAINT "_StaffLocations_AB_pkey" PRIMARY KEY ("A","B")
+);
+
+-- CreateTable
+CREATE TABLE "_LocationGiftCards" (
+    "A" TEXT NOT NULL,
+    "B" TEXT NOT NULL,
+
+    CONSTRAINT "_LocationGiftCards_AB_pkey" PRIMARY KEY ("A","B")
+);
+
+-- CreateIndex
+CREATE INDEX "merchant_locations_merchantProfileId_idx" ON "merchant_locations"("merchantProfileId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "merchant_locations_merchantProfileId_name_key" ON "merchant_locations"("merchantProfileId", "name");
+
+-- CreateIndex
+CREATE INDEX "_StaffLocations_B_index" ON "_StaffLocations"("B");
+
+-- CreateIndex
+CREATE INDEX "_LocationGiftCards_B_index" ON "_LocationGiftCards"("B");
+
+-- AddForeignKey
+ALTER TABLE "merchant_locations" ADD CONSTRAINT "merchant_locations_merchantProfileId_fkey" FOREIGN KEY ("merchantProfileId") REFERENCES "merchant_profiles"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "redemptions" ADD CONSTRAINT "redemptions_locationId_fkey" FOREIGN KEY ("locationId") REFERENCES "merchant_locations"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_StaffLocations" ADD CONSTRAINT "_StaffLocations_A_fkey" FOREIGN KEY ("A") REFERENCES "merchant_locations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_StaffLocations" ADD CONSTRAINT "_StaffLocations_B_fkey" FOREIGN KEY ("B") REFERENCES "merchant_staff"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_LocationGiftCards" ADD CONSTRAINT "_LocationGiftCards_A_fkey" FOREIGN KEY ("A") REFERENCES "gift_cards"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_LocationGiftCards" ADD CONSTRAINT "_LocationGiftCards_B_fkey" FOREIGN KEY ("B") REFERENCES "merchant_locations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
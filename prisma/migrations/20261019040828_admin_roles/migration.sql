@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "AdminRole" AS ENUM ('SUPER_ADMIN', 'SUPPORT_AGENT');
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "adminRole" "AdminRole";
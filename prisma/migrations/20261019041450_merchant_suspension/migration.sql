@@ -0,0 +1,22 @@
+-- AlterEnum
+ALTER TYPE "ProfileStatus" ADD VALUE 'SUSPENDED';
+
+-- AlterEnum
+-- This migration adds more than one value to an enum.
+-- With PostgreSQL versions 11 and earlier, this is not possible
+-- in a single migration. This can be worked around by creating
+-- multiple migrations, each migration adding only one value to
+-- the enum.
+
+
+ALTER TYPE "NotificationType" ADD VALUE 'MERCHANT_SUSPENDED';
+ALTER TYPE "NotificationType" ADD VALUE 'MERCHANT_REINSTATED';
+
+-- AlterTable
+ALTER TABLE "merchant_profiles" ADD COLUMN     "redemptionsFrozen" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "suspendedAt" TIMESTAMP(3),
+ADD COLUMN     "suspendedById" TEXT,
+ADD COLUMN     "suspensionReason" TEXT;
+
+-- AddForeignKey
+ALTER TABLE "merchant_profiles" ADD CONSTRAINT "merchant_profiles_suspendedById_fkey" FOREIGN KEY ("suspendedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,17 @@
+-- Cards from before the ledger have no entries, so reconciliation flags all
+-- of them. Give each one an ISSUE transaction for the balance it holds now.
+WITH "opening" AS MATERIALIZED (
+    SELECT "id" AS "cardId", "currentBalance" AS "amount", gen_random_uuid()::text AS "transactionId"
+    FROM "purchased_gift_cards" AS "card"
+    WHERE "paymentStatus" = 'COMPLETED'
+      AND "currentBalance" > 0
+      AND NOT EXISTS (
+          SELECT 1 FROM "ledger_entries" WHERE "purchasedGiftCardId" = "card"."id"
+      )
+)
+INSERT INTO "ledger_entries" ("id", "transactionId", "purchasedGiftCardId", "type", "account", "amount", "referenceType", "description")
+SELECT gen_random_uuid()::text, "transactionId", "cardId", 'ISSUE'::"LedgerEntryType", 'GIFT_CARD'::"LedgerAccount", "amount", 'migration', 'Opening balance'
+FROM "opening"
+UNION ALL
+SELECT gen_random_uuid()::text, "transactionId", "cardId", 'ISSUE'::"LedgerEntryType", 'PAYMENTS'::"LedgerAccount", -"amount", 'migration', 'Opening balance'
+FROM "opening";
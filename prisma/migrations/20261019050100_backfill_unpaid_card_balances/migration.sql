@@ -0,0 +1,6 @@
+-- Unpaid cards used to be created with their full balance. The payment
+-- webhook now issues it, so clear anything still sitting on them.
+UPDATE "purchased_gift_cards"
+SET "currentBalance" = 0
+WHERE "paymentStatus" IN ('PENDING', 'FAILED')
+  AND "currentBalance" <> 0;
@@ -0,0 +1,18 @@
+-- Emails are now lowercased on the way in and matched exactly. Bring older
+-- rows in line. Addresses that differ only by case fail the unique indexes on
+-- users and merchant_staff - merge those rows by hand before deploying.
+UPDATE "users"
+SET "email" = LOWER(TRIM("email"))
+WHERE "email" <> LOWER(TRIM("email"));
+
+UPDATE "merchant_staff"
+SET "email" = LOWER(TRIM("email"))
+WHERE "email" <> LOWER(TRIM("email"));
+
+UPDATE "purchased_gift_cards"
+SET "customerEmail" = LOWER(TRIM("customerEmail"))
+WHERE "customerEmail" <> LOWER(TRIM("customerEmail"));
+
+UPDATE "purchased_gift_cards"
+SET "recipientEmail" = LOWER(TRIM("recipientEmail"))
+WHERE "recipientEmail" <> LOWER(TRIM("recipientEmail"));
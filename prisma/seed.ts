@@ -24,6 +24,7 @@ async function main() {
       password: hashedPassword,
       name: 'Super Admin',
       role: 'ADMIN',
+      adminRole: 'SUPER_ADMIN',
       emailVerified: true,
       isActive: true,
     },
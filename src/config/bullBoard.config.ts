@@ -4,6 +4,7 @@ import { ExpressAdapter } from '@bull-board/express';
 import { activityLogQueue } from '../queues/activityLog.queue';
 import { emailQueue } from '../queues/email.queue';
 import { notificationQueue  } from '../queues/notification.queue';
+import { expiryQueue } from '../queues/expiry.queue';
 
 export const serverAdapter = new ExpressAdapter();
 serverAdapter.setBasePath('/admin/queues');
@@ -13,6 +14,7 @@ createBullBoard({
     new BullMQAdapter(activityLogQueue),
     new BullMQAdapter(emailQueue),
     new BullMQAdapter(notificationQueue),
+    new BullMQAdapter(expiryQueue),
 
   ],
   serverAdapter: serverAdapter,
@@ -0,0 +1,48 @@
+// Actions that can be held back until a user confirms their email address
+export const EMAIL_VERIFICATION_ACTIONS = [
+  'complete_profile', // Submit the merchant profile for admin review
+  'manage_gift_cards', // Create, update or delete gift cards
+  'redeem', // Redeem or void redemptions
+  'refund', // Refund purchases
+] as const;
+
+export type EmailVerificationAction = (typeof EMAIL_VERIFICATION_ACTIONS)[number];
+
+// Accounts created before verification existed were never verified, so only
+// gate the step new merchants take before admin review by default
+const DEFAULT_REQUIRED_ACTIONS = 'complete_profile';
+
+/**
+ * EMAIL_VERIFICATION_REQUIRED_FOR is a comma-separated list of actions,
+ * or "all" / "none". Unverified users can always log in and browse.
+ */
+const parseRequiredActions = (value = DEFAULT_REQUIRED_ACTIONS): Set<EmailVerificationAction> => {
+  if (value.trim() === 'all') {
+    return new Set(EMAIL_VERIFICATION_ACTIONS);
+  }
+
+  if (value.trim() === 'none') {
+    return new Set();
+  }
+
+  const actions = value.split(',').map((action) => action.trim());
+  const unknown = actions.filter(
+    (action) => !EMAIL_VERIFICATION_ACTIONS.includes(action as EmailVerificationAction)
+  );
+
+  if (unknown.length > 0) {
+    throw new Error(`Unknown EMAIL_VERIFICATION_REQUIRED_FOR action(s): ${unknown.join(', ')}`);
+  }
+
+  return new Set(actions as EmailVerificationAction[]);
+};
+
+export const emailVerificationConfig = {
+  requiredFor: parseRequiredActions(process.env.EMAIL_VERIFICATION_REQUIRED_FOR),
+  tokenTtlHours: parseInt(process.env.EMAIL_VERIFICATION_TTL_HOURS || '24', 10),
+
+  // Throttling for the resend endpoint
+  resendCooldownSeconds: 60,
+  resendLimit: 5,
+  resendWindowSeconds: 60 * 60,
+};
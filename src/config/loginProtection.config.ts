@@ -0,0 +1,24 @@
+const intFromEnv = (value: string | undefined, fallback: number) => {
+  const parsed = parseInt(value ?? '', 10);
+  return Number.isNaN(parsed) ? fallback : parsed;
+};
+
+export const loginProtectionConfig = {
+  // Failures are counted within a rolling window that restarts on the first failure
+  failureWindowSeconds: intFromEnv(process.env.LOGIN_FAILURE_WINDOW_SECONDS, 15 * 60),
+
+  // Per IP - reaching this blocks the IP without locking anyone out
+  maxIpFailures: intFromEnv(process.env.LOGIN_MAX_IP_FAILURES, 20),
+
+  // Per account - failing from this many different IPs locks it. A single IP
+  // only ever slows itself down, so it can't lock someone else out.
+  maxAccountFailingIps: intFromEnv(process.env.LOGIN_MAX_ACCOUNT_FAILING_IPS, 5),
+  lockoutSeconds: intFromEnv(process.env.LOGIN_LOCKOUT_SECONDS, 15 * 60),
+
+  // Delay before the next attempt from the same IP at the same account,
+  // doubling with every failure: 1s after the 2nd, 2s after the 3rd, 4s after
+  // the 4th... up to the cap
+  delayAfterFailures: 2,
+  baseDelayMs: 1000,
+  maxDelayMs: 5 * 60 * 1000,
+};
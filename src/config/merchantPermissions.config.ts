@@ -0,0 +1,34 @@
+import { StaffRole } from '@prisma/client';
+
+// Actions inside a merchant's business that can be delegated to staff
+export const MERCHANT_PERMISSIONS = [
+  'redemptions:create', // Scan and redeem gift cards
+  'redemptions:read', // Own redemption history
+  'redemptions:read_all', // Every redemption for the merchant
+  'redemptions:void', // Void a mis-keyed redemption
+  'purchases:refund', // Refund purchased cards
+  'staff:manage', // Invite, change and remove staff
+  'locations:read', // See the merchant's locations
+  'locations:manage', // Add, edit and close locations; assign staff to them
+] as const;
+
+export type MerchantPermission = (typeof MERCHANT_PERMISSIONS)[number];
+
+// The merchant account itself is always OWNER
+export const STAFF_ROLE_PERMISSIONS: Record<StaffRole, readonly MerchantPermission[]> = {
+  OWNER: MERCHANT_PERMISSIONS,
+  MANAGER: [
+    'redemptions:create',
+    'redemptions:read',
+    'redemptions:read_all',
+    'redemptions:void',
+    'purchases:refund',
+    'locations:read',
+    'locations:manage',
+  ],
+  CASHIER: ['redemptions:create', 'redemptions:read', 'locations:read'],
+};
+
+export const staffInviteConfig = {
+  ttlDays: 7,
+};
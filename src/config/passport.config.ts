@@ -1,6 +1,20 @@
 import passport from 'passport';
 import { Strategy as GoogleStrategy } from 'passport-google-oauth20';
 import prisma from '../utils/prisma.util';
+import { OAuthIntent, OAuthService } from '../services/oauth.service';
+
+declare module 'express-session' {
+  interface SessionData {
+    oauthIntent?: OAuthIntent;
+  }
+}
+
+export const isGoogleConfigured = () =>
+  !!(process.env.GOOGLE_CLIENT_ID && process.env.GOOGLE_CLIENT_SECRET && process.env.GOOGLE_CALLBACK_URL);
+
+// The mock provider signs in as any email, so it takes an explicit opt-in and never runs in production
+export const isMockOAuthEnabled = () =>
+  process.env.OAUTH_MOCK_ENABLED === 'true' && process.env.NODE_ENV !== 'production';
 
 export const configurePassport = () => {
   // Serialize user for session
@@ -20,75 +34,46 @@ export const configurePassport = () => {
     }
   });
 
-  // Google OAuth Strategy
-  // passport.use(
-  //   new GoogleStrategy(
-  //     {
-  //       clientID: process.env.GOOGLE_CLIENT_ID!,
-  //       clientSecret: process.env.GOOGLE_CLIENT_SECRET!,
-  //       callbackURL: process.env.GOOGLE_CALLBACK_URL!,
-  //     },
-  //     async (accessToken, refreshToken, profile, done) => {
-  //       try {
-  //         // Check if user exists with Google ID
-  //         let user = await prisma.user.findUnique({
-  //           where: { googleId: profile.id },
-  //           include: { merchantProfile: true },
-  //         });
+  // Google OAuth Strategy - only registered when credentials are configured
+  if (!isGoogleConfigured()) return;
 
-  //         if (user) {
-  //           // User exists, update last login
-  //           user = await prisma.user.update({
-  //             where: { id: user.id },
-  //             data: { lastLogin: new Date() },
-  //             include: { merchantProfile: true },
-  //           });
-  //           return done(null, user);
-  //         }
+  passport.use(
+    new GoogleStrategy(
+      {
+        clientID: process.env.GOOGLE_CLIENT_ID!,
+        clientSecret: process.env.GOOGLE_CLIENT_SECRET!,
+        callbackURL: process.env.GOOGLE_CALLBACK_URL!,
+        passReqToCallback: true,
+      },
+      async (req, accessToken, refreshToken, profile, done) => {
+        try {
+          const email = profile.emails?.[0];
 
-  //         // Check if user exists with the same email
-  //         const existingUserByEmail = await prisma.user.findUnique({
-  //           where: { email: profile.emails?.[0]?.value },
-  //         });
+          const result = await OAuthService.resolveUser(
+            {
+              provider: 'google',
+              providerId: profile.id,
+              email: email?.value,
+              emailVerified: email?.verified === true || profile._json.email_verified === true,
+              name: profile.displayName || email?.value || 'Google user',
+              avatar: profile.photos?.[0]?.value,
+            },
+            req.session.oauthIntent
+          );
 
-  //         if (existingUserByEmail) {
-  //           // Link Google account to existing user
-  //           user = await prisma.user.update({
-  //             where: { id: existingUserByEmail.id },
-  //             data: {
-  //               googleId: profile.id,
-  //               provider: 'google',
-  //               avatar: profile.photos?.[0]?.value,
-  //               emailVerified: true,
-  //               lastLogin: new Date(),
-  //             },
-  //             include: { merchantProfile: true },
-  //           });
-  //           return done(null, user);
-  //         }
+          delete req.session.oauthIntent;
 
-  //         // Create new user
-  //         user = await prisma.user.create({
-  //           data: {
-  //             email: profile.emails?.[0]?.value || '',
-  //             name: profile.displayName,
-  //             googleId: profile.id,
-  //             provider: 'google',
-  //             avatar: profile.photos?.[0]?.value,
-  //             emailVerified: true,
-  //             role: 'USER', // Default role for Google sign-in
-  //             lastLogin: new Date(),
-  //           },
-  //           include: { merchantProfile: true },
-  //         });
+          if (!result.user) {
+            return done(null, false, { message: result.reason });
+          }
 
-  //         done(null, user);
-  //       } catch (error) {
-  //         done(error as Error, undefined);
-  //       }
-  //     }
-  //   )
-  // );
+          done(null, { ...result.user, isNewUser: result.isNewUser });
+        } catch (error) {
+          done(error as Error, undefined);
+        }
+      }
+    )
+  );
 };
 
 export default passport;
\ No newline at end of file
@@ -0,0 +1,134 @@
+import { AdminRole } from '@prisma/client';
+import { MERCHANT_PERMISSIONS, MerchantPermission } from './merchantPermissions.config';
+
+// Platform-level actions. Actions inside a merchant's business live in
+// merchantPermissions.config and are delegated per staff role.
+export const PLATFORM_PERMISSIONS = [
+  'account:2fa', // Manage own two-factor authentication
+  'wallet:read', // Own gift card wallet
+  'wallet:claim', // Claim cards sent to own email
+  'purchases:read', // Look up purchases by customer email - own email only...
+  'purchases:read_any', // ...unless this is held too
+  'merchant_profile:read', // Own merchant profile
+  'merchant_profile:update', // Edit own merchant profile
+  'merchant_profile:submit', // Complete or resubmit own profile for verification
+  'giftcard:read', // Own gift cards
+  'giftcard:create',
+  'giftcard:update',
+  'giftcard:delete',
+  'ledger:read', // Ledger of own gift card purchases
+  'ledger:read_all', // Ledger of any purchase
+  'ledger:reconcile',
+  'ledger:backfill',
+  'ledger:adjust', // Manual balance adjustments
+  'notifications:read',
+  'merchant:read', // Browse all merchants
+  'merchant:create',
+  'merchant:verify',
+  'merchant:suspend', // Suspend and reinstate
+  'merchant:delete',
+  'users:read', // Browse and search all accounts
+  'users:manage', // Create accounts, change roles, deactivate and reactivate
+  'users:unlock', // Lift login lockouts
+  'users:2fa_reset', // Reset someone's two-factor
+  'users:2fa_enforce', // Require two-factor for someone
+  'logs:read', // Activity logs
+] as const;
+
+export type PlatformPermission = (typeof PLATFORM_PERMISSIONS)[number];
+export type Permission = PlatformPermission | MerchantPermission;
+
+export const ALL_PERMISSIONS: readonly Permission[] = [...PLATFORM_PERMISSIONS, ...MERCHANT_PERMISSIONS];
+
+// User.role, with ADMIN split by User.adminRole
+export type AccessRole = 'USER' | 'MERCHANT' | 'STAFF' | AdminRole;
+
+/**
+ * Everything a role can do. MERCHANT entries are cut back until the profile
+ * is complete / verified (see below); STAFF add their staff role's merchant
+ * permissions on top.
+ */
+export const ROLE_PERMISSIONS: Record<AccessRole, readonly Permission[]> = {
+  USER: ['wallet:read', 'wallet:claim', 'purchases:read'],
+  MERCHANT: [
+    'account:2fa',
+    'merchant_profile:read',
+    'merchant_profile:update',
+    'merchant_profile:submit',
+    'giftcard:read',
+    'giftcard:create',
+    'giftcard:update',
+    'giftcard:delete',
+    'ledger:read',
+    'notifications:read',
+    ...MERCHANT_PERMISSIONS,
+  ],
+  STAFF: ['account:2fa'],
+  SUPPORT_AGENT: [
+    'account:2fa',
+    'notifications:read',
+    'purchases:read',
+    'purchases:read_any',
+    'ledger:read',
+    'ledger:read_all',
+    'merchant:read',
+    'users:read',
+    'users:unlock',
+    'users:2fa_reset',
+    'logs:read',
+  ],
+  SUPER_ADMIN: [
+    'account:2fa',
+    'notifications:read',
+    'purchases:read',
+    'purchases:read_any',
+    'purchases:refund',
+    'ledger:read',
+    'ledger:read_all',
+    'ledger:reconcile',
+    'ledger:backfill',
+    'ledger:adjust',
+    'merchant:read',
+    'merchant:create',
+    'merchant:verify',
+    'merchant:suspend',
+    'merchant:delete',
+    'users:read',
+    'users:manage',
+    'users:unlock',
+    'users:2fa_reset',
+    'users:2fa_enforce',
+    'logs:read',
+  ],
+};
+
+// Merchants only get these once their profile has been submitted...
+export const COMPLETE_PROFILE_PERMISSIONS: readonly Permission[] = [
+  'merchant_profile:update',
+  'giftcard:read',
+];
+
+// ...and these once an admin has verified it
+export const VERIFIED_MERCHANT_PERMISSIONS: readonly Permission[] = [
+  'giftcard:create',
+  'giftcard:update',
+  'giftcard:delete',
+  'ledger:read',
+  'redemptions:create',
+  'redemptions:read',
+  'redemptions:read_all',
+  'redemptions:void',
+  'purchases:refund',
+  'staff:manage',
+  'locations:manage',
+];
+
+// Suspended merchants keep the verified set, minus selling. Cards customers
+// already hold are still honored unless redemptions are frozen too.
+export const SUSPENDED_MERCHANT_BLOCKED_PERMISSIONS: readonly Permission[] = [
+  'giftcard:create',
+  'giftcard:update',
+];
+
+export const isMerchantPermission = (permission: Permission): permission is MerchantPermission =>
+  (MERCHANT_PERMISSIONS as readonly string[]).includes(permission);
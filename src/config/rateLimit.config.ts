@@ -0,0 +1,65 @@
+// Callers are bucketed by who they are - anonymous callers are keyed by IP,
+// everyone else by user id
+export const RATE_LIMIT_TIERS = ['anonymous', 'user', 'merchant', 'admin'] as const;
+
+export type RateLimitTier = (typeof RATE_LIMIT_TIERS)[number];
+
+export interface RateLimitBucket {
+  windowSeconds: number;
+  limits: Record<RateLimitTier, number>;
+}
+
+export type RateLimitBucketName = 'api' | 'qrLookup' | 'customerLookup';
+
+const DEFAULT_BUCKETS: Record<RateLimitBucketName, RateLimitBucket> = {
+  // Applied to every /api request
+  api: {
+    windowSeconds: 60,
+    limits: { anonymous: 120, user: 300, merchant: 600, admin: 1200 },
+  },
+
+  // QR codes are bearer secrets - keep guessing slow. Merchants scan at the counter.
+  qrLookup: {
+    windowSeconds: 60,
+    limits: { anonymous: 20, user: 30, merchant: 120, admin: 300 },
+  },
+
+  // Purchase history by email - an easy target for scraping
+  customerLookup: {
+    windowSeconds: 15 * 60,
+    limits: { anonymous: 10, user: 10, merchant: 30, admin: 100 },
+  },
+};
+
+/**
+ * RATE_LIMIT_<BUCKET> overrides a bucket's limits, e.g.
+ * RATE_LIMIT_QR_LOOKUP="anonymous=10,merchant=200". Unlisted tiers keep their defaults.
+ */
+const parseOverrides = (name: string, bucket: RateLimitBucket): RateLimitBucket => {
+  const envName = `RATE_LIMIT_${name.replace(/([A-Z])/g, '_$1').toUpperCase()}`;
+  const value = process.env[envName];
+
+  if (!value) return bucket;
+
+  const limits = { ...bucket.limits };
+
+  for (const entry of value.split(',')) {
+    const [tier, limit] = entry.split('=').map((part) => part.trim());
+    const parsed = parseInt(limit, 10);
+
+    if (!RATE_LIMIT_TIERS.includes(tier as RateLimitTier) || Number.isNaN(parsed)) {
+      throw new Error(`${envName} must look like "anonymous=60,merchant=300" (got "${entry}")`);
+    }
+
+    limits[tier as RateLimitTier] = parsed;
+  }
+
+  return { ...bucket, limits };
+};
+
+export const rateLimitConfig = {
+  enabled: process.env.RATE_LIMIT_ENABLED !== 'false',
+  buckets: Object.fromEntries(
+    Object.entries(DEFAULT_BUCKETS).map(([name, bucket]) => [name, parseOverrides(name, bucket)])
+  ) as Record<RateLimitBucketName, RateLimitBucket>,
+};
@@ -102,7 +102,7 @@ const options: swaggerJsdoc.Options = {
             // Status
             profileStatus: {
               type: "string",
-              enum: ["INCOMPLETE", "PENDING_VERIFICATION", "VERIFIED", "REJECTED"],
+              enum: ["INCOMPLETE", "PENDING_VERIFICATION", "VERIFIED", "REJECTED", "SUSPENDED"],
               example: "VERIFIED",
             },
             isVerified: { type: "boolean", example: true },
@@ -111,9 +111,23 @@ const options: swaggerJsdoc.Options = {
             verificationNotes: { type: "string", nullable: true },
             rejectionReason: { type: "string", nullable: true },
             rejectedAt: { type: "string", format: "date-time", nullable: true },
+            suspensionReason: { type: "string", nullable: true },
+            suspendedAt: { type: "string", format: "date-time", nullable: true },
+            suspendedById: { type: "string", format: "uuid", nullable: true },
+            redemptionsFrozen: {
+              type: "boolean",
+              description: "While suspended, outstanding gift cards can't be redeemed either",
+              example: false,
+            },
             // Additional
             description: { type: "string", nullable: true },
             logo: { type: "string", nullable: true },
+            expiryReminderDays: {
+              type: "array",
+              items: { type: "integer" },
+              description: "Days before expiry to email gift card holders",
+              example: [7],
+            },
             // Timestamps
             createdAt: { type: "string", format: "date-time" },
             updatedAt: { type: "string", format: "date-time" },
@@ -130,8 +144,32 @@ const options: swaggerJsdoc.Options = {
             merchantId: { type: "string", format: "uuid" },
             title: { type: "string", example: "Holiday Gift Card" },
             description: { type: "string", nullable: true },
-            price: { type: "number", format: "decimal", example: 50.0 },
-            expiryDate: { type: "string", format: "date-time" },
+            pricingType: {
+              type: "string",
+              enum: ["FIXED", "DENOMINATIONS", "RANGE"],
+              example: "FIXED",
+            },
+            price: {
+              type: "number",
+              format: "decimal",
+              example: 50.0,
+              description: "Fixed price, or the lowest purchasable amount",
+            },
+            denominations: {
+              type: "array",
+              items: { type: "number", format: "decimal" },
+              example: [],
+            },
+            minAmount: { type: "number", format: "decimal", nullable: true },
+            maxAmount: { type: "number", format: "decimal", nullable: true },
+            salesStartDate: { type: "string", format: "date-time", nullable: true },
+            expiryDate: {
+              type: "string",
+              format: "date-time",
+              description: "End of the sales window; also the card expiry when no validity period is set",
+            },
+            validityValue: { type: "integer", nullable: true, example: 12 },
+            validityUnit: { type: "string", enum: ["DAYS", "MONTHS"], nullable: true },
             isActive: { type: "boolean", example: true },
             createdAt: { type: "string", format: "date-time" },
             updatedAt: { type: "string", format: "date-time" },
@@ -147,6 +185,10 @@ const options: swaggerJsdoc.Options = {
             customerName: { type: "string", example: "Jane Smith" },
             customerEmail: { type: "string", format: "email" },
             customerPhone: { type: "string" },
+            recipientName: { type: "string", nullable: true },
+            recipientEmail: { type: "string", format: "email", nullable: true },
+            personalMessage: { type: "string", nullable: true },
+            deliverAt: { type: "string", format: "date-time", nullable: true },
             purchaseAmount: { type: "number", format: "decimal", example: 50.0 },
             currentBalance: { type: "number", format: "decimal", example: 35.0 },
             status: {
@@ -160,7 +202,9 @@ const options: swaggerJsdoc.Options = {
               example: "COMPLETED",
             },
             paymentMethod: { type: "string", nullable: true },
-            transactionId: { type: "string", nullable: true },
+            paymentProvider: { type: "string", nullable: true, example: "local" },
+            transactionId: { type: "string", nullable: true, description: "Provider payment id" },
+            paidAt: { type: "string", format: "date-time", nullable: true },
             purchasedAt: { type: "string", format: "date-time" },
             expiresAt: { type: "string", format: "date-time" },
             lastUsedAt: { type: "string", format: "date-time", nullable: true },
@@ -176,6 +220,7 @@ const options: swaggerJsdoc.Options = {
             amount: { type: "number", format: "decimal", example: 15.0 },
             balanceBefore: { type: "number", format: "decimal", example: 50.0 },
             balanceAfter: { type: "number", format: "decimal", example: 35.0 },
+            locationId: { type: "string", format: "uuid", nullable: true },
             locationName: { type: "string", nullable: true },
             locationAddress: { type: "string", nullable: true },
             notes: { type: "string", nullable: true },
@@ -195,6 +240,28 @@ const options: swaggerJsdoc.Options = {
           },
         },
 
+        Session: {
+          type: "object",
+          properties: {
+            id: { type: "string", format: "uuid" },
+            deviceName: { type: "string", nullable: true, example: "Chrome on macOS" },
+            userAgent: { type: "string", nullable: true },
+            ipAddress: { type: "string", nullable: true },
+            createdAt: { type: "string", format: "date-time" },
+            lastActiveAt: { type: "string", format: "date-time" },
+            expiresAt: { type: "string", format: "date-time" },
+            current: { type: "boolean" },
+          },
+        },
+
+        TwoFactorCodeRequest: {
+          type: "object",
+          required: ["code"],
+          properties: {
+            code: { type: "string", example: "123456", description: "6-digit authenticator code" },
+          },
+        },
+
         RegisterRequest: {
           type: "object",
           required: ["email", "password", "name"],
@@ -310,18 +377,53 @@ const options: swaggerJsdoc.Options = {
             description: { type: "string", example: "Updated business description" },
             website: { type: "string", example: "https://newwebsite.com" },
             logo: { type: "string", example: "https://example.com/logo.png" },
+            expiryReminderDays: {
+              type: "array",
+              items: { type: "integer", minimum: 1, maximum: 90 },
+              maxItems: 5,
+              example: [30, 7, 1],
+            },
           },
         },
 
         // Gift Card Requests
         CreateGiftCardRequest: {
           type: "object",
-          required: ["title", "price", "expiryDate"],
+          required: ["title", "expiryDate"],
           properties: {
             title: { type: "string", example: "Holiday Special Gift Card" },
             description: { type: "string", example: "Perfect gift for the holidays" },
-            price: { type: "number", format: "decimal", example: 50.0 },
+            pricingType: {
+              type: "string",
+              enum: ["FIXED", "DENOMINATIONS", "RANGE"],
+              default: "FIXED",
+            },
+            price: {
+              type: "number",
+              format: "decimal",
+              example: 50.0,
+              description: "Required for FIXED",
+            },
+            denominations: {
+              type: "array",
+              items: { type: "number", format: "decimal" },
+              example: [25, 50, 100],
+              description: "Required for DENOMINATIONS",
+            },
+            minAmount: { type: "number", format: "decimal", description: "Required for RANGE" },
+            maxAmount: { type: "number", format: "decimal", description: "Required for RANGE" },
+            salesStartDate: {
+              type: "string",
+              format: "date-time",
+              description: "Card can't be bought before this date",
+            },
             expiryDate: { type: "string", format: "date-time" },
+            validityValue: {
+              type: "integer",
+              example: 12,
+              description: "Purchased cards expire this long after purchase. Requires validityUnit",
+            },
+            validityUnit: { type: "string", enum: ["DAYS", "MONTHS"] },
           },
         },
 
@@ -334,6 +436,20 @@ const options: swaggerJsdoc.Options = {
             customerEmail: { type: "string", format: "email", example: "jane@example.com" },
             customerPhone: { type: "string", example: "+1234567890" },
             paymentMethod: { type: "string", example: "card" },
+            amount: {
+              type: "number",
+              format: "decimal",
+              example: 50.0,
+              description: "Required for DENOMINATIONS and RANGE gift cards",
+            },
+            recipientName: { type: "string", example: "Alex Smith" },
+            recipientEmail: { type: "string", format: "email", example: "alex@example.com" },
+            personalMessage: { type: "string", maxLength: 500, example: "Happy birthday!" },
+            deliverAt: {
+              type: "string",
+              format: "date-time",
+              description: "When to email the gift card to the recipient (defaults to on payment)",
+            },
           },
         },
 
@@ -343,12 +459,32 @@ const options: swaggerJsdoc.Options = {
           properties: {
             qrCode: { type: "string", example: "GC-ABC123XYZ" },
             amount: { type: "number", format: "decimal", example: 15.0 },
-            locationName: { type: "string", example: "Main Store" },
+            locationId: {
+              type: "string",
+              format: "uuid",
+              description: "Configured location. Staff assigned to one location default to it.",
+            },
+            locationName: { type: "string", example: "Main Store", description: "Free text, used when no locationId is given" },
             locationAddress: { type: "string", example: "123 Main St" },
             notes: { type: "string", example: "Coffee purchase" },
           },
         },
 
+        LocationInput: {
+          type: "object",
+          properties: {
+            name: { type: "string", example: "Downtown Store" },
+            address: { type: "string", example: "123 Main St" },
+            city: { type: "string", example: "Mumbai" },
+            phone: { type: "string" },
+            giftCardIds: {
+              type: "array",
+              items: { type: "string", format: "uuid" },
+              description: "Gift cards redeemable here. Empty or omitted = all.",
+            },
+          },
+        },
+
         // ==================== Response Schemas ====================
         SuccessResponse: {
           type: "object",
@@ -520,8 +656,13 @@ const options: swaggerJsdoc.Options = {
     },
     tags: [
       { name: "Auth", description: "Authentication endpoints (login, register, OAuth)" },
+      { name: "Sessions", description: "Signed-in devices and session revocation" },
+      { name: "Two-Factor", description: "TOTP two-factor enrollment and admin enforcement" },
       { name: "Merchants - Self Service", description: "Merchant self-service endpoints (profile, resubmit)" },
-      { name: "Merchants - Admin", description: "Admin merchant management (create, verify, delete)" },
+      { name: "Merchants - Staff", description: "Merchant team invites and staff roles (owner, manager, cashier)" },
+      { name: "Merchants - Locations", description: "Merchant stores, their accepted gift cards and staff assignment" },
+      { name: "Merchants - Admin", description: "Admin merchant management (create, verify, suspend, delete)" },
+      { name: "Admin - Users", description: "Admin account management (search, roles, deactivation)" },
       { name: "Gift Cards", description: "Gift card CRUD operations" },
       { name: "Purchases", description: "Gift card purchase and redemption" },
     ],
@@ -0,0 +1,33 @@
+import { Role } from '@prisma/client';
+
+// Roles that can enroll in two-factor authentication
+export const TWO_FACTOR_ROLES: Role[] = ['MERCHANT', 'STAFF', 'ADMIN'];
+
+/**
+ * TWO_FACTOR_REQUIRED_ROLES is a comma-separated list of roles that must
+ * enroll before using the API. Admins can also require it per user.
+ */
+const parseRequiredRoles = (value = ''): Set<Role> => {
+  const roles = value
+    .split(',')
+    .map((role) => role.trim().toUpperCase())
+    .filter(Boolean);
+
+  const unknown = roles.filter((role) => !TWO_FACTOR_ROLES.includes(role as Role));
+  if (unknown.length > 0) {
+    throw new Error(`TWO_FACTOR_REQUIRED_ROLES can only include ${TWO_FACTOR_ROLES.join(', ')}`);
+  }
+
+  return new Set(roles as Role[]);
+};
+
+export const twoFactorConfig = {
+  issuer: process.env.TWO_FACTOR_ISSUER || 'THNX Digital',
+  requiredRoles: parseRequiredRoles(process.env.TWO_FACTOR_REQUIRED_ROLES),
+  recoveryCodeCount: 10,
+
+  // Second step of login
+  challengeTtlSeconds: 5 * 60,
+  maxAttempts: 5,
+  attemptWindowSeconds: 5 * 60,
+};
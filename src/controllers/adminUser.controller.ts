@@ -0,0 +1,315 @@
+import { Request, Response } from 'express';
+import {
+  createUserSchema,
+  deactivateUserSchema,
+  listUsersQuerySchema,
+  updateUserSchema,
+} from '../validators/adminUser.validator';
+import { ActivityLogger } from '../services/activityLog.service';
+import { AdminUserService } from '../services/adminUser.service';
+
+interface AuthenticatedRequest extends Request {
+  authUser?: {
+    userId: string;
+    email: string;
+    role: string;
+    isVerified: boolean;
+    profileStatus?: string;
+  };
+}
+
+/**
+ * @route   GET /api/admin/users
+ * @desc    Search and filter all accounts
+ * @access  Admin (users:read)
+ */
+export const listUsers = async (req: Request, res: Response) => {
+  try {
+    const query = listUsersQuerySchema.parse(req.query);
+
+    const { users, total } = await AdminUserService.list(query);
+
+    return res.status(200).json({
+      success: true,
+      data: {
+        users,
+        pagination: {
+          total,
+          page: query.page,
+          limit: query.limit,
+          totalPages: Math.ceil(total / query.limit),
+        },
+      },
+    });
+  } catch (error: any) {
+    console.error('List users error:', error);
+
+    if (error.name === 'ZodError') {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.errors,
+      });
+    }
+
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error.message,
+    });
+  }
+};
+
+/**
+ * @route   GET /api/admin/users/:userId
+ * @desc    Account details, including business links and active sessions
+ * @access  Admin (users:read)
+ */
+export const getUser = async (req: Request, res: Response) => {
+  try {
+    const user = await AdminUserService.find(req.params.userId);
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found',
+      });
+    }
+
+    return res.status(200).json({
+      success: true,
+      data: { user },
+    });
+  } catch (error: any) {
+    console.error('Get user error:', error);
+
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error.message,
+    });
+  }
+};
+
+/**
+ * @route   POST /api/admin/users
+ * @desc    Create a customer or admin account
+ * @access  Admin (users:manage)
+ */
+export const createUser = async (req: Request, res: Response) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const adminId = authReq.authUser!.userId;
+
+    const validatedData = createUserSchema.parse(req.body);
+
+    const result = await AdminUserService.create(validatedData, adminId);
+
+    if (result.error !== undefined) {
+      return res.status(result.status).json({
+        success: false,
+        message: result.error,
+      });
+    }
+
+    ActivityLogger.userCreated(result.data.id, result.data.email, adminId, req);
+
+    return res.status(201).json({
+      success: true,
+      message: 'User created successfully',
+      data: { user: result.data },
+    });
+  } catch (error: any) {
+    console.error('Create user error:', error);
+
+    if (error.name === 'ZodError') {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.errors,
+      });
+    }
+
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error.message,
+    });
+  }
+};
+
+/**
+ * @route   PATCH /api/admin/users/:userId
+ * @desc    Update details or change role / admin scope
+ * @access  Admin (users:manage)
+ */
+export const updateUser = async (req: Request, res: Response) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const adminId = authReq.authUser!.userId;
+
+    const validatedData = updateUserSchema.parse(req.body);
+
+    const target = await AdminUserService.find(req.params.userId);
+
+    if (!target) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found',
+      });
+    }
+
+    const result = await AdminUserService.update(target, validatedData, adminId);
+
+    if (result.error !== undefined) {
+      return res.status(result.status).json({
+        success: false,
+        message: result.error,
+      });
+    }
+
+    const { user, from, to } = result.data;
+
+    if (from.role !== to.role || from.adminRole !== to.adminRole) {
+      ActivityLogger.userRoleChanged(user.id, from, to, adminId, req);
+    }
+
+    const changes: Record<string, any> = {};
+    if (validatedData.name !== undefined && validatedData.name !== target.name) {
+      changes.name = { from: target.name, to: validatedData.name };
+    }
+    if (validatedData.phone !== undefined && validatedData.phone !== target.phone) {
+      changes.phone = { from: target.phone, to: validatedData.phone };
+    }
+    if (Object.keys(changes).length > 0) {
+      ActivityLogger.userUpdated(user.id, adminId, changes, req);
+    }
+
+    return res.status(200).json({
+      success: true,
+      message: 'User updated successfully',
+      data: { user },
+    });
+  } catch (error: any) {
+    console.error('Update user error:', error);
+
+    if (error.name === 'ZodError') {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.errors,
+      });
+    }
+
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error.message,
+    });
+  }
+};
+
+/**
+ * @route   POST /api/admin/users/:userId/deactivate
+ * @desc    Block sign-in and revoke every session
+ * @access  Admin (users:manage)
+ */
+export const deactivateUser = async (req: Request, res: Response) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const adminId = authReq.authUser!.userId;
+
+    const validatedData = deactivateUserSchema.parse(req.body ?? {});
+
+    const target = await AdminUserService.find(req.params.userId);
+
+    if (!target) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found',
+      });
+    }
+
+    const result = await AdminUserService.deactivate(target, adminId);
+
+    if (result.error !== undefined) {
+      return res.status(result.status).json({
+        success: false,
+        message: result.error,
+      });
+    }
+
+    ActivityLogger.userDeactivated(target.id, adminId, req, {
+      reason: validatedData.reason,
+      revokedSessions: result.data,
+    });
+
+    return res.status(200).json({
+      success: true,
+      message: 'User deactivated successfully',
+      data: { userId: target.id, revokedSessions: result.data },
+    });
+  } catch (error: any) {
+    console.error('Deactivate user error:', error);
+
+    if (error.name === 'ZodError') {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.errors,
+      });
+    }
+
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error.message,
+    });
+  }
+};
+
+/**
+ * @route   POST /api/admin/users/:userId/reactivate
+ * @desc    Allow a deactivated account to sign in again
+ * @access  Admin (users:manage)
+ */
+export const reactivateUser = async (req: Request, res: Response) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const adminId = authReq.authUser!.userId;
+
+    const target = await AdminUserService.find(req.params.userId);
+
+    if (!target) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found',
+      });
+    }
+
+    const result = await AdminUserService.reactivate(target);
+
+    if (result.error !== undefined) {
+      return res.status(result.status).json({
+        success: false,
+        message: result.error,
+      });
+    }
+
+    ActivityLogger.userReactivated(target.id, adminId, req);
+
+    return res.status(200).json({
+      success: true,
+      message: 'User reactivated successfully',
+      data: { user: result.data },
+    });
+  } catch (error: any) {
+    console.error('Reactivate user error:', error);
+
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error.message,
+    });
+  }
+};
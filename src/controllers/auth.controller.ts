@@ -1,11 +1,41 @@
 import { Request, Response } from "express";
 import bcrypt from "bcrypt";
-import { PrismaClient } from "@prisma/client";
-import { loginSchema } from "../validators/auth.validator";
-import { generateTokens, verifyRefreshToken } from "../utils/jwt.util";
+import { MerchantProfile, User } from "@prisma/client";
+import prisma from "../utils/prisma.util";
+import {
+  changePasswordSchema,
+  customerRegisterSchema,
+  forgotPasswordSchema,
+  loginSchema,
+  loginTwoFactorSchema,
+  resetPasswordSchema,
+  unlockAccountSchema,
+  updateAccountSchema,
+  verifyEmailSchema,
+} from "../validators/auth.validator";
+import {
+  generateTwoFactorChallengeToken,
+  verifyRefreshToken,
+  verifyTwoFactorChallengeToken,
+} from "../utils/jwt.util";
+import { consumeRateLimit } from "../utils/rateLimit.util";
+import { invalidateTokenVersion } from "../utils/tokenVersion.util";
+import { generateEmailToken, hashEmailToken } from "../utils/token.util";
+import { emailVerificationConfig } from "../config/emailVerification.config";
+import { twoFactorConfig } from "../config/twoFactor.config";
 import { ActivityLogger } from "../services/activityLog.service";
+import { EmailService } from "../services/email.service";
+import { EmailVerificationService } from "../services/emailVerification.service";
+import { TwoFactorService } from "../services/twoFactor.service";
+import { SessionService } from "../services/session.service";
+import { LoginProtectionService } from "../services/loginProtection.service";
+import { resolveAccess } from "../middleware/permission.middleware";
 
-const prisma = new PrismaClient();
+// Matches the "expires in 1 hour" copy in the reset email
+const RESET_TOKEN_TTL_MS = 60 * 60 * 1000;
+
+const FORGOT_PASSWORD_LIMIT = { perEmail: 3, perIp: 10, windowSeconds: 60 * 60 };
+const RESET_PASSWORD_LIMIT = { perIp: 10, windowSeconds: 15 * 60 };
 
 // Authenticated Request interface
 export interface AuthenticatedRequest extends Request {
@@ -15,9 +45,178 @@ export interface AuthenticatedRequest extends Request {
     role: string;
     isVerified: boolean;
     profileStatus?: string;
+    twoFactorSetupRequired?: boolean;
+    sessionId?: string;
   };
 }
 
+type LoginUser = User & {
+  merchantProfile: Pick<MerchantProfile, "profileStatus" | "isVerified"> | null;
+};
+
+/**
+ * Final step of login - issue tokens once every factor has been checked
+ */
+const completeLogin = async (user: LoginUser, req: Request, res: Response) => {
+  const profileStatus = user.merchantProfile?.profileStatus || undefined;
+  const twoFactorSetupRequired = TwoFactorService.isSetupRequired(user);
+
+  const tokens = await SessionService.create(
+    {
+      userId: user.id,
+      email: user.email,
+      role: user.role,
+      adminRole: user.adminRole ?? undefined,
+      isVerified: user.merchantProfile?.isVerified || false,
+      profileStatus,
+      twoFactorSetupRequired,
+      tokenVersion: user.tokenVersion,
+    },
+    req
+  );
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: { lastLogin: new Date() },
+  });
+
+  await ActivityLogger.login(user.id, user.role, req);
+
+  return res.status(200).json({
+    success: true,
+    message: twoFactorSetupRequired
+      ? "Login successful. Two-factor authentication must be set up before continuing."
+      : "Login successful",
+    data: {
+      user: {
+        id: user.id,
+        email: user.email,
+        name: user.name,
+        role: user.role,
+        profileStatus,
+        isVerified: user.merchantProfile?.isVerified || false,
+        emailVerified: user.emailVerified,
+        twoFactorEnabled: user.twoFactorEnabled,
+      },
+      tokens,
+      ...(twoFactorSetupRequired && { requiresAction: "SETUP_TWO_FACTOR" }),
+    },
+  });
+};
+
+/**
+ * @route   POST /api/auth/register
+ * @desc    Customer registration - a wallet for purchased gift cards
+ * @access  Public
+ */
+export const customerRegister = async (req: Request, res: Response) => {
+  try {
+    const validatedData = customerRegisterSchema.parse(req.body);
+    const email = validatedData.email;
+
+    const existingUser = await prisma.user.findUnique({
+      where: { email },
+    });
+
+    if (existingUser) {
+      return res.status(400).json({
+        success: false,
+        message: "User with this email already exists",
+      });
+    }
+
+    const user = await prisma.user.create({
+      data: {
+        email,
+        password: await bcrypt.hash(validatedData.password, 10),
+        name: validatedData.name,
+        phone: validatedData.phone,
+        role: "USER",
+        emailVerified: false,
+        isActive: true,
+      },
+    });
+
+    ActivityLogger.register(user.id, user.email, user.role, req);
+
+    // Cards bought with this email can be claimed once it's verified
+    EmailVerificationService.sendVerification(user).catch((error) => {
+      console.error("Failed to send verification email:", error);
+    });
+
+    const tokens = await SessionService.create(
+      {
+        userId: user.id,
+        email: user.email,
+        role: user.role,
+        isVerified: false,
+        tokenVersion: user.tokenVersion,
+      },
+      req
+    );
+
+    return res.status(201).json({
+      success: true,
+      message: "Registration successful! Verify your email to add your gift cards to your wallet.",
+      data: {
+        user: {
+          id: user.id,
+          email: user.email,
+          name: user.name,
+          role: user.role,
+          emailVerified: false,
+        },
+        tokens,
+      },
+    });
+  } catch (error: any) {
+    console.error("Customer registration error:", error);
+
+    if (error.name === "ZodError") {
+      return res.status(400).json({
+        success: false,
+        message: "Validation error",
+        errors: error.errors,
+      });
+    }
+
+    return res.status(500).json({
+      success: false,
+      message: "Internal server error",
+      error: error.message,
+    });
+  }
+};
+
+/**
+ * Count a failed password attempt and answer with the same response whether
+ * or not the account exists
+ */
+const rejectCredentials = async (
+  email: string,
+  ip: string,
+  user: { id: string; email: string; name: string } | null,
+  req: Request,
+  res: Response
+) => {
+  const { lockedForSeconds } = await LoginProtectionService.recordFailure(email, ip, user, req);
+
+  if (lockedForSeconds > 0) {
+    res.setHeader("Retry-After", lockedForSeconds.toString());
+    return res.status(423).json({
+      success: false,
+      message: "Account temporarily locked after too many failed attempts. Check your email to unlock it.",
+      code: "ACCOUNT_LOCKED",
+      retryAfterSeconds: lockedForSeconds,
+    });
+  }
+
+  return res.status(401).json({
+    success: false,
+    message: "Invalid email or password",
+  });
+};
+
 /**
  * @route   POST /api/auth/login
  * @desc    Login user (Admin, Merchant, or User)
@@ -26,6 +225,23 @@ export interface AuthenticatedRequest extends Request {
 export const login = async (req: Request, res: Response) => {
   try {
     const validatedData = loginSchema.parse(req.body);
+    const ip = req.ip || "unknown";
+
+    const attempt = await LoginProtectionService.check(validatedData.email, ip);
+    if (!attempt.allowed) {
+      ActivityLogger.loginBlocked(validatedData.email, attempt.reason, req);
+      res.setHeader("Retry-After", attempt.retryAfterSeconds.toString());
+
+      return res.status(attempt.reason === "ACCOUNT_LOCKED" ? 423 : 429).json({
+        success: false,
+        message:
+          attempt.reason === "ACCOUNT_LOCKED"
+            ? "Account temporarily locked after too many failed attempts. Check your email to unlock it."
+            : "Too many login attempts. Please try again later.",
+        code: attempt.reason,
+        retryAfterSeconds: attempt.retryAfterSeconds,
+      });
+    }
 
     const user = await prisma.user.findUnique({
       where: { email: validatedData.email },
@@ -43,10 +259,7 @@ export const login = async (req: Request, res: Response) => {
 
       await ActivityLogger.loginFailed(validatedData.email, 'User not found', req);
 
-      return res.status(401).json({
-        success: false,
-        message: "Invalid email or password",
-      });
+      return rejectCredentials(validatedData.email, ip, null, req, res);
     }
 
     if (!user.isActive) {
@@ -66,11 +279,10 @@ export const login = async (req: Request, res: Response) => {
 
       if (!isPasswordValid) {
         await ActivityLogger.loginFailed(validatedData.email, 'Invalid password', req);
-        return res.status(401).json({
-          success: false,
-          message: "Invalid email or password",
-        });
+        return rejectCredentials(validatedData.email, ip, user, req, res);
       }
+
+      await LoginProtectionService.recordSuccess(validatedData.email, ip);
     } else {
       await ActivityLogger.loginFailed(validatedData.email, 'OAuth account attempted password login', req);
       return res.status(400).json({
@@ -79,52 +291,115 @@ export const login = async (req: Request, res: Response) => {
       });
     }
 
-    const profileStatus = user.merchantProfile?.profileStatus || undefined;
+    // Password checked - hold the tokens back until the second factor
+    if (user.twoFactorEnabled) {
+      return res.status(200).json({
+        success: true,
+        message: "Enter the code from your authenticator app",
+        data: {
+          requiresTwoFactor: true,
+          challengeToken: generateTwoFactorChallengeToken(user.id, twoFactorConfig.challengeTtlSeconds),
+        },
+      });
+    }
 
-    const tokens = generateTokens({
-      userId: user.id,
-      email: user.email,
-      role: user.role,
-      isVerified: user.merchantProfile?.isVerified || false,
-      profileStatus,
-    });
+    return await completeLogin(user, req, res);
+  } catch (error: any) {
+    console.error("Login error:", error);
 
-    const expiresAt = new Date();
-    expiresAt.setDate(expiresAt.getDate() + 7);
+    if (error.name === "ZodError") {
+      return res.status(400).json({
+        success: false,
+        message: "Validation error",
+        errors: error.errors,
+      });
+    }
 
-    await prisma.refreshToken.create({
-      data: {
-        token: tokens.refreshToken,
-        userId: user.id,
-        expiresAt,
-      },
+    return res.status(500).json({
+      success: false,
+      message: "Internal server error",
+      error: error.message,
     });
+  }
+};
 
-    await prisma.user.update({
-      where: { id: user.id },
-      data: { lastLogin: new Date() },
-    });
+/**
+ * @route   POST /api/auth/login/2fa
+ * @desc    Second login step - exchange a challenge token and TOTP or recovery code for tokens
+ * @access  Public
+ */
+export const loginTwoFactor = async (req: Request, res: Response) => {
+  try {
+    const validatedData = loginTwoFactorSchema.parse(req.body);
 
-    await ActivityLogger.login(user.id, user.role, req);
+    let userId: string;
+    try {
+      userId = verifyTwoFactorChallengeToken(validatedData.challengeToken).userId;
+    } catch (error) {
+      return res.status(401).json({
+        success: false,
+        message: "Login session expired. Please sign in again.",
+      });
+    }
 
+    const attempts = await consumeRateLimit(
+      `2fa-login:${userId}`,
+      twoFactorConfig.maxAttempts,
+      twoFactorConfig.attemptWindowSeconds
+    );
 
-    return res.status(200).json({
-      success: true,
-      message: "Login successful",
-      data: {
-        user: {
-          id: user.id,
-          email: user.email,
-          name: user.name,
-          role: user.role,
-          profileStatus,
-          isVerified: user.merchantProfile?.isVerified || false,
+    if (!attempts.allowed) {
+      res.setHeader("Retry-After", attempts.retryAfterSeconds.toString());
+      return res.status(429).json({
+        success: false,
+        message: "Too many verification attempts. Please try again later.",
+      });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      include: {
+        merchantProfile: {
+          select: {
+            profileStatus: true,
+            isVerified: true,
+          },
         },
-        tokens,
       },
     });
+
+    if (!user || !user.isActive || !user.twoFactorEnabled) {
+      return res.status(401).json({
+        success: false,
+        message: "Login session expired. Please sign in again.",
+      });
+    }
+
+    const usingRecoveryCode = !validatedData.code;
+    const isValid = usingRecoveryCode
+      ? await TwoFactorService.useRecoveryCode(user.id, validatedData.recoveryCode!)
+      : await TwoFactorService.verifyCode(user.id, validatedData.code!);
+
+    if (!isValid) {
+      ActivityLogger.twoFactorFailed(
+        user.id,
+        usingRecoveryCode ? "Invalid recovery code" : "Invalid authenticator code",
+        req
+      );
+      return res.status(401).json({
+        success: false,
+        message: usingRecoveryCode ? "Invalid recovery code" : "Invalid authentication code",
+      });
+    }
+
+    if (usingRecoveryCode) {
+      const remaining = await TwoFactorService.remainingRecoveryCodes(user.id);
+      ActivityLogger.recoveryCodeUsed(user.id, user.role, remaining, req);
+    }
+
+    return await completeLogin(user, req, res);
   } catch (error: any) {
-    console.error("Login error:", error);
+    console.error("Two-factor login error:", error);
 
     if (error.name === "ZodError") {
       return res.status(400).json({
@@ -158,7 +433,7 @@ export const refreshToken = async (req: Request, res: Response) => {
       });
     }
 
-    const decoded = verifyRefreshToken(refreshToken);
+    verifyRefreshToken(refreshToken);
 
     const storedToken = await prisma.refreshToken.findUnique({
       where: { token: refreshToken },
@@ -183,10 +458,30 @@ export const refreshToken = async (req: Request, res: Response) => {
       });
     }
 
-    if (new Date() > storedToken.expiresAt) {
-      await prisma.refreshToken.delete({
-        where: { id: storedToken.id },
+    if (storedToken.revokedAt) {
+      // A token that was already exchanged is being replayed - assume it leaked
+      if (storedToken.replacedById) {
+        await SessionService.revokeFamily(storedToken.familyId);
+        ActivityLogger.refreshTokenReused(storedToken.userId, storedToken.familyId, req);
+      }
+
+      return res.status(401).json({
+        success: false,
+        message: "Refresh token has been revoked",
+      });
+    }
+
+    if (!storedToken.user.isActive) {
+      await SessionService.revokeFamily(storedToken.familyId);
+
+      return res.status(403).json({
+        success: false,
+        message: "Your account has been deactivated. Contact support.",
       });
+    }
+
+    if (new Date() > storedToken.expiresAt) {
+      await SessionService.revokeFamily(storedToken.familyId);
 
       return res.status(401).json({
         success: false,
@@ -194,28 +489,24 @@ export const refreshToken = async (req: Request, res: Response) => {
       });
     }
 
-    const tokens = generateTokens({
+    const tokens = await SessionService.rotate(storedToken, {
       userId: storedToken.user.id,
       email: storedToken.user.email,
       role: storedToken.user.role,
+      adminRole: storedToken.user.adminRole ?? undefined,
       isVerified: storedToken.user.merchantProfile?.isVerified || false,
       profileStatus: storedToken.user.merchantProfile?.profileStatus,
+      twoFactorSetupRequired: TwoFactorService.isSetupRequired(storedToken.user),
+      tokenVersion: storedToken.user.tokenVersion,
     });
 
-    await prisma.refreshToken.delete({
-      where: { id: storedToken.id },
-    });
-
-    const expiresAt = new Date();
-    expiresAt.setDate(expiresAt.getDate() + 7);
-
-    await prisma.refreshToken.create({
-      data: {
-        token: tokens.refreshToken,
-        userId: storedToken.user.id,
-        expiresAt,
-      },
-    });
+    // Lost a race with a concurrent refresh of the same token
+    if (!tokens) {
+      return res.status(401).json({
+        success: false,
+        message: "Refresh token has been revoked",
+      });
+    }
 
     return res.status(200).json({
       success: true,
@@ -256,9 +547,10 @@ export const logout = async (req: Request, res: Response) => {
     });
 
 
-    await prisma.refreshToken.deleteMany({
-      where: { token: refreshToken },
-    });
+    // End the whole session, not just this token
+    if (tokenRecord) {
+      await SessionService.revokeFamily(tokenRecord.familyId);
+    }
 
     if (tokenRecord?.user) {
       await ActivityLogger.logout(tokenRecord.user.id, tokenRecord.user.role, req);
@@ -304,6 +596,7 @@ export const getCurrentUser = async (req: Request, res: Response) => {
         name: true,
         phone: true,
         role: true,
+        adminRole: true,
         avatar: true,
         bio: true,
         emailVerified: true,
@@ -329,6 +622,19 @@ export const getCurrentUser = async (req: Request, res: Response) => {
             description: true,
           },
         },
+        staffMembership: {
+          select: {
+            id: true,
+            role: true,
+            merchantProfile: {
+              select: { businessName: true, logo: true },
+            },
+            locations: {
+              where: { isActive: true },
+              select: { id: true, name: true },
+            },
+          },
+        },
       },
     });
 
@@ -339,9 +645,16 @@ export const getCurrentUser = async (req: Request, res: Response) => {
       });
     }
 
+    // What the current token lets the client do - drives which UI to show
+    const access = await resolveAccess(req);
+
     return res.status(200).json({
       success: true,
-      data: { user },
+      data: {
+        user,
+        accessRole: access.accessRole,
+        permissions: access.permissions,
+      },
     });
   } catch (error: any) {
     console.error("Get current user error:", error);
@@ -352,3 +665,602 @@ export const getCurrentUser = async (req: Request, res: Response) => {
     });
   }
 };
+
+/**
+ * @route   POST /api/auth/forgot-password
+ * @desc    Email a single-use password reset link
+ * @access  Public
+ */
+export const forgotPassword = async (req: Request, res: Response) => {
+  try {
+    const validatedData = forgotPasswordSchema.parse(req.body);
+    const email = validatedData.email;
+
+    const [ipLimit, emailLimit] = await Promise.all([
+      consumeRateLimit(
+        `forgot-password:ip:${req.ip}`,
+        FORGOT_PASSWORD_LIMIT.perIp,
+        FORGOT_PASSWORD_LIMIT.windowSeconds
+      ),
+      consumeRateLimit(
+        `forgot-password:email:${email}`,
+        FORGOT_PASSWORD_LIMIT.perEmail,
+        FORGOT_PASSWORD_LIMIT.windowSeconds
+      ),
+    ]);
+
+    if (!ipLimit.allowed || !emailLimit.allowed) {
+      res.setHeader(
+        "Retry-After",
+        Math.max(ipLimit.retryAfterSeconds, emailLimit.retryAfterSeconds).toString()
+      );
+      return res.status(429).json({
+        success: false,
+        message: "Too many password reset requests. Please try again later.",
+      });
+    }
+
+    ActivityLogger.passwordResetRequested(validatedData.email, req);
+
+    const user = await prisma.user.findUnique({
+      where: { email },
+    });
+
+    // OAuth-only accounts have no password to reset
+    if (user && user.isActive && user.password) {
+      const token = generateEmailToken();
+
+      await prisma.user.update({
+        where: { id: user.id },
+        data: {
+          resetToken: hashEmailToken(token),
+          resetTokenExpiry: new Date(Date.now() + RESET_TOKEN_TTL_MS),
+        },
+      });
+
+      const frontendUrl = process.env.FRONTEND_URL || "http://thnxdigital.com";
+      EmailService.sendPasswordResetEmail(
+        user.email,
+        user.name,
+        `${frontendUrl}/reset-password?token=${token}`
+      );
+    }
+
+    // Same response either way so the endpoint can't be used to probe for accounts
+    return res.status(200).json({
+      success: true,
+      message: "If an account exists for that email, a password reset link has been sent.",
+    });
+  } catch (error: any) {
+    console.error("Forgot password error:", error);
+
+    if (error.name === "ZodError") {
+      return res.status(400).json({
+        success: false,
+        message: "Validation error",
+        errors: error.errors,
+      });
+    }
+
+    return res.status(500).json({
+      success: false,
+      message: "Internal server error",
+      error: error.message,
+    });
+  }
+};
+
+/**
+ * @route   POST /api/auth/reset-password
+ * @desc    Set a new password with a reset token and sign out every session
+ * @access  Public
+ */
+export const resetPassword = async (req: Request, res: Response) => {
+  try {
+    const validatedData = resetPasswordSchema.parse(req.body);
+
+    const ipLimit = await consumeRateLimit(
+      `reset-password:ip:${req.ip}`,
+      RESET_PASSWORD_LIMIT.perIp,
+      RESET_PASSWORD_LIMIT.windowSeconds
+    );
+
+    if (!ipLimit.allowed) {
+      res.setHeader("Retry-After", ipLimit.retryAfterSeconds.toString());
+      return res.status(429).json({
+        success: false,
+        message: "Too many password reset attempts. Please try again later.",
+      });
+    }
+
+    const tokenHash = hashEmailToken(validatedData.token);
+
+    const user = await prisma.user.findUnique({
+      where: { resetToken: tokenHash },
+    });
+
+    if (!user || !user.resetTokenExpiry || user.resetTokenExpiry < new Date() || !user.isActive) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid or expired reset token",
+      });
+    }
+
+    const hashedPassword = await bcrypt.hash(validatedData.password, 10);
+
+    const revokedSessions = await prisma.$transaction(async (tx) => {
+      // Clearing the token in the same conditional update makes it single-use
+      const updated = await tx.user.updateMany({
+        where: { id: user.id, resetToken: tokenHash },
+        data: {
+          password: hashedPassword,
+          resetToken: null,
+          resetTokenExpiry: null,
+        },
+      });
+
+      if (updated.count === 0) {
+        return null;
+      }
+
+      return SessionService.revokeAll(user.id, undefined, tx);
+    });
+
+    if (revokedSessions === null) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid or expired reset token",
+      });
+    }
+
+    ActivityLogger.passwordReset(user.id, user.role, revokedSessions, req);
+
+    return res.status(200).json({
+      success: true,
+      message: "Password has been reset. Please log in with your new password.",
+    });
+  } catch (error: any) {
+    console.error("Reset password error:", error);
+
+    if (error.name === "ZodError") {
+      return res.status(400).json({
+        success: false,
+        message: "Validation error",
+        errors: error.errors,
+      });
+    }
+
+    return res.status(500).json({
+      success: false,
+      message: "Internal server error",
+      error: error.message,
+    });
+  }
+};
+
+/**
+ * @route   POST /api/auth/verify-email
+ * @desc    Confirm an email address with the emailed token
+ * @access  Public
+ */
+export const verifyEmail = async (req: Request, res: Response) => {
+  try {
+    const validatedData = verifyEmailSchema.parse(req.body);
+
+    const user = await EmailVerificationService.verify(validatedData.token);
+
+    if (!user) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid or expired verification link",
+      });
+    }
+
+    ActivityLogger.emailVerified(user.id, user.email, req);
+
+    return res.status(200).json({
+      success: true,
+      message: "Email verified successfully",
+    });
+  } catch (error: any) {
+    console.error("Verify email error:", error);
+
+    if (error.name === "ZodError") {
+      return res.status(400).json({
+        success: false,
+        message: "Validation error",
+        errors: error.errors,
+      });
+    }
+
+    return res.status(500).json({
+      success: false,
+      message: "Internal server error",
+      error: error.message,
+    });
+  }
+};
+
+/**
+ * @route   POST /api/auth/unlock-account
+ * @desc    Lift a login lockout using the token from the lockout email
+ * @access  Public
+ */
+export const unlockAccount = async (req: Request, res: Response) => {
+  try {
+    const validatedData = unlockAccountSchema.parse(req.body);
+
+    const email = await LoginProtectionService.unlockWithToken(validatedData.token);
+
+    if (!email) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid or expired unlock link",
+      });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email },
+      select: { id: true, role: true },
+    });
+
+    if (user) {
+      ActivityLogger.accountUnlocked(user.id, user.id, "email", user.role, req);
+    }
+
+    return res.status(200).json({
+      success: true,
+      message: "Account unlocked. You can log in again.",
+    });
+  } catch (error: any) {
+    console.error("Unlock account error:", error);
+
+    if (error.name === "ZodError") {
+      return res.status(400).json({
+        success: false,
+        message: "Validation error",
+        errors: error.errors,
+      });
+    }
+
+    return res.status(500).json({
+      success: false,
+      message: "Internal server error",
+      error: error.message,
+    });
+  }
+};
+
+/**
+ * @route   POST /api/auth/users/:userId/unlock
+ * @desc    Lift a login lockout (admin)
+ * @access  Private (Admin only)
+ */
+export const adminUnlockAccount = async (req: Request, res: Response) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const { userId } = req.params;
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, email: true },
+    });
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: "User not found",
+      });
+    }
+
+    const wasLocked = await LoginProtectionService.unlock(user.email);
+
+    ActivityLogger.accountUnlocked(user.id, authReq.authUser!.userId, "admin", "ADMIN", req);
+
+    return res.status(200).json({
+      success: true,
+      message: wasLocked ? "Account unlocked" : "Account was not locked - failed attempts cleared",
+      data: { wasLocked },
+    });
+  } catch (error: any) {
+    console.error("Admin unlock account error:", error);
+
+    return res.status(500).json({
+      success: false,
+      message: "Internal server error",
+      error: error.message,
+    });
+  }
+};
+
+/**
+ * @route   POST /api/auth/resend-verification
+ * @desc    Send a new verification email to the current user
+ * @access  Private
+ */
+export const resendVerificationEmail = async (req: Request, res: Response) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const userId = authReq.authUser?.userId;
+
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        message: "Unauthorized",
+      });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, email: true, name: true, emailVerified: true },
+    });
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: "User not found",
+      });
+    }
+
+    if (user.emailVerified) {
+      return res.status(400).json({
+        success: false,
+        message: "Email is already verified",
+      });
+    }
+
+    const [cooldown, hourly] = await Promise.all([
+      consumeRateLimit(
+        `resend-verification:cooldown:${user.id}`,
+        1,
+        emailVerificationConfig.resendCooldownSeconds
+      ),
+      consumeRateLimit(
+        `resend-verification:${user.id}`,
+        emailVerificationConfig.resendLimit,
+        emailVerificationConfig.resendWindowSeconds
+      ),
+    ]);
+
+    if (!cooldown.allowed || !hourly.allowed) {
+      const retryAfter = !hourly.allowed ? hourly.retryAfterSeconds : cooldown.retryAfterSeconds;
+      res.setHeader("Retry-After", retryAfter.toString());
+      return res.status(429).json({
+        success: false,
+        message: `Please wait ${retryAfter} seconds before requesting another verification email.`,
+      });
+    }
+
+    const expiresAt = await EmailVerificationService.sendVerification(user);
+
+    return res.status(200).json({
+      success: true,
+      message: "Verification email sent",
+      data: { expiresAt },
+    });
+  } catch (error: any) {
+    console.error("Resend verification error:", error);
+    return res.status(500).json({
+      success: false,
+      message: "Internal server error",
+      error: error.message,
+    });
+  }
+};
+
+/**
+ * @route   PATCH /api/auth/me
+ * @desc    Update the current user's name, phone, avatar or bio
+ * @access  Private
+ */
+export const updateCurrentUser = async (req: Request, res: Response) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const userId = authReq.authUser?.userId;
+
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        message: "Unauthorized",
+      });
+    }
+
+    const validatedData = updateAccountSchema.parse(req.body);
+
+    const existingUser = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { name: true, phone: true, avatar: true, bio: true },
+    });
+
+    if (!existingUser) {
+      return res.status(404).json({
+        success: false,
+        message: "User not found",
+      });
+    }
+
+    // Track changes for activity log
+    const changes: Record<string, { from: any; to: any }> = {};
+    for (const [field, value] of Object.entries(validatedData)) {
+      const previous = existingUser[field as keyof typeof existingUser];
+      if (value !== previous) {
+        changes[field] = { from: previous, to: value };
+      }
+    }
+
+    const user = await prisma.user.update({
+      where: { id: userId },
+      data: validatedData,
+      select: {
+        id: true,
+        email: true,
+        name: true,
+        phone: true,
+        role: true,
+        avatar: true,
+        bio: true,
+        emailVerified: true,
+        updatedAt: true,
+      },
+    });
+
+    if (Object.keys(changes).length > 0) {
+      ActivityLogger.userUpdated(userId, userId, changes, req, user.role);
+    }
+
+    return res.status(200).json({
+      success: true,
+      message: "Account updated successfully",
+      data: { user },
+    });
+  } catch (error: any) {
+    console.error("Update current user error:", error);
+
+    if (error.name === "ZodError") {
+      return res.status(400).json({
+        success: false,
+        message: "Validation error",
+        errors: error.errors,
+      });
+    }
+
+    return res.status(500).json({
+      success: false,
+      message: "Internal server error",
+      error: error.message,
+    });
+  }
+};
+
+/**
+ * @route   POST /api/auth/change-password
+ * @desc    Change password and sign out every other session
+ * @access  Private
+ */
+export const changePassword = async (req: Request, res: Response) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const userId = authReq.authUser?.userId;
+
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        message: "Unauthorized",
+      });
+    }
+
+    const validatedData = changePasswordSchema.parse(req.body);
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      include: {
+        merchantProfile: {
+          select: {
+            profileStatus: true,
+            isVerified: true,
+          },
+        },
+      },
+    });
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: "User not found",
+      });
+    }
+
+    if (!user.password) {
+      return res.status(400).json({
+        success: false,
+        message: "This account uses OAuth and has no password to change.",
+      });
+    }
+
+    // Guesses with a stolen access token are throttled like logins
+    const ip = req.ip || "unknown";
+    const attempt = await LoginProtectionService.check(user.email, ip);
+    if (!attempt.allowed) {
+      res.setHeader("Retry-After", attempt.retryAfterSeconds.toString());
+      return res.status(attempt.reason === "ACCOUNT_LOCKED" ? 423 : 429).json({
+        success: false,
+        message: "Too many incorrect attempts. Please try again later.",
+        code: attempt.reason,
+        retryAfterSeconds: attempt.retryAfterSeconds,
+      });
+    }
+
+    const isPasswordValid = await bcrypt.compare(validatedData.currentPassword, user.password);
+
+    if (!isPasswordValid) {
+      await LoginProtectionService.recordFailure(user.email, ip, user, req);
+      return res.status(401).json({
+        success: false,
+        message: "Current password is incorrect",
+      });
+    }
+
+    await LoginProtectionService.recordSuccess(user.email, ip);
+
+    const hashedPassword = await bcrypt.hash(validatedData.newPassword, 10);
+
+    // Fresh session for this client; every other session is revoked and the
+    // tokenVersion bump ends their access tokens too
+    const { revoked, tokens } = await prisma.$transaction(async (tx) => {
+      const { tokenVersion } = await tx.user.update({
+        where: { id: user.id },
+        data: {
+          password: hashedPassword,
+          resetToken: null,
+          resetTokenExpiry: null,
+          tokenVersion: { increment: 1 },
+        },
+        select: { tokenVersion: true },
+      });
+      await invalidateTokenVersion([user.id]);
+
+      const revoked = await SessionService.revokeAll(user.id, undefined, tx);
+
+      const tokens = await SessionService.create(
+        {
+          userId: user.id,
+          email: user.email,
+          role: user.role,
+          adminRole: user.adminRole ?? undefined,
+          isVerified: user.merchantProfile?.isVerified || false,
+          profileStatus: user.merchantProfile?.profileStatus,
+          twoFactorSetupRequired: TwoFactorService.isSetupRequired(user),
+          tokenVersion,
+        },
+        req,
+        tx
+      );
+
+      return { revoked, tokens };
+    });
+
+    ActivityLogger.passwordChanged(user.id, user.role, revoked, req);
+
+    return res.status(200).json({
+      success: true,
+      message: "Password changed successfully. Other sessions have been signed out.",
+      data: { tokens },
+    });
+  } catch (error: any) {
+    console.error("Change password error:", error);
+
+    if (error.name === "ZodError") {
+      return res.status(400).json({
+        success: false,
+        message: "Validation error",
+        errors: error.errors,
+      });
+    }
+
+    return res.status(500).json({
+      success: false,
+      message: "Internal server error",
+      error: error.message,
+    });
+  }
+};
@@ -5,8 +5,13 @@ import {
   updateGiftCardSchema 
 } from '../validators/giftCard.validator';
 import prisma from '../utils/prisma.util';
-import { Decimal } from '@prisma/client/runtime/library';
 import { ActivityLogger } from '../services/activityLog.service';
+import {
+  describeValidity,
+  getPricingError,
+  getValidityError,
+  toPricingData,
+} from '../utils/giftCard.util';
 
 const GIFT_CARD_LIMIT = 10;
 
@@ -69,14 +74,19 @@ export const createGiftCard = async (req: Request, res: Response) => {
       });
     }
 
+    const pricing = toPricingData(validatedData);
+
     // Create gift card
     const giftCard = await prisma.giftCard.create({
       data: {
         merchantId,
         title: validatedData.title,
         description: validatedData.description,
-        price: new Decimal(validatedData.price),
+        ...pricing,
+        salesStartDate: validatedData.salesStartDate ? new Date(validatedData.salesStartDate) : null,
         expiryDate: new Date(validatedData.expiryDate),
+        validityValue: validatedData.validityValue,
+        validityUnit: validatedData.validityUnit,
       },
       include: {
         merchant: {
@@ -98,7 +108,7 @@ export const createGiftCard = async (req: Request, res: Response) => {
       giftCard.id,
       merchantId,
       giftCard.title,
-      validatedData.price,
+      pricing.price.toNumber(),
       req
     );
 
@@ -322,9 +332,54 @@ export const updateGiftCard = async (req: Request, res: Response) => {
       updateData.description = validatedData.description;
       changes.description = { from: existingCard.description, to: validatedData.description };
     }
-    if (validatedData.price !== undefined && validatedData.price !== existingCard.price.toNumber()) {
-      updateData.price = new Decimal(validatedData.price);
-      changes.price = { from: existingCard.price.toNumber(), to: validatedData.price };
+
+    const pricingChanged =
+      validatedData.pricingType !== undefined ||
+      validatedData.price !== undefined ||
+      validatedData.denominations !== undefined ||
+      validatedData.minAmount !== undefined ||
+      validatedData.maxAmount !== undefined;
+
+    if (pricingChanged) {
+      // Check the pricing as a whole - a partial update can leave it inconsistent
+      const pricing = {
+        pricingType: validatedData.pricingType ?? existingCard.pricingType,
+        price: validatedData.price ?? existingCard.price.toNumber(),
+        denominations:
+          validatedData.denominations ?? existingCard.denominations.map((d) => d.toNumber()),
+        minAmount: validatedData.minAmount ?? existingCard.minAmount?.toNumber(),
+        maxAmount: validatedData.maxAmount ?? existingCard.maxAmount?.toNumber(),
+      };
+
+      const pricingError = getPricingError(pricing);
+      if (pricingError) {
+        return res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: [{ path: [pricingError.field], message: pricingError.message }],
+        });
+      }
+
+      const pricingData = toPricingData(pricing);
+      const before = {
+        pricingType: existingCard.pricingType,
+        price: existingCard.price.toNumber(),
+        denominations: existingCard.denominations.map((d) => d.toNumber()),
+        minAmount: existingCard.minAmount?.toNumber() ?? null,
+        maxAmount: existingCard.maxAmount?.toNumber() ?? null,
+      };
+      const after = {
+        pricingType: pricingData.pricingType,
+        price: pricingData.price.toNumber(),
+        denominations: pricingData.denominations.map((d) => d.toNumber()),
+        minAmount: pricingData.minAmount?.toNumber() ?? null,
+        maxAmount: pricingData.maxAmount?.toNumber() ?? null,
+      };
+
+      if (JSON.stringify(before) !== JSON.stringify(after)) {
+        Object.assign(updateData, pricingData);
+        changes.pricing = { from: before, to: after };
+      }
     }
     if (validatedData.expiryDate !== undefined) {
       const newExpiry = new Date(validatedData.expiryDate);
@@ -333,6 +388,54 @@ export const updateGiftCard = async (req: Request, res: Response) => {
         changes.expiryDate = { from: existingCard.expiryDate, to: newExpiry };
       }
     }
+
+    const validityChanged =
+      updateData.expiryDate !== undefined ||
+      validatedData.salesStartDate !== undefined ||
+      validatedData.validityValue !== undefined ||
+      validatedData.validityUnit !== undefined;
+
+    if (validityChanged) {
+      const validity = {
+        salesStartDate:
+          validatedData.salesStartDate !== undefined
+            ? validatedData.salesStartDate
+              ? new Date(validatedData.salesStartDate)
+              : null
+            : existingCard.salesStartDate,
+        expiryDate: updateData.expiryDate ?? existingCard.expiryDate,
+        validityValue:
+          validatedData.validityValue !== undefined ? validatedData.validityValue : existingCard.validityValue,
+        validityUnit:
+          validatedData.validityUnit !== undefined ? validatedData.validityUnit : existingCard.validityUnit,
+      };
+
+      const validityError = getValidityError(validity);
+      if (validityError) {
+        return res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: [{ path: [validityError.field], message: validityError.message }],
+        });
+      }
+
+      if (validity.salesStartDate?.getTime() !== existingCard.salesStartDate?.getTime()) {
+        updateData.salesStartDate = validity.salesStartDate;
+        changes.salesStartDate = { from: existingCard.salesStartDate, to: validity.salesStartDate };
+      }
+      if (
+        validity.validityValue !== existingCard.validityValue ||
+        validity.validityUnit !== existingCard.validityUnit
+      ) {
+        updateData.validityValue = validity.validityValue;
+        updateData.validityUnit = validity.validityUnit;
+        changes.validity = {
+          from: { value: existingCard.validityValue, unit: existingCard.validityUnit },
+          to: { value: validity.validityValue, unit: validity.validityUnit },
+        };
+      }
+    }
+
     if (validatedData.isActive !== undefined && validatedData.isActive !== existingCard.isActive) {
       updateData.isActive = validatedData.isActive;
       changes.isActive = { from: existingCard.isActive, to: validatedData.isActive };
@@ -510,12 +613,18 @@ export const deleteGiftCard = async (req: Request, res: Response) => {
  */
 export const getActiveGiftCards = async (req: Request, res: Response) => {
   try {
+    const now = new Date();
+
     const giftCards = await prisma.giftCard.findMany({
       where: {
         isActive: true,
         expiryDate: {
-          gt: new Date(), // Only non-expired cards
+          gt: now, // Only non-expired cards
         },
+        // Only cards whose sales window has opened
+        OR: [{ salesStartDate: null }, { salesStartDate: { lte: now } }],
+        // Suspended merchants can't sell
+        NOT: { merchant: { merchantProfile: { is: { profileStatus: 'SUSPENDED' } } } },
       },
       orderBy: { createdAt: 'desc' },
       include: {
@@ -539,7 +648,11 @@ export const getActiveGiftCards = async (req: Request, res: Response) => {
     return res.status(200).json({
       success: true,
       data: { 
-        giftCards,
+        giftCards: giftCards.map((giftCard) => ({
+          ...giftCard,
+          availableUntil: giftCard.expiryDate,
+          validity: describeValidity(giftCard),
+        })),
         total: giftCards.length,
       },
     });
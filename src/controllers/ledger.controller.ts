@@ -0,0 +1,302 @@
+import { Request, Response } from "express";
+import { Prisma } from "@prisma/client";
+import prisma from "../utils/prisma.util";
+import { ledgerAdjustmentSchema } from "../validators/ledger.validator";
+import { ActivityLogger } from "../services/activityLog.service";
+import { LedgerService } from "../services/ledger.service";
+import { hasPermission } from "../middleware/permission.middleware";
+
+// Define authenticated request interface
+interface AuthenticatedRequest extends Request {
+  authUser?: {
+    userId: string;
+    email: string;
+    role: string;
+    isVerified: boolean;
+    profileStatus?: string;
+  };
+}
+
+/**
+ * Reconcile the ledger against every card's currentBalance
+ * @route GET /api/ledger/reconciliation
+ * @access Admin
+ */
+export const getReconciliation = async (req: Request, res: Response) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const result = await LedgerService.reconcile();
+
+    if (!result.balanced) {
+      ActivityLogger.log({
+        actorId: authReq.authUser?.userId,
+        actorType: 'admin',
+        action: 'ledger_mismatch',
+        category: 'SYSTEM',
+        description: `Ledger reconciliation found ${result.mismatches.length} card mismatch(es) and ${result.unbalancedTransactions.length} unbalanced transaction(s)`,
+        metadata: {
+          mismatchedCards: result.mismatches.slice(0, 50).map((m) => m.purchaseId),
+          unbalancedTransactions: result.unbalancedTransactions.slice(0, 50).map((t) => t.transactionId),
+        },
+        severity: 'CRITICAL',
+        req
+      });
+    }
+
+    return res.status(200).json({
+      success: true,
+      data: result,
+    });
+  } catch (error: any) {
+    console.error("Ledger reconciliation error:", error);
+
+    return res.status(500).json({
+      success: false,
+      message: "Internal server error",
+      error: error.message,
+    });
+  }
+};
+
+/**
+ * Write opening balances for paid cards that predate the ledger
+ * @route POST /api/ledger/backfill
+ * @access Admin
+ */
+export const backfillLedger = async (req: Request, res: Response) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const backfilled = await LedgerService.backfillOpeningBalances(authReq.authUser?.userId);
+
+    ActivityLogger.log({
+      actorId: authReq.authUser?.userId,
+      actorType: 'admin',
+      action: 'ledger_backfilled',
+      category: 'SYSTEM',
+      description: `Ledger opening balances written for ${backfilled} card(s)`,
+      metadata: { backfilled },
+      req
+    });
+
+    return res.status(200).json({
+      success: true,
+      message: `Opening balances written for ${backfilled} card(s)`,
+      data: { backfilled },
+    });
+  } catch (error: any) {
+    console.error("Ledger backfill error:", error);
+
+    return res.status(500).json({
+      success: false,
+      message: "Internal server error",
+      error: error.message,
+    });
+  }
+};
+
+/**
+ * Get ledger entries for a purchased gift card
+ * @route GET /api/ledger/purchases/:purchaseId
+ * @access Merchant (Verified, own gift cards) / Admin
+ */
+export const getPurchaseLedger = async (req: Request, res: Response) => {
+  try {
+    const { purchaseId } = req.params;
+
+    const purchasedCard = await prisma.purchasedGiftCard.findUnique({
+      where: { id: purchaseId },
+      include: {
+        giftCard: {
+          select: { merchantId: true, title: true },
+        },
+        ledgerEntries: {
+          orderBy: { createdAt: "asc" },
+        },
+      },
+    });
+
+    if (!purchasedCard) {
+      return res.status(404).json({
+        success: false,
+        message: "Purchase not found",
+      });
+    }
+
+    if (
+      !hasPermission(req, "ledger:read_all") &&
+      purchasedCard.giftCard.merchantId !== req.merchantContext?.merchantId
+    ) {
+      return res.status(403).json({
+        success: false,
+        message: "This gift card does not belong to your business",
+      });
+    }
+
+    const ledgerBalance = purchasedCard.ledgerEntries
+      .filter((entry) => entry.account === "GIFT_CARD")
+      .reduce((sum, entry) => sum.plus(entry.amount), new Prisma.Decimal(0));
+
+    return res.status(200).json({
+      success: true,
+      data: {
+        purchaseId: purchasedCard.id,
+        giftCardTitle: purchasedCard.giftCard.title,
+        currentBalance: purchasedCard.currentBalance.toString(),
+        ledgerBalance: ledgerBalance.toString(),
+        entries: purchasedCard.ledgerEntries,
+      },
+    });
+  } catch (error: any) {
+    console.error("Get purchase ledger error:", error);
+
+    return res.status(500).json({
+      success: false,
+      message: "Internal server error",
+      error: error.message,
+    });
+  }
+};
+
+/**
+ * Manually adjust a card balance with an ADJUST ledger entry
+ * @route POST /api/ledger/adjustments
+ * @access Admin
+ */
+export const createAdjustment = async (req: Request, res: Response) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const adminId = authReq.authUser?.userId;
+
+    if (!adminId) {
+      return res.status(401).json({
+        success: false,
+        message: "Unauthorized",
+      });
+    }
+
+    // Validate request body
+    const validatedData = ledgerAdjustmentSchema.parse(req.body);
+
+    const purchasedCard = await prisma.purchasedGiftCard.findUnique({
+      where: { id: validatedData.purchaseId },
+      include: {
+        giftCard: {
+          select: { merchantId: true },
+        },
+      },
+    });
+
+    if (!purchasedCard) {
+      return res.status(404).json({
+        success: false,
+        message: "Purchase not found",
+      });
+    }
+
+    if (purchasedCard.paymentStatus !== "COMPLETED") {
+      return res.status(400).json({
+        success: false,
+        message: "Only cards with a completed payment can be adjusted",
+        paymentStatus: purchasedCard.paymentStatus,
+      });
+    }
+
+    if (purchasedCard.status !== "ACTIVE" && purchasedCard.status !== "FULLY_REDEEMED") {
+      return res.status(400).json({
+        success: false,
+        message: `Gift card is ${purchasedCard.status.toLowerCase()}`,
+        status: purchasedCard.status,
+      });
+    }
+
+    const amount = new Prisma.Decimal(validatedData.amount);
+    const balanceAfter = purchasedCard.currentBalance.plus(amount);
+
+    if (balanceAfter.isNegative()) {
+      return res.status(400).json({
+        success: false,
+        message: `Adjustment would make the balance negative. Available: ₹${purchasedCard.currentBalance.toFixed(2)}`,
+      });
+    }
+
+    const result = await prisma.$transaction(async (tx) => {
+      // Crossing zero moves the card between ACTIVE and FULLY_REDEEMED
+      const updated = await tx.purchasedGiftCard.updateMany({
+        where: {
+          id: purchasedCard.id,
+          currentBalance: purchasedCard.currentBalance,
+          status: { in: ["ACTIVE", "FULLY_REDEEMED"] },
+        },
+        data: {
+          currentBalance: balanceAfter,
+          status: balanceAfter.isZero() ? "FULLY_REDEEMED" : "ACTIVE",
+        },
+      });
+
+      if (updated.count === 0) {
+        return null;
+      }
+
+      return LedgerService.record(tx, {
+        purchaseId: purchasedCard.id,
+        type: "ADJUST",
+        amount,
+        description: validatedData.reason,
+        createdById: adminId,
+      });
+    });
+
+    if (!result) {
+      return res.status(409).json({
+        success: false,
+        message: "Gift card changed while adjusting. Please try again.",
+      });
+    }
+
+    ActivityLogger.log({
+      actorId: adminId,
+      actorType: 'admin',
+      action: 'balance_adjusted',
+      category: 'PURCHASE',
+      description: `Balance adjusted by ₹${amount.toString()}: ${validatedData.reason}`,
+      resourceType: 'purchased_gift_card',
+      resourceId: purchasedCard.id,
+      metadata: {
+        amount: amount.toNumber(),
+        balanceBefore: purchasedCard.currentBalance.toNumber(),
+        balanceAfter: balanceAfter.toNumber(),
+        ledgerTransactionId: result,
+        reason: validatedData.reason,
+      },
+      merchantId: purchasedCard.giftCard.merchantId,
+      severity: 'WARNING',
+      req
+    });
+
+    return res.status(200).json({
+      success: true,
+      message: "Balance adjusted successfully",
+      data: {
+        transactionId: result,
+        balanceBefore: purchasedCard.currentBalance.toString(),
+        balanceAfter: balanceAfter.toString(),
+      },
+    });
+  } catch (error: any) {
+    console.error("Ledger adjustment error:", error);
+
+    if (error.name === "ZodError") {
+      return res.status(400).json({
+        success: false,
+        message: "Validation error",
+        errors: error.errors,
+      });
+    }
+
+    return res.status(500).json({
+      success: false,
+      message: "Internal server error",
+      error: error.message,
+    });
+  }
+};
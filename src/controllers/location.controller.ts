@@ -0,0 +1,312 @@
+import { Request, Response } from 'express';
+import prisma from '../utils/prisma.util';
+import {
+  assignStaffLocationsSchema,
+  createLocationSchema,
+  updateLocationSchema,
+} from '../validators/location.validator';
+import { ActivityLogger } from '../services/activityLog.service';
+import { LocationService } from '../services/location.service';
+import { StaffService } from '../services/staff.service';
+
+interface AuthenticatedRequest extends Request {
+  authUser?: {
+    userId: string;
+    email: string;
+    role: string;
+    isVerified: boolean;
+    profileStatus?: string;
+  };
+}
+
+const findMerchantProfileId = async (merchantId: string) =>
+  (
+    await prisma.merchantProfile.findUnique({
+      where: { userId: merchantId },
+      select: { id: true },
+    })
+  )?.id;
+
+const profileNotFound = (res: Response) =>
+  res.status(404).json({
+    success: false,
+    message: 'Merchant profile not found',
+  });
+
+/**
+ * @route   GET /api/merchants/locations
+ * @desc    List locations (?includeInactive=true for closed ones too)
+ * @access  Merchant / Staff (locations:read)
+ */
+export const getLocations = async (req: Request, res: Response) => {
+  try {
+    const profileId = await findMerchantProfileId(req.merchantContext!.merchantId);
+    if (!profileId) return profileNotFound(res);
+
+    const locations = await LocationService.list(profileId, req.query.includeInactive === 'true');
+
+    return res.status(200).json({
+      success: true,
+      data: { locations },
+    });
+  } catch (error: any) {
+    console.error('Get locations error:', error);
+
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error.message,
+    });
+  }
+};
+
+/**
+ * @route   POST /api/merchants/locations
+ * @desc    Add a location, optionally limited to some gift cards
+ * @access  Merchant / Staff (locations:manage)
+ */
+export const createLocation = async (req: Request, res: Response) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const merchantId = req.merchantContext!.merchantId;
+
+    const validatedData = createLocationSchema.parse(req.body);
+
+    const profileId = await findMerchantProfileId(merchantId);
+    if (!profileId) return profileNotFound(res);
+
+    const result = await LocationService.create(profileId, merchantId, validatedData);
+
+    if (result.error !== undefined) {
+      return res.status(result.status).json({
+        success: false,
+        message: result.error,
+      });
+    }
+
+    ActivityLogger.locationChanged(
+      result.data.id,
+      result.data.name,
+      'created',
+      authReq.authUser!.userId,
+      merchantId,
+      undefined,
+      req
+    );
+
+    return res.status(201).json({
+      success: true,
+      message: 'Location created',
+      data: { location: result.data },
+    });
+  } catch (error: any) {
+    console.error('Create location error:', error);
+
+    if (error.name === 'ZodError') {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.errors,
+      });
+    }
+
+    if (error.code === 'P2002') {
+      return res.status(409).json({
+        success: false,
+        message: 'You already have a location with this name',
+      });
+    }
+
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error.message,
+    });
+  }
+};
+
+/**
+ * @route   PATCH /api/merchants/locations/:locationId
+ * @desc    Update a location; giftCardIds replaces its gift card restriction
+ * @access  Merchant / Staff (locations:manage)
+ */
+export const updateLocation = async (req: Request, res: Response) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const { locationId } = req.params;
+    const merchantId = req.merchantContext!.merchantId;
+
+    const validatedData = updateLocationSchema.parse(req.body);
+
+    const profileId = await findMerchantProfileId(merchantId);
+    const location = profileId && (await LocationService.find(profileId, locationId));
+
+    if (!location) {
+      return res.status(404).json({
+        success: false,
+        message: 'Location not found',
+      });
+    }
+
+    const result = await LocationService.update(location.id, merchantId, validatedData);
+
+    if (result.error !== undefined) {
+      return res.status(result.status).json({
+        success: false,
+        message: result.error,
+      });
+    }
+
+    ActivityLogger.locationChanged(
+      location.id,
+      result.data.name,
+      'updated',
+      authReq.authUser!.userId,
+      merchantId,
+      validatedData,
+      req
+    );
+
+    return res.status(200).json({
+      success: true,
+      message: 'Location updated',
+      data: { location: result.data },
+    });
+  } catch (error: any) {
+    console.error('Update location error:', error);
+
+    if (error.name === 'ZodError') {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.errors,
+      });
+    }
+
+    if (error.code === 'P2002') {
+      return res.status(409).json({
+        success: false,
+        message: 'You already have a location with this name',
+      });
+    }
+
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error.message,
+    });
+  }
+};
+
+/**
+ * @route   DELETE /api/merchants/locations/:locationId
+ * @desc    Close a location. It stays in redemption history and can be
+ *          reopened with PATCH { isActive: true }.
+ * @access  Merchant / Staff (locations:manage)
+ */
+export const deactivateLocation = async (req: Request, res: Response) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const { locationId } = req.params;
+    const merchantId = req.merchantContext!.merchantId;
+
+    const profileId = await findMerchantProfileId(merchantId);
+    const location = profileId && (await LocationService.find(profileId, locationId));
+
+    if (!location || !location.isActive) {
+      return res.status(404).json({
+        success: false,
+        message: 'Location not found',
+      });
+    }
+
+    await LocationService.update(location.id, merchantId, { isActive: false });
+
+    ActivityLogger.locationChanged(
+      location.id,
+      location.name,
+      'deactivated',
+      authReq.authUser!.userId,
+      merchantId,
+      undefined,
+      req
+    );
+
+    return res.status(200).json({
+      success: true,
+      message: 'Location closed',
+    });
+  } catch (error: any) {
+    console.error('Deactivate location error:', error);
+
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error.message,
+    });
+  }
+};
+
+/**
+ * @route   PUT /api/merchants/staff/:staffId/locations
+ * @desc    Set the locations a staff member may redeem at (empty = anywhere)
+ * @access  Merchant / Staff (locations:manage)
+ */
+export const assignStaffLocations = async (req: Request, res: Response) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const { staffId } = req.params;
+    const merchantId = req.merchantContext!.merchantId;
+
+    const validatedData = assignStaffLocationsSchema.parse(req.body);
+
+    const profileId = await findMerchantProfileId(merchantId);
+    const staff = profileId && (await StaffService.find(profileId, staffId));
+
+    if (!profileId || !staff || staff.removedAt) {
+      return res.status(404).json({
+        success: false,
+        message: 'Staff member not found',
+      });
+    }
+
+    const result = await LocationService.assignStaff(profileId, staff.id, validatedData.locationIds);
+
+    if (result.error !== undefined) {
+      return res.status(result.status).json({
+        success: false,
+        message: result.error,
+      });
+    }
+
+    ActivityLogger.staffLocationsAssigned(
+      staff.id,
+      result.data.map((location) => location.id),
+      authReq.authUser!.userId,
+      merchantId,
+      req
+    );
+
+    return res.status(200).json({
+      success: true,
+      message: 'Staff locations updated',
+      data: { locations: result.data },
+    });
+  } catch (error: any) {
+    console.error('Assign staff locations error:', error);
+
+    if (error.name === 'ZodError') {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.errors,
+      });
+    }
+
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error.message,
+    });
+  }
+};
@@ -3,13 +3,18 @@ import prisma from "../utils/prisma.util";
 import {
   adminCreateMerchantSchema,
   completeProfileSchema,
+  expiryReminderDaysSchema,
   merchantQuickRegisterSchema,
+  suspendMerchantSchema,
 } from "../validators/auth.validator";
 import { AuthenticatedRequest } from "./auth.controller";
 import bcrypt from "bcrypt";
 import { generateTokens } from "../utils/jwt.util";
 import { ActivityLogger } from "../services/activityLog.service";
 import { EmailService } from "../services/email.service";
+import { EmailVerificationService } from "../services/emailVerification.service";
+import { TwoFactorService } from "../services/twoFactor.service";
+import { SessionService } from "../services/session.service";
 import notificationService from "../services/notification.service";
 /**
  * @route   POST /api/auth/merchant/register
@@ -74,24 +79,22 @@ export const merchantRegister = async (req: Request, res: Response) => {
       validatedData.businessName,
     );
 
-    const tokens = generateTokens({
-      userId: user.id,
-      email: user.email,
-      role: user.role,
-      isVerified: false,
-      profileStatus: "INCOMPLETE",
+    EmailVerificationService.sendVerification(user).catch((error) => {
+      console.error("Failed to send verification email:", error);
     });
 
-    const expiresAt = new Date();
-    expiresAt.setDate(expiresAt.getDate() + 7);
-
-    await prisma.refreshToken.create({
-      data: {
-        token: tokens.refreshToken,
+    const tokens = await SessionService.create(
+      {
         userId: user.id,
-        expiresAt,
+        email: user.email,
+        role: user.role,
+        isVerified: false,
+        profileStatus: "INCOMPLETE",
+        twoFactorSetupRequired: TwoFactorService.isSetupRequired(user),
+        tokenVersion: user.tokenVersion,
       },
-    });
+      req
+    );
 
     return res.status(201).json({
       success: true,
@@ -104,6 +107,7 @@ export const merchantRegister = async (req: Request, res: Response) => {
           name: user.name,
           role: user.role,
           profileStatus: "INCOMPLETE",
+          emailVerified: false,
         },
         tokens,
       },
@@ -170,6 +174,13 @@ export const completeProfile = async (req: Request, res: Response) => {
       });
     }
 
+    if (existingProfile.profileStatus === "SUSPENDED") {
+      return res.status(400).json({
+        success: false,
+        message: "Your merchant account is suspended. Please contact support.",
+      });
+    }
+
     const validatedData = completeProfileSchema.parse(req.body);
 
     if (!files?.identityDocument) {
@@ -189,6 +200,7 @@ export const completeProfile = async (req: Request, res: Response) => {
     const updatedProfile = await prisma.merchantProfile.update({
       where: { userId },
       data: {
+        ...(validatedData.businessName && { businessName: validatedData.businessName }),
         businessRegistrationNumber: validatedData.businessRegistrationNumber,
         taxId: validatedData.taxId,
         businessType: validatedData.businessType,
@@ -246,12 +258,20 @@ export const completeProfile = async (req: Request, res: Response) => {
       updatedProfile.id
     );
 
+    // The status change bumped tokenVersion - read it back for the new token
+    const { tokenVersion } = await prisma.user.findUniqueOrThrow({
+      where: { id: userId },
+      select: { tokenVersion: true },
+    });
+
     const tokens = generateTokens({
       userId: userId,
       email: authReq.authUser!.email,
       role: authReq.authUser!.role,
       isVerified: false,
       profileStatus: "PENDING_VERIFICATION",
+      sessionId: authReq.authUser!.sessionId,
+      tokenVersion,
     });
 
     return res.status(200).json({
@@ -370,6 +390,7 @@ export const getMerchantProfile = async (req: Request, res: Response) => {
           isPending: merchantProfile.profileStatus === "PENDING_VERIFICATION",
           isVerified: merchantProfile.profileStatus === "VERIFIED",
           isRejected: merchantProfile.profileStatus === "REJECTED",
+          isSuspended: merchantProfile.profileStatus === "SUSPENDED",
         },
       },
     });
@@ -576,6 +597,10 @@ export const updateMerchantProfile = async (req: Request, res: Response) => {
       description: req.body.description,
       website: req.body.website,
       logo: req.body.logo,
+      expiryReminderDays:
+        req.body.expiryReminderDays !== undefined
+          ? expiryReminderDaysSchema.parse(req.body.expiryReminderDays)
+          : undefined,
     };
 
     // Remove undefined values
@@ -623,6 +648,15 @@ export const updateMerchantProfile = async (req: Request, res: Response) => {
     });
   } catch (error: any) {
     console.error("Update profile error:", error);
+
+    if (error.name === "ZodError") {
+      return res.status(400).json({
+        success: false,
+        message: "Validation error",
+        errors: error.errors,
+      });
+    }
+
     return res.status(500).json({
       success: false,
       message: "Error updating profile",
@@ -850,6 +884,13 @@ export const verifyMerchant = async (req: Request, res: Response) => {
       });
     }
 
+    if (merchantProfile.profileStatus === "SUSPENDED") {
+      return res.status(400).json({
+        success: false,
+        message: "Merchant is suspended. Use reinstate to restore the account.",
+      });
+    }
+
     const updatedProfile = await prisma.merchantProfile.update({
       where: { userId: merchantId },
       data:
@@ -858,7 +899,7 @@ export const verifyMerchant = async (req: Request, res: Response) => {
               profileStatus: "VERIFIED",
               isVerified: true,
               verifiedAt: new Date(),
-              verifiedById: adminId,
+              verifiedBy: { connect: { id: adminId! } },
               verificationNotes,
               rejectionReason: null,
               rejectedAt: null,
@@ -868,7 +909,7 @@ export const verifyMerchant = async (req: Request, res: Response) => {
               isVerified: false,
               rejectionReason,
               rejectedAt: new Date(),
-              verifiedById: adminId,
+              verifiedBy: { connect: { id: adminId! } },
               verificationNotes,
             },
       include: {
@@ -921,6 +962,193 @@ export const verifyMerchant = async (req: Request, res: Response) => {
   }
 };
 
+/**
+ * @route   POST /api/merchants/:merchantId/suspend
+ * @desc    Suspend a verified merchant. Sales and new gift cards stop; cards
+ *          already sold stay redeemable unless freezeRedemptions is set.
+ *          Repeating the call on a suspended merchant updates reason and freeze.
+ * @access  Admin (merchant:suspend)
+ */
+export const suspendMerchant = async (req: Request, res: Response) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const { merchantId } = req.params;
+    const adminId = authReq.authUser!.userId;
+
+    const { reason, freezeRedemptions } = suspendMerchantSchema.parse(req.body);
+
+    const merchantProfile = await prisma.merchantProfile.findUnique({
+      where: { userId: merchantId },
+    });
+
+    if (!merchantProfile) {
+      return res.status(404).json({
+        success: false,
+        message: "Merchant profile not found",
+      });
+    }
+
+    if (
+      merchantProfile.profileStatus !== "VERIFIED" &&
+      merchantProfile.profileStatus !== "SUSPENDED"
+    ) {
+      return res.status(400).json({
+        success: false,
+        message: "Only verified merchants can be suspended",
+      });
+    }
+
+    const alreadySuspended = merchantProfile.profileStatus === "SUSPENDED";
+
+    const updatedProfile = await prisma.merchantProfile.update({
+      where: { userId: merchantId },
+      data: {
+        profileStatus: "SUSPENDED",
+        suspensionReason: reason,
+        redemptionsFrozen: freezeRedemptions,
+        // Keep the original date when only the terms of the suspension change
+        ...(!alreadySuspended && { suspendedAt: new Date() }),
+        suspendedBy: { connect: { id: adminId } },
+      },
+      include: {
+        user: {
+          select: {
+            id: true,
+            email: true,
+            name: true,
+          },
+        },
+      },
+    });
+
+    ActivityLogger.merchantSuspended(
+      updatedProfile.id,
+      updatedProfile.businessName,
+      adminId,
+      reason,
+      freezeRedemptions,
+      req
+    );
+
+    await notificationService.onMerchantSuspended(merchantId, reason, freezeRedemptions);
+
+    EmailService.sendMerchantSuspendedEmail(
+      updatedProfile.user.email,
+      updatedProfile.user.name,
+      updatedProfile.businessName,
+      reason,
+      freezeRedemptions
+    );
+
+    return res.status(200).json({
+      success: true,
+      message: alreadySuspended
+        ? "Merchant suspension updated successfully"
+        : "Merchant suspended successfully",
+      data: {
+        profile: updatedProfile,
+      },
+    });
+  } catch (error: any) {
+    console.error("Suspend merchant error:", error);
+
+    if (error.name === "ZodError") {
+      return res.status(400).json({
+        success: false,
+        message: "Validation error",
+        errors: error.errors,
+      });
+    }
+
+    return res.status(500).json({
+      success: false,
+      message: "Error suspending merchant",
+      error: error.message,
+    });
+  }
+};
+
+/**
+ * @route   POST /api/merchants/:merchantId/reinstate
+ * @desc    Lift a suspension and restore the merchant to verified
+ * @access  Admin (merchant:suspend)
+ */
+export const reinstateMerchant = async (req: Request, res: Response) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const { merchantId } = req.params;
+    const adminId = authReq.authUser!.userId;
+
+    const merchantProfile = await prisma.merchantProfile.findUnique({
+      where: { userId: merchantId },
+    });
+
+    if (!merchantProfile) {
+      return res.status(404).json({
+        success: false,
+        message: "Merchant profile not found",
+      });
+    }
+
+    if (merchantProfile.profileStatus !== "SUSPENDED") {
+      return res.status(400).json({
+        success: false,
+        message: "Merchant is not suspended",
+      });
+    }
+
+    const updatedProfile = await prisma.merchantProfile.update({
+      where: { userId: merchantId },
+      data: {
+        profileStatus: "VERIFIED",
+        suspensionReason: null,
+        suspendedAt: null,
+        suspendedBy: { disconnect: true },
+        redemptionsFrozen: false,
+      },
+      include: {
+        user: {
+          select: {
+            id: true,
+            email: true,
+            name: true,
+          },
+        },
+      },
+    });
+
+    ActivityLogger.merchantReinstated(
+      updatedProfile.id,
+      updatedProfile.businessName,
+      adminId,
+      req
+    );
+
+    await notificationService.onMerchantReinstated(merchantId);
+
+    EmailService.sendMerchantReinstatedEmail(
+      updatedProfile.user.email,
+      updatedProfile.user.name,
+      updatedProfile.businessName
+    );
+
+    return res.status(200).json({
+      success: true,
+      message: "Merchant reinstated successfully",
+      data: {
+        profile: updatedProfile,
+      },
+    });
+  } catch (error: any) {
+    console.error("Reinstate merchant error:", error);
+    return res.status(500).json({
+      success: false,
+      message: "Error reinstating merchant",
+      error: error.message,
+    });
+  }
+};
+
 /**
  * @route   GET /api/auth/admin/merchants
  * @desc    Get all merchants
@@ -998,14 +1226,7 @@ export const deleteMerchant = async (req: Request, res: Response) => {
           where: { userId: merchantId },
         });
 
-        // Delete merchant profile
-        await tx.merchantProfile.delete({
-          where: { userId: merchantId },
-        });
-
-
-
-        // Delete user
+        // Delete user - the merchant profile goes with it
         await tx.user.delete({
           where: { id: merchantId },
         });
@@ -1040,10 +1261,8 @@ export const deleteMerchant = async (req: Request, res: Response) => {
         data: { isActive: false },
       });
 
-      // Invalidate all refresh tokens
-      await prisma.refreshToken.deleteMany({
-        where: { userId: merchantId },
-      });
+      // Invalidate all sessions
+      await SessionService.revokeAll(merchantId);
 
       ActivityLogger.userDeactivated(merchantId, adminId!, req);
 
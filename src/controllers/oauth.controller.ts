@@ -1,8 +1,74 @@
-import { Request, Response } from 'express';
-// import { generateTokens } from '../utils/jwt.util';
-import prisma from '../utils/prisma.util';
-import { generateTokens } from '../utils/jwt.util';
-import { ActivityLogger } from '../services/activityLog.service';
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import passport, { isGoogleConfigured, isMockOAuthEnabled } from '../config/passport.config';
+import { generateTwoFactorChallengeToken } from '../utils/jwt.util';
+import { mockOAuthSchema, oauthExchangeSchema } from '../validators/auth.validator';
+import { OAuthIntent, OAuthService } from '../services/oauth.service';
+import { ActivityLogger, actorTypeForRole } from '../services/activityLog.service';
+import { TwoFactorService } from '../services/twoFactor.service';
+import { SessionService } from '../services/session.service';
+import { twoFactorConfig } from '../config/twoFactor.config';
+
+const GOOGLE_SCOPES = ['profile', 'email'];
+
+const parseIntent = (value: unknown): OAuthIntent => (value === 'merchant' ? 'merchant' : 'login');
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+/**
+ * Start Google sign-in. `?intent=merchant` onboards new accounts as merchants.
+ * Without Google credentials it falls back to the mock provider when that's enabled.
+ */
+export const startGoogleAuth = (req: Request, res: Response, next: NextFunction) => {
+  const intent = parseIntent(req.query.intent);
+
+  if (!isGoogleConfigured()) {
+    if (isMockOAuthEnabled()) {
+      return res.redirect(`${req.baseUrl}/oauth/mock/authorize?intent=${intent}`);
+    }
+
+    return res.status(503).json({
+      success: false,
+      message: 'Google sign-in is not configured',
+    });
+  }
+
+  req.session.oauthIntent = intent;
+
+  passport.authenticate('google', { scope: GOOGLE_SCOPES, session: false })(req, res, next);
+};
+
+/**
+ * Google redirects back here - resolve the account, then hand off to googleAuthSuccess
+ */
+export const googleCallback = (req: Request, res: Response, next: NextFunction) => {
+  passport.authenticate(
+    'google',
+    { session: false },
+    (error: Error | null, user: Express.User | false, info?: { message?: string }) => {
+      if (error || !user) {
+        if (error) console.error('Google OAuth callback error:', error);
+
+        ActivityLogger.log({
+          actorType: 'system',
+          action: 'oauth_failed',
+          category: 'AUTH',
+          description: `Google OAuth failed: ${error?.message || info?.message || 'no user returned'}`,
+          metadata: { reason: info?.message },
+          severity: 'WARNING',
+          req,
+        });
+
+        const reason = error ? 'server_error' : info?.message || 'google_auth_failed';
+        return res.redirect(`${process.env.FRONTEND_URL}/login?error=${reason}`);
+      }
+
+      req.user = user;
+      return googleAuthSuccess(req, res);
+    }
+  )(req, res, next);
+};
 
 /**
  * Google OAuth Success Callback
@@ -10,7 +76,7 @@ import { ActivityLogger } from '../services/activityLog.service';
  */
 export const googleAuthSuccess = async (req: Request, res: Response) => {
   try {
-    const user = req.user as any;
+    const user = req.user;
 
     if (!user) {
       await ActivityLogger.log({
@@ -24,33 +90,39 @@ export const googleAuthSuccess = async (req: Request, res: Response) => {
       return res.redirect(`${process.env.FRONTEND_URL}/login?error=authentication_failed`);
     }
 
+    // Google proved the first factor - the frontend finishes via /api/auth/login/2fa
+    if (!user.isActive) {
+      return res.redirect(`${process.env.FRONTEND_URL}/login?error=account_disabled`);
+    }
+
+    if (user.twoFactorEnabled) {
+      const challengeToken = generateTwoFactorChallengeToken(user.id, twoFactorConfig.challengeTtlSeconds);
+      return res.redirect(`${process.env.FRONTEND_URL}/auth/2fa?challengeToken=${challengeToken}`);
+    }
+
     // Check if merchant is verified (only for merchants)
     const isVerified = user.role === 'MERCHANT' 
       ? user.merchantProfile?.isVerified || false 
       : true;
 
-    // Generate tokens
-    const tokens = generateTokens({
-      userId: user.id,
-      email: user.email,
-      role: user.role,
-      isVerified,
-    });
-
-
-
-    // Store refresh token
-    await prisma.refreshToken.create({
-      data: {
-        token: tokens.refreshToken,
+    // Generate tokens and start a session
+    const tokens = await SessionService.create(
+      {
         userId: user.id,
-        expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000), // 7 days
+        email: user.email,
+        role: user.role,
+        adminRole: user.adminRole ?? undefined,
+        isVerified,
+        profileStatus: user.merchantProfile?.profileStatus,
+        twoFactorSetupRequired: TwoFactorService.isSetupRequired(user),
+        tokenVersion: user.tokenVersion,
       },
-    });
+      req
+    );
 
     await ActivityLogger.log({
       actorId: user.id,
-      actorType: user.role.toLowerCase(),
+      actorType: actorTypeForRole(user.role),
       action: 'oauth_login',
       category: 'AUTH',
       description: `User logged in via Google OAuth`,
@@ -59,15 +131,19 @@ export const googleAuthSuccess = async (req: Request, res: Response) => {
       metadata: { 
         provider: 'google',
         email: user.email,
-        isNewUser: user.createdAt && (Date.now() - new Date(user.createdAt).getTime() < 60000) // Created within last minute
+        isNewUser: !!user.isNewUser,
       },
       req
     });
 
-    // Redirect to frontend with tokens
-    const redirectUrl = `${process.env.FRONTEND_URL}/auth/callback?accessToken=${tokens.accessToken}&refreshToken=${tokens.refreshToken}`;
-    
-    return res.redirect(redirectUrl);
+    // The frontend exchanges the code for the tokens via POST /api/auth/oauth/exchange -
+    // INCOMPLETE merchants continue to onboarding from there
+    const code = await OAuthService.createLoginCode({
+      tokens,
+      profileStatus: user.merchantProfile?.profileStatus,
+    });
+
+    return res.redirect(`${process.env.FRONTEND_URL}/auth/callback?code=${code}`);
   } catch (error: any) {
     console.error('Google auth success error:', error);
 
@@ -83,9 +159,119 @@ export const googleAuthSuccess = async (req: Request, res: Response) => {
   }
 };
 
+/**
+ * Trade the one-time code from the OAuth redirect for the session tokens
+ */
+export const exchangeOAuthCode = async (req: Request, res: Response) => {
+  try {
+    const validatedData = oauthExchangeSchema.parse(req.body);
+
+    const login = await OAuthService.redeemLoginCode(validatedData.code);
+    if (!login) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid or expired sign-in code',
+      });
+    }
+
+    return res.status(200).json({
+      success: true,
+      message: 'Login successful',
+      data: login,
+    });
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.errors,
+      });
+    }
+
+    console.error('OAuth code exchange error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error.message,
+    });
+  }
+};
+
 /**
  * Google OAuth Failure Callback
  */
 export const googleAuthFailure = (req: Request, res: Response) => {
   return res.redirect(`${process.env.FRONTEND_URL}/login?error=google_auth_failed`);
-};
\ No newline at end of file
+};
+
+// ==================== Mock Provider (OAUTH_MOCK_ENABLED) ====================
+
+/**
+ * Stand-in for Google's consent screen so the flow can be exercised offline
+ */
+export const mockOAuthAuthorize = (req: Request, res: Response) => {
+  const intent = parseIntent(req.query.intent);
+
+  res.type('html').send(`<!DOCTYPE html>
+<html>
+  <head><title>Mock OAuth</title></head>
+  <body style="font-family: sans-serif; max-width: 420px; margin: 40px auto;">
+    <h2>Mock Google sign-in</h2>
+    <p>Development only - no request leaves this server.</p>
+    <form method="GET" action="${escapeHtml(req.baseUrl)}/oauth/mock/callback">
+      <input type="hidden" name="intent" value="${intent}" />
+      <p><label>Email<br /><input name="email" type="email" required /></label></p>
+      <p><label>Name<br /><input name="name" required /></label></p>
+      <p><label><input name="emailVerified" type="checkbox" value="true" checked /> Email verified</label></p>
+      <button type="submit">Continue</button>
+    </form>
+  </body>
+</html>`);
+};
+
+/**
+ * Consent submitted - resolve the account the same way the Google strategy does
+ */
+export const mockOAuthCallback = async (req: Request, res: Response) => {
+  try {
+    const validatedData = mockOAuthSchema.parse({
+      ...req.query,
+      emailVerified: req.query.emailVerified ?? 'false',
+    });
+
+    // Stable per email, so signing in again finds the linked account
+    const providerId = `mock-${crypto.createHash('sha256').update(validatedData.email).digest('hex').slice(0, 21)}`;
+
+    const result = await OAuthService.resolveUser(
+      {
+        provider: 'google',
+        providerId,
+        email: validatedData.email,
+        emailVerified: validatedData.emailVerified === 'true',
+        name: validatedData.name,
+      },
+      validatedData.intent
+    );
+
+    if (!result.user) {
+      return res.redirect(`${process.env.FRONTEND_URL}/login?error=${result.reason}`);
+    }
+
+    req.user = { ...result.user, isNewUser: result.isNewUser };
+    return googleAuthSuccess(req, res);
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.errors,
+      });
+    }
+
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error.message,
+    });
+  }
+};
@@ -0,0 +1,124 @@
+import { Request, Response } from "express";
+import prisma from "../utils/prisma.util";
+import { simulateLocalPaymentSchema } from "../validators/payment.validator";
+import { ActivityLogger } from "../services/activityLog.service";
+import { PaymentService, getPaymentProvider } from "../services/payment.service";
+import { localPaymentProvider } from "../providers/localPayment.provider";
+import { PaymentProvider } from "../types/payment.types";
+
+/**
+ * Receive a signed payment webhook from a provider
+ * @route POST /api/payments/webhooks/:provider
+ * @access Public (signature verified)
+ */
+export const handlePaymentWebhook = async (req: Request, res: Response) => {
+  try {
+    let provider: PaymentProvider;
+
+    try {
+      provider = getPaymentProvider(req.params.provider);
+    } catch {
+      return res.status(404).json({
+        success: false,
+        message: "Unknown payment provider",
+      });
+    }
+
+    if (!req.rawBody) {
+      return res.status(400).json({
+        success: false,
+        message: "Webhook body is required",
+      });
+    }
+
+    let event;
+    try {
+      event = provider.verifyWebhook(req.rawBody, req.headers);
+    } catch (verifyError: any) {
+      ActivityLogger.log({
+        actorType: 'system',
+        action: 'webhook_rejected',
+        category: 'PURCHASE',
+        description: `Payment webhook from ${provider.name} rejected: ${verifyError.message}`,
+        metadata: { provider: provider.name, reason: verifyError.message },
+        severity: 'WARNING',
+        req
+      });
+
+      return res.status(400).json({
+        success: false,
+        message: "Invalid webhook",
+      });
+    }
+
+    const result = await PaymentService.processWebhookEvent(provider, event);
+
+    return res.status(200).json({
+      success: true,
+      data: result,
+    });
+  } catch (error: any) {
+    console.error("Payment webhook error:", error);
+
+    return res.status(500).json({
+      success: false,
+      message: "Internal server error",
+      error: error.message,
+    });
+  }
+};
+
+/**
+ * Simulate the local provider confirming or declining a payment
+ * @route POST /api/payments/local/simulate
+ * @access Public (non-production only)
+ */
+export const simulateLocalPayment = async (req: Request, res: Response) => {
+  try {
+    const validatedData = simulateLocalPaymentSchema.parse(req.body);
+
+    const purchase = await prisma.purchasedGiftCard.findUnique({
+      where: { id: validatedData.purchaseId },
+    });
+
+    if (!purchase || purchase.paymentProvider !== localPaymentProvider.name || !purchase.transactionId) {
+      return res.status(404).json({
+        success: false,
+        message: "Local payment not found for this purchase",
+      });
+    }
+
+    // Go through the same signed path a real webhook would
+    const webhook = localPaymentProvider.buildWebhook({
+      type: validatedData.outcome === "succeeded" ? "payment.succeeded" : "payment.failed",
+      providerPaymentId: purchase.transactionId,
+      reference: purchase.id,
+      amount: purchase.purchaseAmount.toNumber(),
+      failureReason: validatedData.failureReason,
+    });
+
+    const event = localPaymentProvider.verifyWebhook(Buffer.from(webhook.body), webhook.headers);
+    const result = await PaymentService.processWebhookEvent(localPaymentProvider, event);
+
+    return res.status(200).json({
+      success: true,
+      data: result,
+    });
+  } catch (error: any) {
+    console.error("Simulate local payment error:", error);
+
+    if (error.name === "ZodError") {
+      return res.status(400).json({
+        success: false,
+        message: "Validation error",
+        errors: error.errors,
+      });
+    }
+
+    return res.status(500).json({
+      success: false,
+      message: "Internal server error",
+      error: error.message,
+    });
+  }
+};
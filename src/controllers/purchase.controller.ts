@@ -2,16 +2,28 @@ import { Request, Response } from "express";
 import {
   purchaseGiftCardSchema,
   redeemGiftCardSchema,
+  refundPurchaseSchema,
+  voidRedemptionSchema,
 } from "../validators/purchase.validator";
 import prisma from "../utils/prisma.util";
 import { Decimal } from "@prisma/client/runtime/library";
-import {
-  generateQRCodeString,
-  generateQRCodeImage,
-} from "../utils/qrcode.util";
+import { generateQRCodeString } from "../utils/qrcode.util";
+import { computeExpiresAt, resolvePurchaseAmount } from "../utils/giftCard.util";
 import { ActivityLogger } from "../services/activityLog.service";
-import { EmailService } from "../services/email.service";
 import notificationService from "../services/notification.service";
+import { EmailService } from "../services/email.service";
+import { PaymentService, getPaymentProvider } from "../services/payment.service";
+import { LedgerService } from "../services/ledger.service";
+import { LocationService } from "../services/location.service";
+import { ExpiryService } from "../services/expiry.service";
+import { PaymentProvider, RefundPaymentResult } from "../types/payment.types";
+import { hasPermission } from "../middleware/permission.middleware";
+
+const PAYMENT_CURRENCY = process.env.PAYMENT_CURRENCY || "INR";
+const REDEMPTION_VOID_WINDOW_MINUTES = parseInt(
+  process.env.REDEMPTION_VOID_WINDOW_MINUTES || "30",
+  10
+);
 
 // Define authenticated request interface
 interface AuthenticatedRequest extends Request {
@@ -72,6 +84,26 @@ export const purchaseGiftCard = async (req: Request, res: Response) => {
       });
     }
 
+    if (giftCard.merchant.merchantProfile?.profileStatus === "SUSPENDED") {
+      ActivityLogger.log({
+        actorType: 'user',
+        action: 'purchase_failed',
+        category: 'PURCHASE',
+        description: `Purchase failed - merchant of gift card "${giftCard.title}" is suspended`,
+        resourceType: 'gift_card',
+        resourceId: giftCardId,
+        metadata: { customerEmail: validatedData.customerEmail, reason: 'merchant_suspended' },
+        merchantId: giftCard.merchantId,
+        severity: 'WARNING',
+        req
+      });
+
+      return res.status(400).json({
+        success: false,
+        message: "This business isn't selling gift cards right now",
+      });
+    }
+
     // Check if gift card is expired
     if (new Date() > giftCard.expiryDate) {
 
@@ -93,10 +125,53 @@ export const purchaseGiftCard = async (req: Request, res: Response) => {
       });
     }
 
+    // Check if the sales window has opened
+    if (giftCard.salesStartDate && new Date() < giftCard.salesStartDate) {
+      return res.status(400).json({
+        success: false,
+        message: "This gift card is not on sale yet",
+        salesStartDate: giftCard.salesStartDate,
+      });
+    }
+
+    const { amount: purchaseAmount, error: amountError } = resolvePurchaseAmount(
+      giftCard,
+      validatedData.amount
+    );
+
+    if (!purchaseAmount) {
+      return res.status(400).json({
+        success: false,
+        message: amountError,
+      });
+    }
+
+    const expiresAt = computeExpiresAt(giftCard);
+
+    // A scheduled gift must arrive while the card can still be used
+    if (validatedData.deliverAt && validatedData.deliverAt >= expiresAt) {
+      return res.status(400).json({
+        success: false,
+        message: "Delivery date must be before the gift card expires",
+        expiresAt,
+      });
+    }
+
+    let paymentProvider: PaymentProvider;
+    try {
+      paymentProvider = getPaymentProvider();
+    } catch (providerError: any) {
+      console.error("Payment provider unavailable:", providerError);
+      return res.status(503).json({
+        success: false,
+        message: "Payments are temporarily unavailable. Please try again later.",
+      });
+    }
+
     // Generate unique QR code with Thnx-Digital prefix
     const qrCode = generateQRCodeString();
 
-    // Create purchased gift card
+    // Create purchased gift card - stays PENDING until the provider confirms payment
     const purchasedCard = await prisma.purchasedGiftCard.create({
       data: {
         giftCardId: giftCard.id,
@@ -104,23 +179,17 @@ export const purchaseGiftCard = async (req: Request, res: Response) => {
         customerName: validatedData.customerName,
         customerEmail: validatedData.customerEmail,
         customerPhone: validatedData.customerPhone,
-        purchaseAmount: giftCard.price,
-        currentBalance: giftCard.price,
-        expiresAt: giftCard.expiryDate,
+        recipientName: validatedData.recipientName,
+        recipientEmail: validatedData.recipientEmail,
+        personalMessage: validatedData.personalMessage,
+        deliverAt: validatedData.deliverAt,
+        purchaseAmount,
+        // Nothing to spend until the payment webhook issues the balance
+        currentBalance: new Decimal(0),
+        expiresAt,
         paymentMethod: validatedData.paymentMethod,
-        transactionId: validatedData.transactionId,
-        paymentStatus: validatedData.transactionId ? "COMPLETED" : "PENDING",
-      },
-      include: {
-        giftCard: {
-          include: {
-            merchant: {
-              include: {
-                merchantProfile: true,
-              },
-            },
-          },
-        },
+        paymentProvider: paymentProvider.name,
+        paymentStatus: "PENDING",
       },
     });
 
@@ -128,86 +197,49 @@ export const purchaseGiftCard = async (req: Request, res: Response) => {
       purchasedCard.id,
       giftCard.title,
       validatedData.customerEmail,
-      giftCard.price.toNumber(),
+      purchaseAmount.toNumber(),
       giftCard.merchantId,
       req
     );
 
-    // Log payment status
-    if (validatedData.transactionId) {
-      ActivityLogger.paymentCompleted(
-        purchasedCard.id,
-        validatedData.transactionId,
-        giftCard.price.toNumber(),
-        giftCard.merchantId
-      );
-    }
-
-      await notificationService.onPurchaseMade(
-      purchasedCard.id,
-      giftCard.title,
-      giftCard.price.toNumber(),
-      validatedData.customerName,
-      giftCard.merchantId
-    );
-
-    // 🔔 NOTIFICATION: Notify merchant about their gift card being purchased
-    await notificationService.onGiftCardPurchased(
-      giftCard.merchantId,
-      purchasedCard.id,
-      giftCard.title,
-      validatedData.customerName,
-
-      giftCard.price.toNumber().toString()
-    );
-
-
-
-
-
-
-  
-    const qrCodeImage = await generateQRCodeImage(purchasedCard.qrCode);
-
-    // Send email with gift card (continue even if email fails)
+    let payment;
     try {
-      EmailService.sendGiftCardEmail(
-        purchasedCard.customerEmail,
+      payment = await PaymentService.initiatePayment(
         purchasedCard,
-        qrCodeImage,
+        paymentProvider,
+        {
+          amount: purchaseAmount.toNumber(),
+          currency: PAYMENT_CURRENCY,
+          description: giftCard.title,
+          customerEmail: validatedData.customerEmail,
+        },
+        giftCard.merchantId
       );
-    } catch (emailError) {
-      console.error("Failed to send email:", emailError);
-      // Continue - user still gets the response
-
-      ActivityLogger.log({
-        actorType: 'system',
-        action: 'email_failed',
-        category: 'PURCHASE',
-        description: `Failed to send gift card email to ${validatedData.customerEmail}`,
-        resourceType: 'purchased_gift_card',
-        resourceId: purchasedCard.id,
-        metadata: { error: (emailError as Error).message },
-        merchantId: giftCard.merchantId,
-        severity: 'ERROR'
+    } catch (paymentError: any) {
+      console.error("Payment initiation error:", paymentError);
+      return res.status(502).json({
+        success: false,
+        message: "Could not start payment. Please try again.",
       });
     }
-    
 
+    // QR code is only released by email once the payment is confirmed
     return res.status(201).json({
       success: true,
-      message:
-        "Gift card purchased successfully! Check your email for details.",
+      message: purchasedCard.recipientEmail
+        ? "Purchase created! Complete the payment and your gift will be emailed to the recipient."
+        : "Purchase created! Complete the payment to receive your gift card by email.",
       data: {
         purchase: {
           id: purchasedCard.id,
-          qrCode: purchasedCard.qrCode,
-          qrCodeImage, // Base64 image - contains ONLY the qrCode ID
           customerName: purchasedCard.customerName,
           customerEmail: purchasedCard.customerEmail,
+          recipientName: purchasedCard.recipientName,
+          recipientEmail: purchasedCard.recipientEmail,
+          deliverAt: purchasedCard.deliverAt,
           purchaseAmount: purchasedCard.purchaseAmount.toString(),
-          currentBalance: purchasedCard.currentBalance.toString(),
           status: purchasedCard.status,
+          paymentStatus: purchasedCard.paymentStatus,
           purchasedAt: purchasedCard.purchasedAt,
           expiresAt: purchasedCard.expiresAt,
           giftCard: {
@@ -223,6 +255,12 @@ export const purchaseGiftCard = async (req: Request, res: Response) => {
             country: giftCard.merchant.merchantProfile?.country,
           },
         },
+        payment: {
+          provider: paymentProvider.name,
+          providerPaymentId: payment.providerPaymentId,
+          checkoutUrl: payment.checkoutUrl,
+          clientSecret: payment.clientSecret,
+        },
       },
     });
   } catch (error: any) {
@@ -279,7 +317,12 @@ export const getGiftCardByQR = async (req: Request, res: Response) => {
       },
     });
 
-    if (!purchasedCard) {
+    // Unpaid cards aren't gift cards yet
+    if (
+      !purchasedCard ||
+      purchasedCard.paymentStatus === "PENDING" ||
+      purchasedCard.paymentStatus === "FAILED"
+    ) {
       return res.status(404).json({
         success: false,
         message: "Gift card not found",
@@ -288,22 +331,21 @@ export const getGiftCardByQR = async (req: Request, res: Response) => {
 
     // Auto-update status if expired
     let status = purchasedCard.status;
+    let currentBalance = purchasedCard.currentBalance;
     if (new Date() > purchasedCard.expiresAt && status === "ACTIVE") {
-      status = "EXPIRED";
-      await prisma.purchasedGiftCard.update({
-        where: { id: purchasedCard.id },
-        data: { status: "EXPIRED" },
-      });
-
-      await ActivityLogger.log({
-        actorType: 'system',
-        action: 'auto_expired',
-        category: 'PURCHASE',
-        description: `Gift card auto-expired on balance check`,
-        resourceType: 'purchased_gift_card',
-        resourceId: purchasedCard.id,
-        merchantId: purchasedCard.giftCard.merchantId
-      });
+      const { expired, breakage } = await ExpiryService.expireCard(purchasedCard);
+
+      if (expired) {
+        status = "EXPIRED";
+        currentBalance = currentBalance.minus(breakage);
+
+        ActivityLogger.purchaseExpired(
+          purchasedCard.id,
+          breakage.toNumber(),
+          purchasedCard.giftCard.merchantId,
+          'balance_check'
+        );
+      }
     }
     
 
@@ -323,7 +365,7 @@ export const getGiftCardByQR = async (req: Request, res: Response) => {
           customerEmail: purchasedCard.customerEmail,
           customerPhone: purchasedCard.customerPhone,
           purchaseAmount: purchasedCard.purchaseAmount.toString(),
-          currentBalance: purchasedCard.currentBalance.toString(),
+          currentBalance: currentBalance.toString(),
           totalRedeemed: totalRedeemed.toFixed(2),
           status,
           purchasedAt: purchasedCard.purchasedAt,
@@ -342,6 +384,9 @@ export const getGiftCardByQR = async (req: Request, res: Response) => {
               purchasedCard.giftCard.merchant.merchantProfile?.businessPhone,
             address: purchasedCard.giftCard.merchant.merchantProfile?.address,
             city: purchasedCard.giftCard.merchant.merchantProfile?.city,
+            // The merchant is suspended and can't accept this card for now
+            redemptionsFrozen:
+              purchasedCard.giftCard.merchant.merchantProfile?.redemptionsFrozen ?? false,
           },
           recentRedemptions: purchasedCard.redemptions,
           redemptionCount: purchasedCard.redemptions.length,
@@ -367,9 +412,10 @@ export const getGiftCardByQR = async (req: Request, res: Response) => {
 export const redeemGiftCard = async (req: Request, res: Response) => {
   try {
     const authReq = req as AuthenticatedRequest;
-    const merchantId = authReq.authUser?.userId;
+    const redeemedById = authReq.authUser?.userId;
+    const merchantId = req.merchantContext?.merchantId;
 
-    if (!merchantId) {
+    if (!redeemedById || !merchantId) {
       return res.status(401).json({
         success: false,
         message: "Unauthorized",
@@ -385,7 +431,13 @@ export const redeemGiftCard = async (req: Request, res: Response) => {
       include: {
         giftCard: {
           include: {
-            merchant: true,
+            merchant: {
+              include: {
+                merchantProfile: {
+                  select: { redemptionsFrozen: true },
+                },
+              },
+            },
           },
         },
       },
@@ -395,7 +447,7 @@ export const redeemGiftCard = async (req: Request, res: Response) => {
       ActivityLogger.verificationFailed(
         validatedData.qrCode,
         'Invalid QR code',
-        merchantId,
+        redeemedById,
         undefined,
         req
       );
@@ -413,7 +465,7 @@ export const redeemGiftCard = async (req: Request, res: Response) => {
       ActivityLogger.verificationFailed(
         validatedData.qrCode,
         'Gift card belongs to different merchant',
-        merchantId,
+        redeemedById,
         purchasedCard.giftCard.merchantId,
         req
       );
@@ -424,13 +476,60 @@ export const redeemGiftCard = async (req: Request, res: Response) => {
       });
     }
 
+    // An admin suspended this merchant and also froze outstanding cards
+    if (purchasedCard.giftCard.merchant.merchantProfile?.redemptionsFrozen) {
+
+      ActivityLogger.verificationFailed(
+        validatedData.qrCode,
+        'Redemptions frozen by merchant suspension',
+        redeemedById,
+        merchantId,
+        req
+      );
+      return res.status(403).json({
+        success: false,
+        message: "Redemptions are temporarily frozen for this business",
+      });
+    }
+
+    const locationResult = await LocationService.resolveForRedemption(
+      merchantId,
+      req.merchantContext?.staffId,
+      validatedData.locationId
+    );
+
+    if (locationResult.error !== undefined) {
+      return res.status(locationResult.status).json({
+        success: false,
+        message: locationResult.error,
+      });
+    }
+
+    const location = locationResult.data;
+
+    // Check the location accepts this gift card
+    if (location && !LocationService.acceptsGiftCard(location, purchasedCard.giftCardId)) {
+
+      ActivityLogger.verificationFailed(
+        validatedData.qrCode,
+        `Gift card not accepted at location ${location.name}`,
+        redeemedById,
+        merchantId,
+        req
+      );
+      return res.status(403).json({
+        success: false,
+        message: `This gift card cannot be redeemed at ${location.name}`,
+      });
+    }
+
     // Check if expired
     if (new Date() > purchasedCard.expiresAt) {
 
       ActivityLogger.verificationFailed(
         validatedData.qrCode,
         'Gift card expired',
-        merchantId,
+        redeemedById,
         merchantId,
         req
       );
@@ -441,13 +540,30 @@ export const redeemGiftCard = async (req: Request, res: Response) => {
       });
     }
 
+    // Check payment was confirmed by the provider
+    if (purchasedCard.paymentStatus !== "COMPLETED") {
+
+      ActivityLogger.verificationFailed(
+        validatedData.qrCode,
+        `Payment status: ${purchasedCard.paymentStatus}`,
+        redeemedById,
+        merchantId,
+        req
+      );
+      return res.status(400).json({
+        success: false,
+        message: "Payment for this gift card has not been completed",
+        paymentStatus: purchasedCard.paymentStatus,
+      });
+    }
+
     // Check status
     if (purchasedCard.status !== "ACTIVE") {
 
       ActivityLogger.verificationFailed(
         validatedData.qrCode,
         `Gift card status: ${purchasedCard.status}`,
-        merchantId,
+        redeemedById,
         merchantId,
         req
       );
@@ -463,7 +579,7 @@ export const redeemGiftCard = async (req: Request, res: Response) => {
     if (validatedData.amount > currentBalance) {
 
       ActivityLogger.log({
-        actorId: merchantId,
+        actorId: redeemedById,
         actorType: 'merchant',
         action: 'redemption_failed',
         category: 'REDEMPTION',
@@ -488,22 +604,42 @@ export const redeemGiftCard = async (req: Request, res: Response) => {
     }
 
     // Calculate new balance
-    const newBalance = currentBalance - validatedData.amount;
-    const balanceBefore = new Decimal(currentBalance);
-    const balanceAfter = new Decimal(newBalance);
+    const balanceBefore = purchasedCard.currentBalance;
+    const balanceAfter = balanceBefore.minus(validatedData.amount);
+    const newBalance = balanceAfter.toNumber();
 
     // Create redemption in transaction
     const result = await prisma.$transaction(async (tx) => {
+      // Conditional update so two scans of the same card can't both spend the balance
+      const updated = await tx.purchasedGiftCard.updateMany({
+        where: {
+          id: purchasedCard.id,
+          status: "ACTIVE",
+          currentBalance: balanceBefore,
+        },
+        data: {
+          currentBalance: balanceAfter,
+          lastUsedAt: new Date(),
+          // If balance is zero, mark as fully redeemed
+          ...(newBalance === 0 && { status: "FULLY_REDEEMED" }),
+        },
+      });
+
+      if (updated.count === 0) {
+        return null;
+      }
+
       // Create redemption record
       const redemption = await tx.redemption.create({
         data: {
           purchasedGiftCardId: purchasedCard.id,
-          redeemedById: merchantId,
+          redeemedById,
           amount: new Decimal(validatedData.amount),
           balanceBefore,
           balanceAfter,
-          locationName: validatedData.locationName,
-          locationAddress: validatedData.locationAddress,
+          locationId: location?.id,
+          locationName: location ? location.name : validatedData.locationName,
+          locationAddress: location ? location.address : validatedData.locationAddress,
           notes: validatedData.notes,
         },
         include: {
@@ -516,25 +652,42 @@ export const redeemGiftCard = async (req: Request, res: Response) => {
         },
       });
 
-      // Update purchased gift card
-      const updateData: any = {
-        currentBalance: balanceAfter,
-        lastUsedAt: new Date(),
-      };
+      await LedgerService.record(tx, {
+        purchaseId: purchasedCard.id,
+        type: "REDEEM",
+        amount: redemption.amount.negated(),
+        referenceType: "redemption",
+        referenceId: redemption.id,
+        createdById: redeemedById,
+      });
 
-      ActivityLogger.redemptionSuccess(
+      const updatedCard = await tx.purchasedGiftCard.findUniqueOrThrow({
+        where: { id: purchasedCard.id },
+      });
+
+      return { redemption, updatedCard };
+    });
+
+    if (!result) {
+      return res.status(409).json({
+        success: false,
+        message: "Gift card balance changed during redemption. Please scan again.",
+      });
+    }
+
+    ActivityLogger.redemptionSuccess(
       result.redemption.id,
       purchasedCard.id,
       validatedData.amount,
       newBalance,
-      merchantId,
+      redeemedById,
       merchantId,
       req
     );
 
     await notificationService.onRedemptionMade(
       result.redemption.id,
-    validatedData.amount,
+      validatedData.amount,
       purchasedCard.giftCard.title,
       purchasedCard.customerName
     );
@@ -547,25 +700,6 @@ export const redeemGiftCard = async (req: Request, res: Response) => {
       purchasedCard.customerName
     );
 
-
-
-
-      // If balance is zero, mark as fully redeemed
-      if (newBalance === 0) {
-        
-        updateData.status = "FULLY_REDEEMED";
-      }
-
-      const updatedCard = await tx.purchasedGiftCard.update({
-        where: { id: purchasedCard.id },
-        data: updateData,
-      });
-
-      return { redemption, updatedCard };
-    });
-
-
-
     // Log if fully redeemed
     if (newBalance === 0) {
       ActivityLogger.redemptionFullyRedeemed(
@@ -579,7 +713,7 @@ export const redeemGiftCard = async (req: Request, res: Response) => {
     ActivityLogger.verificationSuccess(
       purchasedCard.id,
       validatedData.qrCode.substring(0, 8) + '...',
-      merchantId,
+      redeemedById,
       merchantId,
       req
     );
@@ -599,6 +733,7 @@ export const redeemGiftCard = async (req: Request, res: Response) => {
           redeemedAt: result.redemption.redeemedAt,
           redeemedBy: result.redemption.redeemedBy.name,
           location: result.redemption.locationName,
+          locationId: result.redemption.locationId,
         },
         remainingBalance: result.updatedCard.currentBalance.toString(),
         status: result.updatedCard.status,
@@ -624,6 +759,209 @@ export const redeemGiftCard = async (req: Request, res: Response) => {
   }
 };
 
+/**
+ * Void a redemption within the grace window (Merchant only)
+ * @route POST /api/purchases/redemptions/:redemptionId/void
+ * @access Merchant (Verified)
+ */
+export const voidRedemption = async (req: Request, res: Response) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const voidedById = authReq.authUser?.userId;
+    const merchantId = req.merchantContext?.merchantId;
+
+    if (!voidedById || !merchantId) {
+      return res.status(401).json({
+        success: false,
+        message: "Unauthorized",
+      });
+    }
+
+    const { redemptionId } = req.params;
+
+    // Validate request body
+    const validatedData = voidRedemptionSchema.parse(req.body);
+
+    const redemption = await prisma.redemption.findUnique({
+      where: { id: redemptionId },
+      include: {
+        purchasedGiftCard: {
+          include: {
+            giftCard: true,
+          },
+        },
+      },
+    });
+
+    if (!redemption) {
+      return res.status(404).json({
+        success: false,
+        message: "Redemption not found",
+      });
+    }
+
+    const purchasedCard = redemption.purchasedGiftCard;
+
+    // Check if the gift card belongs to this merchant
+    if (purchasedCard.giftCard.merchantId !== merchantId) {
+      return res.status(403).json({
+        success: false,
+        message: "This redemption does not belong to your business",
+      });
+    }
+
+    if (redemption.type === "VOID") {
+      return res.status(400).json({
+        success: false,
+        message: "A void record cannot be voided",
+      });
+    }
+
+    if (redemption.voidedAt) {
+      return res.status(400).json({
+        success: false,
+        message: "Redemption has already been voided",
+        voidedAt: redemption.voidedAt,
+      });
+    }
+
+    const windowEndsAt = new Date(
+      redemption.redeemedAt.getTime() + REDEMPTION_VOID_WINDOW_MINUTES * 60 * 1000
+    );
+    if (new Date() > windowEndsAt) {
+      return res.status(400).json({
+        success: false,
+        message: `Redemptions can only be voided within ${REDEMPTION_VOID_WINDOW_MINUTES} minutes`,
+        redeemedAt: redemption.redeemedAt,
+      });
+    }
+
+    if (purchasedCard.status !== "ACTIVE" && purchasedCard.status !== "FULLY_REDEEMED") {
+      return res.status(400).json({
+        success: false,
+        message: `Gift card is ${purchasedCard.status.toLowerCase().replace("_", " ")}`,
+        status: purchasedCard.status,
+      });
+    }
+
+    const amount = redemption.amount.toNumber();
+
+    const result = await prisma.$transaction(async (tx) => {
+      // Only the latest balance change can be voided - restoring balanceBefore
+      // would otherwise wipe out later redemptions or refunds
+      const updated = await tx.purchasedGiftCard.updateMany({
+        where: {
+          id: purchasedCard.id,
+          currentBalance: redemption.balanceAfter,
+          status: { in: ["ACTIVE", "FULLY_REDEEMED"] },
+        },
+        data: {
+          currentBalance: redemption.balanceBefore,
+          status: "ACTIVE",
+        },
+      });
+
+      if (updated.count === 0) {
+        return null;
+      }
+
+      const voided = await tx.redemption.updateMany({
+        where: { id: redemption.id, voidedAt: null },
+        data: {
+          voidedAt: new Date(),
+          voidReason: validatedData.reason,
+        },
+      });
+
+      if (voided.count === 0) {
+        throw new Error("Redemption was voided by another request");
+      }
+
+      const voidRecord = await tx.redemption.create({
+        data: {
+          purchasedGiftCardId: purchasedCard.id,
+          redeemedById: voidedById,
+          type: "VOID",
+          amount: redemption.amount.negated(),
+          balanceBefore: redemption.balanceAfter,
+          balanceAfter: redemption.balanceBefore,
+          locationId: redemption.locationId,
+          locationName: redemption.locationName,
+          locationAddress: redemption.locationAddress,
+          notes: validatedData.reason,
+          reversalOfId: redemption.id,
+        },
+      });
+
+      await LedgerService.record(tx, {
+        purchaseId: purchasedCard.id,
+        type: "VOID",
+        amount: redemption.amount,
+        referenceType: "redemption",
+        referenceId: voidRecord.id,
+        description: validatedData.reason,
+        createdById: voidedById,
+      });
+
+      return voidRecord;
+    });
+
+    if (!result) {
+      return res.status(409).json({
+        success: false,
+        message:
+          "Gift card balance has changed since this redemption. Only the most recent redemption can be voided.",
+      });
+    }
+
+    ActivityLogger.redemptionVoided(
+      redemption.id,
+      result.id,
+      purchasedCard.id,
+      amount,
+      redemption.balanceBefore.toNumber(),
+      validatedData.reason,
+      voidedById,
+      merchantId,
+      req
+    );
+
+    return res.status(200).json({
+      success: true,
+      message: "Redemption voided successfully",
+      data: {
+        voidedRedemptionId: redemption.id,
+        void: {
+          id: result.id,
+          amount: result.amount.toString(),
+          balanceBefore: result.balanceBefore.toString(),
+          balanceAfter: result.balanceAfter.toString(),
+          reason: validatedData.reason,
+          voidedAt: result.redeemedAt,
+        },
+        remainingBalance: result.balanceAfter.toString(),
+        status: "ACTIVE",
+      },
+    });
+  } catch (error: any) {
+    console.error("Void redemption error:", error);
+
+    if (error.name === "ZodError") {
+      return res.status(400).json({
+        success: false,
+        message: "Validation error",
+        errors: error.errors,
+      });
+    }
+
+    return res.status(500).json({
+      success: false,
+      message: "Internal server error",
+      error: error.message,
+    });
+  }
+};
+
 /**
  * Get merchant's redemption history
  * @route GET /api/purchases/redemptions
@@ -632,7 +970,7 @@ export const redeemGiftCard = async (req: Request, res: Response) => {
 export const getRedemptionHistory = async (req: Request, res: Response) => {
   try {
     const authReq = req as AuthenticatedRequest;
-    const merchantId = authReq.authUser?.userId;
+    const merchantId = req.merchantContext?.merchantId;
 
     if (!merchantId) {
       return res.status(401).json({
@@ -641,21 +979,33 @@ export const getRedemptionHistory = async (req: Request, res: Response) => {
       });
     }
 
+    const locationId = req.query.locationId as string | undefined;
+
+    // Cashiers only see the redemptions they made themselves
+    const where = {
+      purchasedGiftCard: { giftCard: { merchantId } },
+      ...(!hasPermission(req, "redemptions:read_all") && {
+        redeemedById: authReq.authUser!.userId,
+      }),
+      // "none" selects redemptions recorded without a location
+      ...(locationId && { locationId: locationId === "none" ? null : locationId }),
+    };
+
     // Get query params for pagination
     const page = parseInt(req.query.page as string) || 1;
     const limit = parseInt(req.query.limit as string) || 50;
     const skip = (page - 1) * limit;
 
-    const [redemptions, total] = await Promise.all([
+    const [redemptions, total, locationBreakdown] = await Promise.all([
       prisma.redemption.findMany({
-        where: {
-          purchasedGiftCard: {
-            giftCard: {
-              merchantId,
+        where,
+        include: {
+          location: {
+            select: {
+              id: true,
+              name: true,
             },
           },
-        },
-        include: {
           purchasedGiftCard: {
             include: {
               giftCard: {
@@ -668,8 +1018,10 @@ export const getRedemptionHistory = async (req: Request, res: Response) => {
           },
           redeemedBy: {
             select: {
+              id: true,
               name: true,
               email: true,
+              role: true,
             },
           },
         },
@@ -677,15 +1029,8 @@ export const getRedemptionHistory = async (req: Request, res: Response) => {
         take: limit,
         skip,
       }),
-      prisma.redemption.count({
-        where: {
-          purchasedGiftCard: {
-            giftCard: {
-              merchantId,
-            },
-          },
-        },
-      }),
+      prisma.redemption.count({ where }),
+      LocationService.redemptionBreakdown(where),
     ]);
 
     // Calculate total revenue from redemptions
@@ -707,6 +1052,7 @@ export const getRedemptionHistory = async (req: Request, res: Response) => {
         stats: {
           totalRedemptions: total,
           totalRevenue: totalRevenue.toFixed(2),
+          byLocation: locationBreakdown,
         },
       },
     });
@@ -722,13 +1068,15 @@ export const getRedemptionHistory = async (req: Request, res: Response) => {
 };
 
 /**
- * Get customer's purchase history by email (No login required)
+ * Get customer's purchase history by email - customers see their own
+ * (verified) email, admins anyone's
  * @route GET /api/purchases/customer/:email
- * @access Public
+ * @access User / Admin
  */
 export const getCustomerPurchases = async (req: Request, res: Response) => {
   try {
-    const { email } = req.params;
+    const authReq = req as AuthenticatedRequest;
+    const email = req.params.email.trim().toLowerCase();
 
     // Basic email validation
     if (!email || !email.includes("@")) {
@@ -738,8 +1086,41 @@ export const getCustomerPurchases = async (req: Request, res: Response) => {
       });
     }
 
+    // Support staff can look anyone up; customers only their own verified email
+    if (!hasPermission(req, "purchases:read_any")) {
+      const user = await prisma.user.findUnique({
+        where: { id: authReq.authUser!.userId },
+        select: { email: true, emailVerified: true },
+      });
+
+      if (!user || user.email !== email) {
+        return res.status(403).json({
+          success: false,
+          message: "You can only view purchases for your own email address",
+        });
+      }
+
+      if (!user.emailVerified) {
+        return res.status(403).json({
+          success: false,
+          message: "Please verify your email address first.",
+          requiresAction: "VERIFY_EMAIL",
+        });
+      }
+    }
+
     const purchases = await prisma.purchasedGiftCard.findMany({
-      where: { customerEmail: email.toLowerCase() },
+      // Cards bought by this email, or received from someone else as a gift
+      // once its scheduled delivery time has passed
+      where: {
+        OR: [
+          { customerEmail: email },
+          {
+            recipientEmail: email,
+            OR: [{ deliverAt: null }, { deliverAt: { lte: new Date() } }],
+          },
+        ],
+      },
       include: {
         giftCard: {
           include: {
@@ -770,17 +1151,21 @@ export const getCustomerPurchases = async (req: Request, res: Response) => {
       orderBy: { purchasedAt: "desc" },
     });
 
-    // Calculate totals
+    // Calculate totals - only paid cards count as spendable
+    const activePurchases = purchases.filter(
+      (p) => p.status === "ACTIVE" && p.paymentStatus === "COMPLETED",
+    );
     const stats = {
       totalPurchased: purchases.length,
       totalSpent: purchases.reduce(
         (sum, p) => sum + p.purchaseAmount.toNumber(),
         0,
       ),
-      totalBalance: purchases
-        .filter((p) => p.status === "ACTIVE")
-        .reduce((sum, p) => sum + p.currentBalance.toNumber(), 0),
-      activeCards: purchases.filter((p) => p.status === "ACTIVE").length,
+      totalBalance: activePurchases.reduce(
+        (sum, p) => sum + p.currentBalance.toNumber(),
+        0,
+      ),
+      activeCards: activePurchases.length,
       expiredCards: purchases.filter((p) => p.status === "EXPIRED").length,
       fullyRedeemedCards: purchases.filter((p) => p.status === "FULLY_REDEEMED")
         .length,
@@ -803,3 +1188,361 @@ export const getCustomerPurchases = async (req: Request, res: Response) => {
     });
   }
 };
+
+/**
+ * Refund a purchased gift card, fully or partially (Merchant/Admin)
+ * @route POST /api/purchases/:purchaseId/refund
+ * @access Merchant (Verified, own gift cards) / Admin
+ */
+export const refundPurchase = async (req: Request, res: Response) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const userId = authReq.authUser?.userId;
+    const role = authReq.authUser?.role;
+
+    if (!userId || !role) {
+      return res.status(401).json({
+        success: false,
+        message: "Unauthorized",
+      });
+    }
+
+    const { purchaseId } = req.params;
+
+    // Validate request body
+    const validatedData = refundPurchaseSchema.parse(req.body);
+
+    const purchasedCard = await prisma.purchasedGiftCard.findUnique({
+      where: { id: purchaseId },
+      include: {
+        giftCard: {
+          include: {
+            merchant: {
+              include: {
+                merchantProfile: true,
+              },
+            },
+          },
+        },
+      },
+    });
+
+    if (!purchasedCard) {
+      return res.status(404).json({
+        success: false,
+        message: "Purchase not found",
+      });
+    }
+
+    const merchantId = purchasedCard.giftCard.merchantId;
+
+    // Merchants and their staff can only refund their own gift cards; admins
+    // act without a merchantContext
+    if (req.merchantContext && merchantId !== req.merchantContext.merchantId) {
+      return res.status(403).json({
+        success: false,
+        message: "This gift card does not belong to your business",
+      });
+    }
+
+    if (purchasedCard.paymentStatus !== "COMPLETED") {
+      return res.status(400).json({
+        success: false,
+        message: "Only completed payments can be refunded",
+        paymentStatus: purchasedCard.paymentStatus,
+      });
+    }
+
+    if (purchasedCard.status === "CANCELLED") {
+      return res.status(400).json({
+        success: false,
+        message: "Gift card is already cancelled",
+      });
+    }
+
+    const currentBalance = purchasedCard.currentBalance.toNumber();
+    const refundAmount = validatedData.amount ?? currentBalance;
+
+    if (currentBalance <= 0) {
+      return res.status(400).json({
+        success: false,
+        message: "Gift card has no remaining balance to refund",
+      });
+    }
+
+    if (refundAmount > currentBalance) {
+      return res.status(400).json({
+        success: false,
+        message: `Refund exceeds remaining balance. Available: ₹${currentBalance.toFixed(2)}`,
+        currentBalance: currentBalance.toFixed(2),
+        requestedAmount: refundAmount.toFixed(2),
+      });
+    }
+
+    // Purchases made before the provider layer have nothing to refund through
+    let paymentProvider: PaymentProvider | null = null;
+    if (purchasedCard.paymentProvider && purchasedCard.transactionId) {
+      try {
+        paymentProvider = getPaymentProvider(purchasedCard.paymentProvider);
+      } catch (providerError: any) {
+        console.error("Payment provider unavailable:", providerError);
+        return res.status(503).json({
+          success: false,
+          message: "Refunds are temporarily unavailable. Please try again later.",
+        });
+      }
+    }
+
+    const newBalance = Number((currentBalance - refundAmount).toFixed(2));
+    const isFullRefund = newBalance === 0;
+    const providerName = paymentProvider?.name || "manual";
+
+    // Take the balance off and record the refund as PENDING first, so the
+    // provider is only asked to send money back for a refund the DB holds
+    const pendingRefund = await prisma.$transaction(
+      async (tx) => {
+        // Conditional update so a redemption landing at the same time can't be refunded twice
+        const updated = await tx.purchasedGiftCard.updateMany({
+          where: {
+            id: purchasedCard.id,
+            currentBalance: purchasedCard.currentBalance,
+            paymentStatus: "COMPLETED",
+          },
+          data: isFullRefund
+            ? {
+                currentBalance: new Decimal(0),
+                status: "CANCELLED",
+                cancelledAt: new Date(),
+                cancellationReason: validatedData.reason,
+              }
+            : { currentBalance: new Decimal(newBalance) },
+        });
+
+        if (updated.count === 0) {
+          return null;
+        }
+
+        const createdRefund = await tx.refund.create({
+          data: {
+            purchasedGiftCardId: purchasedCard.id,
+            refundedById: userId,
+            type: isFullRefund ? "FULL" : "PARTIAL",
+            status: "PENDING",
+            amount: new Decimal(refundAmount),
+            balanceBefore: purchasedCard.currentBalance,
+            balanceAfter: new Decimal(newBalance),
+            reason: validatedData.reason,
+          },
+        });
+
+        await LedgerService.record(tx, {
+          purchaseId: purchasedCard.id,
+          type: "REFUND",
+          amount: new Decimal(refundAmount).negated(),
+          referenceType: "refund",
+          referenceId: createdRefund.id,
+          description: validatedData.reason,
+          createdById: userId,
+        });
+
+        return createdRefund;
+      },
+      { timeout: 15000 }
+    );
+
+    if (!pendingRefund) {
+      return res.status(409).json({
+        success: false,
+        message: "Gift card balance changed while processing the refund. Please try again.",
+      });
+    }
+
+    let providerRefund: RefundPaymentResult | null = null;
+    if (paymentProvider) {
+      try {
+        providerRefund = await paymentProvider.refundPayment({
+          providerPaymentId: purchasedCard.transactionId!,
+          amount: refundAmount,
+          currency: PAYMENT_CURRENCY,
+          reason: validatedData.reason,
+        });
+      } catch (providerError: any) {
+        console.error("Provider refund failed:", providerError);
+
+        // Nothing left the account - put the balance back on the card
+        await prisma.$transaction(async (tx) => {
+          await tx.purchasedGiftCard.update({
+            where: { id: purchasedCard.id },
+            data: {
+              currentBalance: { increment: new Decimal(refundAmount) },
+              ...(isFullRefund && {
+                status: purchasedCard.status,
+                cancelledAt: null,
+                cancellationReason: null,
+              }),
+            },
+          });
+
+          await LedgerService.record(tx, {
+            purchaseId: purchasedCard.id,
+            type: "ADJUST",
+            amount: new Decimal(refundAmount),
+            referenceType: "refund",
+            referenceId: pendingRefund.id,
+            description: `Refund declined by ${providerName}: ${providerError.message}`,
+            createdById: userId,
+          });
+
+          await tx.refund.update({
+            where: { id: pendingRefund.id },
+            data: { status: "FAILED" },
+          });
+        });
+
+        return res.status(502).json({
+          success: false,
+          message: "The payment provider could not process the refund. Please try again later.",
+        });
+      }
+    }
+
+    const eventPayload = {
+      refundId: pendingRefund.id,
+      providerRefundId: providerRefund?.providerRefundId,
+      reason: validatedData.reason,
+    };
+
+    const refund = await prisma.$transaction(async (tx) => {
+      const completedRefund = await tx.refund.update({
+        where: { id: pendingRefund.id },
+        data: {
+          status: "COMPLETED",
+          providerRefundId: providerRefund?.providerRefundId,
+        },
+      });
+
+      if (isFullRefund) {
+        await PaymentService.transitionPaymentStatus(
+          {
+            purchaseId: purchasedCard.id,
+            toStatus: "REFUNDED",
+            provider: providerName,
+            eventType: "refund.full",
+            amount: refundAmount,
+            payload: eventPayload,
+          },
+          tx
+        );
+      } else {
+        await tx.paymentEvent.create({
+          data: {
+            purchasedGiftCardId: purchasedCard.id,
+            provider: providerName,
+            eventType: "refund.partial",
+            fromStatus: "COMPLETED",
+            toStatus: "COMPLETED",
+            amount: refundAmount,
+            payload: eventPayload,
+          },
+        });
+      }
+
+      return completedRefund;
+    });
+
+    ActivityLogger.purchaseRefunded(
+      purchasedCard.id,
+      refundAmount,
+      newBalance,
+      validatedData.reason,
+      userId,
+      role,
+      merchantId,
+      req
+    );
+
+    if (isFullRefund) {
+      if (purchasedCard.deliverAt && purchasedCard.deliverAt > new Date()) {
+        EmailService.cancelGiftCardEmail(purchasedCard.id);
+      }
+
+      ActivityLogger.purchaseCancelled(
+        purchasedCard.id,
+        validatedData.reason,
+        userId,
+        role,
+        merchantId,
+        req
+      );
+    }
+
+    const refundedBy = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { name: true },
+    });
+
+    await notificationService.onPurchaseRefunded(
+      refund.id,
+      purchasedCard.giftCard.title,
+      refundAmount,
+      refundedBy?.name || role
+    );
+
+    await notificationService.onGiftCardRefunded(
+      merchantId,
+      refund.id,
+      purchasedCard.giftCard.title,
+      purchasedCard.customerName,
+      refundAmount
+    );
+
+    EmailService.sendRefundEmail(purchasedCard.customerEmail, {
+      customerName: purchasedCard.customerName,
+      giftCardTitle: purchasedCard.giftCard.title,
+      businessName:
+        purchasedCard.giftCard.merchant.merchantProfile?.businessName ||
+        purchasedCard.giftCard.merchant.name,
+      amount: refundAmount,
+      remainingBalance: newBalance,
+      reason: validatedData.reason,
+    });
+
+    return res.status(200).json({
+      success: true,
+      message: isFullRefund
+        ? "Gift card fully refunded and cancelled"
+        : "Gift card partially refunded",
+      data: {
+        refund: {
+          id: refund.id,
+          type: refund.type,
+          amount: refund.amount.toString(),
+          balanceBefore: refund.balanceBefore.toString(),
+          balanceAfter: refund.balanceAfter.toString(),
+          reason: refund.reason,
+          providerRefundId: refund.providerRefundId,
+          createdAt: refund.createdAt,
+        },
+        remainingBalance: newBalance.toFixed(2),
+        status: isFullRefund ? "CANCELLED" : purchasedCard.status,
+        paymentStatus: isFullRefund ? "REFUNDED" : purchasedCard.paymentStatus,
+      },
+    });
+  } catch (error: any) {
+    console.error("Refund purchase error:", error);
+
+    if (error.name === "ZodError") {
+      return res.status(400).json({
+        success: false,
+        message: "Validation error",
+        errors: error.errors,
+      });
+    }
+
+    return res.status(500).json({
+      success: false,
+      message: "Internal server error",
+      error: error.message,
+    });
+  }
+};
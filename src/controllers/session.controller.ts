@@ -0,0 +1,114 @@
+import { Request, Response } from 'express';
+import { ActivityLogger } from '../services/activityLog.service';
+import { SessionService } from '../services/session.service';
+
+interface AuthenticatedRequest extends Request {
+  authUser?: {
+    userId: string;
+    email: string;
+    role: string;
+    isVerified: boolean;
+    profileStatus?: string;
+    sessionId?: string;
+  };
+}
+
+/**
+ * @route   GET /api/auth/sessions
+ * @desc    List the current user's active sessions
+ * @access  Private
+ */
+export const getSessions = async (req: Request, res: Response) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const userId = authReq.authUser!.userId;
+
+    const sessions = await SessionService.list(userId);
+
+    return res.status(200).json({
+      success: true,
+      data: {
+        sessions: sessions.map((session) => ({
+          ...session,
+          current: session.id === authReq.authUser!.sessionId,
+        })),
+        total: sessions.length,
+      },
+    });
+  } catch (error: any) {
+    console.error('Get sessions error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error.message,
+    });
+  }
+};
+
+/**
+ * @route   DELETE /api/auth/sessions/:sessionId
+ * @desc    Sign out of one session
+ * @access  Private
+ */
+export const revokeSession = async (req: Request, res: Response) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const { userId, role } = authReq.authUser!;
+    const { sessionId } = req.params;
+
+    const revoked = await SessionService.revoke(userId, sessionId);
+
+    if (!revoked) {
+      return res.status(404).json({
+        success: false,
+        message: 'Session not found',
+      });
+    }
+
+    ActivityLogger.sessionsRevoked(userId, role, 1, sessionId, req);
+
+    return res.status(200).json({
+      success: true,
+      message: 'Session revoked',
+    });
+  } catch (error: any) {
+    console.error('Revoke session error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error.message,
+    });
+  }
+};
+
+/**
+ * @route   DELETE /api/auth/sessions
+ * @desc    Sign out of every other session (or all of them with ?includeCurrent=true)
+ * @access  Private
+ */
+export const revokeAllSessions = async (req: Request, res: Response) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const { userId, role, sessionId } = authReq.authUser!;
+    const includeCurrent = req.query.includeCurrent === 'true';
+
+    const count = await SessionService.revokeAll(userId, includeCurrent ? undefined : sessionId);
+
+    ActivityLogger.sessionsRevoked(userId, role, count, undefined, req);
+
+    return res.status(200).json({
+      success: true,
+      message: includeCurrent
+        ? `Signed out of all ${count} session(s)`
+        : `Signed out of ${count} other session(s)`,
+      data: { revoked: count },
+    });
+  } catch (error: any) {
+    console.error('Revoke all sessions error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error.message,
+    });
+  }
+};
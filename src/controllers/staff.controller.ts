@@ -0,0 +1,337 @@
+import { Request, Response } from 'express';
+import prisma from '../utils/prisma.util';
+import {
+  acceptStaffInviteSchema,
+  inviteStaffSchema,
+  updateStaffSchema,
+} from '../validators/staff.validator';
+import { ActivityLogger } from '../services/activityLog.service';
+import { SessionService } from '../services/session.service';
+import { StaffService } from '../services/staff.service';
+import { TwoFactorService } from '../services/twoFactor.service';
+
+interface AuthenticatedRequest extends Request {
+  authUser?: {
+    userId: string;
+    email: string;
+    role: string;
+    isVerified: boolean;
+    profileStatus?: string;
+  };
+}
+
+const findMerchantProfile = (merchantId: string) =>
+  prisma.merchantProfile.findUnique({
+    where: { userId: merchantId },
+    select: { id: true, businessName: true },
+  });
+
+/**
+ * @route   GET /api/merchants/staff
+ * @desc    List the team - pending invites and active members
+ * @access  Merchant / Staff (staff:manage)
+ */
+export const getStaff = async (req: Request, res: Response) => {
+  try {
+    const profile = await findMerchantProfile(req.merchantContext!.merchantId);
+
+    if (!profile) {
+      return res.status(404).json({
+        success: false,
+        message: 'Merchant profile not found',
+      });
+    }
+
+    const staff = await StaffService.list(profile.id);
+
+    return res.status(200).json({
+      success: true,
+      data: {
+        staff: staff.map((member) => ({
+          ...member,
+          status: member.acceptedAt ? 'ACTIVE' : 'INVITED',
+        })),
+      },
+    });
+  } catch (error: any) {
+    console.error('Get staff error:', error);
+
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error.message,
+    });
+  }
+};
+
+/**
+ * @route   POST /api/merchants/staff
+ * @desc    Invite a staff member by email
+ * @access  Merchant / Staff (staff:manage)
+ */
+export const inviteStaff = async (req: Request, res: Response) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const userId = authReq.authUser!.userId;
+    const merchantId = req.merchantContext!.merchantId;
+
+    const validatedData = inviteStaffSchema.parse(req.body);
+
+    const profile = await findMerchantProfile(merchantId);
+
+    if (!profile) {
+      return res.status(404).json({
+        success: false,
+        message: 'Merchant profile not found',
+      });
+    }
+
+    const result = await StaffService.invite(
+      { profileId: profile.id, businessName: profile.businessName },
+      validatedData,
+      userId
+    );
+
+    if (result.error !== undefined) {
+      return res.status(400).json({
+        success: false,
+        message: result.error,
+      });
+    }
+
+    ActivityLogger.staffInvited(
+      result.staffId,
+      validatedData.email,
+      validatedData.role,
+      userId,
+      merchantId,
+      req
+    );
+
+    return res.status(result.status === 'invited' ? 201 : 200).json({
+      success: true,
+      message:
+        result.status === 'reinstated'
+          ? 'Staff member restored'
+          : `Invitation sent to ${validatedData.email}`,
+      data: { staffId: result.staffId, status: result.status },
+    });
+  } catch (error: any) {
+    console.error('Invite staff error:', error);
+
+    if (error.name === 'ZodError') {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.errors,
+      });
+    }
+
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error.message,
+    });
+  }
+};
+
+/**
+ * @route   PATCH /api/merchants/staff/:staffId
+ * @desc    Change a staff member's role
+ * @access  Merchant / Staff (staff:manage)
+ */
+export const updateStaffRole = async (req: Request, res: Response) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const { staffId } = req.params;
+    const merchantId = req.merchantContext!.merchantId;
+
+    const validatedData = updateStaffSchema.parse(req.body);
+
+    if (staffId === req.merchantContext!.staffId) {
+      return res.status(400).json({
+        success: false,
+        message: 'You cannot change your own role',
+      });
+    }
+
+    const profile = await findMerchantProfile(merchantId);
+    const staff = profile && (await StaffService.find(profile.id, staffId));
+
+    if (!staff || staff.removedAt) {
+      return res.status(404).json({
+        success: false,
+        message: 'Staff member not found',
+      });
+    }
+
+    const updated = await StaffService.updateRole(staff.id, validatedData.role);
+
+    if (staff.role !== updated.role) {
+      ActivityLogger.staffRoleChanged(
+        staff.id,
+        staff.role,
+        updated.role,
+        authReq.authUser!.userId,
+        merchantId,
+        req
+      );
+    }
+
+    return res.status(200).json({
+      success: true,
+      message: 'Staff role updated',
+      data: { staff: updated },
+    });
+  } catch (error: any) {
+    console.error('Update staff role error:', error);
+
+    if (error.name === 'ZodError') {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.errors,
+      });
+    }
+
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error.message,
+    });
+  }
+};
+
+/**
+ * @route   DELETE /api/merchants/staff/:staffId
+ * @desc    Withdraw an invite or remove a member (deactivates their account)
+ * @access  Merchant / Staff (staff:manage)
+ */
+export const removeStaff = async (req: Request, res: Response) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const { staffId } = req.params;
+    const merchantId = req.merchantContext!.merchantId;
+
+    if (staffId === req.merchantContext!.staffId) {
+      return res.status(400).json({
+        success: false,
+        message: 'You cannot remove yourself',
+      });
+    }
+
+    const profile = await findMerchantProfile(merchantId);
+    const staff = profile && (await StaffService.find(profile.id, staffId));
+
+    if (!staff || staff.removedAt) {
+      return res.status(404).json({
+        success: false,
+        message: 'Staff member not found',
+      });
+    }
+
+    const revokedSessions = await StaffService.remove(staff.id);
+
+    ActivityLogger.staffRemoved(
+      staff.id,
+      staff.email,
+      revokedSessions,
+      authReq.authUser!.userId,
+      merchantId,
+      req
+    );
+
+    return res.status(200).json({
+      success: true,
+      message: staff.acceptedAt ? 'Staff member removed' : 'Invitation withdrawn',
+    });
+  } catch (error: any) {
+    console.error('Remove staff error:', error);
+
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error.message,
+    });
+  }
+};
+
+/**
+ * @route   POST /api/auth/staff/accept-invite
+ * @desc    Accept a staff invite - sets a password and signs the new account in
+ * @access  Public
+ */
+export const acceptStaffInvite = async (req: Request, res: Response) => {
+  try {
+    const validatedData = acceptStaffInviteSchema.parse(req.body);
+
+    const result = await StaffService.accept(validatedData);
+
+    if (!result) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid or expired invitation',
+      });
+    }
+
+    const { user, staff } = result;
+
+    const merchant = await prisma.merchantProfile.findUniqueOrThrow({
+      where: { id: staff.merchantProfileId },
+      select: { userId: true },
+    });
+
+    ActivityLogger.staffJoined(staff.id, user.id, merchant.userId, req);
+
+    const tokens = await SessionService.create(
+      {
+        userId: user.id,
+        email: user.email,
+        role: user.role,
+        isVerified: true,
+        twoFactorSetupRequired: TwoFactorService.isSetupRequired(user),
+        tokenVersion: user.tokenVersion,
+      },
+      req
+    );
+
+    return res.status(201).json({
+      success: true,
+      message: 'Welcome to the team!',
+      data: {
+        user: {
+          id: user.id,
+          email: user.email,
+          name: user.name,
+          role: user.role,
+          staffRole: staff.role,
+        },
+        tokens,
+      },
+    });
+  } catch (error: any) {
+    console.error('Accept staff invite error:', error);
+
+    if (error.name === 'ZodError') {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.errors,
+      });
+    }
+
+    // The invited email registered another account in the meantime
+    if (error.code === 'P2002') {
+      return res.status(409).json({
+        success: false,
+        message: 'An account with this email already exists',
+      });
+    }
+
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error.message,
+    });
+  }
+};
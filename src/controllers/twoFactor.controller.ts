@@ -0,0 +1,480 @@
+import { Request, Response } from 'express';
+import prisma from '../utils/prisma.util';
+import { ActivityLogger } from '../services/activityLog.service';
+import { TwoFactorService } from '../services/twoFactor.service';
+import { SessionService } from '../services/session.service';
+import { TWO_FACTOR_ROLES } from '../config/twoFactor.config';
+import {
+  twoFactorCodeSchema,
+  twoFactorRequirementSchema,
+} from '../validators/auth.validator';
+
+interface AuthenticatedRequest extends Request {
+  authUser?: {
+    userId: string;
+    email: string;
+    role: string;
+    isVerified: boolean;
+    profileStatus?: string;
+    twoFactorSetupRequired?: boolean;
+    sessionId?: string;
+  };
+}
+
+/**
+ * @route   GET /api/auth/2fa
+ * @desc    Two-factor status for the current user
+ * @access  Private (Merchant, Admin)
+ */
+export const getTwoFactorStatus = async (req: Request, res: Response) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const userId = authReq.authUser!.userId;
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        id: true,
+        role: true,
+        twoFactorEnabled: true,
+        twoFactorEnabledAt: true,
+        twoFactorRequired: true,
+      },
+    });
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found',
+      });
+    }
+
+    return res.status(200).json({
+      success: true,
+      data: {
+        enabled: user.twoFactorEnabled,
+        enabledAt: user.twoFactorEnabledAt,
+        required: !TwoFactorService.canDisable(user),
+        remainingRecoveryCodes: user.twoFactorEnabled
+          ? await TwoFactorService.remainingRecoveryCodes(user.id)
+          : 0,
+      },
+    });
+  } catch (error: any) {
+    console.error('Get two-factor status error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error.message,
+    });
+  }
+};
+
+/**
+ * @route   POST /api/auth/2fa/setup
+ * @desc    Start enrollment - returns the secret and a QR code for the authenticator app
+ * @access  Private (Merchant, Admin)
+ */
+export const setupTwoFactor = async (req: Request, res: Response) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const userId = authReq.authUser!.userId;
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, email: true, twoFactorEnabled: true },
+    });
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found',
+      });
+    }
+
+    if (user.twoFactorEnabled) {
+      return res.status(400).json({
+        success: false,
+        message: 'Two-factor authentication is already enabled',
+      });
+    }
+
+    const setup = await TwoFactorService.beginSetup(user);
+
+    return res.status(200).json({
+      success: true,
+      message: 'Scan the QR code with your authenticator app, then confirm with a code',
+      data: setup,
+    });
+  } catch (error: any) {
+    console.error('Two-factor setup error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error.message,
+    });
+  }
+};
+
+/**
+ * @route   POST /api/auth/2fa/enable
+ * @desc    Confirm enrollment with a code from the app and get recovery codes
+ * @access  Private (Merchant, Admin)
+ */
+export const enableTwoFactor = async (req: Request, res: Response) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const userId = authReq.authUser!.userId;
+    const validatedData = twoFactorCodeSchema.parse(req.body);
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      include: {
+        merchantProfile: {
+          select: {
+            profileStatus: true,
+            isVerified: true,
+          },
+        },
+      },
+    });
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found',
+      });
+    }
+
+    if (user.twoFactorEnabled) {
+      return res.status(400).json({
+        success: false,
+        message: 'Two-factor authentication is already enabled',
+      });
+    }
+
+    if (!user.twoFactorSecret) {
+      return res.status(400).json({
+        success: false,
+        message: 'Start two-factor setup first',
+      });
+    }
+
+    const isValid = await TwoFactorService.verifyCode(user.id, validatedData.code);
+    if (!isValid) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid authentication code',
+      });
+    }
+
+    const recoveryCodes = await TwoFactorService.enable(user.id);
+
+    ActivityLogger.twoFactorEnabled(user.id, user.role, req);
+
+    // The current session only allows enrollment - replace it with a normal one
+    let tokens: Awaited<ReturnType<typeof SessionService.create>> | undefined;
+    if (authReq.authUser!.twoFactorSetupRequired) {
+      if (authReq.authUser!.sessionId) {
+        await SessionService.revoke(user.id, authReq.authUser!.sessionId);
+      }
+
+      tokens = await SessionService.create(
+        {
+          userId: user.id,
+          email: user.email,
+          role: user.role,
+          adminRole: user.adminRole ?? undefined,
+          isVerified: user.merchantProfile?.isVerified || false,
+          profileStatus: user.merchantProfile?.profileStatus,
+          tokenVersion: user.tokenVersion,
+        },
+        req
+      );
+    }
+
+    return res.status(200).json({
+      success: true,
+      message: 'Two-factor authentication enabled. Store your recovery codes somewhere safe.',
+      data: {
+        recoveryCodes,
+        ...(tokens && { tokens }),
+      },
+    });
+  } catch (error: any) {
+    console.error('Enable two-factor error:', error);
+
+    if (error.name === 'ZodError') {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.errors,
+      });
+    }
+
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error.message,
+    });
+  }
+};
+
+/**
+ * @route   POST /api/auth/2fa/disable
+ * @desc    Turn off two-factor authentication (not allowed when it's required)
+ * @access  Private (Merchant, Admin)
+ */
+export const disableTwoFactor = async (req: Request, res: Response) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const userId = authReq.authUser!.userId;
+    const validatedData = twoFactorCodeSchema.parse(req.body);
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, role: true, twoFactorEnabled: true, twoFactorRequired: true },
+    });
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found',
+      });
+    }
+
+    if (!user.twoFactorEnabled) {
+      return res.status(400).json({
+        success: false,
+        message: 'Two-factor authentication is not enabled',
+      });
+    }
+
+    if (!TwoFactorService.canDisable(user)) {
+      return res.status(403).json({
+        success: false,
+        message: 'Two-factor authentication is required for your account',
+      });
+    }
+
+    const isValid = await TwoFactorService.verifyCode(user.id, validatedData.code);
+    if (!isValid) {
+      ActivityLogger.twoFactorFailed(user.id, 'Invalid code when disabling', req);
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid authentication code',
+      });
+    }
+
+    await TwoFactorService.disable(user.id);
+
+    ActivityLogger.twoFactorDisabled(user.id, user.id, user.role, req);
+
+    return res.status(200).json({
+      success: true,
+      message: 'Two-factor authentication disabled',
+    });
+  } catch (error: any) {
+    console.error('Disable two-factor error:', error);
+
+    if (error.name === 'ZodError') {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.errors,
+      });
+    }
+
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error.message,
+    });
+  }
+};
+
+/**
+ * @route   POST /api/auth/2fa/recovery-codes
+ * @desc    Replace all recovery codes
+ * @access  Private (Merchant, Admin)
+ */
+export const regenerateRecoveryCodes = async (req: Request, res: Response) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const userId = authReq.authUser!.userId;
+    const validatedData = twoFactorCodeSchema.parse(req.body);
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, twoFactorEnabled: true },
+    });
+
+    if (!user?.twoFactorEnabled) {
+      return res.status(400).json({
+        success: false,
+        message: 'Two-factor authentication is not enabled',
+      });
+    }
+
+    const isValid = await TwoFactorService.verifyCode(user.id, validatedData.code);
+    if (!isValid) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid authentication code',
+      });
+    }
+
+    const recoveryCodes = await TwoFactorService.regenerateRecoveryCodes(user.id);
+
+    return res.status(200).json({
+      success: true,
+      message: 'New recovery codes generated. Previous codes no longer work.',
+      data: { recoveryCodes },
+    });
+  } catch (error: any) {
+    console.error('Regenerate recovery codes error:', error);
+
+    if (error.name === 'ZodError') {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.errors,
+      });
+    }
+
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error.message,
+    });
+  }
+};
+
+// ==================== Admin ====================
+
+/**
+ * @route   PUT /api/auth/2fa/users/:userId/requirement
+ * @desc    Require (or stop requiring) two-factor authentication for a user
+ * @access  Admin
+ */
+export const setTwoFactorRequirement = async (req: Request, res: Response) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const { userId } = req.params;
+    const validatedData = twoFactorRequirementSchema.parse(req.body);
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, role: true, twoFactorEnabled: true, twoFactorRequired: true },
+    });
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found',
+      });
+    }
+
+    if (!TWO_FACTOR_ROLES.includes(user.role)) {
+      return res.status(400).json({
+        success: false,
+        message: `Two-factor authentication is only available to ${TWO_FACTOR_ROLES.join(', ').toLowerCase()} accounts`,
+      });
+    }
+
+    if (user.twoFactorRequired !== validatedData.required) {
+      await prisma.user.update({
+        where: { id: user.id },
+        data: { twoFactorRequired: validatedData.required },
+      });
+
+      // Sign them out so the next login enforces enrollment
+      if (validatedData.required && !user.twoFactorEnabled) {
+        await SessionService.revokeAll(user.id);
+      }
+
+      ActivityLogger.twoFactorRequirementChanged(
+        user.id,
+        validatedData.required,
+        authReq.authUser!.userId,
+        req
+      );
+    }
+
+    return res.status(200).json({
+      success: true,
+      message: validatedData.required
+        ? 'Two-factor authentication is now required for this user'
+        : 'Two-factor authentication is no longer required for this user',
+      data: {
+        userId: user.id,
+        twoFactorRequired: validatedData.required,
+        twoFactorEnabled: user.twoFactorEnabled,
+      },
+    });
+  } catch (error: any) {
+    console.error('Set two-factor requirement error:', error);
+
+    if (error.name === 'ZodError') {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.errors,
+      });
+    }
+
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error.message,
+    });
+  }
+};
+
+/**
+ * @route   DELETE /api/auth/2fa/users/:userId
+ * @desc    Reset two-factor for a user who lost their device and recovery codes
+ * @access  Admin
+ */
+export const resetTwoFactor = async (req: Request, res: Response) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const { userId } = req.params;
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, twoFactorEnabled: true },
+    });
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found',
+      });
+    }
+
+    if (!user.twoFactorEnabled) {
+      return res.status(400).json({
+        success: false,
+        message: 'Two-factor authentication is not enabled for this user',
+      });
+    }
+
+    await TwoFactorService.disable(user.id);
+    await SessionService.revokeAll(user.id);
+
+    ActivityLogger.twoFactorDisabled(user.id, authReq.authUser!.userId, 'ADMIN', req);
+
+    return res.status(200).json({
+      success: true,
+      message: 'Two-factor authentication reset. The user has been signed out.',
+    });
+  } catch (error: any) {
+    console.error('Reset two-factor error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error.message,
+    });
+  }
+};
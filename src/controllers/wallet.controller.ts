@@ -0,0 +1,116 @@
+import { Request, Response } from 'express';
+import prisma from '../utils/prisma.util';
+import { ActivityLogger } from '../services/activityLog.service';
+import { WalletService } from '../services/wallet.service';
+
+interface AuthenticatedRequest extends Request {
+  authUser?: {
+    userId: string;
+    email: string;
+    role: string;
+    isVerified: boolean;
+    profileStatus?: string;
+  };
+}
+
+/**
+ * @route   GET /api/wallet
+ * @desc    The customer's gift cards and balances, plus how many cards are waiting to be claimed
+ * @access  Private (User)
+ */
+export const getWallet = async (req: Request, res: Response) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const userId = authReq.authUser!.userId;
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { email: true, emailVerified: true },
+    });
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found',
+      });
+    }
+
+    const [wallet, claimableCount] = await Promise.all([
+      WalletService.list(userId),
+      user.emailVerified ? WalletService.countClaimable(user.email) : Promise.resolve(0),
+    ]);
+
+    return res.status(200).json({
+      success: true,
+      data: {
+        ...wallet,
+        claimableCount,
+        emailVerified: user.emailVerified,
+      },
+    });
+  } catch (error: any) {
+    console.error('Get wallet error:', error);
+
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error.message,
+    });
+  }
+};
+
+/**
+ * @route   POST /api/wallet/claim
+ * @desc    Add every card bought by, or gifted to, the account's verified email to the wallet
+ * @access  Private (User)
+ */
+export const claimGiftCards = async (req: Request, res: Response) => {
+  try {
+    const authReq = req as AuthenticatedRequest;
+    const userId = authReq.authUser!.userId;
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { email: true, emailVerified: true },
+    });
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found',
+      });
+    }
+
+    // The email is the only proof the cards are theirs
+    if (!user.emailVerified) {
+      return res.status(403).json({
+        success: false,
+        message: 'Please verify your email address before claiming gift cards.',
+        requiresAction: 'VERIFY_EMAIL',
+      });
+    }
+
+    const claimedIds = await WalletService.claim(userId, user.email);
+
+    if (claimedIds.length > 0) {
+      ActivityLogger.giftCardsClaimed(userId, claimedIds, req);
+    }
+
+    return res.status(200).json({
+      success: true,
+      message:
+        claimedIds.length > 0
+          ? `${claimedIds.length} gift card(s) added to your wallet`
+          : 'No gift cards to claim',
+      data: { claimed: claimedIds.length, purchaseIds: claimedIds },
+    });
+  } catch (error: any) {
+    console.error('Claim gift cards error:', error);
+
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error.message,
+    });
+  }
+};
@@ -1,5 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import { verifyAccessToken } from '../utils/jwt.util';
+import prisma from '../utils/prisma.util';
+import { cacheTokenVersion, getCachedTokenVersion } from '../utils/tokenVersion.util';
 
 // Extend Request with our custom auth property
 declare global {
@@ -9,13 +11,38 @@ declare global {
         userId: string;
         email: string;
         role: string;
+        adminRole?: string;
         isVerified: boolean;
         profileStatus?: string;
+        twoFactorSetupRequired?: boolean;
+        sessionId?: string;
       };
     }
   }
 }
 
+// Routes a user who still has to enroll in 2FA may use
+const TWO_FACTOR_SETUP_PATHS = ['/api/auth/2fa/setup', '/api/auth/2fa/enable', '/api/auth/me'];
+
+/**
+ * Current tokenVersion for a user - from the Redis cache, falling back to the DB.
+ * Returns null when the user no longer exists.
+ */
+const getCurrentTokenVersion = async (userId: string): Promise<number | null> => {
+  const cached = await getCachedTokenVersion(userId);
+  if (cached !== null) return cached;
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { tokenVersion: true },
+  });
+
+  if (!user) return null;
+
+  cacheTokenVersion(userId, user.tokenVersion);
+  return user.tokenVersion;
+};
+
 export const authenticate = async (
   req: Request,
   res: Response,
@@ -34,117 +61,44 @@ export const authenticate = async (
     const token = authHeader.substring(7);
     const decoded = verifyAccessToken(token);
 
+    // Role, status or verification changed since the token was issued
+    const currentVersion = await getCurrentTokenVersion(decoded.userId);
+    if (currentVersion === null || (decoded.tokenVersion ?? 0) !== currentVersion) {
+      return res.status(401).json({
+        success: false,
+        message: 'Token is no longer valid. Please refresh your session.',
+        code: 'TOKEN_REVOKED',
+      });
+    }
+
     req.authUser = {
       userId: decoded.userId,
       email: decoded.email,
       role: decoded.role,
+      adminRole: decoded.adminRole,
       isVerified: decoded.isVerified,
       profileStatus: decoded.profileStatus,
+      twoFactorSetupRequired: decoded.twoFactorSetupRequired,
+      sessionId: decoded.sessionId,
     };
 
-    next();
-  } catch (error: any) {
-    return res.status(401).json({
-      success: false,
-      message: 'Invalid or expired token',
-      error: error.message,
-    });
-  }
-};
-
-export const authorize = (...allowedRoles: string[]) => {
-  return (req: Request, res: Response, next: NextFunction) => {
-    if (!req.authUser) {
-      return res.status(401).json({
-        success: false,
-        message: 'Unauthorized',
-      });
-    }
-
-    if (!allowedRoles.includes(req.authUser.role)) {
+    if (
+      decoded.twoFactorSetupRequired &&
+      !TWO_FACTOR_SETUP_PATHS.includes(`${req.baseUrl}${req.path}`.replace(/\/$/, ''))
+    ) {
       return res.status(403).json({
         success: false,
-        message: 'You do not have permission to access this resource',
+        message: 'Two-factor authentication must be set up before continuing.',
+        requiresAction: 'SETUP_TWO_FACTOR',
       });
     }
 
     next();
-  };
-};
-
-export const requireCompleteProfile = (
-  req: Request,
-  res: Response,
-  next: NextFunction
-) => {
-  if (!req.authUser) {
+  } catch (error: any) {
     return res.status(401).json({
       success: false,
-      message: 'Unauthorized',
+      message: 'Invalid or expired token',
+      error: error.message,
     });
   }
-
-  if (req.authUser.role === 'MERCHANT') {
-    if (req.authUser.profileStatus === 'INCOMPLETE') {
-      return res.status(403).json({
-        success: false,
-        message: 'Please complete your profile before accessing this resource.',
-        requiresAction: 'COMPLETE_PROFILE',
-      });
-    }
-  }
-
-  next();
 };
-
-export const requireVerification = (
-  req: Request,
-  res: Response,
-  next: NextFunction
-) => {
-  if (!req.authUser) {
-    return res.status(401).json({
-      success: false,
-      message: 'Unauthorized',
-    });
-  }
-
-  if (req.authUser.role === 'MERCHANT') {
-    if (req.authUser.profileStatus === 'INCOMPLETE') {
-      return res.status(403).json({
-        success: false,
-        message: 'Please complete your profile first.',
-        requiresAction: 'COMPLETE_PROFILE',
-        profileStatus: 'INCOMPLETE',
-      });
-    }
-
-    if (req.authUser.profileStatus === 'PENDING_VERIFICATION') {
-      return res.status(403).json({
-        success: false,
-        message: 'Your profile is pending admin verification. Please wait for approval.',
-        requiresAction: 'WAIT_FOR_VERIFICATION',
-        profileStatus: 'PENDING_VERIFICATION',
-      });
-    }
-
-    if (req.authUser.profileStatus === 'REJECTED') {
-      return res.status(403).json({
-        success: false,
-        message: 'Your profile was rejected. Please update and resubmit.',
-        requiresAction: 'RESUBMIT_PROFILE',
-        profileStatus: 'REJECTED',
-      });
-    }
-
-    if (req.authUser.profileStatus !== 'VERIFIED') {
-      return res.status(403).json({
-        success: false,
-        message: 'Your merchant account is not verified yet.',
-        profileStatus: req.authUser.profileStatus,
-      });
-    }
-  }
-
-  next();
-};
\ No newline at end of file
@@ -1,5 +1,9 @@
 import { Request, Response, NextFunction } from 'express';
 import prisma from '../utils/prisma.util';
+import {
+  emailVerificationConfig,
+  EmailVerificationAction,
+} from '../config/emailVerification.config';
 
 export const requireVerifiedMerchant = async (req: Request, res: Response, next: NextFunction) => {
   try {
@@ -41,3 +45,45 @@ export const requireVerifiedMerchant = async (req: Request, res: Response, next:
     });
   }
 };
+
+/**
+ * Block users who haven't confirmed their email from an action, when
+ * EMAIL_VERIFICATION_REQUIRED_FOR includes it. Admins are exempt.
+ */
+export const requireEmailVerified = (action: EmailVerificationAction) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.authUser) {
+      return res.status(401).json({
+        success: false,
+        message: 'Unauthorized',
+      });
+    }
+
+    if (!emailVerificationConfig.requiredFor.has(action) || req.authUser.role === 'ADMIN') {
+      return next();
+    }
+
+    try {
+      // Read from the database - the access token predates a verification made since login
+      const user = await prisma.user.findUnique({
+        where: { id: req.authUser.userId },
+        select: { emailVerified: true },
+      });
+
+      if (!user?.emailVerified) {
+        return res.status(403).json({
+          success: false,
+          message: 'Please verify your email address before continuing.',
+          requiresAction: 'VERIFY_EMAIL',
+        });
+      }
+
+      next();
+    } catch (error) {
+      return res.status(500).json({
+        success: false,
+        message: 'Error checking verification status',
+      });
+    }
+  };
+};
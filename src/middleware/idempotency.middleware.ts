@@ -0,0 +1,170 @@
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { redisConnection } from '../config/redis.config';
+
+export const IDEMPOTENCY_HEADER = 'Idempotency-Key';
+export const IDEMPOTENT_REPLAYED_HEADER = 'Idempotent-Replayed';
+
+const KEY_PREFIX = 'idempotency';
+const MAX_KEY_LENGTH = 255;
+
+// How long a completed response is replayed for
+const RESPONSE_TTL_SECONDS = parseInt(process.env.IDEMPOTENCY_TTL_SECONDS || '86400', 10);
+
+// How long an in-flight request holds the key before a retry may take over
+const LOCK_TTL_SECONDS = 60;
+
+// Client errors a retry would get again. Conflicts, rate limits and auth
+// failures can change, so those release the key instead.
+const REPLAYABLE_CLIENT_ERRORS = [400, 422];
+
+const isReplayable = (statusCode: number): boolean =>
+  (statusCode >= 200 && statusCode < 300) || REPLAYABLE_CLIENT_ERRORS.includes(statusCode);
+
+interface StoredRecord {
+  state: 'processing' | 'completed';
+  fingerprint: string;
+  statusCode?: number;
+  body?: unknown;
+}
+
+interface IdempotencyOptions {
+  required?: boolean; // Reject requests without the header
+}
+
+const fingerprintRequest = (req: Request): string =>
+  crypto
+    .createHash('sha256')
+    .update(`${req.method}:${req.baseUrl}${req.path}:${JSON.stringify(req.body ?? {})}`)
+    .digest('hex');
+
+// Anonymous callers share no user id - scope by buyer email so a guessed key
+// can't replay someone else's checkout. The IP is left out on purpose: mobile
+// retries often come from a new one. Without an email the request body is
+// the scope, so only an identical request can replay.
+const anonymousScope = (req: Request, fingerprint: string): string => {
+  const email = String(req.body?.customerEmail ?? '').trim().toLowerCase();
+
+  return (
+    'anonymous:' +
+    (email ? crypto.createHash('sha256').update(email).digest('hex').slice(0, 32) : fingerprint)
+  );
+};
+
+/**
+ * Replay the first response for repeated requests with the same Idempotency-Key.
+ * Keys are scoped to the caller and the endpoint, so two merchants can't collide.
+ * Only successes and validation errors are stored - anything else releases
+ * the key so the client may retry with it.
+ */
+export const idempotency = (options: IdempotencyOptions = {}) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const idempotencyKey = req.header(IDEMPOTENCY_HEADER);
+
+    if (!idempotencyKey) {
+      if (options.required) {
+        return res.status(400).json({
+          success: false,
+          message: `${IDEMPOTENCY_HEADER} header is required`,
+        });
+      }
+      return next();
+    }
+
+    if (idempotencyKey.length > MAX_KEY_LENGTH) {
+      return res.status(400).json({
+        success: false,
+        message: `${IDEMPOTENCY_HEADER} must be at most ${MAX_KEY_LENGTH} characters`,
+      });
+    }
+
+    const fingerprint = fingerprintRequest(req);
+    const scope = req.authUser?.userId || anonymousScope(req, fingerprint);
+    const redisKey = `${KEY_PREFIX}:${scope}:${req.method}:${req.baseUrl}${req.path}:${idempotencyKey}`;
+
+    // Commands queue forever while Redis is reconnecting - don't hold the request
+    if (['reconnecting', 'close', 'end'].includes(redisConnection.status)) {
+      console.error('Idempotency skipped, Redis unavailable:', redisConnection.status);
+      return next();
+    }
+
+    let acquired: string | null;
+    try {
+      const processing: StoredRecord = { state: 'processing', fingerprint };
+      acquired = await redisConnection.set(
+        redisKey,
+        JSON.stringify(processing),
+        'EX',
+        LOCK_TTL_SECONDS,
+        'NX'
+      );
+    } catch (error) {
+      // Redis being down shouldn't take payments down with it
+      console.error('Idempotency check failed, continuing without it:', error);
+      return next();
+    }
+
+    if (!acquired) {
+      const existing = await redisConnection.get(redisKey).catch(() => null);
+
+      if (!existing) {
+        // Lock expired between SET and GET - ask the client to retry
+        return res.status(409).json({
+          success: false,
+          message: 'A request with this Idempotency-Key is being processed. Please retry.',
+        });
+      }
+
+      const record: StoredRecord = JSON.parse(existing);
+
+      if (record.fingerprint !== fingerprint) {
+        return res.status(422).json({
+          success: false,
+          message: `${IDEMPOTENCY_HEADER} was already used with a different request body`,
+        });
+      }
+
+      if (record.state === 'processing') {
+        return res.status(409).json({
+          success: false,
+          message: 'A request with this Idempotency-Key is being processed. Please retry.',
+        });
+      }
+
+      res.setHeader(IDEMPOTENT_REPLAYED_HEADER, 'true');
+      return res.status(record.statusCode!).json(record.body);
+    }
+
+    // Capture the response body so it can be replayed
+    let responseBody: unknown;
+    const originalJson = res.json.bind(res);
+    res.json = (body: unknown) => {
+      responseBody = body;
+      return originalJson(body);
+    };
+
+    res.on('finish', () => {
+      if (!isReplayable(res.statusCode) || responseBody === undefined) {
+        redisConnection.del(redisKey).catch((error) => {
+          console.error('Failed to release idempotency key:', error);
+        });
+        return;
+      }
+
+      const completed: StoredRecord = {
+        state: 'completed',
+        fingerprint,
+        statusCode: res.statusCode,
+        body: responseBody,
+      };
+
+      redisConnection
+        .set(redisKey, JSON.stringify(completed), 'EX', RESPONSE_TTL_SECONDS)
+        .catch((error) => {
+          console.error('Failed to store idempotent response:', error);
+        });
+    });
+
+    next();
+  };
+};
@@ -0,0 +1,122 @@
+import { Request, Response, NextFunction } from 'express';
+import { isMerchantPermission, Permission } from '../config/permissions.config';
+import { AccessContext, MerchantContext, PermissionService } from '../services/permission.service';
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Effective permissions - resolved once per request by requirePermission
+      access?: AccessContext;
+      // Whose business the caller is acting for - merchants and their staff
+      merchantContext?: MerchantContext;
+    }
+  }
+}
+
+/**
+ * Response for a merchant whose profile status doesn't allow the action yet
+ */
+const merchantStatusError = (profileStatus?: string) => {
+  switch (profileStatus) {
+    case 'INCOMPLETE':
+      return {
+        message: 'Please complete your profile first.',
+        requiresAction: 'COMPLETE_PROFILE',
+        profileStatus,
+      };
+    case 'PENDING_VERIFICATION':
+      return {
+        message: 'Your profile is pending admin verification. Please wait for approval.',
+        requiresAction: 'WAIT_FOR_VERIFICATION',
+        profileStatus,
+      };
+    case 'REJECTED':
+      return {
+        message: 'Your profile was rejected. Please update and resubmit.',
+        requiresAction: 'RESUBMIT_PROFILE',
+        profileStatus,
+      };
+    case 'SUSPENDED':
+      return {
+        message: 'Your merchant account is suspended. Please contact support.',
+        requiresAction: 'CONTACT_SUPPORT',
+        profileStatus,
+      };
+    default:
+      return {
+        message: 'Your merchant account is not verified yet.',
+        profileStatus,
+      };
+  }
+};
+
+export const resolveAccess = async (req: Request): Promise<AccessContext> => {
+  if (!req.access) {
+    req.access = await PermissionService.resolve(req.authUser!);
+    req.merchantContext = req.access.merchantContext;
+  }
+  return req.access;
+};
+
+export const hasPermission = (req: Request, permission: Permission) =>
+  !!req.access?.permissions.includes(permission);
+
+/**
+ * The single authorization check for routes: passes when the caller holds
+ * every listed permission (see permissions.config). Must run after authenticate.
+ */
+export const requirePermission = (...required: Permission[]) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.authUser) {
+      return res.status(401).json({
+        success: false,
+        message: 'Unauthorized',
+      });
+    }
+
+    try {
+      const access = await resolveAccess(req);
+      const missing = required.find((permission) => !access.permissions.includes(permission));
+
+      if (!missing) {
+        return next();
+      }
+
+      if (access.accessRole === 'MERCHANT' && PermissionService.awaitsMerchantVerification(missing)) {
+        return res.status(403).json({
+          success: false,
+          ...merchantStatusError(req.authUser.profileStatus),
+        });
+      }
+
+      if (access.merchantRestriction && isMerchantPermission(missing)) {
+        return res.status(403).json({
+          success: false,
+          ...access.merchantRestriction,
+        });
+      }
+
+      if (access.merchantContext?.staffId) {
+        return res.status(403).json({
+          success: false,
+          message: `Your role (${access.merchantContext.staffRole.toLowerCase()}) does not allow this action`,
+          requiredPermission: missing,
+        });
+      }
+
+      return res.status(403).json({
+        success: false,
+        message: 'You do not have permission to access this resource',
+        requiredPermission: missing,
+      });
+    } catch (error: any) {
+      console.error('Permission check error:', error);
+
+      return res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        error: error.message,
+      });
+    }
+  };
+};
@@ -0,0 +1,103 @@
+import { Request, Response, NextFunction } from 'express';
+import { redisConnection } from '../config/redis.config';
+import { RateLimitBucketName, RateLimitTier, rateLimitConfig } from '../config/rateLimit.config';
+import { verifyAccessToken } from '../utils/jwt.util';
+import { consumeSlidingWindow } from '../utils/rateLimit.util';
+import { ActivityLogger } from '../services/activityLog.service';
+
+export const RATE_LIMIT_HEADERS = [
+  'RateLimit-Limit',
+  'RateLimit-Remaining',
+  'RateLimit-Reset',
+  'RateLimit-Policy',
+  'Retry-After',
+];
+
+interface RateLimitOptions {
+  skip?: (req: Request) => boolean;
+}
+
+const TIER_BY_ROLE: Record<string, RateLimitTier> = {
+  USER: 'user',
+  MERCHANT: 'merchant',
+  STAFF: 'merchant', // Staff scan cards on the merchant's behalf
+  ADMIN: 'admin',
+};
+
+/**
+ * Work out who is calling. Public routes don't run authenticate, so the bearer
+ * token is decoded here too - only to pick a bucket, never to grant access.
+ */
+const identifyCaller = (req: Request): { tier: RateLimitTier; identifier: string; userId?: string } => {
+  let user = req.authUser;
+
+  if (!user) {
+    const authHeader = req.headers.authorization;
+    if (authHeader?.startsWith('Bearer ')) {
+      try {
+        user = verifyAccessToken(authHeader.substring(7));
+      } catch {
+        // Invalid tokens are limited as anonymous
+      }
+    }
+  }
+
+  const tier = user ? TIER_BY_ROLE[user.role] : undefined;
+  if (!user || !tier) {
+    return { tier: 'anonymous', identifier: req.ip || 'unknown' };
+  }
+
+  return { tier, identifier: user.userId, userId: user.userId };
+};
+
+/**
+ * Log the first rejection per caller and window, not every blocked request
+ */
+const logAbuse = async (key: string, windowSeconds: number, log: () => void) => {
+  try {
+    const first = await redisConnection.set(`ratelimit-logged:${key}`, '1', 'EX', windowSeconds, 'NX');
+    if (first) log();
+  } catch (error) {
+    console.error('Failed to record rate limit abuse:', error);
+  }
+};
+
+/**
+ * Sliding-window rate limit for a named bucket (see rateLimit.config).
+ * Sets RateLimit-* headers on every response and Retry-After on 429s.
+ */
+export const rateLimit = (bucketName: RateLimitBucketName, options: RateLimitOptions = {}) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (!rateLimitConfig.enabled || options.skip?.(req)) {
+      return next();
+    }
+
+    const bucket = rateLimitConfig.buckets[bucketName];
+    const { tier, identifier, userId } = identifyCaller(req);
+    const limit = bucket.limits[tier];
+    const key = `${bucketName}:${tier}:${identifier}`;
+
+    const result = await consumeSlidingWindow(key, limit, bucket.windowSeconds);
+
+    res.setHeader('RateLimit-Limit', limit.toString());
+    res.setHeader('RateLimit-Remaining', result.remaining.toString());
+    res.setHeader('RateLimit-Reset', result.retryAfterSeconds.toString());
+    res.setHeader('RateLimit-Policy', `${limit};w=${bucket.windowSeconds}`);
+
+    if (!result.allowed) {
+      res.setHeader('Retry-After', result.retryAfterSeconds.toString());
+
+      logAbuse(key, bucket.windowSeconds, () =>
+        ActivityLogger.rateLimitExceeded(bucketName, tier, identifier, userId, req)
+      );
+
+      return res.status(429).json({
+        success: false,
+        message: 'Too many requests. Please try again later.',
+        retryAfterSeconds: result.retryAfterSeconds,
+      });
+    }
+
+    next();
+  };
+};
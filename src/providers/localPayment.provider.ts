@@ -0,0 +1,107 @@
+import crypto from 'crypto';
+import { IncomingHttpHeaders } from 'http';
+import {
+  CreatePaymentInput,
+  CreatePaymentResult,
+  PaymentProvider,
+  PaymentWebhookEvent,
+  PaymentWebhookEventType,
+  RefundPaymentInput,
+  RefundPaymentResult,
+} from '../types/payment.types';
+
+export const LOCAL_SIGNATURE_HEADER = 'x-local-signature';
+
+/**
+ * Fake payment provider for local development and tests.
+ * Payments never leave the process - webhooks are built and signed with
+ * buildWebhook() and fed back through the normal webhook route.
+ */
+export class LocalPaymentProvider implements PaymentProvider {
+  readonly name = 'local';
+
+  // Without a configured secret each process signs with its own random one,
+  // so only webhooks built by buildWebhook() verify
+  constructor(
+    private readonly webhookSecret: string = process.env.LOCAL_PAYMENT_WEBHOOK_SECRET ||
+      crypto.randomBytes(32).toString('hex')
+  ) {}
+
+  async createPayment(input: CreatePaymentInput): Promise<CreatePaymentResult> {
+    const providerPaymentId = `local_pay_${crypto.randomBytes(12).toString('hex')}`;
+
+    return {
+      providerPaymentId,
+      checkoutUrl: `${process.env.APP_URL || 'http://localhost:3000'}/local-checkout/${providerPaymentId}?reference=${input.reference}`,
+    };
+  }
+
+  async refundPayment(input: RefundPaymentInput): Promise<RefundPaymentResult> {
+    if (!input.providerPaymentId.startsWith('local_pay_')) {
+      throw new Error(`Unknown local payment ${input.providerPaymentId}`);
+    }
+
+    return { providerRefundId: `local_ref_${crypto.randomBytes(12).toString('hex')}` };
+  }
+
+  sign(rawBody: Buffer | string): string {
+    return crypto.createHmac('sha256', this.webhookSecret).update(rawBody).digest('hex');
+  }
+
+  /**
+   * Build a signed webhook request the same way a real provider would send it
+   */
+  buildWebhook(event: {
+    type: PaymentWebhookEventType;
+    providerPaymentId: string;
+    reference: string;
+    amount: number;
+    failureReason?: string;
+  }) {
+    const body = JSON.stringify({
+      id: `local_evt_${crypto.randomBytes(12).toString('hex')}`,
+      ...event,
+    });
+
+    return {
+      body,
+      headers: {
+        'content-type': 'application/json',
+        [LOCAL_SIGNATURE_HEADER]: this.sign(body),
+      },
+    };
+  }
+
+  verifyWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): PaymentWebhookEvent {
+    const signature = headers[LOCAL_SIGNATURE_HEADER];
+
+    if (typeof signature !== 'string') {
+      throw new Error('Missing webhook signature');
+    }
+
+    const expected = Buffer.from(this.sign(rawBody), 'hex');
+    const received = Buffer.from(signature, 'hex');
+
+    if (expected.length !== received.length || !crypto.timingSafeEqual(expected, received)) {
+      throw new Error('Invalid webhook signature');
+    }
+
+    const payload = JSON.parse(rawBody.toString('utf8'));
+
+    if (payload.type !== 'payment.succeeded' && payload.type !== 'payment.failed') {
+      throw new Error(`Unsupported webhook event type: ${payload.type}`);
+    }
+
+    return {
+      eventId: payload.id,
+      type: payload.type,
+      providerPaymentId: payload.providerPaymentId,
+      reference: payload.reference,
+      amount: Number(payload.amount),
+      failureReason: payload.failureReason,
+      payload,
+    };
+  }
+}
+
+export const localPaymentProvider = new LocalPaymentProvider();
@@ -7,13 +7,30 @@ const FRONTEND_URL = process.env.FRONTEND_URL || 'http://thnxdigital.com';
 
 const resend = new Resend(RESEND_API_KEY);
 
+// Customer-written text (gift messages) goes into HTML templates
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
 
 export type EmailJobType = 
   | 'welcome_email'
   | 'gift_card_email'
+  | 'purchase_confirmation_email'
   | 'password_reset_email'
+  | 'email_verification_email'
+  | 'account_locked_email'
+  | 'staff_invite_email'
   | 'merchant_approved_email'
   | 'merchant_rejected_email'
+  | 'merchant_suspended_email'
+  | 'merchant_reinstated_email'
+  | 'refund_email'
+  | 'expiry_reminder_email'
   | 'generic_email';
 
 export interface BaseEmailJobData {
@@ -46,6 +63,22 @@ export interface GiftCardEmailData extends BaseEmailJobData {
     };
   };
   qrCodeImage: string; // Base64 image
+  gift?: {
+    fromName: string;
+    recipientName: string;
+    personalMessage?: string;
+  };
+}
+
+export interface PurchaseConfirmationEmailData extends BaseEmailJobData {
+  type: 'purchase_confirmation_email';
+  customerName: string;
+  giftCardTitle: string;
+  businessName: string;
+  amount: string;
+  recipientName: string;
+  recipientEmail: string;
+  deliverAt?: string; // Omitted when delivered right away
 }
 
 export interface PasswordResetEmailData extends BaseEmailJobData {
@@ -54,6 +87,29 @@ export interface PasswordResetEmailData extends BaseEmailJobData {
   resetLink: string;
 }
 
+export interface EmailVerificationEmailData extends BaseEmailJobData {
+  type: 'email_verification_email';
+  name: string;
+  verificationLink: string;
+  expiresInHours: number;
+}
+
+export interface AccountLockedEmailData extends BaseEmailJobData {
+  type: 'account_locked_email';
+  name: string;
+  unlockLink: string;
+  lockedMinutes: number;
+}
+
+export interface StaffInviteEmailData extends BaseEmailJobData {
+  type: 'staff_invite_email';
+  name: string;
+  businessName: string;
+  role: string;
+  inviteLink: string;
+  expiresInDays: number;
+}
+
 export interface MerchantApprovedEmailData extends BaseEmailJobData {
   type: 'merchant_approved_email';
   name: string;
@@ -67,6 +123,43 @@ export interface MerchantRejectedEmailData extends BaseEmailJobData {
   rejectionReason: string;
 }
 
+export interface MerchantSuspendedEmailData extends BaseEmailJobData {
+  type: 'merchant_suspended_email';
+  name: string;
+  businessName: string;
+  reason: string;
+  redemptionsFrozen: boolean;
+}
+
+export interface MerchantReinstatedEmailData extends BaseEmailJobData {
+  type: 'merchant_reinstated_email';
+  name: string;
+  businessName: string;
+}
+
+export interface RefundEmailData extends BaseEmailJobData {
+  type: 'refund_email';
+  customerName: string;
+  giftCardTitle: string;
+  businessName: string;
+  amount: string;
+  remainingBalance: string;
+  reason: string;
+  fullRefund: boolean;
+}
+
+export interface ExpiryReminderEmailData extends BaseEmailJobData {
+  type: 'expiry_reminder_email';
+  customerName: string;
+  giftCardTitle: string;
+  businessName: string;
+  currentBalance: string;
+  expiresAt: string;
+  daysLeft: number;
+  qrCode: string;
+  qrCodeImage: string; // Base64 image
+}
+
 export interface GenericEmailData extends BaseEmailJobData {
   type: 'generic_email';
   subject: string;
@@ -76,9 +169,17 @@ export interface GenericEmailData extends BaseEmailJobData {
 export type EmailJobData = 
   | WelcomeEmailData
   | GiftCardEmailData
+  | PurchaseConfirmationEmailData
   | PasswordResetEmailData
+  | EmailVerificationEmailData
+  | AccountLockedEmailData
+  | StaffInviteEmailData
   | MerchantApprovedEmailData
   | MerchantRejectedEmailData
+  | MerchantSuspendedEmailData
+  | MerchantReinstatedEmailData
+  | RefundEmailData
+  | ExpiryReminderEmailData
   | GenericEmailData;
 
 
@@ -160,13 +261,26 @@ export const emailWorker = new Worker<EmailJobData>(
           data.purchaseData.giftCard?.merchant?.name || 
           'Merchant';
 
+        const giftHeader = data.gift
+          ? `
+              <p>Hi ${escapeHtml(data.gift.recipientName)},</p>
+              <p><strong>${escapeHtml(data.gift.fromName)}</strong> sent you a gift card for <strong>${businessName}</strong>.</p>
+              ${data.gift.personalMessage
+                ? `<blockquote style="border-left: 4px solid #4CAF50; margin: 20px 0; padding: 10px 15px; background-color: #f5f5f5; font-style: italic;">${escapeHtml(data.gift.personalMessage).replace(/\n/g, '<br>')}</blockquote>`
+                : ''}
+            `
+          : '';
+
         await resend.emails.send({
           from: 'THNX Digital <noreply@thnxdigital.com>',
           to,
-          subject: `Your Gift Card - ${data.purchaseData.giftCard?.title || 'Gift Card'}`,
+          subject: data.gift
+            ? `${data.gift.fromName} sent you a gift card 🎁`
+            : `Your Gift Card - ${data.purchaseData.giftCard?.title || 'Gift Card'}`,
           html: `
             <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
-              <h2 style="color: #4CAF50;">Your Gift Card is Ready! 🎉</h2>
+              <h2 style="color: #4CAF50;">${data.gift ? 'You Received a Gift Card! 🎁' : 'Your Gift Card is Ready! 🎉'}</h2>
+              ${giftHeader}
               
               <div style="border: 2px solid #4CAF50; border-radius: 10px; padding: 20px; background-color: #f9f9f9;">
                 <h3 style="margin-top: 0;">${data.purchaseData.giftCard?.title || 'Gift Card'}</h3>
@@ -200,6 +314,40 @@ export const emailWorker = new Worker<EmailJobData>(
         break;
       }
 
+      case 'purchase_confirmation_email': {
+        const data = job.data as PurchaseConfirmationEmailData;
+        const deliveryText = data.deliverAt
+          ? `It will be delivered to ${escapeHtml(data.recipientName)} (${data.recipientEmail}) on ${new Date(data.deliverAt).toLocaleString()}.`
+          : `It has been sent to ${escapeHtml(data.recipientName)} (${data.recipientEmail}).`;
+
+        await resend.emails.send({
+          from: 'THNX Digital <noreply@thnxdigital.com>',
+          to,
+          subject: `Your gift for ${data.recipientName} is confirmed`,
+          html: `
+            <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+              <h2 style="color: #4CAF50;">Thanks for Your Purchase! 🎁</h2>
+              
+              <p>Hi ${escapeHtml(data.customerName)},</p>
+              
+              <p>Your payment for a <strong>${data.giftCardTitle}</strong> gift card from <strong>${data.businessName}</strong> was successful.</p>
+              
+              <div style="background-color: #f5f5f5; border-radius: 8px; padding: 15px; margin: 20px 0;">
+                <p style="margin: 0 0 10px 0;"><strong>Amount:</strong> ₹${data.amount}</p>
+                <p style="margin: 0;"><strong>Recipient:</strong> ${escapeHtml(data.recipientName)}</p>
+              </div>
+              
+              <p>${deliveryText}</p>
+              
+              <p style="margin-top: 30px; color: #666; font-size: 12px; border-top: 1px solid #ddd; padding-top: 15px;">
+                If you have any questions, contact us at support@thnxdigital.com
+              </p>
+            </div>
+          `,
+        });
+        break;
+      }
+
       case 'password_reset_email': {
         const data = job.data as PasswordResetEmailData;
         await resend.emails.send({
@@ -233,6 +381,108 @@ export const emailWorker = new Worker<EmailJobData>(
         break;
       }
 
+      case 'email_verification_email': {
+        const data = job.data as EmailVerificationEmailData;
+        await resend.emails.send({
+          from: 'THNX Digital <noreply@thnxdigital.com>',
+          to,
+          subject: 'Verify Your Email - THNX Digital',
+          html: `
+            <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+              <h2 style="color: #4CAF50;">Confirm Your Email Address</h2>
+              
+              <p>Hi ${escapeHtml(data.name)},</p>
+              
+              <p>Please confirm that this is your email address by clicking the button below:</p>
+              
+              <div style="text-align: center; margin: 30px 0;">
+                <a href="${data.verificationLink}" 
+                   style="background-color: #4CAF50; color: white; padding: 12px 30px; text-decoration: none; border-radius: 5px; font-weight: bold;">
+                  Verify Email
+                </a>
+              </div>
+              
+              <p style="color: #888; font-size: 14px;">This link will expire in ${data.expiresInHours} hours.</p>
+              <p style="color: #888; font-size: 14px;">If you didn't create an account, please ignore this email.</p>
+              
+              <p style="margin-top: 30px; color: #666; font-size: 12px; border-top: 1px solid #ddd; padding-top: 15px;">
+                If you have any questions, contact us at support@thnxdigital.com
+              </p>
+            </div>
+          `,
+        });
+        break;
+      }
+
+      case 'account_locked_email': {
+        const data = job.data as AccountLockedEmailData;
+        await resend.emails.send({
+          from: 'THNX Digital <noreply@thnxdigital.com>',
+          to,
+          subject: 'Your Account Has Been Locked - THNX Digital',
+          html: `
+            <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+              <h2 style="color: #f44336;">Account Temporarily Locked</h2>
+              
+              <p>Hi ${escapeHtml(data.name)},</p>
+              
+              <p>We locked your account after several failed sign-in attempts. It will unlock automatically in ${data.lockedMinutes} minutes.</p>
+              
+              <p>If this was you, you can unlock it now:</p>
+              
+              <div style="text-align: center; margin: 30px 0;">
+                <a href="${data.unlockLink}" 
+                   style="background-color: #4CAF50; color: white; padding: 12px 30px; text-decoration: none; border-radius: 5px; font-weight: bold;">
+                  Unlock Account
+                </a>
+              </div>
+              
+              <p style="color: #888; font-size: 14px;">If this wasn't you, someone may be trying to guess your password. We recommend resetting it once your account is unlocked.</p>
+              
+              <p style="margin-top: 30px; color: #666; font-size: 12px; border-top: 1px solid #ddd; padding-top: 15px;">
+                If you have any questions, contact us at support@thnxdigital.com
+              </p>
+            </div>
+          `,
+        });
+        break;
+      }
+
+      case 'staff_invite_email': {
+        const data = job.data as StaffInviteEmailData;
+        await resend.emails.send({
+          from: 'THNX Digital <noreply@thnxdigital.com>',
+          to,
+          subject: `You've been invited to join ${data.businessName} on THNX Digital`,
+          html: `
+            <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+              <h2 style="color: #4CAF50;">You're Invited!</h2>
+              
+              <p>Hi ${escapeHtml(data.name)},</p>
+              
+              <p><strong>${escapeHtml(data.businessName)}</strong> has invited you to join their team as a <strong>${escapeHtml(data.role)}</strong>.</p>
+              
+              <p>Accept the invitation to set your password and start redeeming gift cards:</p>
+              
+              <div style="text-align: center; margin: 30px 0;">
+                <a href="${data.inviteLink}" 
+                   style="background-color: #4CAF50; color: white; padding: 12px 30px; text-decoration: none; border-radius: 5px; font-weight: bold;">
+                  Accept Invitation
+                </a>
+              </div>
+              
+              <p style="color: #888; font-size: 14px;">This invitation will expire in ${data.expiresInDays} days.</p>
+              <p style="color: #888; font-size: 14px;">If you weren't expecting this, you can ignore this email.</p>
+              
+              <p style="margin-top: 30px; color: #666; font-size: 12px; border-top: 1px solid #ddd; padding-top: 15px;">
+                If you have any questions, contact us at support@thnxdigital.com
+              </p>
+            </div>
+          `,
+        });
+        break;
+      }
+
       case 'merchant_approved_email': {
         const data = job.data as MerchantApprovedEmailData;
         await resend.emails.send({
@@ -309,6 +559,151 @@ export const emailWorker = new Worker<EmailJobData>(
         break;
       }
 
+      case 'merchant_suspended_email': {
+        const data = job.data as MerchantSuspendedEmailData;
+        const impact = data.redemptionsFrozen
+          ? 'Gift card sales and redemptions are paused until the suspension is lifted.'
+          : 'Gift card sales are paused. Customers can still redeem the gift cards they already hold.';
+        await resend.emails.send({
+          from: 'THNX Digital <noreply@thnxdigital.com>',
+          to,
+          subject: `Your ${data.businessName} merchant account has been suspended`,
+          html: `
+            <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+              <h2 style="color: #e74c3c;">Account Suspended</h2>
+              
+              <p>Hi ${escapeHtml(data.name)},</p>
+              
+              <p>Your merchant account for <strong>${escapeHtml(data.businessName)}</strong> has been suspended.</p>
+              
+              <div style="background-color: #fdecea; border: 1px solid #e74c3c; border-radius: 8px; padding: 15px; margin: 20px 0;">
+                <p style="margin: 0 0 10px 0;"><strong>Reason:</strong> ${escapeHtml(data.reason)}</p>
+                <p style="margin: 0;">${impact}</p>
+              </div>
+              
+              <p>Please contact us to resolve the issue and have your account reinstated.</p>
+              
+              <p style="margin-top: 30px; color: #666; font-size: 12px; border-top: 1px solid #ddd; padding-top: 15px;">
+                If you have any questions, contact us at support@thnxdigital.com
+              </p>
+            </div>
+          `,
+        });
+        break;
+      }
+
+      case 'merchant_reinstated_email': {
+        const data = job.data as MerchantReinstatedEmailData;
+        await resend.emails.send({
+          from: 'THNX Digital <noreply@thnxdigital.com>',
+          to,
+          subject: `Your ${data.businessName} merchant account has been reinstated`,
+          html: `
+            <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+              <h2 style="color: #4CAF50;">Account Reinstated</h2>
+              
+              <p>Hi ${escapeHtml(data.name)},</p>
+              
+              <p>Your merchant account for <strong>${escapeHtml(data.businessName)}</strong> has been reinstated. You can sell gift cards and accept redemptions again.</p>
+              
+              <div style="text-align: center; margin: 30px 0;">
+                <a href="${FRONTEND_URL}/merchant/dashboard" 
+                   style="background-color: #4CAF50; color: white; padding: 12px 30px; text-decoration: none; border-radius: 5px; font-weight: bold;">
+                  Go to Dashboard
+                </a>
+              </div>
+              
+              <p style="margin-top: 30px; color: #666; font-size: 12px; border-top: 1px solid #ddd; padding-top: 15px;">
+                If you have any questions, contact us at support@thnxdigital.com
+              </p>
+            </div>
+          `,
+        });
+        break;
+      }
+
+      case 'refund_email': {
+        const data = job.data as RefundEmailData;
+        await resend.emails.send({
+          from: 'THNX Digital <noreply@thnxdigital.com>',
+          to,
+          subject: `Refund processed for your ${data.businessName} gift card`,
+          html: `
+            <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+              <h2 style="color: #333;">Your Refund is on its Way</h2>
+              
+              <p>Hi ${data.customerName},</p>
+              
+              <p>A refund has been issued for your <strong>${data.giftCardTitle}</strong> gift card from <strong>${data.businessName}</strong>.</p>
+              
+              <div style="background-color: #f5f5f5; border-radius: 8px; padding: 15px; margin: 20px 0;">
+                <p style="margin: 0 0 10px 0;"><strong>Refunded amount:</strong> ₹${data.amount}</p>
+                <p style="margin: 0 0 10px 0;"><strong>Reason:</strong> ${data.reason}</p>
+                <p style="margin: 0;"><strong>Remaining balance:</strong> ₹${data.remainingBalance}</p>
+              </div>
+              
+              ${data.fullRefund
+                ? '<p>This gift card has been fully refunded and can no longer be used.</p>'
+                : '<p>You can keep using your gift card for the remaining balance.</p>'}
+              
+              <p>The money will be returned to your original payment method. Depending on your bank this can take 5-10 business days.</p>
+              
+              <p style="margin-top: 30px; color: #666; font-size: 12px; border-top: 1px solid #ddd; padding-top: 15px;">
+                If you have any questions, contact us at support@thnxdigital.com
+              </p>
+            </div>
+          `,
+        });
+        break;
+      }
+
+      case 'expiry_reminder_email': {
+        const data = job.data as ExpiryReminderEmailData;
+        const base64Data = data.qrCodeImage.replace(/^data:image\/png;base64,/, '');
+        const daysText = data.daysLeft === 1 ? 'tomorrow' : `in ${data.daysLeft} days`;
+
+        await resend.emails.send({
+          from: 'THNX Digital <noreply@thnxdigital.com>',
+          to,
+          subject: `Your ₹${data.currentBalance} ${data.businessName} gift card expires ${daysText}`,
+          html: `
+            <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+              <h2 style="color: #f39c12;">Don't Lose Your Balance! ⏰</h2>
+              
+              <p>Hi ${data.customerName},</p>
+              
+              <p>Your <strong>${data.giftCardTitle}</strong> gift card from <strong>${data.businessName}</strong> expires ${daysText}.</p>
+              
+              <div style="border: 2px solid #f39c12; border-radius: 10px; padding: 20px; background-color: #f9f9f9;">
+                <p><strong>Remaining balance:</strong> ₹${data.currentBalance}</p>
+                <p><strong>Expires:</strong> ${new Date(data.expiresAt).toLocaleDateString()}</p>
+                
+                <div style="text-align: center; margin: 20px 0;">
+                  <p style="font-weight: bold;">Scan this QR code at ${data.businessName}:</p>
+                  <img src="cid:qrcode" alt="QR Code" style="width: 250px; height: 250px;" />
+                </div>
+                
+                <p style="font-family: monospace; font-size: 12px; color: #666;">
+                  QR Code: ${data.qrCode}
+                </p>
+              </div>
+              
+              <p style="margin-top: 20px; color: #666; font-size: 14px;">
+                Check your balance: <a href="${FRONTEND_URL}/verify/${data.qrCode}">${FRONTEND_URL}/verify/${data.qrCode}</a>
+              </p>
+            </div>
+          `,
+          attachments: [
+            {
+              filename: 'gift-card-qr.png',
+              content: base64Data,
+              contentId: 'qrcode',
+            },
+          ],
+        });
+        break;
+      }
+
       case 'generic_email': {
         const data = job.data as GenericEmailData;
         await resend.emails.send({
@@ -0,0 +1,124 @@
+import { Queue, Worker, Job } from 'bullmq';
+import redisConfig from '../config/redis.config';
+import { ExpiryService } from '../services/expiry.service';
+import { ActivityLogger } from '../services/activityLog.service';
+
+const isProduction = process.env.NODE_ENV === 'production';
+
+const QUEUE_NAME = 'expiry-queue';
+const SWEEP_JOB_NAME = 'expire-gift-cards';
+const REMINDER_JOB_NAME = 'send-expiry-reminders';
+
+// Hourly by default - cards expire at the top of the hour at the latest
+const EXPIRY_SWEEP_CRON = process.env.EXPIRY_SWEEP_CRON || '0 * * * *';
+const EXPIRY_REMINDER_CRON = process.env.EXPIRY_REMINDER_CRON || '0 9 * * *';
+
+export const expiryQueue = new Queue(QUEUE_NAME, {
+  connection: redisConfig,
+  defaultJobOptions: {
+    removeOnComplete: 100,
+    removeOnFail: 500,
+    attempts: 3,
+    backoff: {
+      type: 'exponential',
+      delay: 5000,
+    },
+  },
+});
+
+export const expiryWorker = new Worker(
+  QUEUE_NAME,
+  async (job: Job) => {
+    const { type } = job.data;
+
+    switch (type) {
+      case 'EXPIRE_GIFT_CARDS':
+        return await processExpireGiftCards();
+      case 'SEND_EXPIRY_REMINDERS':
+        return await processSendExpiryReminders();
+      default:
+        console.warn(`Unknown expiry job type: ${type}`);
+        return null;
+    }
+  },
+  {
+    connection: redisConfig,
+    concurrency: 1, // Sweeps must not overlap
+  }
+);
+
+async function processExpireGiftCards() {
+  try {
+    const result = await ExpiryService.sweepExpiredCards();
+
+    console.log(
+      `⏰ Expired ${result.expiredCards} gift cards, breakage ₹${result.totalBreakage}`
+    );
+    ActivityLogger.scheduledTaskCompleted(SWEEP_JOB_NAME, { ...result });
+
+    return { success: true, ...result };
+  } catch (error: any) {
+    ActivityLogger.scheduledTaskFailed(SWEEP_JOB_NAME, error.message);
+    throw error;
+  }
+}
+
+async function processSendExpiryReminders() {
+  try {
+    const result = await ExpiryService.sendExpiryReminders();
+
+    console.log(`⏰ Sent ${result.remindersSent} gift card expiry reminders`);
+    ActivityLogger.scheduledTaskCompleted(REMINDER_JOB_NAME, { ...result });
+
+    return { success: true, ...result };
+  } catch (error: any) {
+    ActivityLogger.scheduledTaskFailed(REMINDER_JOB_NAME, error.message);
+    throw error;
+  }
+}
+
+async function scheduleRepeatable(name: string, type: string, pattern: string) {
+  const existingJobs = await expiryQueue.getRepeatableJobs();
+  for (const job of existingJobs) {
+    if (job.name === name) {
+      await expiryQueue.removeRepeatableByKey(job.key);
+    }
+  }
+
+  await expiryQueue.add(name, { type }, { repeat: { pattern } });
+}
+
+export async function scheduleExpirySweep() {
+  await scheduleRepeatable(SWEEP_JOB_NAME, 'EXPIRE_GIFT_CARDS', EXPIRY_SWEEP_CRON);
+  console.log(`📅 Gift card expiry sweep scheduled (${EXPIRY_SWEEP_CRON})`);
+
+  await scheduleRepeatable(REMINDER_JOB_NAME, 'SEND_EXPIRY_REMINDERS', EXPIRY_REMINDER_CRON);
+  console.log(`📅 Gift card expiry reminders scheduled (${EXPIRY_REMINDER_CRON})`);
+}
+
+expiryWorker.on('completed', (job) => {
+  if (!isProduction) {
+    console.log(`✅ Expiry job ${job.id} completed`);
+  }
+});
+
+expiryWorker.on('failed', (job, err) => {
+  console.error(`❌ Expiry job ${job?.id} failed:`, err.message);
+});
+
+expiryWorker.on('error', (error) => {
+  console.error('❌ Expiry worker error:', error);
+});
+
+export const closeExpiryQueue = async () => {
+  await expiryWorker.close();
+  await expiryQueue.close();
+  console.log('⏰ Expiry queue closed');
+};
+
+export default {
+  expiryQueue,
+  expiryWorker,
+  scheduleExpirySweep,
+  closeExpiryQueue,
+};
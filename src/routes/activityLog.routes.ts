@@ -1,12 +1,13 @@
 import { Router } from 'express';
 import { listActivityLogs, getStats, getTimeline } from '../controllers/activityLog.controller';
-import {authenticate, authorize} from '../middleware/auth.middleware';
+import { authenticate } from '../middleware/auth.middleware';
+import { requirePermission } from '../middleware/permission.middleware';
 
 
 const router = Router();
 
 router.use(authenticate);
-router.use(authorize('ADMIN'));
+router.use(requirePermission('logs:read'));
 
 
 router.get('/', listActivityLogs);
@@ -0,0 +1,260 @@
+import express from "express";
+import {
+  listUsers,
+  getUser,
+  createUser,
+  updateUser,
+  deactivateUser,
+  reactivateUser,
+} from "../controllers/adminUser.controller";
+import { authenticate } from "../middleware/auth.middleware";
+import { requirePermission } from "../middleware/permission.middleware";
+
+const router = express.Router();
+
+// ==================== User Management ====================
+
+/**
+ * @swagger
+ * /api/admin/users:
+ *   get:
+ *     summary: List users (Admin)
+ *     description: Search across email, name and phone, filter by role and status. Newest first.
+ *     tags: [Admin - Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: role
+ *         schema:
+ *           type: string
+ *           enum: [USER, MERCHANT, STAFF, ADMIN]
+ *       - in: query
+ *         name: adminRole
+ *         schema:
+ *           type: string
+ *           enum: [SUPER_ADMIN, SUPPORT_AGENT]
+ *       - in: query
+ *         name: isActive
+ *         schema:
+ *           type: boolean
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *     responses:
+ *       200:
+ *         description: Users with pagination
+ *       400:
+ *         description: Invalid filters
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *   post:
+ *     summary: Create a user (Admin)
+ *     description: |
+ *       Creates a customer or admin account with a verified email. New admins
+ *       default to SUPPORT_AGENT. Merchants are created via POST /api/merchants
+ *       and staff through merchant invites.
+ *     tags: [Admin - Users]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - email
+ *               - password
+ *               - name
+ *               - role
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *               password:
+ *                 type: string
+ *                 format: password
+ *               name:
+ *                 type: string
+ *               phone:
+ *                 type: string
+ *               role:
+ *                 type: string
+ *                 enum: [USER, ADMIN]
+ *               adminRole:
+ *                 type: string
+ *                 enum: [SUPER_ADMIN, SUPPORT_AGENT]
+ *     responses:
+ *       201:
+ *         description: User created
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       409:
+ *         description: Email already registered
+ */
+router.get("/users", authenticate, requirePermission("users:read"), listUsers);
+router.post("/users", authenticate, requirePermission("users:manage"), createUser);
+
+/**
+ * @swagger
+ * /api/admin/users/{userId}:
+ *   get:
+ *     summary: Get a user (Admin)
+ *     description: Account details with creator, merchant or staff links and active session count
+ *     tags: [Admin - Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: User details
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *   patch:
+ *     summary: Update a user (Admin)
+ *     description: |
+ *       Edit name and phone, or move an account between USER and ADMIN and set
+ *       the admin scope. Role changes invalidate the user's access tokens. You
+ *       can't change your own role or demote the last active super admin.
+ *     tags: [Admin - Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               phone:
+ *                 type: string
+ *                 nullable: true
+ *               role:
+ *                 type: string
+ *                 enum: [USER, ADMIN]
+ *               adminRole:
+ *                 type: string
+ *                 enum: [SUPER_ADMIN, SUPPORT_AGENT]
+ *     responses:
+ *       200:
+ *         description: User updated
+ *       400:
+ *         description: Validation error or role change not allowed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.get("/users/:userId", authenticate, requirePermission("users:read"), getUser);
+router.patch("/users/:userId", authenticate, requirePermission("users:manage"), updateUser);
+
+/**
+ * @swagger
+ * /api/admin/users/{userId}/deactivate:
+ *   post:
+ *     summary: Deactivate a user (Admin)
+ *     description: Blocks sign-in and revokes every session. The account and its history are kept.
+ *     tags: [Admin - Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: User deactivated
+ *       400:
+ *         description: Already inactive, your own account, or the last super admin
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.post("/users/:userId/deactivate", authenticate, requirePermission("users:manage"), deactivateUser);
+
+/**
+ * @swagger
+ * /api/admin/users/{userId}/reactivate:
+ *   post:
+ *     summary: Reactivate a user (Admin)
+ *     tags: [Admin - Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: User reactivated
+ *       400:
+ *         description: User is already active
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.post("/users/:userId/reactivate", authenticate, requirePermission("users:manage"), reactivateUser);
+
+export default router;
@@ -3,16 +3,48 @@
 import express from "express";
 import {
   login,
+  loginTwoFactor,
   refreshToken,
   getCurrentUser,
   logout,
+  forgotPassword,
+  resetPassword,
+  verifyEmail,
+  resendVerificationEmail,
+  updateCurrentUser,
+  changePassword,
+  customerRegister,
+  unlockAccount,
+  adminUnlockAccount,
 } from "../controllers/auth.controller";
-import { authenticate, authorize } from "../middleware/auth.middleware";
+import {
+  getTwoFactorStatus,
+  setupTwoFactor,
+  enableTwoFactor,
+  disableTwoFactor,
+  regenerateRecoveryCodes,
+  setTwoFactorRequirement,
+  resetTwoFactor,
+} from "../controllers/twoFactor.controller";
+import {
+  getSessions,
+  revokeSession,
+  revokeAllSessions,
+} from "../controllers/session.controller";
+import { requireEmailVerified } from "../middleware/checkVerification";
+import { authenticate } from "../middleware/auth.middleware";
+import { requirePermission } from "../middleware/permission.middleware";
+import { acceptStaffInvite } from "../controllers/staff.controller";
 import { uploadMerchantDocs } from "../utils/multer";
 import {
   completeProfile,
   merchantRegister,
 } from "../controllers/merchant.controller";
+import {
+  startGoogleAuth,
+  googleCallback,
+  exchangeOAuthCode,
+} from "../controllers/oauth.controller";
 
 const router = express.Router();
 
@@ -68,12 +100,109 @@ const router = express.Router();
  */
 router.post("/merchant/register", merchantRegister);
 
+/**
+ * @swagger
+ * /api/auth/register:
+ *   post:
+ *     summary: Customer registration
+ *     description: |
+ *       Create a customer (USER) account. A verification email is sent - once verified,
+ *       gift cards bought with or gifted to this email can be claimed via POST /api/wallet/claim.
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - email
+ *               - password
+ *               - name
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *               password:
+ *                 type: string
+ *                 format: password
+ *               name:
+ *                 type: string
+ *               phone:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Registration successful
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AuthResponse'
+ *       400:
+ *         description: Validation error or email already registered
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.post("/register", customerRegister);
+
+/**
+ * @swagger
+ * /api/auth/staff/accept-invite:
+ *   post:
+ *     summary: Accept a staff invite
+ *     description: Creates the STAFF account for a merchant's invite, sets its password and signs it in
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - token
+ *               - password
+ *             properties:
+ *               token:
+ *                 type: string
+ *               password:
+ *                 type: string
+ *                 format: password
+ *               phone:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Account created and signed in
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AuthResponse'
+ *       400:
+ *         description: Validation error or invalid/expired invitation
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       409:
+ *         description: The invited email registered another account meanwhile
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post("/staff/accept-invite", acceptStaffInvite);
+
 /**
  * @swagger
  * /api/auth/login:
  *   post:
  *     summary: Login user
- *     description: Login with email and password (Admin, Merchant, or User)
+ *     description: |
+ *       Login with email and password (Admin, Merchant, or User).
+ *       Repeated failures slow the account down, then lock it temporarily and email an unlock link.
+ *       Too many failures from one IP block that IP for the failure window.
  *     tags: [Auth]
  *     requestBody:
  *       required: true
@@ -83,7 +212,7 @@ router.post("/merchant/register", merchantRegister);
  *             $ref: '#/components/schemas/LoginRequest'
  *     responses:
  *       200:
- *         description: Login successful
+ *         description: Login successful, or a two-factor challenge (data.requiresTwoFactor and data.challengeToken) when 2FA is enabled
  *         content:
  *           application/json:
  *             schema:
@@ -113,17 +242,219 @@ router.post("/merchant/register", merchantRegister);
  *                 message:
  *                   type: string
  *                   example: Your account has been deactivated. Contact support.
+ *       423:
+ *         description: Account temporarily locked (code ACCOUNT_LOCKED). Retry-After gives the remaining seconds.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       429:
+ *         description: Attempting too fast (code TOO_MANY_ATTEMPTS) or IP blocked (code IP_BLOCKED). See Retry-After.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
  *       500:
  *         $ref: '#/components/responses/InternalServerError'
  */
 router.post("/login", login);
 
+/**
+ * @swagger
+ * /api/auth/unlock-account:
+ *   post:
+ *     summary: Unlock a locked account
+ *     description: Lift a login lockout with the single-use token from the lockout email
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - token
+ *             properties:
+ *               token:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Account unlocked
+ *       400:
+ *         description: Validation error or invalid/expired token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.post("/unlock-account", unlockAccount);
+
+/**
+ * @swagger
+ * /api/auth/login/2fa:
+ *   post:
+ *     summary: Complete two-factor login
+ *     description: Exchange the challenge token from /login and either an authenticator code or a recovery code for tokens
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - challengeToken
+ *             properties:
+ *               challengeToken:
+ *                 type: string
+ *               code:
+ *                 type: string
+ *                 example: "123456"
+ *               recoveryCode:
+ *                 type: string
+ *                 example: a1b2c-3d4e5
+ *     responses:
+ *       200:
+ *         description: Login successful
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AuthResponse'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Invalid code or expired challenge
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       429:
+ *         description: Too many attempts
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.post("/login/2fa", loginTwoFactor);
+
+/**
+ * @swagger
+ * /api/auth/google:
+ *   get:
+ *     summary: Sign in with Google
+ *     description: |
+ *       Redirects to Google's consent screen. Accounts are matched by Google ID, then linked
+ *       to an existing user with the same (Google-verified) email, otherwise created.
+ *       With `intent=merchant`, new accounts are created as merchants with an INCOMPLETE profile.
+ *       Without Google credentials this redirects to the mock provider when OAUTH_MOCK_ENABLED=true.
+ *     tags: [Auth]
+ *     parameters:
+ *       - in: query
+ *         name: intent
+ *         schema:
+ *           type: string
+ *           enum: [login, merchant]
+ *           default: login
+ *     responses:
+ *       302:
+ *         description: Redirect to Google (or the mock provider)
+ *       503:
+ *         description: Google sign-in is not configured
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get("/google", startGoogleAuth);
+
+/**
+ * @swagger
+ * /api/auth/google/callback:
+ *   get:
+ *     summary: Google OAuth callback
+ *     description: |
+ *       Redirects to `FRONTEND_URL/auth/callback?code=` with a single-use code, valid for 60 seconds,
+ *       that the frontend exchanges via POST /api/auth/oauth/exchange. Accounts with 2FA go to
+ *       `FRONTEND_URL/auth/2fa?challengeToken=` instead.
+ *       Failures redirect to `FRONTEND_URL/login?error=` with one of email_missing, email_not_verified,
+ *       account_conflict, account_disabled, google_auth_failed or server_error.
+ *     tags: [Auth]
+ *     responses:
+ *       302:
+ *         description: Redirect to the frontend
+ */
+router.get("/google/callback", googleCallback);
+
+/**
+ * @swagger
+ * /api/auth/oauth/exchange:
+ *   post:
+ *     summary: Exchange an OAuth sign-in code
+ *     description: Trade the single-use code from the OAuth redirect for the session tokens.
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Signed in
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: Login successful
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     tokens:
+ *                       type: object
+ *                       properties:
+ *                         accessToken:
+ *                           type: string
+ *                         refreshToken:
+ *                           type: string
+ *                     profileStatus:
+ *                       type: string
+ *                       description: Merchants only - INCOMPLETE accounts continue to onboarding
+ *       400:
+ *         description: Validation error, or the code is invalid, expired or already used
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.post("/oauth/exchange", exchangeOAuthCode);
+
 /**
  * @swagger
  * /api/auth/refresh:
  *   post:
  *     summary: Refresh access token
- *     description: Get new access token using refresh token
+ *     description: Get a new token pair. The refresh token is rotated - reusing an already-rotated token revokes the whole session.
  *     tags: [Auth]
  *     requestBody:
  *       required: true
@@ -182,7 +513,7 @@ router.post("/refresh", refreshToken);
  * /api/auth/logout:
  *   post:
  *     summary: Logout user
- *     description: Invalidate refresh token and logout
+ *     description: Revoke the session the refresh token belongs to
  *     tags: [Auth]
  *     requestBody:
  *       required: true
@@ -222,71 +553,221 @@ router.post("/refresh", refreshToken);
  */
 router.post("/logout", logout);
 
-// ==================== Protected Routes ====================
-
 /**
  * @swagger
- * /api/auth/merchant/complete-profile:
+ * /api/auth/forgot-password:
  *   post:
- *     summary: Complete merchant profile
- *     description: Complete merchant profile with full details and documents (Step 2)
+ *     summary: Request a password reset link
+ *     description: Emails a single-use reset link valid for 1 hour. Always responds the same way whether or not the account exists.
  *     tags: [Auth]
- *     security:
- *       - bearerAuth: []
  *     requestBody:
  *       required: true
  *       content:
- *         multipart/form-data:
+ *         application/json:
  *           schema:
  *             type: object
  *             required:
- *               - address
- *               - city
- *               - country
- *               - businessPhone
- *               - businessEmail
- *               - bankName
- *               - accountNumber
- *               - accountHolderName
- *               - identityDocument
+ *               - email
  *             properties:
- *               businessRegistrationNumber:
- *                 type: string
- *                 example: REG123456
- *               taxId:
- *                 type: string
- *                 example: TAX123456
- *               businessType:
- *                 type: string
- *                 example: LLC
- *               businessCategory:
- *                 type: string
- *                 example: Retail
- *               address:
- *                 type: string
- *                 example: 123 Business Ave
- *               city:
- *                 type: string
- *                 example: New York
- *               state:
- *                 type: string
- *                 example: NY
- *               zipCode:
- *                 type: string
- *                 example: "10001"
- *               country:
- *                 type: string
- *                 example: USA
- *               businessPhone:
- *                 type: string
- *                 example: "+1234567890"
- *               businessEmail:
+ *               email:
  *                 type: string
  *                 format: email
- *                 example: business@example.com
- *               website:
- *                 type: string
- *                 example: https://mybusiness.com
+ *                 example: merchant@example.com
+ *     responses:
+ *       200:
+ *         description: Reset link sent if the account exists
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: If an account exists for that email, a password reset link has been sent.
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       429:
+ *         description: Too many reset requests for this email or IP
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.post("/forgot-password", forgotPassword);
+
+/**
+ * @swagger
+ * /api/auth/reset-password:
+ *   post:
+ *     summary: Reset password
+ *     description: Set a new password using the emailed token. The token can only be used once and every refresh token for the account is revoked.
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - token
+ *               - password
+ *             properties:
+ *               token:
+ *                 type: string
+ *                 description: Token from the reset link
+ *               password:
+ *                 type: string
+ *                 format: password
+ *                 example: NewPassword123
+ *     responses:
+ *       200:
+ *         description: Password reset successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: Password has been reset. Please log in with your new password.
+ *       400:
+ *         description: Validation error or invalid/expired token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       429:
+ *         description: Too many reset attempts from this IP
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.post("/reset-password", resetPassword);
+
+/**
+ * @swagger
+ * /api/auth/verify-email:
+ *   post:
+ *     summary: Verify email address
+ *     description: Confirm the account's email with the token from the verification email. Tokens are single-use.
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - token
+ *             properties:
+ *               token:
+ *                 type: string
+ *                 description: Token from the verification link
+ *     responses:
+ *       200:
+ *         description: Email verified
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: Email verified successfully
+ *       400:
+ *         description: Validation error or invalid/expired token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.post("/verify-email", verifyEmail);
+
+// ==================== Protected Routes ====================
+
+/**
+ * @swagger
+ * /api/auth/merchant/complete-profile:
+ *   post:
+ *     summary: Complete merchant profile
+ *     description: Complete merchant profile with full details and documents (Step 2)
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - address
+ *               - city
+ *               - country
+ *               - businessPhone
+ *               - businessEmail
+ *               - bankName
+ *               - accountNumber
+ *               - accountHolderName
+ *               - identityDocument
+ *             properties:
+ *               businessRegistrationNumber:
+ *                 type: string
+ *                 example: REG123456
+ *               taxId:
+ *                 type: string
+ *                 example: TAX123456
+ *               businessType:
+ *                 type: string
+ *                 example: LLC
+ *               businessCategory:
+ *                 type: string
+ *                 example: Retail
+ *               address:
+ *                 type: string
+ *                 example: 123 Business Ave
+ *               city:
+ *                 type: string
+ *                 example: New York
+ *               state:
+ *                 type: string
+ *                 example: NY
+ *               zipCode:
+ *                 type: string
+ *                 example: "10001"
+ *               country:
+ *                 type: string
+ *                 example: USA
+ *               businessPhone:
+ *                 type: string
+ *                 example: "+1234567890"
+ *               businessEmail:
+ *                 type: string
+ *                 format: email
+ *                 example: business@example.com
+ *               website:
+ *                 type: string
+ *                 example: https://mybusiness.com
  *               description:
  *                 type: string
  *                 example: A great business serving customers
@@ -358,7 +839,7 @@ router.post("/logout", logout);
  *       401:
  *         $ref: '#/components/responses/UnauthorizedError'
  *       403:
- *         description: Only merchants can complete profile or profile already verified
+ *         description: Only merchants can complete profile, profile already verified, or email not verified
  *         content:
  *           application/json:
  *             schema:
@@ -375,11 +856,60 @@ router.post("/logout", logout);
 router.post(
   "/merchant/complete-profile",
   authenticate,
-  authorize("MERCHANT"),
+  requirePermission("merchant_profile:submit"),
+  requireEmailVerified("complete_profile"),
   uploadMerchantDocs,
   completeProfile
 );
 
+/**
+ * @swagger
+ * /api/auth/resend-verification:
+ *   post:
+ *     summary: Resend verification email
+ *     description: Send a new verification link to the current user. Earlier links stop working. Limited to one request a minute and 5 an hour.
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Verification email sent
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: Verification email sent
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     expiresAt:
+ *                       type: string
+ *                       format: date-time
+ *       400:
+ *         description: Email is already verified
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       429:
+ *         description: Requested too soon or too often
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.post("/resend-verification", authenticate, resendVerificationEmail);
+
 /**
  * @swagger
  * /api/auth/me:
@@ -419,7 +949,11 @@ router.post(
  *                           nullable: true
  *                         role:
  *                           type: string
- *                           enum: [USER, MERCHANT, ADMIN]
+ *                           enum: [USER, MERCHANT, STAFF, ADMIN]
+ *                         adminRole:
+ *                           type: string
+ *                           enum: [SUPER_ADMIN, SUPPORT_AGENT]
+ *                           nullable: true
  *                         avatar:
  *                           type: string
  *                           nullable: true
@@ -439,6 +973,15 @@ router.post(
  *                           nullable: true
  *                         merchantProfile:
  *                           $ref: '#/components/schemas/MerchantProfile'
+ *                     accessRole:
+ *                       type: string
+ *                       enum: [USER, MERCHANT, STAFF, SUPER_ADMIN, SUPPORT_AGENT]
+ *                     permissions:
+ *                       type: array
+ *                       description: Everything the current session may do (see permissions.config). Merchants gain permissions as their profile is verified.
+ *                       items:
+ *                         type: string
+ *                       example: ["account:2fa", "giftcard:read", "redemptions:create"]
  *       401:
  *         $ref: '#/components/responses/UnauthorizedError'
  *       404:
@@ -452,4 +995,557 @@ router.post(
  */
 router.get("/me", authenticate, getCurrentUser);
 
+/**
+ * @swagger
+ * /api/auth/me:
+ *   patch:
+ *     summary: Update account settings
+ *     description: Update the authenticated user's name, phone, avatar or bio. Business details are updated via /api/merchants/profile.
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: Jane Smith
+ *               phone:
+ *                 type: string
+ *                 nullable: true
+ *                 example: "+1234567890"
+ *               avatar:
+ *                 type: string
+ *                 format: uri
+ *                 nullable: true
+ *               bio:
+ *                 type: string
+ *                 nullable: true
+ *                 maxLength: 500
+ *     responses:
+ *       200:
+ *         description: Account updated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: Account updated successfully
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     user:
+ *                       $ref: '#/components/schemas/User'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       404:
+ *         description: User not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.patch("/me", authenticate, updateCurrentUser);
+
+/**
+ * @swagger
+ * /api/auth/change-password:
+ *   post:
+ *     summary: Change password
+ *     description: Change the password after confirming the current one. All other sessions are signed out and a new token pair is returned for this client.
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - currentPassword
+ *               - newPassword
+ *             properties:
+ *               currentPassword:
+ *                 type: string
+ *                 format: password
+ *               newPassword:
+ *                 type: string
+ *                 format: password
+ *                 example: NewPassword123
+ *     responses:
+ *       200:
+ *         description: Password changed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: Password changed successfully. Other sessions have been signed out.
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     tokens:
+ *                       type: object
+ *                       properties:
+ *                         accessToken:
+ *                           type: string
+ *                         refreshToken:
+ *                           type: string
+ *       400:
+ *         description: Validation error or OAuth account without a password
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Not authenticated or current password is incorrect
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       423:
+ *         description: Account temporarily locked (code ACCOUNT_LOCKED). Retry-After gives the remaining seconds.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       429:
+ *         description: Too many incorrect attempts (code TOO_MANY_ATTEMPTS or IP_BLOCKED). See Retry-After.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.post("/change-password", authenticate, changePassword);
+
+// ==================== Sessions ====================
+
+/**
+ * @swagger
+ * /api/auth/sessions:
+ *   get:
+ *     summary: List active sessions
+ *     description: One entry per signed-in device. The session making the request is marked current.
+ *     tags: [Sessions]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Active sessions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     sessions:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/Session'
+ *                     total:
+ *                       type: integer
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *   delete:
+ *     summary: Revoke all other sessions
+ *     tags: [Sessions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: includeCurrent
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *         description: Also end the session making the request
+ *     responses:
+ *       200:
+ *         description: Sessions revoked
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: Signed out of 2 other session(s)
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     revoked:
+ *                       type: integer
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.get("/sessions", authenticate, getSessions);
+router.delete("/sessions", authenticate, revokeAllSessions);
+
+/**
+ * @swagger
+ * /api/auth/sessions/{sessionId}:
+ *   delete:
+ *     summary: Revoke a session
+ *     tags: [Sessions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Session revoked
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       404:
+ *         description: Session not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.delete("/sessions/:sessionId", authenticate, revokeSession);
+
+// ==================== Two-Factor Authentication ====================
+
+/**
+ * @swagger
+ * /api/auth/2fa:
+ *   get:
+ *     summary: Get two-factor status
+ *     tags: [Two-Factor]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Two-factor status
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     enabled:
+ *                       type: boolean
+ *                     enabledAt:
+ *                       type: string
+ *                       format: date-time
+ *                       nullable: true
+ *                     required:
+ *                       type: boolean
+ *                     remainingRecoveryCodes:
+ *                       type: integer
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ */
+router.get("/2fa", authenticate, requirePermission("account:2fa"), getTwoFactorStatus);
+
+/**
+ * @swagger
+ * /api/auth/2fa/setup:
+ *   post:
+ *     summary: Start two-factor enrollment
+ *     description: Generates a new secret. Returns the otpauth URL and a QR code data URL for the authenticator app.
+ *     tags: [Two-Factor]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Secret generated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     secret:
+ *                       type: string
+ *                     otpauthUrl:
+ *                       type: string
+ *                     qrCode:
+ *                       type: string
+ *                       description: PNG data URL
+ *       400:
+ *         description: Two-factor already enabled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ */
+router.post("/2fa/setup", authenticate, requirePermission("account:2fa"), setupTwoFactor);
+
+/**
+ * @swagger
+ * /api/auth/2fa/enable:
+ *   post:
+ *     summary: Confirm two-factor enrollment
+ *     description: Verifies a code from the app, enables 2FA and returns one-time recovery codes. Users who were required to enroll also get a new token pair.
+ *     tags: [Two-Factor]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/TwoFactorCodeRequest'
+ *     responses:
+ *       200:
+ *         description: Two-factor enabled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     recoveryCodes:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *       400:
+ *         description: Invalid code, setup not started or already enabled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ */
+router.post("/2fa/enable", authenticate, requirePermission("account:2fa"), enableTwoFactor);
+
+/**
+ * @swagger
+ * /api/auth/2fa/disable:
+ *   post:
+ *     summary: Disable two-factor authentication
+ *     tags: [Two-Factor]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/TwoFactorCodeRequest'
+ *     responses:
+ *       200:
+ *         description: Two-factor disabled
+ *       400:
+ *         description: Invalid code or not enabled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Two-factor is required for this account
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post("/2fa/disable", authenticate, requirePermission("account:2fa"), disableTwoFactor);
+
+/**
+ * @swagger
+ * /api/auth/2fa/recovery-codes:
+ *   post:
+ *     summary: Regenerate recovery codes
+ *     description: Replaces every recovery code. Requires a current authenticator code.
+ *     tags: [Two-Factor]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/TwoFactorCodeRequest'
+ *     responses:
+ *       200:
+ *         description: New recovery codes
+ *       400:
+ *         description: Invalid code or not enabled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  "/2fa/recovery-codes",
+  authenticate,
+  requirePermission("account:2fa"),
+  regenerateRecoveryCodes
+);
+
+/**
+ * @swagger
+ * /api/auth/2fa/users/{userId}/requirement:
+ *   put:
+ *     summary: Require two-factor for a user (Admin)
+ *     description: When required and not yet enrolled, the user is signed out and must enroll at next login.
+ *     tags: [Two-Factor]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - required
+ *             properties:
+ *               required:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Requirement updated
+ *       400:
+ *         description: Validation error or role without 2FA
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: User not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.put(
+  "/2fa/users/:userId/requirement",
+  authenticate,
+  requirePermission("users:2fa_enforce"),
+  setTwoFactorRequirement
+);
+
+/**
+ * @swagger
+ * /api/auth/2fa/users/{userId}:
+ *   delete:
+ *     summary: Reset a user's two-factor (Admin)
+ *     description: Removes the secret and recovery codes and signs the user out, for users who lost their device.
+ *     tags: [Two-Factor]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Two-factor reset
+ *       400:
+ *         description: Two-factor not enabled for this user
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: User not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.delete("/2fa/users/:userId", authenticate, requirePermission("users:2fa_reset"), resetTwoFactor);
+
+/**
+ * @swagger
+ * /api/auth/users/{userId}/unlock:
+ *   post:
+ *     summary: Unlock a user's account (Admin)
+ *     description: Lift a login lockout and clear the account's failed attempts
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Account unlocked (data.wasLocked tells whether it was locked)
+ *       404:
+ *         description: User not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post("/users/:userId/unlock", authenticate, requirePermission("users:unlock"), adminUnlockAccount);
+
 export default router;
\ No newline at end of file
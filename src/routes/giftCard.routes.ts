@@ -7,12 +7,9 @@ import {
   deleteGiftCard,
   getActiveGiftCards,
 } from '../controllers/giftCard.controller';
-import {
-  authenticate,
-  authorize,
-  requireVerification,
-  requireCompleteProfile,
-} from '../middleware/auth.middleware';
+import { authenticate } from '../middleware/auth.middleware';
+import { requirePermission } from '../middleware/permission.middleware';
+import { requireEmailVerified } from '../middleware/checkVerification';
 
 const router = express.Router();
 
@@ -35,8 +32,8 @@ router.get('/public/active', getActiveGiftCards);
 router.post(
   '/',
   authenticate,
-  authorize('MERCHANT'),
-  requireVerification, // Only verified merchants can create
+  requirePermission('giftcard:create'), // Only verified merchants can create
+  requireEmailVerified('manage_gift_cards'),
   createGiftCard
 );
 
@@ -48,8 +45,7 @@ router.post(
 router.get(
   '/',
   authenticate,
-  authorize('MERCHANT'),
-  requireCompleteProfile, // Can view if profile submitted (even if pending)
+  requirePermission('giftcard:read'), // Can view if profile submitted (even if pending)
   getMyGiftCards
 );
 
@@ -61,8 +57,7 @@ router.get(
 router.get(
   '/:id',
   authenticate,
-  authorize('MERCHANT'),
-  requireCompleteProfile,
+  requirePermission('giftcard:read'),
   getGiftCardById
 );
 
@@ -74,8 +69,8 @@ router.get(
 router.put(
   '/:id',
   authenticate,
-  authorize('MERCHANT'),
-  requireVerification, // Only verified merchants can update
+  requirePermission('giftcard:update'), // Only verified merchants can update
+  requireEmailVerified('manage_gift_cards'),
   updateGiftCard
 );
 
@@ -87,8 +82,8 @@ router.put(
 router.delete(
   '/:id',
   authenticate,
-  authorize('MERCHANT'),
-  requireVerification, // Only verified merchants can delete
+  requirePermission('giftcard:delete'), // Only verified merchants can delete
+  requireEmailVerified('manage_gift_cards'),
   deleteGiftCard
 );
 
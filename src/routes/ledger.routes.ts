@@ -0,0 +1,50 @@
+import express from 'express';
+import {
+  getReconciliation,
+  backfillLedger,
+  getPurchaseLedger,
+  createAdjustment,
+} from '../controllers/ledger.controller';
+import { authenticate } from '../middleware/auth.middleware';
+import { requirePermission } from '../middleware/permission.middleware';
+
+const router = express.Router();
+
+// ==================== Admin Routes ====================
+
+/**
+ * @route   GET /api/ledger/reconciliation
+ * @desc    Check ledger balances against every card's currentBalance
+ * @access  Admin
+ */
+router.get('/reconciliation', authenticate, requirePermission('ledger:reconcile'), getReconciliation);
+
+/**
+ * @route   POST /api/ledger/backfill
+ * @desc    Write opening balances for paid cards that predate the ledger
+ * @access  Admin
+ */
+router.post('/backfill', authenticate, requirePermission('ledger:backfill'), backfillLedger);
+
+/**
+ * @route   POST /api/ledger/adjustments
+ * @desc    Manually adjust a card balance
+ * @access  Admin
+ */
+router.post('/adjustments', authenticate, requirePermission('ledger:adjust'), createAdjustment);
+
+// ==================== Merchant Routes ====================
+
+/**
+ * @route   GET /api/ledger/purchases/:purchaseId
+ * @desc    Get ledger entries for a purchased gift card
+ * @access  Merchant (Verified, own gift cards) / Admin
+ */
+router.get(
+  '/purchases/:purchaseId',
+  authenticate,
+  requirePermission('ledger:read'),
+  getPurchaseLedger
+);
+
+export default router;
@@ -8,13 +8,25 @@ import {
   getPendingMerchants,
   verifyMerchant,
   deleteMerchant,
+  suspendMerchant,
+  reinstateMerchant,
 } from "../controllers/merchant.controller";
-import {
-  authenticate,
-  authorize,
-  requireCompleteProfile,
-} from "../middleware/auth.middleware";
+import { authenticate } from "../middleware/auth.middleware";
+import { requirePermission } from "../middleware/permission.middleware";
 import { uploadMerchantDocs } from "../utils/multer";
+import {
+  getStaff,
+  inviteStaff,
+  updateStaffRole,
+  removeStaff,
+} from "../controllers/staff.controller";
+import {
+  getLocations,
+  createLocation,
+  updateLocation,
+  deactivateLocation,
+  assignStaffLocations,
+} from "../controllers/location.controller";
 
 const router = express.Router();
 
@@ -77,14 +89,14 @@ const router = express.Router();
  *       500:
  *         $ref: '#/components/responses/InternalServerError'
  */
-router.get("/profile", authenticate, authorize("MERCHANT"), getMerchantProfile);
+router.get("/profile", authenticate, requirePermission("merchant_profile:read"), getMerchantProfile);
 
 /**
  * @swagger
  * /api/merchants/profile:
  *   put:
  *     summary: Update merchant profile
- *     description: Update non-critical profile fields (description, website, logo)
+ *     description: Update non-critical profile fields (description, website, logo, expiryReminderDays)
  *     tags: [Merchants - Self Service]
  *     security:
  *       - bearerAuth: []
@@ -125,8 +137,7 @@ router.get("/profile", authenticate, authorize("MERCHANT"), getMerchantProfile);
 router.put(
   "/profile",
   authenticate,
-  authorize("MERCHANT"),
-  requireCompleteProfile,
+  requirePermission("merchant_profile:update"),
   updateMerchantProfile
 );
 
@@ -251,11 +262,312 @@ router.put(
 router.post(
   "/resubmit",
   authenticate,
-  authorize("MERCHANT"),
+  requirePermission("merchant_profile:submit"),
   uploadMerchantDocs,
   resubmitProfile
 );
 
+// ==================== Staff Routes ====================
+
+/**
+ * @swagger
+ * /api/merchants/staff:
+ *   get:
+ *     summary: List staff
+ *     description: Pending invites and active members of the merchant's team
+ *     tags: [Merchants - Staff]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Staff list (status INVITED or ACTIVE)
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *   post:
+ *     summary: Invite a staff member
+ *     description: |
+ *       Emails an invite link (valid 7 days). The invitee sets a password via
+ *       POST /api/auth/staff/accept-invite and gets a STAFF account. Re-inviting a
+ *       pending invite sends a fresh link; re-inviting a removed member restores them.
+ *       Roles - MANAGER: redeem, void, refund, full redemption history, locations;
+ *       CASHIER: redeem and their own history. Only the merchant account manages staff.
+ *     tags: [Merchants - Staff]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - email
+ *               - name
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *               name:
+ *                 type: string
+ *               role:
+ *                 type: string
+ *                 enum: [MANAGER, CASHIER]
+ *                 default: CASHIER
+ *     responses:
+ *       201:
+ *         description: Invitation sent
+ *       200:
+ *         description: Invitation re-sent, or removed member restored
+ *       400:
+ *         description: Validation error, already a member, or the email has another account
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.get("/staff", authenticate, requirePermission("staff:manage"), getStaff);
+router.post("/staff", authenticate, requirePermission("staff:manage"), inviteStaff);
+
+/**
+ * @swagger
+ * /api/merchants/staff/{staffId}:
+ *   patch:
+ *     summary: Change a staff member's role
+ *     tags: [Merchants - Staff]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: staffId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - role
+ *             properties:
+ *               role:
+ *                 type: string
+ *                 enum: [MANAGER, CASHIER]
+ *     responses:
+ *       200:
+ *         description: Role updated
+ *       400:
+ *         description: Validation error or changing your own role
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *   delete:
+ *     summary: Remove a staff member
+ *     description: Withdraws a pending invite, or deactivates the member's account and signs them out everywhere
+ *     tags: [Merchants - Staff]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: staffId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Staff member removed or invitation withdrawn
+ *       400:
+ *         description: Removing yourself
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.patch("/staff/:staffId", authenticate, requirePermission("staff:manage"), updateStaffRole);
+router.delete("/staff/:staffId", authenticate, requirePermission("staff:manage"), removeStaff);
+
+/**
+ * @swagger
+ * /api/merchants/staff/{staffId}/locations:
+ *   put:
+ *     summary: Assign a staff member to locations
+ *     description: |
+ *       Replaces the member's locations. Assigned staff can only redeem at their
+ *       locations; an empty list lets them redeem anywhere.
+ *     tags: [Merchants - Locations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: staffId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - locationIds
+ *             properties:
+ *               locationIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   format: uuid
+ *     responses:
+ *       200:
+ *         description: Assignment updated
+ *       400:
+ *         description: Validation error, or a location is unknown or closed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.put(
+  "/staff/:staffId/locations",
+  authenticate,
+  requirePermission("locations:manage"),
+  assignStaffLocations
+);
+
+// ==================== Location Routes ====================
+
+/**
+ * @swagger
+ * /api/merchants/locations:
+ *   get:
+ *     summary: List locations
+ *     description: Open locations with their gift card restrictions and assigned staff
+ *     tags: [Merchants - Locations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: includeInactive
+ *         schema:
+ *           type: boolean
+ *         description: Include closed locations
+ *     responses:
+ *       200:
+ *         description: Location list
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *   post:
+ *     summary: Add a location
+ *     description: |
+ *       giftCardIds limits which gift cards can be redeemed at the location;
+ *       leave it out to accept all of the merchant's gift cards.
+ *     tags: [Merchants - Locations]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/LocationInput'
+ *     responses:
+ *       201:
+ *         description: Location created
+ *       400:
+ *         description: Validation error or a gift card belongs to another merchant
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       409:
+ *         description: A location with this name already exists
+ */
+router.get("/locations", authenticate, requirePermission("locations:read"), getLocations);
+router.post("/locations", authenticate, requirePermission("locations:manage"), createLocation);
+
+/**
+ * @swagger
+ * /api/merchants/locations/{locationId}:
+ *   patch:
+ *     summary: Update a location
+ *     description: giftCardIds replaces the restriction list (empty = all gift cards). isActive reopens a closed location.
+ *     tags: [Merchants - Locations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: locationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             allOf:
+ *               - $ref: '#/components/schemas/LocationInput'
+ *               - type: object
+ *                 properties:
+ *                   isActive:
+ *                     type: boolean
+ *     responses:
+ *       200:
+ *         description: Location updated
+ *       400:
+ *         description: Validation error or a gift card belongs to another merchant
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       409:
+ *         description: A location with this name already exists
+ *   delete:
+ *     summary: Close a location
+ *     description: The location is deactivated, not deleted, so redemption history keeps it
+ *     tags: [Merchants - Locations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: locationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Location closed
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.patch("/locations/:locationId", authenticate, requirePermission("locations:manage"), updateLocation);
+router.delete("/locations/:locationId", authenticate, requirePermission("locations:manage"), deactivateLocation);
+
 // ==================== Admin Routes ====================
 
 /**
@@ -305,7 +617,7 @@ router.post(
  *       500:
  *         $ref: '#/components/responses/InternalServerError'
  */
-router.post("/", authenticate, authorize("ADMIN"), adminCreateMerchant);
+router.post("/", authenticate, requirePermission("merchant:create"), adminCreateMerchant);
 
 /**
  * @swagger
@@ -344,7 +656,7 @@ router.post("/", authenticate, authorize("ADMIN"), adminCreateMerchant);
  *       500:
  *         $ref: '#/components/responses/InternalServerError'
  */
-router.get("/", authenticate, authorize("ADMIN"), getAllMerchants);
+router.get("/", authenticate, requirePermission("merchant:read"), getAllMerchants);
 
 /**
  * @swagger
@@ -383,7 +695,7 @@ router.get("/", authenticate, authorize("ADMIN"), getAllMerchants);
  *       500:
  *         $ref: '#/components/responses/InternalServerError'
  */
-router.get("/pending", authenticate, authorize("ADMIN"), getPendingMerchants);
+router.get("/pending", authenticate, requirePermission("merchant:read"), getPendingMerchants);
 
 /**
  * @swagger
@@ -445,16 +757,117 @@ router.get("/pending", authenticate, authorize("ADMIN"), getPendingMerchants);
 router.post(
   "/:merchantId/verify",
   authenticate,
-  authorize("ADMIN"),
+  requirePermission("merchant:verify"),
   verifyMerchant
 );
 
+/**
+ * @swagger
+ * /api/merchants/{merchantId}/suspend:
+ *   post:
+ *     summary: Suspend merchant (Admin)
+ *     description: |
+ *       Suspends a verified merchant. Gift card sales and creating or editing
+ *       gift cards stop. Customers can still redeem cards they already hold
+ *       unless freezeRedemptions is true. The merchant is notified and emailed.
+ *       Calling this on a suspended merchant updates the reason and freeze.
+ *     tags: [Merchants - Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: merchantId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: User ID of the merchant
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - reason
+ *             properties:
+ *               reason:
+ *                 type: string
+ *                 maxLength: 500
+ *                 example: Chargeback investigation in progress
+ *               freezeRedemptions:
+ *                 type: boolean
+ *                 default: false
+ *                 description: Also block redemptions of outstanding gift cards
+ *     responses:
+ *       200:
+ *         description: Merchant suspended, or suspension updated
+ *       400:
+ *         description: Validation error or merchant is not verified
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.post(
+  "/:merchantId/suspend",
+  authenticate,
+  requirePermission("merchant:suspend"),
+  suspendMerchant
+);
+
+/**
+ * @swagger
+ * /api/merchants/{merchantId}/reinstate:
+ *   post:
+ *     summary: Reinstate merchant (Admin)
+ *     description: Lifts a suspension, restoring sales and redemptions
+ *     tags: [Merchants - Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: merchantId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: User ID of the merchant
+ *     responses:
+ *       200:
+ *         description: Merchant reinstated
+ *       400:
+ *         description: Merchant is not suspended
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.post(
+  "/:merchantId/reinstate",
+  authenticate,
+  requirePermission("merchant:suspend"),
+  reinstateMerchant
+);
+
 /**
  * @swagger
  * /api/merchants/{merchantId}:
  *   delete:
  *     summary: Delete merchant (Admin)
- *     description: Soft delete (deactivate) or hard delete (permanent) a merchant
+ *     description: |
+ *       Soft delete (deactivate) or hard delete (permanent) a merchant. To pause
+ *       a merchant while keeping their customers' cards usable, suspend instead.
  *     tags: [Merchants - Admin]
  *     security:
  *       - bearerAuth: []
@@ -506,7 +919,7 @@ router.post(
 router.delete(
   "/:merchantId",
   authenticate,
-  authorize("ADMIN"),
+  requirePermission("merchant:delete"),
   deleteMerchant
 );
 
@@ -0,0 +1,23 @@
+import express from 'express';
+import { mockOAuthAuthorize, mockOAuthCallback } from '../controllers/oauth.controller';
+
+// Mounted under /api/auth only when OAUTH_MOCK_ENABLED=true
+const router = express.Router();
+
+// ==================== Development Routes ====================
+
+/**
+ * @route   GET /api/auth/oauth/mock/authorize
+ * @desc    Mock OAuth consent screen - offline stand-in for Google
+ * @access  Public (OAUTH_MOCK_ENABLED only)
+ */
+router.get('/oauth/mock/authorize', mockOAuthAuthorize);
+
+/**
+ * @route   GET /api/auth/oauth/mock/callback
+ * @desc    Complete mock OAuth sign-in (email, name, emailVerified, intent)
+ * @access  Public (OAUTH_MOCK_ENABLED only)
+ */
+router.get('/oauth/mock/callback', mockOAuthCallback);
+
+export default router;
@@ -1,7 +1,8 @@
 
 import { Router } from 'express';
 import { notificationController } from '../controllers/notification.controller';
-import { authenticate, authorize } from '../middleware/auth.middleware';
+import { authenticate } from '../middleware/auth.middleware';
+import { requirePermission } from '../middleware/permission.middleware';
 import { validateBody, validateQuery, validateParams } from '../middleware/validate.middleware';
 import {
   updatePreferencesSchema,
@@ -13,7 +14,7 @@ const router = Router();
 
 router.use(authenticate);
 
-router.use(authorize('ADMIN', 'MERCHANT'));
+router.use(requirePermission('notifications:read'));
 
 /**
  * @route   GET /api/notifications
@@ -0,0 +1,29 @@
+import express from 'express';
+import {
+  handlePaymentWebhook,
+  simulateLocalPayment,
+} from '../controllers/payment.controller';
+
+const router = express.Router();
+
+// ==================== Provider Webhooks ====================
+
+/**
+ * @route   POST /api/payments/webhooks/:provider
+ * @desc    Payment provider webhook - confirms or fails a pending purchase
+ * @access  Public (signature verified by the provider adapter)
+ */
+router.post('/webhooks/:provider', handlePaymentWebhook);
+
+// ==================== Development Routes ====================
+
+if (process.env.NODE_ENV !== 'production') {
+  /**
+   * @route   POST /api/payments/local/simulate
+   * @desc    Confirm or decline a local (fake) payment
+   * @access  Public (non-production only)
+   */
+  router.post('/local/simulate', simulateLocalPayment);
+}
+
+export default router;
@@ -5,12 +5,14 @@ import {
   redeemGiftCard,
   getRedemptionHistory,
   getCustomerPurchases,
+  refundPurchase,
+  voidRedemption,
 } from '../controllers/purchase.controller';
-import {
-  authenticate,
-  authorize,
-  requireVerification,
-} from '../middleware/auth.middleware';
+import { authenticate } from '../middleware/auth.middleware';
+import { requirePermission } from '../middleware/permission.middleware';
+import { requireEmailVerified } from '../middleware/checkVerification';
+import { idempotency } from '../middleware/idempotency.middleware';
+import { rateLimit } from '../middleware/rateLimit.middleware';
 
 const router = express.Router();
 
@@ -18,51 +20,84 @@ const router = express.Router();
 
 /**
  * @route   POST /api/purchases/gift-cards/:giftCardId
- * @desc    Purchase a gift card (no login required)
+ * @desc    Purchase a gift card (no login required). Supports Idempotency-Key.
  * @access  Public
  */
-router.post('/gift-cards/:giftCardId', purchaseGiftCard);
+router.post('/gift-cards/:giftCardId', idempotency(), purchaseGiftCard);
 
 /**
  * @route   GET /api/purchases/qr/:qrCode
  * @desc    Get gift card details by QR code
  * @access  Public
  */
-router.get('/qr/:qrCode', getGiftCardByQR);
+router.get('/qr/:qrCode', rateLimit('qrLookup'), getGiftCardByQR);
 
 /**
  * @route   GET /api/purchases/customer/:email
- * @desc    Get customer's purchase history by email
- * @access  Public
+ * @desc    Get purchase history by email (own verified email, or any for admins)
+ * @access  Private (User / Admin)
  */
-router.get('/customer/:email', getCustomerPurchases);
+router.get(
+  '/customer/:email',
+  authenticate,
+  requirePermission('purchases:read'),
+  rateLimit('customerLookup'),
+  getCustomerPurchases
+);
 
 // ==================== Merchant Routes ====================
 
 /**
  * @route   POST /api/purchases/redeem
- * @desc    Redeem/use gift card (scan QR and subtract amount)
- * @access  Merchant (Verified only)
+ * @desc    Redeem/use gift card (scan QR and subtract amount). Supports Idempotency-Key.
+ * @access  Merchant (Verified only) / Staff (redemptions:create)
  */
 router.post(
   '/redeem',
   authenticate,
-  authorize('MERCHANT'),
-  requireVerification, // Only verified merchants can redeem
+  requirePermission('redemptions:create'), // Only verified merchants can redeem
+  requireEmailVerified('redeem'),
+  idempotency(),
   redeemGiftCard
 );
 
 /**
  * @route   GET /api/purchases/redemptions
- * @desc    Get merchant's redemption history
- * @access  Merchant (Verified only)
+ * @desc    Get merchant's redemption history with a per-location breakdown
+ *          (?locationId=<id>|none filters; cashiers see their own)
+ * @access  Merchant (Verified only) / Staff (redemptions:read)
  */
 router.get(
   '/redemptions',
   authenticate, // FIXED: Was commented out
-  authorize('MERCHANT'),
-  requireVerification, // Only verified merchants can view history
+  requirePermission('redemptions:read'), // Only verified merchants can view history
   getRedemptionHistory
 );
 
+/**
+ * @route   POST /api/purchases/redemptions/:redemptionId/void
+ * @desc    Void a mis-keyed redemption within the grace window
+ * @access  Merchant (Verified) / Staff (redemptions:void)
+ */
+router.post(
+  '/redemptions/:redemptionId/void',
+  authenticate,
+  requirePermission('redemptions:void'),
+  requireEmailVerified('redeem'),
+  voidRedemption
+);
+
+/**
+ * @route   POST /api/purchases/:purchaseId/refund
+ * @desc    Refund a purchased gift card (full, or partial with amount)
+ * @access  Merchant (Verified, own gift cards) / Staff (purchases:refund) / Admin
+ */
+router.post(
+  '/:purchaseId/refund',
+  authenticate,
+  requirePermission('purchases:refund'),
+  requireEmailVerified('refund'),
+  refundPurchase
+);
+
 export default router;
\ No newline at end of file
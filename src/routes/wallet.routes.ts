@@ -0,0 +1,24 @@
+import express from 'express';
+import { getWallet, claimGiftCards } from '../controllers/wallet.controller';
+import { authenticate } from '../middleware/auth.middleware';
+import { requirePermission } from '../middleware/permission.middleware';
+
+const router = express.Router();
+
+// ==================== Customer Routes ====================
+
+/**
+ * @route   GET /api/wallet
+ * @desc    List the customer's gift cards and balances
+ * @access  Private (User)
+ */
+router.get('/', authenticate, requirePermission('wallet:read'), getWallet);
+
+/**
+ * @route   POST /api/wallet/claim
+ * @desc    Claim cards bought by or gifted to the verified account email
+ * @access  Private (User, verified email)
+ */
+router.post('/claim', authenticate, requirePermission('wallet:claim'), claimGiftCards);
+
+export default router;
@@ -4,8 +4,9 @@ import { createServer } from 'http';
 import dotenv from 'dotenv';
 import session from 'express-session';
 import passport from './config/passport.config';
-import { configurePassport } from './config/passport.config';
+import { configurePassport, isMockOAuthEnabled } from './config/passport.config';
 import authRoutes from './routes/auth.routes';
+import mockOAuthRoutes from './routes/mockOAuth.routes';
 import prisma from './utils/prisma.util';
 import giftCardRoutes from './routes/giftCard.routes';
 import purchaseRoutes from './routes/purchase.routes';
@@ -21,20 +22,37 @@ import { activityLogQueue, closeActivityLogQueue } from './queues/activityLog.qu
 import { emailQueue, closeEmailQueue } from './queues/email.queue';
 
 import notificationRoutes from './routes/notification.routes';
+import paymentRoutes from './routes/payment.routes';
+import ledgerRoutes from './routes/ledger.routes';
+import walletRoutes from './routes/wallet.routes';
+import adminRoutes from './routes/admin.routes';
+import { rateLimit, RATE_LIMIT_HEADERS } from './middleware/rateLimit.middleware';
 
 import serverAdapter from './config/bullBoard.config';
 
 import { initializeSocket } from './config/socket.config';
 import { scheduleNotificationCleanup } from './queues/notification.queue';
+import { scheduleExpirySweep, closeExpiryQueue } from './queues/expiry.queue';
+import { assertPaymentProviderConfigured } from './services/payment.service';
 
 dotenv.config();
 
+assertPaymentProviderConfigured();
+
 const app = express();
 const httpServer = createServer(app);
 const PORT = process.env.PORT || 3000;
 
 const io = initializeSocket(httpServer);
 
+// Behind a load balancer req.ip is the proxy's address unless it's trusted.
+// TRUST_PROXY takes a hop count, "true", or a list of addresses.
+const trustProxy = process.env.TRUST_PROXY;
+if (trustProxy && trustProxy !== 'false') {
+  const hops = parseInt(trustProxy, 10);
+  app.set('trust proxy', trustProxy === 'true' ? true : Number.isNaN(hops) ? trustProxy : hops);
+}
+
 const allowedOrigins = [
   'http://localhost:8080',
   'http://localhost:3000',
@@ -69,14 +87,22 @@ const corsOptions = {
     }
   },
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'Idempotency-Key'],
+  exposedHeaders: ['Idempotent-Replayed', ...RATE_LIMIT_HEADERS],
   credentials: true,
 };
 
 app.use(cors(corsOptions));
 
 // Middleware
-app.use(express.json({ limit: '50mb' }));
+app.use(
+  express.json({
+    limit: '50mb',
+    verify: (req, _res, buf) => {
+      (req as Request).rawBody = buf;
+    },
+  })
+);
 app.use(express.urlencoded({ limit: '50mb', extended: true }));
 
 // Session middleware
@@ -167,6 +193,9 @@ app.get('/', (req: Request, res: Response) => {
       merchants: '/api/merchants',
       giftCards: '/api/gift-cards',
       purchases: '/api/purchases',
+      payments: '/api/payments',
+      ledger: '/api/ledger',
+      wallet: '/api/wallet',
       activityLogs: '/api/activity-logs',
       health: '/health',
     },
@@ -218,13 +247,22 @@ app.get('/health', async (req: Request, res: Response) => {
   }
 });
 
-// API Routes
+// API Routes - provider webhooks are retried by the provider, so they're exempt
+app.use('/api', rateLimit('api', { skip: (req) => req.path.startsWith('/payments/webhooks/') }));
+
 app.use('/api/auth', authRoutes);
+if (isMockOAuthEnabled()) {
+  app.use('/api/auth', mockOAuthRoutes);
+}
 app.use('/api/merchants', merchantRoutes);
 app.use('/api/gift-cards', giftCardRoutes);
 app.use('/api/purchases', purchaseRoutes);
 app.use('/api/activity-logs', activityLogRoutes);
 app.use('/api/notifications', notificationRoutes);
+app.use('/api/payments', paymentRoutes);
+app.use('/api/ledger', ledgerRoutes);
+app.use('/api/wallet', walletRoutes);
+app.use('/api/admin', adminRoutes);
 
 
 
@@ -272,6 +310,9 @@ const gracefulShutdown = async (signal: string) => {
     await closeEmailQueue();
     console.log('✅ Email queue closed');
 
+    await closeExpiryQueue();
+    console.log('✅ Expiry queue closed');
+
     await redisConnection.quit();
     console.log('✅ Redis connection closed');
 
@@ -294,14 +335,19 @@ process.on('SIGTERM', () => gracefulShutdown('SIGTERM'));
 // Start server (use httpServer instead of app.listen)
 httpServer.listen(PORT, () => {
   scheduleNotificationCleanup();
+  scheduleExpirySweep();
   console.log(`🚀 Server running on http://localhost:${PORT}`);
   console.log(`📚 API Docs: http://localhost:${PORT}/api-docs`);
   console.log(`📊 Queue Dashboard: http://localhost:${PORT}/admin/queues`);
   console.log(`🔌 WebSocket: Enabled`);
   console.log(`📝 Environment: ${process.env.NODE_ENV || 'development'}`);
   console.log(`🔐 Google OAuth: ${process.env.GOOGLE_CLIENT_ID ? 'Enabled' : 'Disabled'}`);
+  if (isMockOAuthEnabled()) {
+    console.log(`⚠️  Mock OAuth: Enabled - anyone can sign in as any email`);
+  }
   console.log(`📊 Activity Log Worker: Running`);
   console.log(`📧 Email Worker: Running`);
+  console.log(`⏰ Expiry Worker: Running`);
   console.log(`🔴 Redis: ${redisConnection.status}`);
 });
 
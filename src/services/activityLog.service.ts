@@ -1,5 +1,5 @@
 import { Request } from 'express';
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, Role } from '@prisma/client';
 import { activityLogQueue, ActivityLogJobData } from '../queues/activityLog.queue';
 
 const prisma = new PrismaClient();
@@ -8,7 +8,7 @@ const prisma = new PrismaClient();
 
 interface LogActivityParams {
   actorId?: string;
-  actorType: 'user' | 'merchant' | 'admin' | 'system';
+  actorType: 'user' | 'merchant' | 'staff' | 'admin' | 'system';
   action: string;
   category: 'AUTH' | 'USER' | 'MERCHANT' | 'GIFT_CARD' | 'PURCHASE' | 'REDEMPTION' | 'SYSTEM';
   description: string;
@@ -20,6 +20,15 @@ interface LogActivityParams {
   req?: Request;
 }
 
+const ROLE_ACTOR_TYPES: Record<Role, LogActivityParams['actorType']> = {
+  USER: 'user',
+  MERCHANT: 'merchant',
+  STAFF: 'staff',
+  ADMIN: 'admin',
+};
+
+export const actorTypeForRole = (role: Role) => ROLE_ACTOR_TYPES[role];
+
 export interface ActivityLogFilters {
   page?: number;
   limit?: number;
@@ -238,6 +247,33 @@ export const ActivityLogger = {
       req,
     }),
 
+  refreshTokenReused: (userId: string, sessionId: string, req?: Request) =>
+    logActivity({
+      actorId: userId,
+      actorType: 'system',
+      action: 'refresh_token_reused',
+      category: 'AUTH',
+      description: 'Rotated refresh token was replayed - session revoked',
+      resourceType: 'session',
+      resourceId: sessionId,
+      metadata: { sessionId },
+      severity: 'CRITICAL',
+      req,
+    }),
+
+  sessionsRevoked: (userId: string, role: string, count: number, sessionId?: string, req?: Request) =>
+    logActivity({
+      actorId: userId,
+      actorType: role.toLowerCase() as any,
+      action: 'sessions_revoked',
+      category: 'AUTH',
+      description: sessionId ? 'Signed out of a session' : `Signed out of ${count} session(s)`,
+      resourceType: 'user',
+      resourceId: userId,
+      metadata: { sessionId, count },
+      req,
+    }),
+
   passwordResetRequested: (email: string, req?: Request) =>
     logActivity({
       actorType: 'system',
@@ -248,13 +284,161 @@ export const ActivityLogger = {
       req,
     }),
 
-  passwordChanged: (userId: string, req?: Request) =>
+  passwordReset: (userId: string, role: string, revokedSessions: number, req?: Request) =>
     logActivity({
       actorId: userId,
-      actorType: 'user',
+      actorType: role.toLowerCase() as any,
+      action: 'password_reset',
+      category: 'AUTH',
+      description: `Password reset via emailed link, ${revokedSessions} session(s) revoked`,
+      resourceType: 'user',
+      resourceId: userId,
+      metadata: { revokedSessions },
+      severity: 'WARNING',
+      req,
+    }),
+
+  passwordChanged: (userId: string, role: string, revokedSessions: number, req?: Request) =>
+    logActivity({
+      actorId: userId,
+      actorType: role.toLowerCase() as any,
       action: 'password_changed',
       category: 'AUTH',
-      description: 'Password changed',
+      description: `Password changed, ${revokedSessions} session(s) revoked`,
+      resourceType: 'user',
+      resourceId: userId,
+      metadata: { revokedSessions },
+      req,
+    }),
+
+  twoFactorEnabled: (userId: string, role: string, req?: Request) =>
+    logActivity({
+      actorId: userId,
+      actorType: role.toLowerCase() as any,
+      action: 'two_factor_enabled',
+      category: 'AUTH',
+      description: 'Two-factor authentication enabled',
+      resourceType: 'user',
+      resourceId: userId,
+      req,
+    }),
+
+  twoFactorDisabled: (userId: string, disabledById: string, role: string, req?: Request) =>
+    logActivity({
+      actorId: disabledById,
+      actorType: role.toLowerCase() as any,
+      action: 'two_factor_disabled',
+      category: 'AUTH',
+      description:
+        userId === disabledById
+          ? 'Two-factor authentication disabled'
+          : 'Two-factor authentication reset by admin',
+      resourceType: 'user',
+      resourceId: userId,
+      severity: 'WARNING',
+      req,
+    }),
+
+  accountLocked: (email: string, failingIps: number, lockoutSeconds: number, userId: string, req?: Request) =>
+    logActivity({
+      actorId: userId,
+      actorType: 'system',
+      action: 'account_locked',
+      category: 'AUTH',
+      description: `Account ${email} locked for ${Math.round(lockoutSeconds / 60)} minutes after failed logins from ${failingIps} IPs`,
+      resourceType: 'user',
+      resourceId: userId,
+      metadata: { email, failingIps, lockoutSeconds },
+      severity: 'CRITICAL',
+      req,
+    }),
+
+  loginBlocked: (email: string, reason: string, req?: Request) =>
+    logActivity({
+      actorType: 'system',
+      action: 'login_blocked',
+      category: 'AUTH',
+      description: `Login blocked for ${email}: ${reason}`,
+      metadata: { email, reason },
+      severity: 'WARNING',
+      req,
+    }),
+
+  accountUnlocked: (userId: string, unlockedById: string, method: 'email' | 'admin', role = 'ADMIN', req?: Request) =>
+    logActivity({
+      actorId: unlockedById,
+      actorType: role.toLowerCase() as any,
+      action: 'account_unlocked',
+      category: 'AUTH',
+      description: method === 'admin' ? 'Account unlocked by admin' : 'Account unlocked via emailed link',
+      resourceType: 'user',
+      resourceId: userId,
+      metadata: { method },
+      req,
+    }),
+
+  giftCardsClaimed: (userId: string, purchaseIds: string[], req?: Request) =>
+    logActivity({
+      actorId: userId,
+      actorType: 'user',
+      action: 'gift_cards_claimed',
+      category: 'PURCHASE',
+      description: `Claimed ${purchaseIds.length} gift card(s) into wallet`,
+      resourceType: 'user',
+      resourceId: userId,
+      metadata: { purchaseIds },
+      req,
+    }),
+
+  rateLimitExceeded: (bucket: string, tier: string, identifier: string, userId?: string, req?: Request) =>
+    logActivity({
+      actorId: userId,
+      actorType: 'system',
+      action: 'rate_limit_exceeded',
+      category: 'SYSTEM',
+      description: `Rate limit "${bucket}" exceeded by ${tier} caller ${identifier}`,
+      metadata: { bucket, tier, identifier, path: req?.originalUrl },
+      severity: 'WARNING',
+      req,
+    }),
+
+  twoFactorFailed: (userId: string, reason: string, req?: Request) =>
+    logActivity({
+      actorId: userId,
+      actorType: 'system',
+      action: 'two_factor_failed',
+      category: 'AUTH',
+      description: `Two-factor verification failed: ${reason}`,
+      resourceType: 'user',
+      resourceId: userId,
+      metadata: { reason },
+      severity: 'WARNING',
+      req,
+    }),
+
+  recoveryCodeUsed: (userId: string, role: string, remaining: number, req?: Request) =>
+    logActivity({
+      actorId: userId,
+      actorType: role.toLowerCase() as any,
+      action: 'recovery_code_used',
+      category: 'AUTH',
+      description: `Logged in with a recovery code, ${remaining} remaining`,
+      resourceType: 'user',
+      resourceId: userId,
+      metadata: { remaining },
+      severity: 'WARNING',
+      req,
+    }),
+
+  twoFactorRequirementChanged: (userId: string, required: boolean, adminId: string, req?: Request) =>
+    logActivity({
+      actorId: adminId,
+      actorType: 'admin',
+      action: required ? 'two_factor_required' : 'two_factor_requirement_removed',
+      category: 'AUTH',
+      description: required
+        ? 'Two-factor authentication made mandatory for user'
+        : 'Two-factor authentication requirement removed for user',
       resourceType: 'user',
       resourceId: userId,
       req,
@@ -285,20 +469,31 @@ export const ActivityLogger = {
       req,
     }),
 
-  userUpdated: (userId: string, updatedById: string, changes: Record<string, any>, req?: Request) =>
+  userUpdated: (
+    userId: string,
+    updatedById: string,
+    changes: Record<string, any>,
+    req?: Request,
+    role: string = 'ADMIN'
+  ) =>
     logActivity({
       actorId: updatedById,
-      actorType: 'admin',
+      actorType: role.toLowerCase() as any,
       action: 'updated',
       category: 'USER',
-      description: 'User profile updated',
+      description: userId === updatedById ? 'User updated own account' : 'User profile updated',
       resourceType: 'user',
       resourceId: userId,
       metadata: { changes },
       req,
     }),
 
-  userDeactivated: (userId: string, deactivatedById: string, req?: Request) =>
+  userDeactivated: (
+    userId: string,
+    deactivatedById: string,
+    req?: Request,
+    details?: { reason?: string; revokedSessions?: number }
+  ) =>
     logActivity({
       actorId: deactivatedById,
       actorType: 'admin',
@@ -307,6 +502,39 @@ export const ActivityLogger = {
       description: 'User account deactivated',
       resourceType: 'user',
       resourceId: userId,
+      metadata: details,
+      severity: 'WARNING',
+      req,
+    }),
+
+  userReactivated: (userId: string, reactivatedById: string, req?: Request) =>
+    logActivity({
+      actorId: reactivatedById,
+      actorType: 'admin',
+      action: 'reactivated',
+      category: 'USER',
+      description: 'User account reactivated',
+      resourceType: 'user',
+      resourceId: userId,
+      req,
+    }),
+
+  userRoleChanged: (
+    userId: string,
+    from: { role: string; adminRole?: string | null },
+    to: { role: string; adminRole?: string | null },
+    changedById: string,
+    req?: Request
+  ) =>
+    logActivity({
+      actorId: changedById,
+      actorType: 'admin',
+      action: 'role_changed',
+      category: 'USER',
+      description: `Role changed from ${from.adminRole ?? from.role} to ${to.adminRole ?? to.role}`,
+      resourceType: 'user',
+      resourceId: userId,
+      metadata: { from, to },
       severity: 'WARNING',
       req,
     }),
@@ -402,6 +630,168 @@ export const ActivityLogger = {
       req,
     }),
 
+  merchantSuspended: (
+    merchantProfileId: string,
+    businessName: string,
+    suspendedById: string,
+    reason: string,
+    redemptionsFrozen: boolean,
+    req?: Request
+  ) =>
+    logActivity({
+      actorId: suspendedById,
+      actorType: 'admin',
+      action: 'suspended',
+      category: 'MERCHANT',
+      description: `Merchant suspended: ${businessName}`,
+      resourceType: 'merchant_profile',
+      resourceId: merchantProfileId,
+      metadata: { reason, redemptionsFrozen },
+      merchantId: merchantProfileId,
+      severity: redemptionsFrozen ? 'CRITICAL' : 'WARNING',
+      req,
+    }),
+
+  merchantReinstated: (
+    merchantProfileId: string,
+    businessName: string,
+    reinstatedById: string,
+    req?: Request
+  ) =>
+    logActivity({
+      actorId: reinstatedById,
+      actorType: 'admin',
+      action: 'reinstated',
+      category: 'MERCHANT',
+      description: `Merchant reinstated: ${businessName}`,
+      resourceType: 'merchant_profile',
+      resourceId: merchantProfileId,
+      merchantId: merchantProfileId,
+      req,
+    }),
+
+  staffInvited: (
+    staffId: string,
+    email: string,
+    role: string,
+    invitedById: string,
+    merchantId: string,
+    req?: Request
+  ) =>
+    logActivity({
+      actorId: invitedById,
+      actorType: 'merchant',
+      action: 'staff_invited',
+      category: 'MERCHANT',
+      description: `Invited ${email} as ${role.toLowerCase()}`,
+      resourceType: 'merchant_staff',
+      resourceId: staffId,
+      metadata: { email, role },
+      merchantId,
+      req,
+    }),
+
+  staffJoined: (staffId: string, userId: string, merchantId: string, req?: Request) =>
+    logActivity({
+      actorId: userId,
+      actorType: 'staff',
+      action: 'staff_joined',
+      category: 'MERCHANT',
+      description: 'Staff invite accepted',
+      resourceType: 'merchant_staff',
+      resourceId: staffId,
+      merchantId,
+      req,
+    }),
+
+  staffRoleChanged: (
+    staffId: string,
+    fromRole: string,
+    toRole: string,
+    changedById: string,
+    merchantId: string,
+    req?: Request
+  ) =>
+    logActivity({
+      actorId: changedById,
+      actorType: 'merchant',
+      action: 'staff_role_changed',
+      category: 'MERCHANT',
+      description: `Staff role changed from ${fromRole.toLowerCase()} to ${toRole.toLowerCase()}`,
+      resourceType: 'merchant_staff',
+      resourceId: staffId,
+      metadata: { fromRole, toRole },
+      merchantId,
+      req,
+    }),
+
+  staffRemoved: (
+    staffId: string,
+    email: string,
+    revokedSessions: number,
+    removedById: string,
+    merchantId: string,
+    req?: Request
+  ) =>
+    logActivity({
+      actorId: removedById,
+      actorType: 'merchant',
+      action: 'staff_removed',
+      category: 'MERCHANT',
+      description: `Removed ${email} from the team`,
+      resourceType: 'merchant_staff',
+      resourceId: staffId,
+      metadata: { email, revokedSessions },
+      merchantId,
+      severity: 'WARNING',
+      req,
+    }),
+
+  locationChanged: (
+    locationId: string,
+    name: string,
+    change: 'created' | 'updated' | 'deactivated',
+    changedById: string,
+    merchantId: string,
+    changes?: Record<string, any>,
+    req?: Request
+  ) =>
+    logActivity({
+      actorId: changedById,
+      actorType: 'merchant',
+      action: `location_${change}`,
+      category: 'MERCHANT',
+      description: `Location "${name}" ${change}`,
+      resourceType: 'merchant_location',
+      resourceId: locationId,
+      metadata: changes ? { name, changes } : { name },
+      merchantId,
+      req,
+    }),
+
+  staffLocationsAssigned: (
+    staffId: string,
+    locationIds: string[],
+    assignedById: string,
+    merchantId: string,
+    req?: Request
+  ) =>
+    logActivity({
+      actorId: assignedById,
+      actorType: 'merchant',
+      action: 'staff_locations_assigned',
+      category: 'MERCHANT',
+      description:
+        locationIds.length > 0
+          ? `Staff assigned to ${locationIds.length} location(s)`
+          : 'Staff location assignment cleared',
+      resourceType: 'merchant_staff',
+      resourceId: staffId,
+      metadata: { locationIds },
+      merchantId,
+      req,
+    }),
+
   // ============ GIFT CARD EVENTS ============
   giftCardCreated: (
     giftCardId: string,
@@ -516,12 +906,13 @@ export const ActivityLogger = {
     purchaseId: string,
     reason: string,
     cancelledById: string,
+    role: string,
     merchantId: string,
     req?: Request
   ) =>
     logActivity({
       actorId: cancelledById,
-      actorType: 'admin',
+      actorType: role.toLowerCase() as any,
       action: 'cancelled',
       category: 'PURCHASE',
       description: `Purchase cancelled: ${reason}`,
@@ -533,22 +924,45 @@ export const ActivityLogger = {
       req,
     }),
 
+  purchaseExpired: (
+    purchaseId: string,
+    breakageAmount: number,
+    merchantId: string,
+    trigger: 'balance_check' | 'scheduled_sweep'
+  ) =>
+    logActivity({
+      actorType: 'system',
+      action: 'auto_expired',
+      category: 'PURCHASE',
+      description:
+        trigger === 'balance_check'
+          ? 'Gift card auto-expired on balance check'
+          : 'Gift card expired by scheduled sweep',
+      resourceType: 'purchased_gift_card',
+      resourceId: purchaseId,
+      metadata: { breakageAmount, trigger },
+      merchantId,
+    }),
+
   purchaseRefunded: (
     purchaseId: string,
     amount: number,
+    balanceAfter: number,
+    reason: string,
     refundedById: string,
+    role: string,
     merchantId: string,
     req?: Request
   ) =>
     logActivity({
       actorId: refundedById,
-      actorType: 'admin',
+      actorType: role.toLowerCase() as any,
       action: 'refunded',
       category: 'PURCHASE',
-      description: `Purchase refunded - ₹${amount}`,
+      description: `Purchase refunded - ₹${amount}, remaining balance: ₹${balanceAfter}`,
       resourceType: 'purchased_gift_card',
       resourceId: purchaseId,
-      metadata: { amount },
+      metadata: { amount, balanceAfter, reason },
       merchantId,
       req,
     }),
@@ -576,6 +990,31 @@ export const ActivityLogger = {
       req,
     }),
 
+  redemptionVoided: (
+    redemptionId: string,
+    voidRedemptionId: string,
+    purchaseId: string,
+    amount: number,
+    balanceAfter: number,
+    reason: string,
+    voidedById: string,
+    merchantId: string,
+    req?: Request
+  ) =>
+    logActivity({
+      actorId: voidedById,
+      actorType: 'merchant',
+      action: 'voided',
+      category: 'REDEMPTION',
+      description: `Redemption of ₹${amount} voided, balance restored to ₹${balanceAfter}`,
+      resourceType: 'redemption',
+      resourceId: redemptionId,
+      metadata: { voidRedemptionId, purchaseId, amount, balanceAfter, reason },
+      merchantId,
+      severity: 'WARNING',
+      req,
+    }),
+
   redemptionFullyRedeemed: (
     purchaseId: string,
     totalRedeemed: number,
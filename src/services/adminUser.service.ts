@@ -0,0 +1,243 @@
+import bcrypt from 'bcrypt';
+import { AdminRole, Prisma, Role } from '@prisma/client';
+import prisma from '../utils/prisma.util';
+import { CreateUserInput, ListUsersQuery, UpdateUserInput } from '../validators/adminUser.validator';
+import { SessionService } from './session.service';
+
+const userListSelect = {
+  id: true,
+  email: true,
+  name: true,
+  phone: true,
+  role: true,
+  adminRole: true,
+  isActive: true,
+  emailVerified: true,
+  twoFactorEnabled: true,
+  provider: true,
+  createdAt: true,
+  lastLogin: true,
+} satisfies Prisma.UserSelect;
+
+const userDetailSelect = {
+  ...userListSelect,
+  updatedAt: true,
+  createdBy: { select: { id: true, name: true, email: true } },
+  merchantProfile: { select: { id: true, businessName: true, profileStatus: true } },
+  staffMembership: {
+    select: {
+      id: true,
+      role: true,
+      removedAt: true,
+      merchantProfile: { select: { id: true, businessName: true } },
+    },
+  },
+} satisfies Prisma.UserSelect;
+
+export type AdminUser = Prisma.UserGetPayload<{ select: typeof userDetailSelect }>;
+
+export type AdminUserResult<T> =
+  | { data: T; error?: undefined }
+  | { data?: undefined; error: string; status: number };
+
+interface RoleState {
+  role: Role;
+  adminRole: AdminRole | null;
+}
+
+// Admins from before scoped roles have no adminRole and keep full access
+const isSuperAdmin = (user: RoleState) =>
+  user.role === 'ADMIN' && (user.adminRole ?? 'SUPER_ADMIN') === 'SUPER_ADMIN';
+
+const superAdminWhere: Prisma.UserWhereInput = {
+  role: 'ADMIN',
+  OR: [{ adminRole: 'SUPER_ADMIN' }, { adminRole: null }],
+};
+
+/**
+ * Whether taking this user away would leave nobody able to manage users
+ */
+const isLastSuperAdmin = async (user: RoleState & { id: string; isActive: boolean }) => {
+  if (!user.isActive || !isSuperAdmin(user)) return false;
+
+  const others = await prisma.user.count({
+    where: { ...superAdminWhere, isActive: true, id: { not: user.id } },
+  });
+
+  return others === 0;
+};
+
+export const AdminUserService = {
+  list: async (query: ListUsersQuery) => {
+    const filters: Prisma.UserWhereInput[] = [];
+
+    if (query.search) {
+      filters.push({
+        OR: [
+          { email: { contains: query.search, mode: 'insensitive' } },
+          { name: { contains: query.search, mode: 'insensitive' } },
+          { phone: { contains: query.search } },
+        ],
+      });
+    }
+    if (query.role) filters.push({ role: query.role });
+    if (query.adminRole) {
+      filters.push(query.adminRole === 'SUPER_ADMIN' ? superAdminWhere : { role: 'ADMIN', adminRole: query.adminRole });
+    }
+    if (query.isActive !== undefined) filters.push({ isActive: query.isActive });
+
+    const where: Prisma.UserWhereInput = { AND: filters };
+
+    const [users, total] = await Promise.all([
+      prisma.user.findMany({
+        where,
+        select: userListSelect,
+        orderBy: { createdAt: 'desc' },
+        take: query.limit,
+        skip: (query.page - 1) * query.limit,
+      }),
+      prisma.user.count({ where }),
+    ]);
+
+    return { users, total };
+  },
+
+  find: async (userId: string) => {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: userDetailSelect,
+    });
+
+    if (!user) return null;
+
+    const activeSessions = await prisma.refreshToken.count({
+      where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+    });
+
+    return { ...user, activeSessions };
+  },
+
+  /**
+   * New admins get the narrower SUPPORT_AGENT scope unless told otherwise
+   */
+  create: async (input: CreateUserInput, createdById: string): Promise<AdminUserResult<AdminUser>> => {
+    const { email } = input;
+
+    const existing = await prisma.user.findUnique({ where: { email }, select: { id: true } });
+    if (existing) {
+      return { error: 'User with this email already exists', status: 409 };
+    }
+
+    const user = await prisma.user.create({
+      data: {
+        email,
+        password: await bcrypt.hash(input.password, 10),
+        name: input.name,
+        phone: input.phone,
+        role: input.role,
+        adminRole: input.role === 'ADMIN' ? input.adminRole ?? 'SUPPORT_AGENT' : null,
+        emailVerified: true,
+        isActive: true,
+        createdById,
+      },
+      select: userDetailSelect,
+    });
+
+    return { data: user };
+  },
+
+  /**
+   * Edit details and move accounts between USER and the admin roles. Role
+   * changes bump tokenVersion, so the user's current access tokens stop working.
+   */
+  update: async (
+    target: AdminUser,
+    input: UpdateUserInput,
+    updatedById: string
+  ): Promise<AdminUserResult<{ user: AdminUser; from: RoleState; to: RoleState }>> => {
+    const role = input.role ?? target.role;
+    const from: RoleState = { role: target.role, adminRole: target.adminRole };
+    const to: RoleState = {
+      role,
+      adminRole:
+        role === 'ADMIN'
+          ? input.adminRole ?? (target.role === 'ADMIN' ? target.adminRole : 'SUPPORT_AGENT')
+          : null,
+    };
+    const roleChanged = from.role !== to.role || from.adminRole !== to.adminRole;
+
+    if (input.adminRole && role !== 'ADMIN') {
+      return { error: 'adminRole only applies to admins', status: 400 };
+    }
+
+    if (roleChanged) {
+      if (target.id === updatedById) {
+        return { error: 'You cannot change your own role', status: 400 };
+      }
+
+      if (target.role === 'MERCHANT' || target.role === 'STAFF') {
+        return { error: 'Merchant and staff accounts cannot change role', status: 400 };
+      }
+
+      if (isSuperAdmin(from) && !isSuperAdmin(to) && (await isLastSuperAdmin(target))) {
+        return { error: 'At least one active super admin is required', status: 400 };
+      }
+    }
+
+    const user = await prisma.user.update({
+      where: { id: target.id },
+      data: {
+        name: input.name,
+        phone: input.phone,
+        ...(roleChanged && to),
+      },
+      select: userDetailSelect,
+    });
+
+    return { data: { user, from, to } };
+  },
+
+  /**
+   * Block sign-in and end every session. Returns the number of sessions revoked.
+   */
+  deactivate: async (target: AdminUser, deactivatedById: string): Promise<AdminUserResult<number>> => {
+    if (target.id === deactivatedById) {
+      return { error: 'You cannot deactivate your own account', status: 400 };
+    }
+
+    if (!target.isActive) {
+      return { error: 'User is already deactivated', status: 400 };
+    }
+
+    if (await isLastSuperAdmin(target)) {
+      return { error: 'At least one active super admin is required', status: 400 };
+    }
+
+    const revoked = await prisma.$transaction(async (tx) => {
+      await tx.user.update({
+        where: { id: target.id },
+        data: { isActive: false },
+      });
+
+      return SessionService.revokeAll(target.id, undefined, tx);
+    });
+
+    return { data: revoked };
+  },
+
+  reactivate: async (target: AdminUser): Promise<AdminUserResult<AdminUser>> => {
+    if (target.isActive) {
+      return { error: 'User is already active', status: 400 };
+    }
+
+    const user = await prisma.user.update({
+      where: { id: target.id },
+      data: { isActive: true },
+      select: userDetailSelect,
+    });
+
+    return { data: user };
+  },
+};
+
+export default AdminUserService;
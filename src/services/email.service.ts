@@ -23,8 +23,11 @@ export const EmailService = {
   sendGiftCardEmail: (
     to: string,
     purchaseData: any,
-    qrCodeImage: string
+    qrCodeImage: string,
+    deliverAt?: Date | null
   ): void => {
+    const delay = deliverAt ? Math.max(deliverAt.getTime() - Date.now(), 0) : 0;
+
     emailQueue.add('gift_card', {
       type: 'gift_card_email',
       to,
@@ -42,11 +45,50 @@ export const EmailService = {
         },
       },
       qrCodeImage,
+      gift: purchaseData.recipientEmail
+        ? {
+            fromName: purchaseData.customerName,
+            recipientName: purchaseData.recipientName,
+            personalMessage: purchaseData.personalMessage || undefined,
+          }
+        : undefined,
+    }, {
+      delay,
+      jobId: `gift_card_${purchaseData.id}`, // One delivery per purchase
     }).catch((error) => {
       console.error('Failed to queue gift card email:', error);
     });
   },
 
+  // Drop a scheduled gift card email that hasn't gone out yet
+  cancelGiftCardEmail: (purchaseId: string): void => {
+    emailQueue.remove(`gift_card_${purchaseId}`).catch((error) => {
+      console.error('Failed to cancel gift card email:', error);
+    });
+  },
+
+  sendPurchaseConfirmationEmail: (
+    to: string,
+    confirmationData: {
+      customerName: string;
+      giftCardTitle: string;
+      businessName: string;
+      amount: string;
+      recipientName: string;
+      recipientEmail: string;
+      deliverAt?: Date | null;
+    }
+  ): void => {
+    emailQueue.add('purchase_confirmation', {
+      type: 'purchase_confirmation_email',
+      to,
+      ...confirmationData,
+      deliverAt: confirmationData.deliverAt?.toISOString(),
+    }).catch((error) => {
+      console.error('Failed to queue purchase confirmation email:', error);
+    });
+  },
+
   sendPasswordResetEmail: (
     to: string,
     name: string,
@@ -62,6 +104,61 @@ export const EmailService = {
     });
   },
 
+  sendVerificationEmail: (
+    to: string,
+    name: string,
+    verificationLink: string,
+    expiresInHours: number
+  ): void => {
+    emailQueue.add('email_verification', {
+      type: 'email_verification_email',
+      to,
+      name,
+      verificationLink,
+      expiresInHours,
+    }).catch((error) => {
+      console.error('Failed to queue verification email:', error);
+    });
+  },
+
+  sendAccountLockedEmail: (
+    to: string,
+    name: string,
+    unlockLink: string,
+    lockedMinutes: number
+  ): void => {
+    emailQueue.add('account_locked', {
+      type: 'account_locked_email',
+      to,
+      name,
+      unlockLink,
+      lockedMinutes,
+    }).catch((error) => {
+      console.error('Failed to queue account locked email:', error);
+    });
+  },
+
+  sendStaffInviteEmail: (
+    to: string,
+    name: string,
+    businessName: string,
+    role: string,
+    inviteLink: string,
+    expiresInDays: number
+  ): void => {
+    emailQueue.add('staff_invite', {
+      type: 'staff_invite_email',
+      to,
+      name,
+      businessName,
+      role,
+      inviteLink,
+      expiresInDays,
+    }).catch((error) => {
+      console.error('Failed to queue staff invite email:', error);
+    });
+  },
+
   sendMerchantApprovedEmail: (
     to: string,
     name: string,
@@ -96,6 +193,91 @@ export const EmailService = {
   },
 
 
+  sendMerchantSuspendedEmail: (
+    to: string,
+    name: string,
+    businessName: string,
+    reason: string,
+    redemptionsFrozen: boolean
+  ): void => {
+    emailQueue.add('merchant_suspended', {
+      type: 'merchant_suspended_email',
+      to,
+      name,
+      businessName,
+      reason,
+      redemptionsFrozen,
+    }).catch((error) => {
+      console.error('Failed to queue merchant suspended email:', error);
+    });
+  },
+
+
+  sendMerchantReinstatedEmail: (
+    to: string,
+    name: string,
+    businessName: string
+  ): void => {
+    emailQueue.add('merchant_reinstated', {
+      type: 'merchant_reinstated_email',
+      to,
+      name,
+      businessName,
+    }).catch((error) => {
+      console.error('Failed to queue merchant reinstated email:', error);
+    });
+  },
+
+
+  sendRefundEmail: (
+    to: string,
+    refundData: {
+      customerName: string;
+      giftCardTitle: string;
+      businessName: string;
+      amount: number;
+      remainingBalance: number;
+      reason: string;
+    }
+  ): void => {
+    emailQueue.add('refund', {
+      type: 'refund_email',
+      to,
+      ...refundData,
+      amount: refundData.amount.toString(),
+      remainingBalance: refundData.remainingBalance.toString(),
+      fullRefund: refundData.remainingBalance === 0,
+    }).catch((error) => {
+      console.error('Failed to queue refund email:', error);
+    });
+  },
+
+
+  sendExpiryReminderEmail: (
+    to: string,
+    reminderData: {
+      customerName: string;
+      giftCardTitle: string;
+      businessName: string;
+      currentBalance: string;
+      expiresAt: Date;
+      daysLeft: number;
+      qrCode: string;
+    },
+    qrCodeImage: string
+  ): void => {
+    emailQueue.add('expiry_reminder', {
+      type: 'expiry_reminder_email',
+      to,
+      ...reminderData,
+      expiresAt: reminderData.expiresAt.toISOString(),
+      qrCodeImage,
+    }).catch((error) => {
+      console.error('Failed to queue expiry reminder email:', error);
+    });
+  },
+
+
   sendGenericEmail: (
     to: string,
     subject: string,
@@ -0,0 +1,64 @@
+import prisma from '../utils/prisma.util';
+import { generateEmailToken, hashEmailToken } from '../utils/token.util';
+import { emailVerificationConfig } from '../config/emailVerification.config';
+import { EmailService } from './email.service';
+
+const FRONTEND_URL = process.env.FRONTEND_URL || 'http://thnxdigital.com';
+
+export const EmailVerificationService = {
+  /**
+   * Issue a fresh token (invalidating any earlier link) and email it
+   */
+  sendVerification: async (user: { id: string; email: string; name: string }) => {
+    const token = generateEmailToken();
+    const expiresAt = new Date(Date.now() + emailVerificationConfig.tokenTtlHours * 60 * 60 * 1000);
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        verificationToken: hashEmailToken(token),
+        verificationTokenExpiry: expiresAt,
+      },
+    });
+
+    EmailService.sendVerificationEmail(
+      user.email,
+      user.name,
+      `${FRONTEND_URL}/verify-email?token=${token}`,
+      emailVerificationConfig.tokenTtlHours
+    );
+
+    return expiresAt;
+  },
+
+  /**
+   * Consume a verification token. Returns the verified user, or null when the
+   * token is unknown, expired or was already used.
+   */
+  verify: async (token: string) => {
+    const tokenHash = hashEmailToken(token);
+
+    const user = await prisma.user.findUnique({
+      where: { verificationToken: tokenHash },
+      select: { id: true, email: true, role: true, verificationTokenExpiry: true },
+    });
+
+    if (!user || !user.verificationTokenExpiry || user.verificationTokenExpiry < new Date()) {
+      return null;
+    }
+
+    // Conditional on the token so two concurrent clicks can't both succeed
+    const updated = await prisma.user.updateMany({
+      where: { id: user.id, verificationToken: tokenHash },
+      data: {
+        emailVerified: true,
+        verificationToken: null,
+        verificationTokenExpiry: null,
+      },
+    });
+
+    return updated.count === 0 ? null : user;
+  },
+};
+
+export default EmailVerificationService;
@@ -0,0 +1,260 @@
+import { PaymentStatus, Prisma } from '@prisma/client';
+import prisma from '../utils/prisma.util';
+import { generateQRCodeImage } from '../utils/qrcode.util';
+import { ActivityLogger } from './activityLog.service';
+import { EmailService } from './email.service';
+import { LedgerService } from './ledger.service';
+import notificationService from './notification.service';
+
+const SWEEP_BATCH_SIZE = parseInt(process.env.EXPIRY_SWEEP_BATCH_SIZE || '200', 10);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Upper bound for MerchantProfile.expiryReminderDays (see expiryReminderDaysSchema)
+const MAX_REMINDER_DAYS = 90;
+const DEFAULT_REMINDER_DAYS = [7];
+
+// ============ TYPES ============
+
+export interface ExpirableCard {
+  id: string;
+  currentBalance: Prisma.Decimal;
+  paymentStatus: PaymentStatus;
+}
+
+export interface ExpireResult {
+  expired: boolean;
+  breakage: Prisma.Decimal;
+}
+
+export interface ExpirySweepResult {
+  expiredCards: number;
+  totalBreakage: string;
+  merchantsNotified: number;
+}
+
+export interface ExpiryReminderResult {
+  checkedCards: number;
+  remindersSent: number;
+}
+
+// ============ SERVICE ============
+
+export const ExpiryService = {
+  /**
+   * Expire a single ACTIVE card. Unused value on a paid card becomes breakage
+   * and the card balance drops to zero. Returns expired: false if the card
+   * changed underneath us (redeemed, refunded, paid or already expired).
+   */
+  expireCard: async (card: ExpirableCard): Promise<ExpireResult> => {
+    const breakage =
+      card.paymentStatus === 'COMPLETED' ? card.currentBalance : new Prisma.Decimal(0);
+
+    const expired = await prisma.$transaction(async (tx) => {
+      const updated = await tx.purchasedGiftCard.updateMany({
+        where: {
+          id: card.id,
+          status: 'ACTIVE',
+          paymentStatus: card.paymentStatus,
+          currentBalance: card.currentBalance,
+        },
+        data: { status: 'EXPIRED', currentBalance: new Prisma.Decimal(0) },
+      });
+
+      if (updated.count === 0) {
+        return false;
+      }
+
+      if (breakage.gt(0)) {
+        await LedgerService.record(tx, {
+          purchaseId: card.id,
+          type: 'EXPIRE',
+          amount: breakage.negated(),
+          description: 'Expired with unused balance',
+        });
+      }
+
+      return true;
+    });
+
+    return { expired, breakage: expired ? breakage : new Prisma.Decimal(0) };
+  },
+
+  /**
+   * Expire every ACTIVE card past its expiry date, in batches, then tell each
+   * merchant how much value expired
+   */
+  sweepExpiredCards: async (): Promise<ExpirySweepResult> => {
+    const now = new Date();
+    const perMerchant = new Map<string, { count: number; breakage: Prisma.Decimal }>();
+    const skipped = new Set<string>();
+    let expiredCards = 0;
+    let totalBreakage = new Prisma.Decimal(0);
+
+    while (true) {
+      const cards = await prisma.purchasedGiftCard.findMany({
+        where: {
+          status: 'ACTIVE',
+          expiresAt: { lt: now },
+          ...(skipped.size > 0 && { id: { notIn: [...skipped] } }),
+        },
+        select: {
+          id: true,
+          currentBalance: true,
+          paymentStatus: true,
+          giftCard: { select: { merchantId: true } },
+        },
+        orderBy: { expiresAt: 'asc' },
+        take: SWEEP_BATCH_SIZE,
+      });
+
+      if (cards.length === 0) break;
+
+      for (const card of cards) {
+        const { expired, breakage } = await ExpiryService.expireCard(card);
+
+        if (!expired) {
+          // Balance moved while we looked - pick it up on the next run
+          skipped.add(card.id);
+          continue;
+        }
+
+        const merchantId = card.giftCard.merchantId;
+        ActivityLogger.purchaseExpired(card.id, breakage.toNumber(), merchantId, 'scheduled_sweep');
+
+        expiredCards++;
+        totalBreakage = totalBreakage.plus(breakage);
+
+        const totals = perMerchant.get(merchantId) ?? { count: 0, breakage: new Prisma.Decimal(0) };
+        totals.count++;
+        totals.breakage = totals.breakage.plus(breakage);
+        perMerchant.set(merchantId, totals);
+      }
+    }
+
+    for (const [merchantId, totals] of perMerchant) {
+      await notificationService.onGiftCardsExpired(
+        merchantId,
+        totals.count,
+        totals.breakage.toNumber()
+      );
+    }
+
+    return {
+      expiredCards,
+      totalBreakage: totalBreakage.toFixed(2),
+      merchantsNotified: perMerchant.size,
+    };
+  },
+
+  /**
+   * Email holders of paid cards with balance left that expire within one of
+   * their merchant's reminder thresholds. Each threshold is sent at most once
+   * per card - the ExpiryReminder row is written before the email is queued.
+   */
+  sendExpiryReminders: async (): Promise<ExpiryReminderResult> => {
+    const now = new Date();
+    const windowEnd = new Date(now.getTime() + MAX_REMINDER_DAYS * DAY_MS);
+    let checkedCards = 0;
+    let remindersSent = 0;
+    let cursor: string | undefined;
+
+    while (true) {
+      const cards = await prisma.purchasedGiftCard.findMany({
+        where: {
+          status: 'ACTIVE',
+          paymentStatus: 'COMPLETED',
+          currentBalance: { gt: 0 },
+          expiresAt: { gt: now, lte: windowEnd },
+          // Scheduled gifts the recipient hasn't received yet
+          OR: [{ deliverAt: null }, { deliverAt: { lte: now } }],
+        },
+        include: {
+          giftCard: {
+            select: {
+              title: true,
+              merchantId: true,
+              merchant: {
+                select: {
+                  name: true,
+                  merchantProfile: {
+                    select: { businessName: true, expiryReminderDays: true },
+                  },
+                },
+              },
+            },
+          },
+          expiryReminders: { select: { daysBefore: true } },
+        },
+        orderBy: { id: 'asc' },
+        take: SWEEP_BATCH_SIZE,
+        ...(cursor && { skip: 1, cursor: { id: cursor } }),
+      });
+
+      if (cards.length === 0) break;
+
+      for (const card of cards) {
+        const merchant = card.giftCard.merchant;
+        const reminderDays =
+          merchant.merchantProfile?.expiryReminderDays ?? DEFAULT_REMINDER_DAYS;
+        const daysLeft = Math.ceil((card.expiresAt.getTime() - now.getTime()) / DAY_MS);
+
+        // Closest threshold we've reached - earlier ones were missed or already sent
+        const threshold = [...reminderDays]
+          .sort((a, b) => a - b)
+          .find((days) => days >= daysLeft);
+
+        if (threshold === undefined) continue;
+        if (card.expiryReminders.some((reminder) => reminder.daysBefore === threshold)) continue;
+
+        try {
+          await prisma.expiryReminder.create({
+            data: { purchasedGiftCardId: card.id, daysBefore: threshold },
+          });
+        } catch (error) {
+          // Another run got here first
+          if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+            continue;
+          }
+          throw error;
+        }
+
+        const qrCodeImage = await generateQRCodeImage(card.qrCode);
+
+        // Gifted cards belong to the recipient
+        EmailService.sendExpiryReminderEmail(
+          card.recipientEmail || card.customerEmail,
+          {
+            customerName: card.recipientName || card.customerName,
+            giftCardTitle: card.giftCard.title,
+            businessName: merchant.merchantProfile?.businessName || merchant.name,
+            currentBalance: card.currentBalance.toString(),
+            expiresAt: card.expiresAt,
+            daysLeft,
+            qrCode: card.qrCode,
+          },
+          qrCodeImage
+        );
+
+        ActivityLogger.log({
+          actorType: 'system',
+          action: 'expiry_reminder_sent',
+          category: 'PURCHASE',
+          description: `Expiry reminder sent - ${daysLeft} day(s) left, balance ₹${card.currentBalance.toString()}`,
+          resourceType: 'purchased_gift_card',
+          resourceId: card.id,
+          metadata: { daysBefore: threshold, daysLeft },
+          merchantId: card.giftCard.merchantId,
+        });
+
+        remindersSent++;
+      }
+
+      checkedCards += cards.length;
+      cursor = cards[cards.length - 1].id;
+    }
+
+    return { checkedCards, remindersSent };
+  },
+};
+
+export default ExpiryService;
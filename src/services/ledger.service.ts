@@ -0,0 +1,204 @@
+import crypto from 'crypto';
+import { LedgerAccount, LedgerEntryType, Prisma } from '@prisma/client';
+import prisma, { TransactionClient } from '../utils/prisma.util';
+
+// ============ ACCOUNTS ============
+
+// Account on the other side of the GIFT_CARD leg for each entry type
+const COUNTER_ACCOUNTS: Record<LedgerEntryType, LedgerAccount> = {
+  ISSUE: 'PAYMENTS',
+  REDEEM: 'MERCHANT_REVENUE',
+  REFUND: 'REFUNDS',
+  VOID: 'MERCHANT_REVENUE',
+  EXPIRE: 'BREAKAGE',
+  ADJUST: 'ADJUSTMENTS',
+};
+
+// Direction each entry type moves the card balance (0 = either way)
+const BALANCE_DIRECTION: Record<LedgerEntryType, 1 | -1 | 0> = {
+  ISSUE: 1,
+  REDEEM: -1,
+  REFUND: -1,
+  VOID: 1,
+  EXPIRE: -1,
+  ADJUST: 0,
+};
+
+const RECONCILE_BATCH_SIZE = 1000;
+
+// ============ TYPES ============
+
+export interface LedgerRecordParams {
+  purchaseId: string;
+  type: LedgerEntryType;
+  amount: Prisma.Decimal | number; // Signed change to the card balance
+  referenceType?: string;
+  referenceId?: string;
+  description?: string;
+  createdById?: string;
+}
+
+export interface LedgerMismatch {
+  purchaseId: string;
+  currentBalance: string;
+  ledgerBalance: string;
+  difference: string;
+}
+
+export interface ReconciliationResult {
+  balanced: boolean;
+  checkedCards: number;
+  mismatches: LedgerMismatch[];
+  unbalancedTransactions: { transactionId: string; sum: string }[];
+  checkedAt: Date;
+}
+
+// ============ SERVICE ============
+
+export const LedgerService = {
+  /**
+   * Write both legs of a balance change. Must run inside the same
+   * transaction that updates PurchasedGiftCard.currentBalance.
+   */
+  record: async (tx: TransactionClient, params: LedgerRecordParams) => {
+    const amount = new Prisma.Decimal(params.amount);
+    const direction = BALANCE_DIRECTION[params.type];
+
+    if (amount.isZero()) {
+      throw new Error(`Ledger ${params.type} entry cannot be zero`);
+    }
+
+    if (direction !== 0 && amount.s !== direction) {
+      throw new Error(`Ledger ${params.type} entry has the wrong sign: ${amount.toString()}`);
+    }
+
+    const transactionId = crypto.randomUUID();
+    const shared = {
+      transactionId,
+      purchasedGiftCardId: params.purchaseId,
+      type: params.type,
+      referenceType: params.referenceType,
+      referenceId: params.referenceId,
+      description: params.description,
+      createdById: params.createdById,
+    };
+
+    await tx.ledgerEntry.createMany({
+      data: [
+        { ...shared, account: 'GIFT_CARD', amount },
+        { ...shared, account: COUNTER_ACCOUNTS[params.type], amount: amount.negated() },
+      ],
+    });
+
+    return transactionId;
+  },
+
+  /**
+   * Ledger balance of a single card (sum of its GIFT_CARD entries)
+   */
+  getCardBalance: async (
+    purchaseId: string,
+    tx: TransactionClient = prisma
+  ): Promise<Prisma.Decimal> => {
+    const result = await tx.ledgerEntry.aggregate({
+      where: { purchasedGiftCardId: purchaseId, account: 'GIFT_CARD' },
+      _sum: { amount: true },
+    });
+
+    return result._sum.amount ?? new Prisma.Decimal(0);
+  },
+
+  /**
+   * Check every card's ledger balance against currentBalance, and that
+   * every ledger transaction sums to zero
+   */
+  reconcile: async (): Promise<ReconciliationResult> => {
+    const ledgerSums = await prisma.ledgerEntry.groupBy({
+      by: ['purchasedGiftCardId'],
+      where: { account: 'GIFT_CARD' },
+      _sum: { amount: true },
+    });
+
+    const ledgerBalances = new Map(
+      ledgerSums.map((row) => [row.purchasedGiftCardId, row._sum.amount ?? new Prisma.Decimal(0)])
+    );
+
+    const mismatches: LedgerMismatch[] = [];
+    let checkedCards = 0;
+    let cursor: string | undefined;
+
+    while (true) {
+      const cards = await prisma.purchasedGiftCard.findMany({
+        select: { id: true, currentBalance: true },
+        orderBy: { id: 'asc' },
+        take: RECONCILE_BATCH_SIZE,
+        ...(cursor && { skip: 1, cursor: { id: cursor } }),
+      });
+
+      if (cards.length === 0) break;
+
+      for (const card of cards) {
+        const ledgerBalance = ledgerBalances.get(card.id) ?? new Prisma.Decimal(0);
+
+        if (!card.currentBalance.equals(ledgerBalance)) {
+          mismatches.push({
+            purchaseId: card.id,
+            currentBalance: card.currentBalance.toString(),
+            ledgerBalance: ledgerBalance.toString(),
+            difference: card.currentBalance.minus(ledgerBalance).toString(),
+          });
+        }
+      }
+
+      checkedCards += cards.length;
+      cursor = cards[cards.length - 1].id;
+    }
+
+    const unbalanced = await prisma.ledgerEntry.groupBy({
+      by: ['transactionId'],
+      _sum: { amount: true },
+      having: { amount: { _sum: { not: 0 } } },
+    });
+
+    return {
+      balanced: mismatches.length === 0 && unbalanced.length === 0,
+      checkedCards,
+      mismatches,
+      unbalancedTransactions: unbalanced.map((row) => ({
+        transactionId: row.transactionId,
+        sum: (row._sum.amount ?? new Prisma.Decimal(0)).toString(),
+      })),
+      checkedAt: new Date(),
+    };
+  },
+
+  /**
+   * Write opening ISSUE entries for paid cards created before the ledger existed
+   */
+  backfillOpeningBalances: async (createdById?: string): Promise<number> => {
+    const cards = await prisma.purchasedGiftCard.findMany({
+      where: {
+        paymentStatus: { in: ['COMPLETED', 'REFUNDED'] },
+        currentBalance: { gt: 0 },
+        ledgerEntries: { none: {} },
+      },
+      select: { id: true, currentBalance: true },
+    });
+
+    for (const card of cards) {
+      await prisma.$transaction((tx) =>
+        LedgerService.record(tx, {
+          purchaseId: card.id,
+          type: 'ISSUE',
+          amount: card.currentBalance,
+          description: 'Opening balance',
+          createdById,
+        })
+      );
+    }
+
+    return cards.length;
+  },
+};
+
+export default LedgerService;
@@ -0,0 +1,240 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../utils/prisma.util';
+import { CreateLocationInput, UpdateLocationInput } from '../validators/location.validator';
+
+const locationSelect = {
+  id: true,
+  name: true,
+  address: true,
+  city: true,
+  phone: true,
+  isActive: true,
+  createdAt: true,
+  updatedAt: true,
+  allowedGiftCards: { select: { id: true, title: true } },
+  staff: { where: { removedAt: null }, select: { id: true, name: true, role: true } },
+} as const;
+
+export interface RedemptionLocation {
+  id: string;
+  name: string;
+  address: string | null;
+  allowedGiftCardIds: string[];
+}
+
+export type LocationResult<T> =
+  | { data: T; error?: undefined }
+  | { data?: undefined; error: string; status: number };
+
+export interface LocationBreakdownRow {
+  locationId: string | null;
+  name: string | null;
+  redemptions: number;
+  amount: string;
+}
+
+/**
+ * Whether every id is one of the merchant's gift cards
+ */
+const ownsGiftCards = async (merchantId: string, ids: string[]) => {
+  const unique = [...new Set(ids)];
+  const count = await prisma.giftCard.count({ where: { id: { in: unique }, merchantId } });
+  return count === unique.length;
+};
+
+const toRedemptionLocation = (location: {
+  id: string;
+  name: string;
+  address: string | null;
+  city: string | null;
+  allowedGiftCards: { id: string }[];
+}): RedemptionLocation => ({
+  id: location.id,
+  name: location.name,
+  address: [location.address, location.city].filter(Boolean).join(', ') || null,
+  allowedGiftCardIds: location.allowedGiftCards.map((card) => card.id),
+});
+
+const redemptionLocationSelect = {
+  id: true,
+  name: true,
+  address: true,
+  city: true,
+  allowedGiftCards: { select: { id: true } },
+} as const;
+
+export const LocationService = {
+  list: (profileId: string, includeInactive = false) =>
+    prisma.merchantLocation.findMany({
+      where: { merchantProfileId: profileId, ...(!includeInactive && { isActive: true }) },
+      select: locationSelect,
+      orderBy: { name: 'asc' },
+    }),
+
+  find: (profileId: string, locationId: string) =>
+    prisma.merchantLocation.findFirst({
+      where: { id: locationId, merchantProfileId: profileId },
+      select: locationSelect,
+    }),
+
+  create: async (
+    profileId: string,
+    merchantId: string,
+    input: CreateLocationInput
+  ): Promise<LocationResult<Prisma.MerchantLocationGetPayload<{ select: typeof locationSelect }>>> => {
+    const { giftCardIds, ...fields } = input;
+
+    if (giftCardIds?.length && !(await ownsGiftCards(merchantId, giftCardIds))) {
+      return { error: 'One or more gift cards do not belong to your business', status: 400 };
+    }
+
+    const location = await prisma.merchantLocation.create({
+      data: {
+        ...fields,
+        merchantProfileId: profileId,
+        allowedGiftCards: { connect: (giftCardIds ?? []).map((id) => ({ id })) },
+      },
+      select: locationSelect,
+    });
+
+    return { data: location };
+  },
+
+  /**
+   * giftCardIds, when given, replaces the whole restriction list
+   */
+  update: async (
+    locationId: string,
+    merchantId: string,
+    input: UpdateLocationInput
+  ): Promise<LocationResult<Prisma.MerchantLocationGetPayload<{ select: typeof locationSelect }>>> => {
+    const { giftCardIds, ...fields } = input;
+
+    if (giftCardIds?.length && !(await ownsGiftCards(merchantId, giftCardIds))) {
+      return { error: 'One or more gift cards do not belong to your business', status: 400 };
+    }
+
+    const location = await prisma.merchantLocation.update({
+      where: { id: locationId },
+      data: {
+        ...fields,
+        ...(giftCardIds && { allowedGiftCards: { set: giftCardIds.map((id) => ({ id })) } }),
+      },
+      select: locationSelect,
+    });
+
+    return { data: location };
+  },
+
+  /**
+   * Replace a staff member's locations. Empty lets them redeem anywhere.
+   */
+  assignStaff: async (
+    profileId: string,
+    staffId: string,
+    locationIds: string[]
+  ): Promise<LocationResult<{ id: string; name: string }[]>> => {
+    const unique = [...new Set(locationIds)];
+
+    const count = await prisma.merchantLocation.count({
+      where: { id: { in: unique }, merchantProfileId: profileId, isActive: true },
+    });
+
+    if (count !== unique.length) {
+      return { error: 'One or more locations were not found or are closed', status: 400 };
+    }
+
+    const staff = await prisma.merchantStaff.update({
+      where: { id: staffId },
+      data: { locations: { set: unique.map((id) => ({ id })) } },
+      select: { locations: { select: { id: true, name: true } } },
+    });
+
+    return { data: staff.locations };
+  },
+
+  /**
+   * Work out where a redemption happens. Staff assigned to locations may only
+   * redeem there, and default to their location when they have just one.
+   * Owners and unassigned staff may name any open location, or none.
+   */
+  resolveForRedemption: async (
+    merchantId: string,
+    staffId: string | undefined,
+    locationId: string | undefined
+  ): Promise<LocationResult<RedemptionLocation | null>> => {
+    const assigned = staffId
+      ? (
+          await prisma.merchantStaff.findUniqueOrThrow({
+            where: { id: staffId },
+            select: { locations: { select: { id: true, isActive: true } } },
+          })
+        ).locations
+      : [];
+    const open = assigned.filter((location) => location.isActive).map((location) => location.id);
+
+    if (assigned.length > 0 && open.length === 0) {
+      return { error: 'None of your assigned locations are open', status: 403 };
+    }
+
+    if (!locationId) {
+      if (open.length > 1) {
+        return { error: 'Select the location you are redeeming at (locationId)', status: 400 };
+      }
+      if (open.length === 0) return { data: null };
+      locationId = open[0];
+    }
+
+    if (assigned.length > 0 && !open.includes(locationId)) {
+      return { error: 'You are not assigned to this location', status: 403 };
+    }
+
+    const location = await prisma.merchantLocation.findFirst({
+      where: { id: locationId, isActive: true, merchantProfile: { userId: merchantId } },
+      select: redemptionLocationSelect,
+    });
+
+    if (!location) {
+      return { error: 'Location not found', status: 404 };
+    }
+
+    return { data: toRedemptionLocation(location) };
+  },
+
+  /**
+   * A location with no restriction list accepts every gift card
+   */
+  acceptsGiftCard: (location: RedemptionLocation, giftCardId: string) =>
+    location.allowedGiftCardIds.length === 0 || location.allowedGiftCardIds.includes(giftCardId),
+
+  /**
+   * Redemption count and net amount per location for the given filter.
+   * Redemptions made without a location are grouped under a null locationId.
+   */
+  redemptionBreakdown: async (where: Prisma.RedemptionWhereInput): Promise<LocationBreakdownRow[]> => {
+    const groups = await prisma.redemption.groupBy({
+      by: ['locationId'],
+      where,
+      _count: { _all: true },
+      _sum: { amount: true },
+    });
+
+    const ids = groups.map((group) => group.locationId).filter((id): id is string => !!id);
+    const locations = await prisma.merchantLocation.findMany({
+      where: { id: { in: ids } },
+      select: { id: true, name: true },
+    });
+    const names = new Map(locations.map((location) => [location.id, location.name]));
+
+    return groups
+      .map((group) => ({
+        locationId: group.locationId,
+        name: group.locationId ? names.get(group.locationId) ?? null : null,
+        redemptions: group._count._all,
+        amount: (group._sum.amount ?? new Prisma.Decimal(0)).toFixed(2),
+      }))
+      .sort((a, b) => b.redemptions - a.redemptions);
+  },
+};
+
+export default LocationService;
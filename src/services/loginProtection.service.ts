@@ -0,0 +1,204 @@
+import { Request } from 'express';
+import { redisConnection } from '../config/redis.config';
+import { loginProtectionConfig } from '../config/loginProtection.config';
+import { consumeRateLimit, peekRateLimit, resetRateLimit } from '../utils/rateLimit.util';
+import { generateEmailToken, hashEmailToken } from '../utils/token.util';
+import { ActivityLogger } from './activityLog.service';
+import { EmailService } from './email.service';
+
+const FRONTEND_URL = process.env.FRONTEND_URL || 'http://thnxdigital.com';
+
+const ipKey = (ip: string) => `login-failures:ip:${ip}`;
+const attemptKey = (email: string, ip: string) => `login-failures:attempt:${email.toLowerCase()}:${ip}`;
+const failingIpsKey = (email: string) => `login-failing-ips:${email.toLowerCase()}`;
+const lockKey = (email: string) => `login-lock:${email.toLowerCase()}`;
+const delayKey = (email: string, ip: string) => `login-delay:${email.toLowerCase()}:${ip}`;
+const unlockTokenKey = (tokenHash: string) => `login-unlock:${tokenHash}`;
+
+const isRedisAvailable = () => !['reconnecting', 'close', 'end'].includes(redisConnection.status);
+
+export type LoginBlockReason = 'ACCOUNT_LOCKED' | 'IP_BLOCKED' | 'TOO_MANY_ATTEMPTS';
+
+export type LoginCheckResult =
+  | { allowed: true; reason?: undefined; retryAfterSeconds?: undefined }
+  | { allowed: false; reason: LoginBlockReason; retryAfterSeconds: number };
+
+interface LockableUser {
+  id: string;
+  email: string;
+  name: string;
+}
+
+const progressiveDelayMs = (failures: number) => {
+  const { delayAfterFailures, baseDelayMs, maxDelayMs } = loginProtectionConfig;
+  if (failures < delayAfterFailures) return 0;
+  return Math.min(baseDelayMs * 2 ** (failures - delayAfterFailures), maxDelayMs);
+};
+
+export const LoginProtectionService = {
+  /**
+   * Whether a login attempt may proceed. Fails open when Redis is down.
+   */
+  check: async (email: string, ip: string): Promise<LoginCheckResult> => {
+    if (!isRedisAvailable()) return { allowed: true };
+
+    try {
+      const [[, lockTtl], [, delayPttl]] = (await redisConnection
+        .multi()
+        .ttl(lockKey(email))
+        .pttl(delayKey(email, ip))
+        .exec()) as [[null, number], [null, number]];
+
+      if (lockTtl > 0) {
+        return { allowed: false, reason: 'ACCOUNT_LOCKED', retryAfterSeconds: lockTtl };
+      }
+
+      const ipFailures = await peekRateLimit(ipKey(ip));
+      if (ipFailures.count >= loginProtectionConfig.maxIpFailures) {
+        return { allowed: false, reason: 'IP_BLOCKED', retryAfterSeconds: ipFailures.retryAfterSeconds };
+      }
+
+      if (delayPttl > 0) {
+        return { allowed: false, reason: 'TOO_MANY_ATTEMPTS', retryAfterSeconds: Math.ceil(delayPttl / 1000) };
+      }
+
+      return { allowed: true };
+    } catch (error) {
+      console.error('Login protection check failed, allowing attempt:', error);
+      return { allowed: true };
+    }
+  },
+
+  /**
+   * Count a failed attempt. Every failure doubles the wait before the same IP
+   * may try the same email again; the account itself is only locked once
+   * failures come from several IPs, and unknown emails are never locked.
+   * Returns the lockout length when this failure locked the account.
+   */
+  recordFailure: async (
+    email: string,
+    ip: string,
+    user: LockableUser | null,
+    req?: Request
+  ): Promise<{ lockedForSeconds: number }> => {
+    const { maxIpFailures, maxAccountFailingIps, failureWindowSeconds, lockoutSeconds } = loginProtectionConfig;
+
+    await consumeRateLimit(ipKey(ip), maxIpFailures, failureWindowSeconds);
+    const attempts = await consumeRateLimit(attemptKey(email, ip), maxIpFailures, failureWindowSeconds);
+
+    if (!isRedisAvailable()) return { lockedForSeconds: 0 };
+
+    const delayMs = progressiveDelayMs(maxIpFailures - attempts.remaining);
+    if (delayMs > 0) {
+      await redisConnection.set(delayKey(email, ip), '1', 'PX', delayMs).catch((error) => {
+        console.error('Failed to set login delay:', error);
+      });
+    }
+
+    if (!user) return { lockedForSeconds: 0 };
+
+    let failingIps: number;
+    try {
+      const [, [, count], [, ttl]] = (await redisConnection
+        .multi()
+        .sadd(failingIpsKey(email), ip)
+        .scard(failingIpsKey(email))
+        .ttl(failingIpsKey(email))
+        .exec()) as [unknown, [null, number], [null, number]];
+
+      if (ttl < 0) {
+        await redisConnection.expire(failingIpsKey(email), failureWindowSeconds);
+      }
+      failingIps = count;
+    } catch (error) {
+      console.error('Failed to count failing IPs:', error);
+      return { lockedForSeconds: 0 };
+    }
+
+    if (failingIps < maxAccountFailingIps) return { lockedForSeconds: 0 };
+
+    try {
+      await redisConnection
+        .multi()
+        .set(lockKey(email), '1', 'EX', lockoutSeconds)
+        .del(failingIpsKey(email))
+        .exec();
+    } catch (error) {
+      console.error('Failed to lock account:', error);
+      return { lockedForSeconds: 0 };
+    }
+
+    ActivityLogger.accountLocked(email, failingIps, lockoutSeconds, user.id, req);
+
+    const token = generateEmailToken();
+    await redisConnection
+      .set(unlockTokenKey(hashEmailToken(token)), user.email.toLowerCase(), 'EX', lockoutSeconds)
+      .catch((error) => {
+        console.error('Failed to store unlock token:', error);
+      });
+
+    EmailService.sendAccountLockedEmail(
+      user.email,
+      user.name,
+      `${FRONTEND_URL}/unlock-account?token=${token}`,
+      Math.round(lockoutSeconds / 60)
+    );
+
+    return { lockedForSeconds: lockoutSeconds };
+  },
+
+  /**
+   * Successful login - forget this IP's failures against the account and the
+   * account's failing IPs (the IP keeps its overall count)
+   */
+  recordSuccess: async (email: string, ip: string) => {
+    await resetRateLimit(attemptKey(email, ip));
+    if (!isRedisAvailable()) return;
+
+    await redisConnection
+      .multi()
+      .del(delayKey(email, ip))
+      .del(failingIpsKey(email))
+      .exec()
+      .catch((error) => {
+        console.error('Failed to clear login failures:', error);
+      });
+  },
+
+  /**
+   * Clear a lock and the account's failing IPs. Per-IP delays run out on
+   * their own. Returns whether the account was locked.
+   */
+  unlock: async (email: string): Promise<boolean> => {
+    if (!isRedisAvailable()) {
+      throw new Error('Lockout store unavailable');
+    }
+
+    const [[, removed]] = (await redisConnection
+      .multi()
+      .del(lockKey(email))
+      .del(failingIpsKey(email))
+      .exec()) as [[null, number], [null, number]];
+
+    return removed > 0;
+  },
+
+  /**
+   * Consume an emailed unlock token. Returns the unlocked email, or null when
+   * the token is unknown, expired or already used.
+   */
+  unlockWithToken: async (token: string): Promise<string | null> => {
+    if (!isRedisAvailable()) {
+      throw new Error('Lockout store unavailable');
+    }
+
+    // GETDEL keeps the token single-use under concurrent clicks
+    const email = await redisConnection.getdel(unlockTokenKey(hashEmailToken(token)));
+    if (!email) return null;
+
+    await LoginProtectionService.unlock(email);
+    return email;
+  },
+};
+
+export default LoginProtectionService;
@@ -130,6 +130,23 @@ class NotificationService {
     );
   }
 
+
+  async onPurchaseRefunded(
+    refundId: string,
+    giftCardTitle: string,
+    amount: number,
+    refundedByName: string
+  ) {
+    return this.notifyAdmin(
+      NotificationType.PURCHASE_REFUNDED,
+      { giftCardTitle, amount },
+      'Refund',
+      refundId,
+      undefined,
+      refundedByName
+    );
+  }
+
  
   async onProfileVerified(merchantUserId: string) {
     return this.notifyMerchant(
@@ -152,6 +169,28 @@ class NotificationService {
     );
   }
 
+
+  async onMerchantSuspended(merchantUserId: string, reason: string, redemptionsFrozen: boolean) {
+    return this.notifyMerchant(
+      merchantUserId,
+      NotificationType.MERCHANT_SUSPENDED,
+      { reason, redemptionsFrozen },
+      'MerchantProfile',
+      merchantUserId
+    );
+  }
+
+
+  async onMerchantReinstated(merchantUserId: string) {
+    return this.notifyMerchant(
+      merchantUserId,
+      NotificationType.MERCHANT_REINSTATED,
+      {},
+      'MerchantProfile',
+      merchantUserId
+    );
+  }
+
  
   async onGiftCardPurchased(
     merchantUserId: string,
@@ -191,6 +230,38 @@ class NotificationService {
   }
 
 
+  async onGiftCardRefunded(
+    merchantUserId: string,
+    refundId: string,
+    giftCardTitle: string,
+    customerName: string,
+    amount: number
+  ) {
+    return this.notifyMerchant(
+      merchantUserId,
+      NotificationType.GIFT_CARD_REFUNDED,
+      { giftCardTitle, customerName, amount },
+      'Refund',
+      refundId
+    );
+  }
+
+
+  async onGiftCardsExpired(
+    merchantUserId: string,
+    count: number,
+    breakageAmount: number
+  ) {
+    return this.notifyMerchant(
+      merchantUserId,
+      NotificationType.GIFT_CARDS_EXPIRED,
+      { count, breakageAmount: breakageAmount.toFixed(2) },
+      'GiftCard',
+      merchantUserId
+    );
+  }
+
+
   async getNotifications(
     userId: string,
     recipientType: RecipientType,
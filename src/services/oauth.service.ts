@@ -0,0 +1,173 @@
+import prisma from '../utils/prisma.util';
+import { redisConnection } from '../config/redis.config';
+import { generateEmailToken, hashEmailToken } from '../utils/token.util';
+import { ActivityLogger, actorTypeForRole } from './activityLog.service';
+import notificationService from './notification.service';
+
+// Long enough for the frontend to load and exchange it, no longer
+const LOGIN_CODE_TTL_SECONDS = 60;
+
+const loginCodeKey = (code: string) => `oauth-login-code:${hashEmailToken(code)}`;
+
+// What the user asked for when starting the flow - only affects new accounts
+export type OAuthIntent = 'login' | 'merchant';
+
+export interface OAuthProfile {
+  provider: 'google';
+  providerId: string;
+  email?: string;
+  emailVerified: boolean;
+  name: string;
+  avatar?: string;
+}
+
+// Reasons are passed to the frontend as ?error=<reason>
+export type OAuthFailureReason =
+  | 'email_missing'
+  | 'email_not_verified'
+  | 'account_conflict'
+  | 'account_disabled';
+
+const userInclude = { merchantProfile: true } as const;
+
+const findUser = (where: { googleId: string } | { email: string }) =>
+  prisma.user.findUnique({ where, include: userInclude });
+
+type OAuthUser = NonNullable<Awaited<ReturnType<typeof findUser>>>;
+
+export type OAuthResult =
+  | { user: OAuthUser; isNewUser: boolean; reason?: undefined }
+  | { user?: undefined; isNewUser?: undefined; reason: OAuthFailureReason };
+
+// What the frontend gets back for a login code
+export interface OAuthLogin {
+  tokens: { accessToken: string; refreshToken: string };
+  profileStatus?: string;
+}
+
+export const OAuthService = {
+  /**
+   * Find the account for a provider profile, linking it to an existing
+   * email account or creating a new one. New accounts started with the
+   * merchant intent land in INCOMPLETE profileStatus, same as merchantRegister.
+   */
+  resolveUser: async (profile: OAuthProfile, intent: OAuthIntent = 'login'): Promise<OAuthResult> => {
+    const linked = await findUser({ googleId: profile.providerId });
+
+    if (linked) {
+      if (!linked.isActive) return { reason: 'account_disabled' };
+
+      const user = await prisma.user.update({
+        where: { id: linked.id },
+        data: { lastLogin: new Date() },
+        include: userInclude,
+      });
+      return { user, isNewUser: false };
+    }
+
+    if (!profile.email) return { reason: 'email_missing' };
+
+    // Linking on an unverified address would let anyone claim the account
+    if (!profile.emailVerified) return { reason: 'email_not_verified' };
+
+    const email = profile.email.toLowerCase();
+    const existing = await findUser({ email });
+
+    if (existing) {
+      if (!existing.isActive) return { reason: 'account_disabled' };
+      if (existing.googleId) return { reason: 'account_conflict' };
+
+      const user = await prisma.user.update({
+        where: { id: existing.id },
+        data: {
+          googleId: profile.providerId,
+          provider: profile.provider,
+          avatar: existing.avatar ?? profile.avatar,
+          emailVerified: true,
+          verificationToken: null,
+          verificationTokenExpiry: null,
+          lastLogin: new Date(),
+        },
+        include: userInclude,
+      });
+
+      ActivityLogger.log({
+        actorId: user.id,
+        actorType: actorTypeForRole(user.role),
+        action: 'oauth_linked',
+        category: 'AUTH',
+        description: `Linked ${profile.provider} account to ${email}`,
+        resourceType: 'user',
+        resourceId: user.id,
+        metadata: { provider: profile.provider },
+      });
+
+      return { user, isNewUser: false };
+    }
+
+    const isMerchant = intent === 'merchant';
+
+    const user = await prisma.$transaction(async (tx) => {
+      const newUser = await tx.user.create({
+        data: {
+          email,
+          name: profile.name,
+          googleId: profile.providerId,
+          provider: profile.provider,
+          avatar: profile.avatar,
+          emailVerified: true,
+          role: isMerchant ? 'MERCHANT' : 'USER',
+          isActive: true,
+          lastLogin: new Date(),
+        },
+      });
+
+      if (isMerchant) {
+        // Placeholder until the merchant sets it in complete-profile
+        await tx.merchantProfile.create({
+          data: {
+            userId: newUser.id,
+            businessName: profile.name,
+            profileStatus: 'INCOMPLETE',
+            isVerified: false,
+          },
+        });
+      }
+
+      return tx.user.findUniqueOrThrow({
+        where: { id: newUser.id },
+        include: userInclude,
+      });
+    });
+
+    ActivityLogger.register(user.id, user.email, user.role);
+
+    if (isMerchant) {
+      await notificationService.onMerchantRegistered(user.id, user.name);
+    }
+
+    return { user, isNewUser: true };
+  },
+
+  /**
+   * Park a finished login behind a single-use code, so tokens never travel
+   * in the redirect URL
+   */
+  createLoginCode: async (login: OAuthLogin): Promise<string> => {
+    const code = generateEmailToken();
+    await redisConnection.set(loginCodeKey(code), JSON.stringify(login), 'EX', LOGIN_CODE_TTL_SECONDS);
+    return code;
+  },
+
+  /**
+   * Trade a login code for its tokens. Returns null when the code is unknown,
+   * expired or already used.
+   */
+  redeemLoginCode: async (code: string): Promise<OAuthLogin | null> => {
+    // GETDEL keeps the code single-use under concurrent requests
+    const stored = await redisConnection.getdel(loginCodeKey(code));
+    return stored ? JSON.parse(stored) : null;
+  },
+};
+
+export default OAuthService;
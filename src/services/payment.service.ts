@@ -0,0 +1,534 @@
+import { PaymentStatus, Prisma, PurchasedGiftCard, PurchaseStatus } from '@prisma/client';
+import prisma, { TransactionClient } from '../utils/prisma.util';
+import { generateQRCodeImage } from '../utils/qrcode.util';
+import { ActivityLogger } from './activityLog.service';
+import { EmailService } from './email.service';
+import { LedgerService } from './ledger.service';
+import notificationService from './notification.service';
+import { localPaymentProvider } from '../providers/localPayment.provider';
+import {
+  CreatePaymentInput,
+  CreatePaymentResult,
+  PaymentProvider,
+  PaymentWebhookEvent,
+} from '../types/payment.types';
+
+const PAYMENT_CURRENCY = process.env.PAYMENT_CURRENCY || 'INR';
+
+// ============ STATE MACHINE ============
+
+// Allowed PaymentStatus transitions - anything else is rejected
+export const PAYMENT_STATUS_TRANSITIONS: Record<PaymentStatus, PaymentStatus[]> = {
+  PENDING: ['COMPLETED', 'FAILED'],
+  COMPLETED: ['REFUNDED'],
+  FAILED: [],
+  REFUNDED: [],
+};
+
+export const canTransitionPayment = (from: PaymentStatus, to: PaymentStatus): boolean =>
+  PAYMENT_STATUS_TRANSITIONS[from].includes(to);
+
+// ============ PROVIDER REGISTRY ============
+
+const providers = new Map<string, PaymentProvider>();
+
+export const registerPaymentProvider = (provider: PaymentProvider): void => {
+  providers.set(provider.name, provider);
+};
+
+// The fake provider is never available in production unless explicitly selected
+if (process.env.NODE_ENV !== 'production' || process.env.PAYMENT_PROVIDER === 'local') {
+  if (process.env.NODE_ENV === 'production' && !process.env.LOCAL_PAYMENT_WEBHOOK_SECRET) {
+    throw new Error('LOCAL_PAYMENT_WEBHOOK_SECRET must be set to use the local payment provider in production');
+  }
+  registerPaymentProvider(localPaymentProvider);
+}
+
+export const getPaymentProvider = (
+  name: string = process.env.PAYMENT_PROVIDER || 'local'
+): PaymentProvider => {
+  const provider = providers.get(name);
+
+  if (!provider) {
+    throw new Error(`Payment provider "${name}" is not configured`);
+  }
+
+  return provider;
+};
+
+// Called at startup - without a provider every purchase would fail with a 503
+export const assertPaymentProviderConfigured = (): void => {
+  if (process.env.NODE_ENV === 'production' && !process.env.PAYMENT_PROVIDER) {
+    throw new Error('PAYMENT_PROVIDER must be set in production (see .env.example)');
+  }
+
+  getPaymentProvider();
+};
+
+// ============ TYPES ============
+
+interface TransitionParams {
+  purchaseId: string;
+  toStatus: PaymentStatus;
+  provider: string;
+  eventType: string;
+  providerEventId?: string;
+  amount?: number;
+  payload?: Record<string, any>;
+  data?: Prisma.PurchasedGiftCardUpdateManyMutationInput;
+  // Only transition while the card itself is in this status
+  purchaseStatus?: PurchaseStatus;
+}
+
+export interface WebhookProcessingResult {
+  status: 'processed' | 'duplicate' | 'ignored';
+  purchaseId?: string;
+  paymentStatus?: PaymentStatus;
+  reason?: string;
+}
+
+// ============ SERVICE ============
+
+export const PaymentService = {
+  /**
+   * Move a purchase to a new PaymentStatus and record the transition.
+   * Returns changed: false when the transition is not allowed from the current state.
+   * Pass tx to run inside a caller's transaction.
+   */
+  transitionPaymentStatus: async (
+    params: TransitionParams,
+    tx?: TransactionClient
+  ): Promise<{ changed: boolean; purchase: PurchasedGiftCard }> => {
+    if (!tx) {
+      return prisma.$transaction((innerTx) =>
+        PaymentService.transitionPaymentStatus(params, innerTx)
+      );
+    }
+
+    const purchase = await tx.purchasedGiftCard.findUnique({
+      where: { id: params.purchaseId },
+    });
+
+    if (!purchase) {
+      throw new Error(`Purchase ${params.purchaseId} not found`);
+    }
+
+    if (
+      !canTransitionPayment(purchase.paymentStatus, params.toStatus) ||
+      (params.purchaseStatus && purchase.status !== params.purchaseStatus)
+    ) {
+      return { changed: false, purchase };
+    }
+
+    // Conditional update guards against two webhooks racing on the same purchase
+    const updated = await tx.purchasedGiftCard.updateMany({
+      where: {
+        id: purchase.id,
+        paymentStatus: purchase.paymentStatus,
+        ...(params.purchaseStatus && { status: params.purchaseStatus }),
+      },
+      data: { ...params.data, paymentStatus: params.toStatus },
+    });
+
+    if (updated.count === 0) {
+      return { changed: false, purchase };
+    }
+
+    await tx.paymentEvent.create({
+      data: {
+        purchasedGiftCardId: purchase.id,
+        provider: params.provider,
+        providerEventId: params.providerEventId,
+        eventType: params.eventType,
+        fromStatus: purchase.paymentStatus,
+        toStatus: params.toStatus,
+        amount: params.amount,
+        payload: params.payload,
+      },
+    });
+
+    const updatedPurchase = await tx.purchasedGiftCard.findUniqueOrThrow({
+      where: { id: purchase.id },
+    });
+
+    return { changed: true, purchase: updatedPurchase };
+  },
+
+  /**
+   * Start a payment with the provider for a freshly created PENDING purchase
+   */
+  initiatePayment: async (
+    purchase: PurchasedGiftCard,
+    provider: PaymentProvider,
+    input: Omit<CreatePaymentInput, 'reference'>,
+    merchantId: string
+  ): Promise<CreatePaymentResult> => {
+    try {
+      const payment = await provider.createPayment({ ...input, reference: purchase.id });
+
+      await prisma.$transaction([
+        prisma.purchasedGiftCard.update({
+          where: { id: purchase.id },
+          data: { transactionId: payment.providerPaymentId },
+        }),
+        prisma.paymentEvent.create({
+          data: {
+            purchasedGiftCardId: purchase.id,
+            provider: provider.name,
+            eventType: 'payment.created',
+            fromStatus: 'PENDING',
+            toStatus: 'PENDING',
+            amount: input.amount,
+            payload: { providerPaymentId: payment.providerPaymentId },
+          },
+        }),
+      ]);
+
+      return payment;
+    } catch (error: any) {
+      await PaymentService.transitionPaymentStatus({
+        purchaseId: purchase.id,
+        toStatus: 'FAILED',
+        provider: provider.name,
+        eventType: 'payment.create_failed',
+        payload: { error: error.message },
+        data: { status: 'CANCELLED', currentBalance: 0 },
+      });
+
+      ActivityLogger.paymentFailed(purchase.id, `Provider error: ${error.message}`, merchantId);
+
+      throw error;
+    }
+  },
+
+  /**
+   * Apply a verified webhook event to its purchase
+   */
+  processWebhookEvent: async (
+    provider: PaymentProvider,
+    event: PaymentWebhookEvent
+  ): Promise<WebhookProcessingResult> => {
+    const alreadyProcessed = await prisma.paymentEvent.findUnique({
+      where: { providerEventId: event.eventId },
+    });
+
+    if (alreadyProcessed) {
+      return { status: 'duplicate', purchaseId: alreadyProcessed.purchasedGiftCardId };
+    }
+
+    const purchase = await prisma.purchasedGiftCard.findUnique({
+      where: { id: event.reference },
+      include: { giftCard: { select: { merchantId: true } } },
+    });
+
+    if (
+      !purchase ||
+      purchase.paymentProvider !== provider.name ||
+      purchase.transactionId !== event.providerPaymentId
+    ) {
+      ActivityLogger.log({
+        actorType: 'system',
+        action: 'webhook_unmatched',
+        category: 'PURCHASE',
+        description: `Payment webhook from ${provider.name} did not match any purchase`,
+        metadata: {
+          eventId: event.eventId,
+          reference: event.reference,
+          providerPaymentId: event.providerPaymentId,
+        },
+        severity: 'WARNING',
+      });
+
+      return { status: 'ignored', reason: 'unknown_payment' };
+    }
+
+    const merchantId = purchase.giftCard.merchantId;
+    const expectedAmount = purchase.purchaseAmount.toNumber();
+
+    try {
+      if (event.type === 'payment.succeeded' && Math.abs(expectedAmount - event.amount) >= 0.01) {
+        ActivityLogger.log({
+          actorType: 'system',
+          action: 'payment_amount_mismatch',
+          category: 'PURCHASE',
+          description: `Payment amount mismatch - expected ₹${expectedAmount}, received ₹${event.amount}`,
+          resourceType: 'purchased_gift_card',
+          resourceId: purchase.id,
+          metadata: { eventId: event.eventId, expectedAmount, receivedAmount: event.amount },
+          merchantId,
+          severity: 'CRITICAL',
+        });
+
+        const { changed, purchase: updated } = await PaymentService.transitionPaymentStatus({
+          purchaseId: purchase.id,
+          toStatus: 'FAILED',
+          provider: provider.name,
+          eventType: event.type,
+          providerEventId: event.eventId,
+          amount: event.amount,
+          payload: { ...event.payload, rejectedReason: 'amount_mismatch' },
+          data: { status: 'CANCELLED', currentBalance: 0 },
+        });
+
+        if (changed) {
+          ActivityLogger.paymentFailed(purchase.id, 'Amount mismatch', merchantId);
+        }
+
+        return {
+          status: changed ? 'processed' : 'ignored',
+          purchaseId: purchase.id,
+          paymentStatus: updated.paymentStatus,
+          reason: 'amount_mismatch',
+        };
+      }
+
+      if (event.type === 'payment.succeeded') {
+        const { changed, purchase: updated } = await prisma.$transaction(async (tx) => {
+          const transition = await PaymentService.transitionPaymentStatus(
+            {
+              purchaseId: purchase.id,
+              toStatus: 'COMPLETED',
+              provider: provider.name,
+              eventType: event.type,
+              providerEventId: event.eventId,
+              amount: event.amount,
+              payload: event.payload,
+              // The card only gets its balance once paid, and only if it can still be used
+              data: { paidAt: new Date(), currentBalance: purchase.purchaseAmount },
+              purchaseStatus: 'ACTIVE',
+            },
+            tx
+          );
+
+          // Card value only exists once the payment is confirmed
+          if (transition.changed) {
+            await LedgerService.record(tx, {
+              purchaseId: purchase.id,
+              type: 'ISSUE',
+              amount: transition.purchase.currentBalance,
+              referenceType: 'payment',
+              referenceId: event.providerPaymentId,
+              description: `Issued via ${provider.name}`,
+            });
+          }
+
+          return transition;
+        });
+
+        if (changed) {
+          await PaymentService.fulfillPurchase(purchase.id);
+        } else {
+          const current = await prisma.purchasedGiftCard.findUniqueOrThrow({
+            where: { id: purchase.id },
+          });
+
+          // Still unpaid, so the card stopped being ACTIVE first (expired or cancelled)
+          if (current.paymentStatus === 'PENDING' && current.status !== 'ACTIVE') {
+            return PaymentService.refundUnusablePayment(provider, event, current, merchantId);
+          }
+        }
+
+        return {
+          status: changed ? 'processed' : 'ignored',
+          purchaseId: purchase.id,
+          paymentStatus: updated.paymentStatus,
+        };
+      }
+
+      const { changed, purchase: updated } = await PaymentService.transitionPaymentStatus({
+        purchaseId: purchase.id,
+        toStatus: 'FAILED',
+        provider: provider.name,
+        eventType: event.type,
+        providerEventId: event.eventId,
+        amount: event.amount,
+        payload: event.payload,
+        data: { status: 'CANCELLED', currentBalance: 0 },
+      });
+
+      if (changed) {
+        ActivityLogger.paymentFailed(purchase.id, event.failureReason || 'Declined by provider', merchantId);
+      }
+
+      return {
+        status: changed ? 'processed' : 'ignored',
+        purchaseId: purchase.id,
+        paymentStatus: updated.paymentStatus,
+      };
+    } catch (error: any) {
+      // Same event delivered twice at once - the other request recorded it
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return { status: 'duplicate', purchaseId: purchase.id };
+      }
+      throw error;
+    }
+  },
+
+  /**
+   * Send back a payment that was confirmed after its card stopped being
+   * ACTIVE. The payment is recorded as COMPLETED then REFUNDED; the card is
+   * left as it was, with no balance.
+   */
+  refundUnusablePayment: async (
+    provider: PaymentProvider,
+    event: PaymentWebhookEvent,
+    purchase: PurchasedGiftCard,
+    merchantId: string
+  ): Promise<WebhookProcessingResult> => {
+    const { changed } = await PaymentService.transitionPaymentStatus({
+      purchaseId: purchase.id,
+      toStatus: 'COMPLETED',
+      provider: provider.name,
+      eventType: event.type,
+      providerEventId: event.eventId,
+      amount: event.amount,
+      payload: { ...event.payload, refundReason: 'card_not_active' },
+      data: { paidAt: new Date() },
+      purchaseStatus: purchase.status,
+    });
+
+    if (!changed) {
+      return { status: 'ignored', purchaseId: purchase.id, reason: 'card_not_active' };
+    }
+
+    try {
+      const refund = await provider.refundPayment({
+        providerPaymentId: event.providerPaymentId,
+        amount: event.amount,
+        currency: PAYMENT_CURRENCY,
+        reason: `Gift card was ${purchase.status.toLowerCase()} before the payment was confirmed`,
+      });
+
+      const { purchase: refunded } = await PaymentService.transitionPaymentStatus({
+        purchaseId: purchase.id,
+        toStatus: 'REFUNDED',
+        provider: provider.name,
+        eventType: 'refund.card_not_active',
+        amount: event.amount,
+        payload: { providerRefundId: refund.providerRefundId },
+      });
+
+      ActivityLogger.log({
+        actorType: 'system',
+        action: 'payment_refunded_card_not_active',
+        category: 'PURCHASE',
+        description: `Payment of ₹${event.amount} refunded - gift card was ${purchase.status} when it was confirmed`,
+        resourceType: 'purchased_gift_card',
+        resourceId: purchase.id,
+        metadata: { eventId: event.eventId, providerRefundId: refund.providerRefundId },
+        merchantId,
+        severity: 'WARNING',
+      });
+
+      return {
+        status: 'processed',
+        purchaseId: purchase.id,
+        paymentStatus: refunded.paymentStatus,
+        reason: 'card_not_active',
+      };
+    } catch (error: any) {
+      // Money is held for a card that can't be used - needs someone to refund it by hand
+      ActivityLogger.log({
+        actorType: 'system',
+        action: 'payment_refund_failed',
+        category: 'PURCHASE',
+        description: `Could not refund ₹${event.amount} paid for a ${purchase.status} gift card: ${error.message}`,
+        resourceType: 'purchased_gift_card',
+        resourceId: purchase.id,
+        metadata: { eventId: event.eventId, providerPaymentId: event.providerPaymentId },
+        merchantId,
+        severity: 'CRITICAL',
+      });
+
+      return {
+        status: 'processed',
+        purchaseId: purchase.id,
+        paymentStatus: 'COMPLETED',
+        reason: 'card_not_active',
+      };
+    }
+  },
+
+  /**
+   * Deliver a confirmed purchase: log, notify and email the gift card.
+   * Gifts go to the recipient (at deliverAt if scheduled) and the buyer gets a confirmation.
+   */
+  fulfillPurchase: async (purchaseId: string): Promise<void> => {
+    const purchasedCard = await prisma.purchasedGiftCard.findUniqueOrThrow({
+      where: { id: purchaseId },
+      include: {
+        giftCard: {
+          include: {
+            merchant: {
+              include: {
+                merchantProfile: true,
+              },
+            },
+          },
+        },
+      },
+    });
+
+    const { giftCard } = purchasedCard;
+    const amount = purchasedCard.purchaseAmount.toNumber();
+
+    ActivityLogger.paymentCompleted(
+      purchasedCard.id,
+      purchasedCard.transactionId || 'unknown',
+      amount,
+      giftCard.merchantId
+    );
+
+    await notificationService.onPurchaseMade(
+      purchasedCard.id,
+      giftCard.title,
+      amount,
+      purchasedCard.customerName,
+      giftCard.merchantId
+    );
+
+    await notificationService.onGiftCardPurchased(
+      giftCard.merchantId,
+      purchasedCard.id,
+      giftCard.title,
+      purchasedCard.customerName,
+      amount.toString()
+    );
+
+    const holderEmail = purchasedCard.recipientEmail || purchasedCard.customerEmail;
+
+    try {
+      const qrCodeImage = await generateQRCodeImage(purchasedCard.qrCode);
+
+      EmailService.sendGiftCardEmail(holderEmail, purchasedCard, qrCodeImage, purchasedCard.deliverAt);
+
+      if (purchasedCard.recipientEmail && purchasedCard.recipientName) {
+        EmailService.sendPurchaseConfirmationEmail(purchasedCard.customerEmail, {
+          customerName: purchasedCard.customerName,
+          giftCardTitle: giftCard.title,
+          businessName: giftCard.merchant.merchantProfile?.businessName || giftCard.merchant.name,
+          amount: amount.toFixed(2),
+          recipientName: purchasedCard.recipientName,
+          recipientEmail: purchasedCard.recipientEmail,
+          deliverAt: purchasedCard.deliverAt,
+        });
+      }
+    } catch (emailError) {
+      console.error('Failed to send email:', emailError);
+
+      ActivityLogger.log({
+        actorType: 'system',
+        action: 'email_failed',
+        category: 'PURCHASE',
+        description: `Failed to send gift card email to ${holderEmail}`,
+        resourceType: 'purchased_gift_card',
+        resourceId: purchasedCard.id,
+        metadata: { error: (emailError as Error).message },
+        merchantId: giftCard.merchantId,
+        severity: 'ERROR',
+      });
+    }
+  },
+};
+
+export default PaymentService;
@@ -0,0 +1,151 @@
+import { AdminRole, StaffRole } from '@prisma/client';
+import prisma from '../utils/prisma.util';
+import {
+  AccessRole,
+  COMPLETE_PROFILE_PERMISSIONS,
+  isMerchantPermission,
+  Permission,
+  ROLE_PERMISSIONS,
+  SUSPENDED_MERCHANT_BLOCKED_PERMISSIONS,
+  VERIFIED_MERCHANT_PERMISSIONS,
+} from '../config/permissions.config';
+import { MerchantPermission, STAFF_ROLE_PERMISSIONS } from '../config/merchantPermissions.config';
+
+export interface MerchantContext {
+  merchantId: string; // The merchant owner's user id - what GiftCard.merchantId holds
+  staffId?: string; // MerchantStaff id when the caller is staff
+  staffRole: StaffRole;
+  permissions: readonly MerchantPermission[];
+}
+
+export interface AccessContext {
+  accessRole: AccessRole;
+  permissions: readonly Permission[];
+  // Whose business the caller acts for - merchants and their staff only
+  merchantContext?: MerchantContext;
+  // Why a STAFF user currently has no merchant permissions
+  merchantRestriction?: { message: string; profileStatus?: string };
+}
+
+export interface AccessSubject {
+  userId: string;
+  role: string;
+  adminRole?: string;
+  profileStatus?: string;
+}
+
+// A suspended merchant was verified and keeps serving existing customers
+const isVerifiedStatus = (profileStatus?: string) =>
+  profileStatus === 'VERIFIED' || profileStatus === 'SUSPENDED';
+
+const resolveStaff = async (userId: string): Promise<AccessContext> => {
+  const base = ROLE_PERMISSIONS.STAFF;
+
+  const staff = await prisma.merchantStaff.findUnique({
+    where: { userId },
+    select: {
+      id: true,
+      role: true,
+      removedAt: true,
+      merchantProfile: {
+        select: {
+          userId: true,
+          profileStatus: true,
+          user: { select: { isActive: true } },
+        },
+      },
+    },
+  });
+
+  if (!staff || staff.removedAt || !staff.merchantProfile.user.isActive) {
+    return {
+      accessRole: 'STAFF',
+      permissions: base,
+      merchantRestriction: { message: 'You are no longer a member of this business' },
+    };
+  }
+
+  if (!isVerifiedStatus(staff.merchantProfile.profileStatus)) {
+    return {
+      accessRole: 'STAFF',
+      permissions: base,
+      merchantRestriction: {
+        message: 'This merchant account is not verified yet.',
+        profileStatus: staff.merchantProfile.profileStatus,
+      },
+    };
+  }
+
+  const merchantPermissions = STAFF_ROLE_PERMISSIONS[staff.role];
+
+  return {
+    accessRole: 'STAFF',
+    permissions: [...base, ...merchantPermissions],
+    merchantContext: {
+      merchantId: staff.merchantProfile.userId,
+      staffId: staff.id,
+      staffRole: staff.role,
+      permissions: merchantPermissions,
+    },
+  };
+};
+
+/**
+ * Merchants unlock permissions as their profile moves from INCOMPLETE
+ * through PENDING_VERIFICATION to VERIFIED, and lose selling when SUSPENDED
+ */
+const merchantPermissionsFor = (profileStatus?: string): Permission[] =>
+  ROLE_PERMISSIONS.MERCHANT.filter((permission) => {
+    if (profileStatus === 'SUSPENDED' && SUSPENDED_MERCHANT_BLOCKED_PERMISSIONS.includes(permission)) {
+      return false;
+    }
+    if (VERIFIED_MERCHANT_PERMISSIONS.includes(permission)) return isVerifiedStatus(profileStatus);
+    if (COMPLETE_PROFILE_PERMISSIONS.includes(permission)) return profileStatus !== 'INCOMPLETE';
+    return true;
+  });
+
+export const PermissionService = {
+  /**
+   * Effective permissions for an authenticated user. Role, admin scope and
+   * profile status come from the access token, which tokenVersion keeps
+   * current; staff membership is read from the database.
+   */
+  resolve: async (subject: AccessSubject): Promise<AccessContext> => {
+    switch (subject.role) {
+      case 'ADMIN': {
+        // Admins created before scoped roles existed keep full access
+        const adminRole = (subject.adminRole as AdminRole | undefined) ?? 'SUPER_ADMIN';
+        return { accessRole: adminRole, permissions: ROLE_PERMISSIONS[adminRole] };
+      }
+
+      case 'MERCHANT': {
+        const permissions = merchantPermissionsFor(subject.profileStatus);
+        return {
+          accessRole: 'MERCHANT',
+          permissions,
+          merchantContext: {
+            merchantId: subject.userId,
+            staffRole: 'OWNER',
+            permissions: permissions.filter(isMerchantPermission),
+          },
+        };
+      }
+
+      case 'STAFF':
+        return resolveStaff(subject.userId);
+
+      default:
+        return { accessRole: 'USER', permissions: ROLE_PERMISSIONS.USER };
+    }
+  },
+
+  /**
+   * Whether a merchant would get the permission once their profile is verified
+   */
+  awaitsMerchantVerification: (permission: Permission) =>
+    ROLE_PERMISSIONS.MERCHANT.includes(permission) &&
+    (VERIFIED_MERCHANT_PERMISSIONS.includes(permission) ||
+      COMPLETE_PROFILE_PERMISSIONS.includes(permission)),
+};
+
+export default PermissionService;
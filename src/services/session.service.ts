@@ -0,0 +1,202 @@
+import crypto from 'crypto';
+import { Request } from 'express';
+import { RefreshToken } from '@prisma/client';
+import prisma, { TransactionClient } from '../utils/prisma.util';
+import { generateTokens } from '../utils/jwt.util';
+
+const REFRESH_TOKEN_TTL_DAYS = 7;
+
+type SessionTokenPayload = Omit<Parameters<typeof generateTokens>[0], 'sessionId'>;
+
+// ============ DEVICE INFO ============
+
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/Chrome\//, 'Chrome'],
+  [/Firefox\//, 'Firefox'],
+  [/Safari\//, 'Safari'],
+];
+
+const OPERATING_SYSTEMS: [RegExp, string][] = [
+  [/iPhone|iPad|iPod/, 'iOS'],
+  [/Android/, 'Android'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/Linux/, 'Linux'],
+];
+
+/**
+ * "Chrome on macOS" style label for the sessions list
+ */
+export const describeDevice = (userAgent?: string): string | null => {
+  if (!userAgent) return null;
+
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const os = OPERATING_SYSTEMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+  if (browser && os) return `${browser} on ${os}`;
+  return browser || os || 'Unknown device';
+};
+
+const getDeviceInfo = (req?: Request) => {
+  const userAgent = req?.headers['user-agent'] || undefined;
+
+  return {
+    userAgent,
+    ipAddress: req?.ip || (req?.headers['x-forwarded-for'] as string) || undefined,
+    deviceName: describeDevice(userAgent),
+  };
+};
+
+const refreshTokenExpiry = () => {
+  const expiresAt = new Date();
+  expiresAt.setDate(expiresAt.getDate() + REFRESH_TOKEN_TTL_DAYS);
+  return expiresAt;
+};
+
+// ============ SERVICE ============
+
+export const SessionService = {
+  /**
+   * Start a new session and issue its first token pair
+   */
+  create: async (
+    payload: SessionTokenPayload,
+    req?: Request,
+    tx: TransactionClient = prisma
+  ) => {
+    const sessionId = crypto.randomUUID();
+    const tokens = generateTokens({ ...payload, sessionId });
+
+    await tx.refreshToken.create({
+      data: {
+        token: tokens.refreshToken,
+        userId: payload.userId,
+        familyId: sessionId,
+        expiresAt: refreshTokenExpiry(),
+        ...getDeviceInfo(req),
+      },
+    });
+
+    return tokens;
+  },
+
+  /**
+   * Swap a refresh token for a new pair in the same session. Returns null if
+   * another request rotated the token first.
+   */
+  rotate: async (stored: RefreshToken, payload: SessionTokenPayload) => {
+    const tokens = generateTokens({ ...payload, sessionId: stored.familyId });
+
+    const nextId = crypto.randomUUID();
+
+    return prisma.$transaction(async (tx) => {
+      // Claim the old token first so two concurrent refreshes can't both rotate it
+      const rotated = await tx.refreshToken.updateMany({
+        where: { id: stored.id, revokedAt: null },
+        data: { revokedAt: new Date(), replacedById: nextId },
+      });
+
+      if (rotated.count === 0) {
+        return null;
+      }
+
+      await tx.refreshToken.create({
+        data: {
+          id: nextId,
+          token: tokens.refreshToken,
+          userId: stored.userId,
+          familyId: stored.familyId,
+          expiresAt: refreshTokenExpiry(),
+          userAgent: stored.userAgent,
+          ipAddress: stored.ipAddress,
+          deviceName: stored.deviceName,
+        },
+      });
+
+      return tokens;
+    });
+  },
+
+  /**
+   * Active sessions, newest activity first. Each session has exactly one
+   * unrevoked token, created at its last refresh.
+   */
+  list: async (userId: string) => {
+    const tokens = await prisma.refreshToken.findMany({
+      where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    const starts = await prisma.refreshToken.groupBy({
+      by: ['familyId'],
+      where: { familyId: { in: tokens.map((token) => token.familyId) } },
+      _min: { createdAt: true },
+    });
+    const startedAt = new Map(starts.map((row) => [row.familyId, row._min.createdAt]));
+
+    return tokens.map((token) => ({
+      id: token.familyId,
+      deviceName: token.deviceName,
+      userAgent: token.userAgent,
+      ipAddress: token.ipAddress,
+      createdAt: startedAt.get(token.familyId) ?? token.createdAt,
+      lastActiveAt: token.createdAt,
+      expiresAt: token.expiresAt,
+    }));
+  },
+
+  /**
+   * Revoke every token in a session. Returns false if the session isn't the user's.
+   */
+  revoke: async (userId: string, sessionId: string): Promise<boolean> => {
+    const revoked = await prisma.refreshToken.updateMany({
+      where: { userId, familyId: sessionId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+
+    return revoked.count > 0;
+  },
+
+  /**
+   * Revoke all of a user's sessions, optionally keeping one. Returns how many were ended.
+   */
+  revokeAll: async (
+    userId: string,
+    exceptSessionId?: string,
+    tx: TransactionClient = prisma
+  ): Promise<number> => {
+    const active = await tx.refreshToken.findMany({
+      where: {
+        userId,
+        revokedAt: null,
+        ...(exceptSessionId && { familyId: { not: exceptSessionId } }),
+      },
+      select: { familyId: true },
+      distinct: ['familyId'],
+    });
+
+    await tx.refreshToken.updateMany({
+      where: {
+        userId,
+        revokedAt: null,
+        ...(exceptSessionId && { familyId: { not: exceptSessionId } }),
+      },
+      data: { revokedAt: new Date() },
+    });
+
+    return active.length;
+  },
+
+  /**
+   * A rotated token came back - whoever holds it may have stolen it, so end the session
+   */
+  revokeFamily: (familyId: string) =>
+    prisma.refreshToken.updateMany({
+      where: { familyId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    }),
+};
+
+export default SessionService;
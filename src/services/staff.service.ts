@@ -0,0 +1,210 @@
+import bcrypt from 'bcrypt';
+import { StaffRole } from '@prisma/client';
+import prisma from '../utils/prisma.util';
+import { generateEmailToken, hashEmailToken } from '../utils/token.util';
+import { staffInviteConfig } from '../config/merchantPermissions.config';
+import { InviteStaffInput, AcceptStaffInviteInput } from '../validators/staff.validator';
+import { EmailService } from './email.service';
+import { SessionService } from './session.service';
+
+const FRONTEND_URL = process.env.FRONTEND_URL || 'http://thnxdigital.com';
+
+const staffSelect = {
+  id: true,
+  email: true,
+  name: true,
+  role: true,
+  userId: true,
+  invitedById: true,
+  inviteExpiresAt: true,
+  acceptedAt: true,
+  removedAt: true,
+  createdAt: true,
+  user: { select: { lastLogin: true, isActive: true } },
+  locations: { select: { id: true, name: true } },
+} as const;
+
+export interface StaffMerchant {
+  profileId: string;
+  businessName: string;
+}
+
+export type StaffInviteResult =
+  | { status: 'invited' | 'reinvited' | 'reinstated'; staffId: string; error?: undefined }
+  | { status?: undefined; staffId?: undefined; error: string };
+
+const sendInvite = async (staffId: string, merchant: StaffMerchant, input: InviteStaffInput) => {
+  const token = generateEmailToken();
+  const expiresAt = new Date(Date.now() + staffInviteConfig.ttlDays * 24 * 60 * 60 * 1000);
+
+  await prisma.merchantStaff.update({
+    where: { id: staffId },
+    data: { inviteToken: hashEmailToken(token), inviteExpiresAt: expiresAt },
+  });
+
+  EmailService.sendStaffInviteEmail(
+    input.email,
+    input.name,
+    merchant.businessName,
+    input.role.toLowerCase(),
+    `${FRONTEND_URL}/accept-invite?token=${token}`,
+    staffInviteConfig.ttlDays
+  );
+};
+
+export const StaffService = {
+  list: (profileId: string) =>
+    prisma.merchantStaff.findMany({
+      where: { merchantProfileId: profileId, removedAt: null },
+      select: staffSelect,
+      orderBy: { createdAt: 'asc' },
+    }),
+
+  find: (profileId: string, staffId: string) =>
+    prisma.merchantStaff.findFirst({
+      where: { id: staffId, merchantProfileId: profileId },
+      select: staffSelect,
+    }),
+
+  /**
+   * Invite someone by email. Re-inviting a pending invite issues a fresh link;
+   * re-inviting a removed member who had accepted restores their account.
+   */
+  invite: async (
+    merchant: StaffMerchant,
+    input: InviteStaffInput,
+    invitedById: string
+  ): Promise<StaffInviteResult> => {
+    const { email } = input;
+
+    const existing = await prisma.merchantStaff.findUnique({
+      where: { merchantProfileId_email: { merchantProfileId: merchant.profileId, email } },
+    });
+
+    if (existing?.userId) {
+      if (!existing.removedAt) {
+        return { error: 'This person is already a member of your team' };
+      }
+
+      await prisma.$transaction(async (tx) => {
+        await tx.merchantStaff.update({
+          where: { id: existing.id },
+          data: { role: input.role, removedAt: null, invitedById },
+        });
+        await tx.user.update({
+          where: { id: existing.userId! },
+          data: { isActive: true },
+        });
+      });
+
+      return { status: 'reinstated', staffId: existing.id };
+    }
+
+    // Staff log in with their own account, so the email can't belong to anyone else
+    const accountExists = await prisma.user.findUnique({ where: { email }, select: { id: true } });
+    if (accountExists) {
+      return { error: 'An account with this email already exists' };
+    }
+
+    const staff = existing
+      ? await prisma.merchantStaff.update({
+          where: { id: existing.id },
+          data: { name: input.name, role: input.role, removedAt: null, invitedById },
+        })
+      : await prisma.merchantStaff.create({
+          data: {
+            merchantProfileId: merchant.profileId,
+            email,
+            name: input.name,
+            role: input.role,
+            invitedById,
+          },
+        });
+
+    await sendInvite(staff.id, merchant, { ...input, email });
+
+    return { status: existing ? 'reinvited' : 'invited', staffId: staff.id };
+  },
+
+  /**
+   * Create the STAFF account for an invite. Returns null when the token is
+   * unknown, expired, already used or the invite was withdrawn.
+   */
+  accept: async (input: AcceptStaffInviteInput) => {
+    const staff = await prisma.merchantStaff.findUnique({
+      where: { inviteToken: hashEmailToken(input.token) },
+    });
+
+    if (
+      !staff ||
+      staff.userId ||
+      staff.removedAt ||
+      !staff.inviteExpiresAt ||
+      staff.inviteExpiresAt < new Date()
+    ) {
+      return null;
+    }
+
+    const password = await bcrypt.hash(input.password, 10);
+
+    return prisma.$transaction(async (tx) => {
+      // Conditional on the token so two concurrent accepts can't both create accounts
+      const claimed = await tx.merchantStaff.updateMany({
+        where: { id: staff.id, inviteToken: staff.inviteToken },
+        data: { inviteToken: null, inviteExpiresAt: null, acceptedAt: new Date() },
+      });
+
+      if (claimed.count === 0) return null;
+
+      const user = await tx.user.create({
+        data: {
+          email: staff.email,
+          password,
+          name: staff.name,
+          phone: input.phone,
+          role: 'STAFF',
+          emailVerified: true, // Proven by the invite link
+          isActive: true,
+          createdById: staff.invitedById,
+        },
+      });
+
+      await tx.merchantStaff.update({
+        where: { id: staff.id },
+        data: { userId: user.id },
+      });
+
+      return { user, staff };
+    });
+  },
+
+  updateRole: (staffId: string, role: StaffRole) =>
+    prisma.merchantStaff.update({
+      where: { id: staffId },
+      data: { role },
+      select: staffSelect,
+    }),
+
+  /**
+   * Withdraw an invite or remove a member. Their account is deactivated and
+   * signed out everywhere; the staff row stays for the audit trail.
+   */
+  remove: async (staffId: string): Promise<number> =>
+    prisma.$transaction(async (tx) => {
+      const staff = await tx.merchantStaff.update({
+        where: { id: staffId },
+        data: { removedAt: new Date(), inviteToken: null, inviteExpiresAt: null },
+      });
+
+      if (!staff.userId) return 0;
+
+      await tx.user.update({
+        where: { id: staff.userId },
+        data: { isActive: false },
+      });
+
+      return SessionService.revokeAll(staff.userId, undefined, tx);
+    }),
+};
+
+export default StaffService;
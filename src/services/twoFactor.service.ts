@@ -0,0 +1,154 @@
+import crypto from 'crypto';
+import { Role } from '@prisma/client';
+import prisma from '../utils/prisma.util';
+import { generateSimpleQRCode } from '../utils/qrcode.util';
+import {
+  buildOtpAuthUrl,
+  decryptTotpSecret,
+  encryptTotpSecret,
+  generateTotpSecret,
+  verifyTotp,
+} from '../utils/totp.util';
+import { twoFactorConfig } from '../config/twoFactor.config';
+
+interface TwoFactorUser {
+  id: string;
+  role: Role;
+  twoFactorEnabled: boolean;
+  twoFactorRequired: boolean;
+}
+
+// Recovery codes are compared without dashes or case
+const normalizeRecoveryCode = (code: string) => code.replace(/[\s-]/g, '').toLowerCase();
+
+const hashRecoveryCode = (code: string) =>
+  crypto.createHash('sha256').update(normalizeRecoveryCode(code)).digest('hex');
+
+const generateRecoveryCode = () => {
+  const raw = crypto.randomBytes(5).toString('hex');
+  return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+};
+
+export const TwoFactorService = {
+  /**
+   * Whether the user must enroll before the API will serve them
+   */
+  isSetupRequired: (user: TwoFactorUser): boolean =>
+    !user.twoFactorEnabled &&
+    (user.twoFactorRequired || twoFactorConfig.requiredRoles.has(user.role)),
+
+  /**
+   * Whether the user may turn 2FA off again
+   */
+  canDisable: (user: TwoFactorUser): boolean =>
+    !user.twoFactorRequired && !twoFactorConfig.requiredRoles.has(user.role),
+
+  /**
+   * Store a new (not yet enabled) secret and return what the authenticator app needs
+   */
+  beginSetup: async (user: { id: string; email: string }) => {
+    const secret = generateTotpSecret();
+    const otpauthUrl = buildOtpAuthUrl(secret, user.email, twoFactorConfig.issuer);
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        twoFactorSecret: encryptTotpSecret(secret),
+        twoFactorLastUsedStep: null,
+      },
+    });
+
+    return {
+      secret,
+      otpauthUrl,
+      qrCode: await generateSimpleQRCode(otpauthUrl),
+    };
+  },
+
+  /**
+   * Check a TOTP code. Each code is accepted once, so a code seen over
+   * someone's shoulder can't be replayed within its 30 seconds.
+   */
+  verifyCode: async (userId: string, code: string): Promise<boolean> => {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { twoFactorSecret: true, twoFactorLastUsedStep: true },
+    });
+
+    if (!user?.twoFactorSecret) {
+      return false;
+    }
+
+    const step = verifyTotp(decryptTotpSecret(user.twoFactorSecret), code);
+    if (step === null) {
+      return false;
+    }
+
+    const updated = await prisma.user.updateMany({
+      where: {
+        id: userId,
+        OR: [{ twoFactorLastUsedStep: null }, { twoFactorLastUsedStep: { lt: step } }],
+      },
+      data: { twoFactorLastUsedStep: step },
+    });
+
+    return updated.count > 0;
+  },
+
+  /**
+   * Burn a recovery code. Returns false if it's unknown or already used.
+   */
+  useRecoveryCode: async (userId: string, code: string): Promise<boolean> => {
+    const updated = await prisma.twoFactorRecoveryCode.updateMany({
+      where: { userId, codeHash: hashRecoveryCode(code), usedAt: null },
+      data: { usedAt: new Date() },
+    });
+
+    return updated.count > 0;
+  },
+
+  /**
+   * Replace all recovery codes. The plain codes are only ever returned here.
+   */
+  regenerateRecoveryCodes: async (userId: string): Promise<string[]> => {
+    const codes = Array.from({ length: twoFactorConfig.recoveryCodeCount }, generateRecoveryCode);
+
+    await prisma.$transaction([
+      prisma.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+      prisma.twoFactorRecoveryCode.createMany({
+        data: codes.map((code) => ({ userId, codeHash: hashRecoveryCode(code) })),
+      }),
+    ]);
+
+    return codes;
+  },
+
+  remainingRecoveryCodes: (userId: string) =>
+    prisma.twoFactorRecoveryCode.count({ where: { userId, usedAt: null } }),
+
+  enable: async (userId: string): Promise<string[]> => {
+    await prisma.user.update({
+      where: { id: userId },
+      data: { twoFactorEnabled: true, twoFactorEnabledAt: new Date() },
+    });
+
+    return TwoFactorService.regenerateRecoveryCodes(userId);
+  },
+
+  disable: async (userId: string) => {
+    await prisma.$transaction([
+      prisma.user.update({
+        where: { id: userId },
+        data: {
+          twoFactorEnabled: false,
+          twoFactorSecret: null,
+          twoFactorEnabledAt: null,
+          twoFactorLastUsedStep: null,
+        },
+      }),
+      prisma.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+    ]);
+  },
+};
+
+export default TwoFactorService;
@@ -0,0 +1,101 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../utils/prisma.util';
+
+/**
+ * Unclaimed, paid cards addressed to an email: cards received as a gift, and
+ * cards the email bought for themselves. Cards bought for someone else belong
+ * to the recipient, not the buyer.
+ */
+// Scheduled gifts stay hidden from the recipient until they're delivered
+const deliveredWhere = (): Prisma.PurchasedGiftCardWhereInput => ({
+  OR: [{ deliverAt: null }, { deliverAt: { lte: new Date() } }],
+});
+
+const claimableWhere = (email: string): Prisma.PurchasedGiftCardWhereInput => {
+  return {
+    ownerId: null,
+    paymentStatus: { in: ['COMPLETED', 'REFUNDED'] },
+    OR: [
+      { recipientEmail: email, ...deliveredWhere() },
+      { recipientEmail: null, customerEmail: email },
+    ],
+  };
+};
+
+const walletInclude = {
+  giftCard: {
+    select: {
+      id: true,
+      title: true,
+      description: true,
+      merchant: {
+        select: {
+          merchantProfile: {
+            select: {
+              businessName: true,
+              logo: true,
+              city: true,
+            },
+          },
+        },
+      },
+    },
+  },
+} satisfies Prisma.PurchasedGiftCardInclude;
+
+export const WalletService = {
+  countClaimable: (email: string) =>
+    prisma.purchasedGiftCard.count({ where: claimableWhere(email) }),
+
+  /**
+   * Attach every claimable card for the email to the account. The ownerId
+   * condition makes concurrent claims safe - each card is claimed once.
+   */
+  claim: async (userId: string, email: string): Promise<string[]> => {
+    const cards = await prisma.purchasedGiftCard.findMany({
+      where: claimableWhere(email),
+      select: { id: true },
+    });
+
+    if (cards.length === 0) return [];
+
+    const ids = cards.map((card) => card.id);
+    await prisma.purchasedGiftCard.updateMany({
+      where: { id: { in: ids }, ownerId: null },
+      data: { ownerId: userId, claimedAt: new Date() },
+    });
+
+    const claimed = await prisma.purchasedGiftCard.findMany({
+      where: { id: { in: ids }, ownerId: userId },
+      select: { id: true },
+    });
+
+    return claimed.map((card) => card.id);
+  },
+
+  /**
+   * Cards held by the account, with balance totals across usable cards
+   */
+  list: async (userId: string) => {
+    const cards = await prisma.purchasedGiftCard.findMany({
+      where: { ownerId: userId, ...deliveredWhere() },
+      include: walletInclude,
+      orderBy: { purchasedAt: 'desc' },
+    });
+
+    const active = cards.filter((card) => card.status === 'ACTIVE' && card.paymentStatus === 'COMPLETED');
+
+    return {
+      cards,
+      summary: {
+        totalCards: cards.length,
+        activeCards: active.length,
+        totalBalance: active
+          .reduce((sum, card) => sum.plus(card.currentBalance), new Prisma.Decimal(0))
+          .toFixed(2),
+      },
+    };
+  },
+};
+
+export default WalletService;
@@ -4,7 +4,7 @@ import { Request } from 'express';
 
 export interface LogActivityParams {
   actorId?: string;
-  actorType: 'user' | 'merchant' | 'admin' | 'system';
+  actorType: 'user' | 'merchant' | 'staff' | 'admin' | 'system';
   action: string;
   category: ActivityCategory;
   description: string;
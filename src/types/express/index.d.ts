@@ -1,16 +1,15 @@
-import { Role } from '@prisma/client';
+import { MerchantProfile, User as PrismaUser } from '@prisma/client';
 
 declare global {
   namespace Express {
-    interface User {
-      id: string;
-      email: string;
-      role: Role;
-      isActive: boolean;
-      emailVerified: boolean;
-      name: string;
-      phone?: string | null;
-      avatar?: string | null;
+    // Account set by passport - OAuth strategies include the merchant profile
+    interface User extends PrismaUser {
+      merchantProfile?: MerchantProfile | null;
+      isNewUser?: boolean; // Set by OAuth strategies when the account was just created
+    }
+
+    interface Request {
+      rawBody?: Buffer; // Unparsed JSON body, kept for webhook signature checks
     }
   }
 }
@@ -4,11 +4,16 @@ export enum NotificationType {
   PROFILE_SUBMITTED_FOR_VERIFICATION = 'PROFILE_SUBMITTED_FOR_VERIFICATION',
   PURCHASE_MADE = 'PURCHASE_MADE',
   REDEMPTION_MADE = 'REDEMPTION_MADE',
+  PURCHASE_REFUNDED = 'PURCHASE_REFUNDED',
 
   PROFILE_VERIFIED = 'PROFILE_VERIFIED',
   PROFILE_REJECTED = 'PROFILE_REJECTED',
   GIFT_CARD_PURCHASED = 'GIFT_CARD_PURCHASED',
   GIFT_CARD_REDEEMED = 'GIFT_CARD_REDEEMED',
+  GIFT_CARD_REFUNDED = 'GIFT_CARD_REFUNDED',
+  GIFT_CARDS_EXPIRED = 'GIFT_CARDS_EXPIRED',
+  MERCHANT_SUSPENDED = 'MERCHANT_SUSPENDED',
+  MERCHANT_REINSTATED = 'MERCHANT_REINSTATED',
 }
 
 export enum RecipientType {
@@ -33,21 +38,28 @@ export interface NotificationPreferenceUpdate {
   profileSubmittedForVerification?: boolean;
   purchaseMade?: boolean;
   redemptionMade?: boolean;
+  purchaseRefunded?: boolean;
   profileVerified?: boolean;
   profileRejected?: boolean;
   giftCardPurchased?: boolean;
   giftCardRedeemed?: boolean;
+  giftCardRefunded?: boolean;
+  giftCardsExpired?: boolean;
 }
 
-export const notificationTypeToPreferenceField: Record<NotificationType, keyof NotificationPreferenceUpdate> = {
+// Account status changes are always delivered and have no preference toggle
+export const notificationTypeToPreferenceField: Partial<Record<NotificationType, keyof NotificationPreferenceUpdate>> = {
   [NotificationType.MERCHANT_REGISTERED]: 'merchantRegistered',
   [NotificationType.PROFILE_SUBMITTED_FOR_VERIFICATION]: 'profileSubmittedForVerification',
   [NotificationType.PURCHASE_MADE]: 'purchaseMade',
   [NotificationType.REDEMPTION_MADE]: 'redemptionMade',
+  [NotificationType.PURCHASE_REFUNDED]: 'purchaseRefunded',
   [NotificationType.PROFILE_VERIFIED]: 'profileVerified',
   [NotificationType.PROFILE_REJECTED]: 'profileRejected',
   [NotificationType.GIFT_CARD_PURCHASED]: 'giftCardPurchased',
   [NotificationType.GIFT_CARD_REDEEMED]: 'giftCardRedeemed',
+  [NotificationType.GIFT_CARD_REFUNDED]: 'giftCardRefunded',
+  [NotificationType.GIFT_CARDS_EXPIRED]: 'giftCardsExpired',
 };
 
 export const notificationTemplates: Record<NotificationType, { title: string; message: (data: any) => string }> = {
@@ -67,6 +79,10 @@ export const notificationTemplates: Record<NotificationType, { title: string; me
     title: 'New Redemption',
     message: (data) => `A redemption of ${data.amount || 'N/A'} was made on a gift card.`,
   },
+  [NotificationType.PURCHASE_REFUNDED]: {
+    title: 'Purchase Refunded',
+    message: (data) => `${data.amount || 'An amount'} was refunded on gift card "${data.giftCardTitle || 'Unknown'}".`,
+  },
   [NotificationType.PROFILE_VERIFIED]: {
     title: 'Profile Verified',
     message: () => 'Congratulations! Your merchant profile has been verified. You can now create gift cards.',
@@ -83,4 +99,24 @@ export const notificationTemplates: Record<NotificationType, { title: string; me
     title: 'Gift Card Redeemed',
     message: (data) => `${data.amount || 'An amount'} was redeemed from your gift card "${data.giftCardTitle || 'Unknown'}".`,
   },
+  [NotificationType.GIFT_CARD_REFUNDED]: {
+    title: 'Gift Card Refunded',
+    message: (data) => `${data.amount || 'An amount'} was refunded to ${data.customerName || 'a customer'} for your gift card "${data.giftCardTitle || 'Unknown'}".`,
+  },
+  [NotificationType.GIFT_CARDS_EXPIRED]: {
+    title: 'Gift Cards Expired',
+    message: (data) => `${data.count || 'Some'} of your gift cards expired with ₹${data.breakageAmount || '0'} unused value.`,
+  },
+  [NotificationType.MERCHANT_SUSPENDED]: {
+    title: 'Account Suspended',
+    message: (data) =>
+      `Your merchant account has been suspended. Reason: ${data.reason || 'Not specified'}. ` +
+      (data.redemptionsFrozen
+        ? 'Sales and redemptions are paused until the suspension is lifted.'
+        : 'New sales are paused, but customers can still redeem their existing gift cards.'),
+  },
+  [NotificationType.MERCHANT_REINSTATED]: {
+    title: 'Account Reinstated',
+    message: () => 'Your merchant account has been reinstated. You can sell gift cards and accept redemptions again.',
+  },
 };
\ No newline at end of file
@@ -0,0 +1,52 @@
+import { IncomingHttpHeaders } from 'http';
+
+export interface CreatePaymentInput {
+  reference: string; // PurchasedGiftCard id
+  amount: number;
+  currency: string;
+  description: string;
+  customerEmail: string;
+  metadata?: Record<string, string>;
+}
+
+export interface CreatePaymentResult {
+  providerPaymentId: string;
+  checkoutUrl?: string;
+  clientSecret?: string;
+}
+
+export interface RefundPaymentInput {
+  providerPaymentId: string;
+  amount: number;
+  currency: string;
+  reason: string;
+}
+
+export interface RefundPaymentResult {
+  providerRefundId: string;
+}
+
+export type PaymentWebhookEventType = 'payment.succeeded' | 'payment.failed';
+
+export interface PaymentWebhookEvent {
+  eventId: string;
+  type: PaymentWebhookEventType;
+  providerPaymentId: string;
+  reference: string;
+  amount: number;
+  failureReason?: string;
+  payload: Record<string, any>;
+}
+
+export interface PaymentProvider {
+  readonly name: string;
+
+  // Starts a payment with the provider. The purchase stays PENDING until a webhook confirms it.
+  createPayment(input: CreatePaymentInput): Promise<CreatePaymentResult>;
+
+  // Checks the webhook signature and normalizes the event. Throws if the signature is invalid.
+  verifyWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): PaymentWebhookEvent;
+
+  // Returns money for a completed payment. Throws if the provider declines the refund.
+  refundPayment(input: RefundPaymentInput): Promise<RefundPaymentResult>;
+}
@@ -0,0 +1,234 @@
+import { GiftCardPricingType, Prisma, ValidityUnit } from '@prisma/client';
+
+const MAX_DENOMINATIONS = 10;
+
+// Longest relative validity a template can define
+export const MAX_VALIDITY: Record<ValidityUnit, number> = {
+  DAYS: 3650,
+  MONTHS: 120,
+};
+
+export interface GiftCardPricing {
+  pricingType: GiftCardPricingType;
+  price?: number | null;
+  denominations?: number[];
+  minAmount?: number | null;
+  maxAmount?: number | null;
+}
+
+export interface PricingError {
+  field: keyof GiftCardPricing;
+  message: string;
+}
+
+export interface GiftCardValidity {
+  salesStartDate?: Date | null;
+  expiryDate: Date;
+  validityValue?: number | null;
+  validityUnit?: ValidityUnit | null;
+}
+
+export interface ValidityError {
+  field: keyof GiftCardValidity;
+  message: string;
+}
+
+type ValidityGiftCard = {
+  expiryDate: Date;
+  validityValue: number | null;
+  validityUnit: ValidityUnit | null;
+};
+
+type PricedGiftCard = {
+  pricingType: GiftCardPricingType;
+  price: Prisma.Decimal;
+  denominations: Prisma.Decimal[];
+  minAmount: Prisma.Decimal | null;
+  maxAmount: Prisma.Decimal | null;
+};
+
+/**
+ * Check that the fields required by the pricing type are present and consistent
+ */
+export const getPricingError = (pricing: GiftCardPricing): PricingError | null => {
+  switch (pricing.pricingType) {
+    case 'FIXED':
+      if (pricing.price == null) {
+        return { field: 'price', message: 'Price is required for fixed-price gift cards' };
+      }
+      return null;
+
+    case 'DENOMINATIONS': {
+      const denominations = pricing.denominations ?? [];
+      if (denominations.length === 0) {
+        return { field: 'denominations', message: 'At least one denomination is required' };
+      }
+      if (denominations.length > MAX_DENOMINATIONS) {
+        return { field: 'denominations', message: `At most ${MAX_DENOMINATIONS} denominations are allowed` };
+      }
+      if (new Set(denominations).size !== denominations.length) {
+        return { field: 'denominations', message: 'Denominations must be unique' };
+      }
+      return null;
+    }
+
+    case 'RANGE':
+      if (pricing.minAmount == null || pricing.maxAmount == null) {
+        return { field: 'minAmount', message: 'Minimum and maximum amounts are required for range gift cards' };
+      }
+      if (pricing.minAmount >= pricing.maxAmount) {
+        return { field: 'maxAmount', message: 'Maximum amount must be greater than minimum amount' };
+      }
+      return null;
+  }
+};
+
+/**
+ * Check the relative validity and the sales window
+ */
+export const getValidityError = (validity: GiftCardValidity): ValidityError | null => {
+  const hasValue = validity.validityValue != null;
+  const hasUnit = validity.validityUnit != null;
+
+  if (hasValue !== hasUnit) {
+    return { field: 'validityUnit', message: 'Validity value and unit must be provided together' };
+  }
+
+  if (hasValue && validity.validityValue! > MAX_VALIDITY[validity.validityUnit!]) {
+    return {
+      field: 'validityValue',
+      message: `Validity cannot exceed ${MAX_VALIDITY[validity.validityUnit!]} ${validity.validityUnit!.toLowerCase()}`,
+    };
+  }
+
+  if (validity.salesStartDate && validity.salesStartDate >= validity.expiryDate) {
+    return { field: 'salesStartDate', message: 'Sales start date must be before the expiry date' };
+  }
+
+  return null;
+};
+
+/**
+ * Normalize pricing into the columns stored on GiftCard. `price` always holds
+ * the lowest purchasable amount so listings can show "from ₹X".
+ */
+export const toPricingData = (pricing: GiftCardPricing) => {
+  switch (pricing.pricingType) {
+    case 'DENOMINATIONS': {
+      const denominations = [...(pricing.denominations ?? [])].sort((a, b) => a - b);
+      return {
+        pricingType: pricing.pricingType,
+        price: new Prisma.Decimal(denominations[0]),
+        denominations: denominations.map((value) => new Prisma.Decimal(value)),
+        minAmount: null,
+        maxAmount: null,
+      };
+    }
+
+    case 'RANGE':
+      return {
+        pricingType: pricing.pricingType,
+        price: new Prisma.Decimal(pricing.minAmount!),
+        denominations: [],
+        minAmount: new Prisma.Decimal(pricing.minAmount!),
+        maxAmount: new Prisma.Decimal(pricing.maxAmount!),
+      };
+
+    default:
+      return {
+        pricingType: pricing.pricingType,
+        price: new Prisma.Decimal(pricing.price!),
+        denominations: [],
+        minAmount: null,
+        maxAmount: null,
+      };
+  }
+};
+
+/**
+ * Work out what the buyer pays for a gift card. Returns an error message
+ * when the requested amount isn't allowed by the card's pricing.
+ */
+export const resolvePurchaseAmount = (
+  giftCard: PricedGiftCard,
+  requestedAmount?: number
+): { amount: Prisma.Decimal; error?: undefined } | { amount?: undefined; error: string } => {
+  switch (giftCard.pricingType) {
+    case 'DENOMINATIONS': {
+      if (requestedAmount === undefined) {
+        return {
+          error: `Choose an amount: ${giftCard.denominations.map((d) => `₹${d.toFixed(2)}`).join(', ')}`,
+        };
+      }
+      const match = giftCard.denominations.find((d) => d.equals(requestedAmount));
+      if (!match) {
+        return { error: `₹${requestedAmount.toFixed(2)} is not an available amount for this gift card` };
+      }
+      return { amount: match };
+    }
+
+    case 'RANGE': {
+      if (requestedAmount === undefined) {
+        return {
+          error: `Choose an amount between ₹${giftCard.minAmount!.toFixed(2)} and ₹${giftCard.maxAmount!.toFixed(2)}`,
+        };
+      }
+      if (giftCard.minAmount!.gt(requestedAmount) || giftCard.maxAmount!.lt(requestedAmount)) {
+        return {
+          error: `Amount must be between ₹${giftCard.minAmount!.toFixed(2)} and ₹${giftCard.maxAmount!.toFixed(2)}`,
+        };
+      }
+      return { amount: new Prisma.Decimal(requestedAmount) };
+    }
+
+    default:
+      if (requestedAmount !== undefined && !giftCard.price.equals(requestedAmount)) {
+        return { error: `This gift card has a fixed price of ₹${giftCard.price.toFixed(2)}` };
+      }
+      return { amount: giftCard.price };
+  }
+};
+
+/**
+ * Add calendar months, clamping to the end of shorter months (Jan 31 + 1 month = Feb 28)
+ */
+const addMonths = (date: Date, months: number): Date => {
+  const result = new Date(date);
+  const day = result.getDate();
+
+  result.setDate(1);
+  result.setMonth(result.getMonth() + months);
+
+  const lastDayOfMonth = new Date(result.getFullYear(), result.getMonth() + 1, 0).getDate();
+  result.setDate(Math.min(day, lastDayOfMonth));
+
+  return result;
+};
+
+/**
+ * When a card bought now expires - relative to the purchase when the template
+ * defines a validity period, otherwise the template's expiryDate
+ */
+export const computeExpiresAt = (giftCard: ValidityGiftCard, purchasedAt: Date = new Date()): Date => {
+  if (!giftCard.validityValue || !giftCard.validityUnit) {
+    return giftCard.expiryDate;
+  }
+
+  if (giftCard.validityUnit === 'MONTHS') {
+    return addMonths(purchasedAt, giftCard.validityValue);
+  }
+
+  return new Date(purchasedAt.getTime() + giftCard.validityValue * 24 * 60 * 60 * 1000);
+};
+
+/**
+ * Human-readable validity for listings
+ */
+export const describeValidity = (giftCard: ValidityGiftCard): string => {
+  if (!giftCard.validityValue || !giftCard.validityUnit) {
+    return `Valid until ${giftCard.expiryDate.toISOString().split('T')[0]}`;
+  }
+
+  const unit = giftCard.validityUnit === 'MONTHS' ? 'month' : 'day';
+  return `Valid for ${giftCard.validityValue} ${unit}${giftCard.validityValue === 1 ? '' : 's'} from purchase`;
+};
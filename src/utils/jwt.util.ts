@@ -1,19 +1,41 @@
+import crypto from 'crypto';
 import jwt from 'jsonwebtoken';
 
 interface TokenPayload {
   userId: string;
   email: string;
   role: string;
+  adminRole?: string; // Scope of an ADMIN account
   isVerified: boolean;
   profileStatus?: string;
+  twoFactorSetupRequired?: boolean; // Token only works for 2FA enrollment
+  sessionId?: string;
+  tokenVersion: number; // User.tokenVersion when the token was issued
 }
 
 interface AccessTokenPayload extends TokenPayload {}
 
 interface RefreshTokenPayload {
   userId: string;
+  sessionId?: string;
 }
 
+interface TwoFactorChallengePayload {
+  userId: string;
+  purpose: '2fa_challenge';
+}
+
+// Separate key so a challenge token can never pass as an access token
+const getChallengeSecret = (): string => {
+  const secret = process.env.JWT_ACCESS_SECRET;
+
+  if (!secret) {
+    throw new Error('JWT_ACCESS_SECRET is not defined');
+  }
+
+  return `${secret}:2fa-challenge`;
+};
+
 export const generateAccessToken = (payload: TokenPayload): string => {
   const secret = process.env.JWT_ACCESS_SECRET;
 
@@ -27,8 +49,12 @@ export const generateAccessToken = (payload: TokenPayload): string => {
       userId: payload.userId,
       email: payload.email,
       role: payload.role,
+      ...(payload.adminRole && { adminRole: payload.adminRole }),
       isVerified: payload.isVerified,
       profileStatus: payload.profileStatus,
+      ...(payload.twoFactorSetupRequired && { twoFactorSetupRequired: true }),
+      ...(payload.sessionId && { sessionId: payload.sessionId }),
+      tokenVersion: payload.tokenVersion,
     },
     secret,
     {
@@ -37,7 +63,7 @@ export const generateAccessToken = (payload: TokenPayload): string => {
   );
 };
 
-export const generateRefreshToken = (userId: string): string => {
+export const generateRefreshToken = (userId: string, sessionId?: string): string => {
   const secret = process.env.JWT_REFRESH_SECRET;
 
   if (!secret) {
@@ -46,10 +72,11 @@ export const generateRefreshToken = (userId: string): string => {
 
   // @ts-ignore - TypeScript has issues with jwt.sign overloads
   return jwt.sign(
-    { userId },
+    { userId, sessionId },
     secret,
     {
       expiresIn: process.env.JWT_REFRESH_EXPIRY || '7d',
+      jwtid: crypto.randomUUID(), // Two tokens issued in the same second must still differ
     }
   );
 };
@@ -84,9 +111,30 @@ export const verifyRefreshToken = (token: string): RefreshTokenPayload => {
   }
 };
 
+/**
+ * Short-lived token proving the password step of login succeeded
+ */
+export const generateTwoFactorChallengeToken = (userId: string, expiresInSeconds: number): string => {
+  return jwt.sign({ userId, purpose: '2fa_challenge' }, getChallengeSecret(), { expiresIn: expiresInSeconds });
+};
+
+export const verifyTwoFactorChallengeToken = (token: string): TwoFactorChallengePayload => {
+  try {
+    const decoded = jwt.verify(token, getChallengeSecret()) as TwoFactorChallengePayload;
+
+    if (decoded.purpose !== '2fa_challenge') {
+      throw new Error('Wrong token purpose');
+    }
+
+    return decoded;
+  } catch (error) {
+    throw new Error('Invalid or expired two-factor challenge');
+  }
+};
+
 export const generateTokens = (payload: TokenPayload) => {
   const accessToken = generateAccessToken(payload);
-  const refreshToken = generateRefreshToken(payload.userId);
+  const refreshToken = generateRefreshToken(payload.userId, payload.sessionId);
 
   return {
     accessToken,
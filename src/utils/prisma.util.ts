@@ -1,13 +1,181 @@
-import { PrismaClient } from '@prisma/client';
+import { Prisma, PrismaClient } from '@prisma/client';
+import type { ITXClientDenyList } from '@prisma/client/runtime/library';
+import { invalidateTokenVersion, TOKEN_CLAIM_FIELDS } from './tokenVersion.util';
 
-const globalForPrisma = global as unknown as { prisma: PrismaClient };
+const touchesClaims = (data: object | undefined, fields: readonly string[]) =>
+  !!data && fields.some((field) => field in data);
 
-export const prisma =
-  globalForPrisma.prisma ||
-  new PrismaClient({
+// A user write can also change profile claims through a nested merchantProfile
+// write - deleting it, or updating/upserting one of its claim fields
+const touchesProfileClaims = (nested: any): boolean => {
+  if (!nested) return false;
+  if ('delete' in nested) return true;
+
+  const update = nested.update ?? nested.upsert?.update;
+  return (
+    touchesClaims(update, TOKEN_CLAIM_FIELDS.merchantProfile) ||
+    touchesClaims(update?.data, TOKEN_CLAIM_FIELDS.merchantProfile)
+  );
+};
+
+const touchesUserClaims = (data: any) =>
+  touchesClaims(data, TOKEN_CLAIM_FIELDS.user) || touchesProfileClaims(data?.merchantProfile);
+
+// Owners can't be bumped in the same statement as a bulk profile write or a
+// profile delete, so those have to go through the user instead
+const rejectProfileWrite = (operation: string) => {
+  throw new Error(
+    `merchantProfile.${operation} would change token claims without bumping the owner's tokenVersion. ` +
+      'Use merchantProfile.update, or write the profile through user.update/user.delete.'
+  );
+};
+
+const createPrismaClient = () => {
+  const client = new PrismaClient({
     log: process.env.NODE_ENV === 'development' ? ['query', 'error', 'warn'] : ['error'],
   });
 
+  // Bump User.tokenVersion whenever a field copied into access tokens changes,
+  // so authenticate rejects tokens carrying the old role/status.
+  const extended = client.$extends({
+    name: 'tokenVersion',
+    query: {
+      user: {
+        async update({ args, query }) {
+          if (!touchesUserClaims(args.data)) {
+            return query(args);
+          }
+
+          args.data = { ...args.data, tokenVersion: { increment: 1 } };
+          if (args.select) {
+            args.select = { ...args.select, id: true };
+          }
+
+          const result = await query(args);
+          await invalidateTokenVersion([(result as { id: string }).id]);
+          return result;
+        },
+
+        async updateMany({ args, query }) {
+          if (!touchesClaims(args.data, TOKEN_CLAIM_FIELDS.user)) {
+            return query(args);
+          }
+
+          const affected = await client.user.findMany({ where: args.where, select: { id: true } });
+          args.data = { ...args.data, tokenVersion: { increment: 1 } };
+
+          const result = await query(args);
+          await invalidateTokenVersion(affected.map((user) => user.id));
+          return result;
+        },
+
+        async upsert({ args, query }) {
+          if (!touchesUserClaims(args.update)) {
+            return query(args);
+          }
+
+          args.update = { ...args.update, tokenVersion: { increment: 1 } };
+          if (args.select) {
+            args.select = { ...args.select, id: true };
+          }
+
+          const result = await query(args);
+          await invalidateTokenVersion([(result as { id: string }).id]);
+          return result;
+        },
+
+        // A deleted user has no version to compare against, so authenticate
+        // fails as soon as the cached one is gone
+        async delete({ args, query }) {
+          if (args.select) {
+            args.select = { ...args.select, id: true };
+          }
+
+          const result = await query(args);
+          await invalidateTokenVersion([(result as { id: string }).id]);
+          return result;
+        },
+
+        async deleteMany({ args, query }) {
+          const affected = await client.user.findMany({ where: args.where, select: { id: true } });
+
+          const result = await query(args);
+          await invalidateTokenVersion(affected.map((user) => user.id));
+          return result;
+        },
+      },
+
+      merchantProfile: {
+        // Bumps the owner's version through a nested write, so it commits or
+        // rolls back with the caller's transaction. Callers changing claim
+        // fields must use relation inputs (verifiedBy: { connect }) rather
+        // than foreign keys, which Prisma won't mix with the nested write.
+        async update({ args, query }) {
+          if (!touchesClaims(args.data, TOKEN_CLAIM_FIELDS.merchantProfile)) {
+            return query(args);
+          }
+
+          args.data = {
+            ...(args.data as Prisma.MerchantProfileUpdateInput),
+            user: { update: { tokenVersion: { increment: 1 } } },
+          };
+          if (args.select) {
+            args.select = { ...args.select, userId: true };
+          }
+
+          const result = await query(args);
+          await invalidateTokenVersion([(result as { userId: string }).userId]);
+          return result;
+        },
+
+        async upsert({ args, query }) {
+          if (!touchesClaims(args.update, TOKEN_CLAIM_FIELDS.merchantProfile)) {
+            return query(args);
+          }
+
+          args.update = {
+            ...(args.update as Prisma.MerchantProfileUpdateInput),
+            user: { update: { tokenVersion: { increment: 1 } } },
+          };
+          if (args.select) {
+            args.select = { ...args.select, userId: true };
+          }
+
+          const result = await query(args);
+          await invalidateTokenVersion([(result as { userId: string }).userId]);
+          return result;
+        },
+
+        async updateMany({ args, query }) {
+          if (touchesClaims(args.data, TOKEN_CLAIM_FIELDS.merchantProfile)) {
+            rejectProfileWrite('updateMany');
+          }
+          return query(args);
+        },
+
+        async delete() {
+          return rejectProfileWrite('delete');
+        },
+
+        async deleteMany() {
+          return rejectProfileWrite('deleteMany');
+        },
+      },
+    },
+  });
+
+  return extended;
+};
+
+export type ExtendedPrismaClient = ReturnType<typeof createPrismaClient>;
+
+// The `tx` handed to $transaction callbacks - use instead of Prisma.TransactionClient
+export type TransactionClient = Omit<ExtendedPrismaClient, ITXClientDenyList>;
+
+const globalForPrisma = global as unknown as { prisma: ExtendedPrismaClient };
+
+export const prisma = globalForPrisma.prisma || createPrismaClient();
+
 if (process.env.NODE_ENV !== 'production') globalForPrisma.prisma = prisma;
 
-export default prisma;
\ No newline at end of file
+export default prisma;
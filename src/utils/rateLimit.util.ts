@@ -0,0 +1,129 @@
+import { redisConnection } from '../config/redis.config';
+
+const KEY_PREFIX = 'ratelimit';
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfterSeconds: number;
+}
+
+/**
+ * Fixed-window counter in Redis. Fails open when Redis is unavailable so an
+ * outage doesn't lock everyone out.
+ */
+export const consumeRateLimit = async (
+  key: string,
+  limit: number,
+  windowSeconds: number
+): Promise<RateLimitResult> => {
+  const redisKey = `${KEY_PREFIX}:${key}`;
+
+  if (['reconnecting', 'close', 'end'].includes(redisConnection.status)) {
+    return { allowed: true, remaining: limit, retryAfterSeconds: 0 };
+  }
+
+  try {
+    const [[, count], [, ttl]] = (await redisConnection
+      .multi()
+      .incr(redisKey)
+      .ttl(redisKey)
+      .exec()) as [[null, number], [null, number]];
+
+    // First hit in the window (or a key that lost its TTL) starts the clock
+    if (ttl < 0) {
+      await redisConnection.expire(redisKey, windowSeconds);
+    }
+
+    return {
+      allowed: count <= limit,
+      remaining: Math.max(limit - count, 0),
+      retryAfterSeconds: ttl < 0 ? windowSeconds : ttl,
+    };
+  } catch (error) {
+    console.error('Rate limit check failed, allowing request:', error);
+    return { allowed: true, remaining: limit, retryAfterSeconds: 0 };
+  }
+};
+
+/**
+ * Hits recorded in the current window, without consuming one. Returns 0 when
+ * Redis is unavailable.
+ */
+export const peekRateLimit = async (key: string): Promise<{ count: number; retryAfterSeconds: number }> => {
+  const redisKey = `${KEY_PREFIX}:${key}`;
+
+  if (['reconnecting', 'close', 'end'].includes(redisConnection.status)) {
+    return { count: 0, retryAfterSeconds: 0 };
+  }
+
+  try {
+    const [[, count], [, ttl]] = (await redisConnection
+      .multi()
+      .get(redisKey)
+      .ttl(redisKey)
+      .exec()) as [[null, string | null], [null, number]];
+
+    return {
+      count: count === null ? 0 : parseInt(count, 10),
+      retryAfterSeconds: Math.max(ttl, 0),
+    };
+  } catch (error) {
+    console.error('Rate limit peek failed:', error);
+    return { count: 0, retryAfterSeconds: 0 };
+  }
+};
+
+export const resetRateLimit = async (key: string): Promise<void> => {
+  if (['reconnecting', 'close', 'end'].includes(redisConnection.status)) return;
+
+  await redisConnection.del(`${KEY_PREFIX}:${key}`).catch((error) => {
+    console.error('Rate limit reset failed:', error);
+  });
+};
+
+/**
+ * Sliding-window log in a Redis sorted set - one member per allowed hit, so a
+ * burst at a window boundary can't double the limit. Rejected hits aren't
+ * recorded. `retryAfterSeconds` is when the oldest hit leaves the window.
+ * Fails open like consumeRateLimit.
+ */
+export const consumeSlidingWindow = async (
+  key: string,
+  limit: number,
+  windowSeconds: number
+): Promise<RateLimitResult> => {
+  const redisKey = `${KEY_PREFIX}:sliding:${key}`;
+  const windowMs = windowSeconds * 1000;
+
+  if (['reconnecting', 'close', 'end'].includes(redisConnection.status)) {
+    return { allowed: true, remaining: limit, retryAfterSeconds: 0 };
+  }
+
+  try {
+    const now = Date.now();
+    const member = `${now}-${Math.random().toString(36).slice(2, 10)}`;
+
+    const [, , [, count], [, oldest]] = (await redisConnection
+      .multi()
+      .zremrangebyscore(redisKey, 0, now - windowMs)
+      .zadd(redisKey, now, member)
+      .zcard(redisKey)
+      .zrange(redisKey, 0, 0, 'WITHSCORES')
+      .pexpire(redisKey, windowMs)
+      .exec()) as [unknown, unknown, [null, number], [null, string[]]];
+
+    const oldestAt = oldest.length === 2 ? parseInt(oldest[1], 10) : now;
+    const retryAfterSeconds = Math.max(Math.ceil((oldestAt + windowMs - now) / 1000), 1);
+
+    if (count > limit) {
+      await redisConnection.zrem(redisKey, member);
+      return { allowed: false, remaining: 0, retryAfterSeconds };
+    }
+
+    return { allowed: true, remaining: limit - count, retryAfterSeconds };
+  } catch (error) {
+    console.error('Rate limit check failed, allowing request:', error);
+    return { allowed: true, remaining: limit, retryAfterSeconds: 0 };
+  }
+};
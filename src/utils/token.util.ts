@@ -0,0 +1,12 @@
+import crypto from 'crypto';
+
+/**
+ * Random token for links sent by email (password reset, email verification)
+ */
+export const generateEmailToken = (): string => crypto.randomBytes(32).toString('hex');
+
+/**
+ * Only the hash is stored, so a database leak doesn't expose usable links
+ */
+export const hashEmailToken = (token: string): string =>
+  crypto.createHash('sha256').update(token).digest('hex');
@@ -0,0 +1,57 @@
+import { redisConnection } from '../config/redis.config';
+
+const KEY_PREFIX = 'token-version';
+
+// Short, so a read racing an invalidation can only serve a stale version briefly
+const CACHE_TTL_SECONDS = 60;
+
+// Invalidation leaves this marker instead of deleting the key. Until it
+// expires nothing is cached, so a DB read made before the caller's
+// transaction commits can't put the old version back. Longer than any
+// interactive transaction timeout.
+const INVALIDATED_MARKER = 'invalidated';
+const INVALIDATION_HOLD_SECONDS = 30;
+
+// Fields copied into access tokens; changing any of them bumps User.tokenVersion
+export const TOKEN_CLAIM_FIELDS = {
+  user: ['role', 'adminRole', 'isActive'],
+  merchantProfile: ['profileStatus', 'isVerified'],
+} as const;
+
+const isRedisAvailable = () => !['reconnecting', 'close', 'end'].includes(redisConnection.status);
+
+export const getCachedTokenVersion = async (userId: string): Promise<number | null> => {
+  if (!isRedisAvailable()) return null;
+
+  try {
+    const cached = await redisConnection.get(`${KEY_PREFIX}:${userId}`);
+    return cached === null || cached === INVALIDATED_MARKER ? null : parseInt(cached, 10);
+  } catch (error) {
+    console.error('Token version cache read failed:', error);
+    return null;
+  }
+};
+
+export const cacheTokenVersion = (userId: string, version: number): void => {
+  if (!isRedisAvailable()) return;
+
+  redisConnection
+    .set(`${KEY_PREFIX}:${userId}`, version.toString(), 'EX', CACHE_TTL_SECONDS, 'NX')
+    .catch((error) => {
+      console.error('Token version cache write failed:', error);
+    });
+};
+
+export const invalidateTokenVersion = async (userIds: string[]): Promise<void> => {
+  if (userIds.length === 0 || !isRedisAvailable()) return;
+
+  try {
+    const pipeline = redisConnection.pipeline();
+    for (const userId of userIds) {
+      pipeline.set(`${KEY_PREFIX}:${userId}`, INVALIDATED_MARKER, 'EX', INVALIDATION_HOLD_SECONDS);
+    }
+    await pipeline.exec();
+  } catch (error) {
+    console.error('Token version cache invalidation failed:', error);
+  }
+};
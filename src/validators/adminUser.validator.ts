@@ -0,0 +1,48 @@
+import { z } from 'zod';
+import { emailSchema, passwordSchema } from './auth.validator';
+
+const adminRoleSchema = z.enum(['SUPER_ADMIN', 'SUPPORT_AGENT']);
+
+export const listUsersQuerySchema = z.object({
+  search: z.string().trim().min(1).max(100).optional(), // Email, name or phone
+  role: z.enum(['USER', 'MERCHANT', 'STAFF', 'ADMIN']).optional(),
+  adminRole: adminRoleSchema.optional(),
+  isActive: z.enum(['true', 'false']).transform((value) => value === 'true').optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+// Merchants are created via POST /api/merchants, staff via invites
+export const createUserSchema = z
+  .object({
+    email: emailSchema,
+    password: passwordSchema,
+    name: z.string().min(2, 'Name must be at least 2 characters'),
+    phone: z.string().optional(),
+    role: z.enum(['USER', 'ADMIN']),
+    adminRole: adminRoleSchema.optional(),
+  })
+  .refine((data) => data.role === 'ADMIN' || !data.adminRole, {
+    message: 'adminRole only applies to admins',
+    path: ['adminRole'],
+  });
+
+export const updateUserSchema = z
+  .object({
+    name: z.string().min(2, 'Name must be at least 2 characters').optional(),
+    phone: z.string().nullable().optional(),
+    // Only between USER and ADMIN - merchant and staff accounts carry business data
+    role: z.enum(['USER', 'ADMIN']).optional(),
+    adminRole: adminRoleSchema.optional(),
+  })
+  .refine((data) => Object.values(data).some((value) => value !== undefined), {
+    message: 'Nothing to update',
+  });
+
+export const deactivateUserSchema = z.object({
+  reason: z.string().max(500).optional(),
+});
+
+export type ListUsersQuery = z.infer<typeof listUsersQuerySchema>;
+export type CreateUserInput = z.infer<typeof createUserSchema>;
+export type UpdateUserInput = z.infer<typeof updateUserSchema>;
@@ -1,24 +1,53 @@
 import { z } from 'zod';
 
-// Merchant Registration Schema
+// Password strength rules shared by registration and password changes
+export const passwordSchema = z
+  .string()
+  .min(8, 'Password must be at least 8 characters')
+  .regex(/[A-Z]/, 'Password must contain at least one uppercase letter')
+  .regex(/[a-z]/, 'Password must contain at least one lowercase letter')
+  .regex(/[0-9]/, 'Password must contain at least one number');
 
+// Account emails are stored lowercased, so lookups can match them exactly
+export const emailSchema = z
+  .string()
+  .trim()
+  .email('Invalid email address')
+  .transform((email) => email.toLowerCase());
 
+// Merchant Registration Schema
 export const merchantQuickRegisterSchema = z.object({
-  email: z.string().email('Invalid email address'),
-  password: z
-    .string()
-    .min(8, 'Password must be at least 8 characters')
-    .regex(/[A-Z]/, 'Password must contain at least one uppercase letter')
-    .regex(/[a-z]/, 'Password must contain at least one lowercase letter')
-    .regex(/[0-9]/, 'Password must contain at least one number'),
+  email: emailSchema,
+  password: passwordSchema,
   name: z.string().min(2, 'Name must be at least 2 characters'),
   businessName: z.string().min(2, 'Business name must be at least 2 characters'),
   phone: z.string().optional(),
 });
 
+// Customer Registration Schema - gift card buyers signing up for a wallet
+export const customerRegisterSchema = z.object({
+  email: emailSchema,
+  password: passwordSchema,
+  name: z.string().min(2, 'Name must be at least 2 characters'),
+  phone: z.string().optional(),
+});
+
+// Days before expiry that gift card holders get a reminder email
+export const expiryReminderDaysSchema = z
+  .array(
+    z
+      .number()
+      .int('Reminder days must be whole days')
+      .min(1, 'Reminder days must be at least 1')
+      .max(90, 'Reminder days cannot exceed 90')
+  )
+  .max(5, 'At most 5 reminders can be configured')
+  .refine((days) => new Set(days).size === days.length, 'Reminder days must be unique');
+
 
 export const completeProfileSchema = z.object({
   // Business Information
+  businessName: z.string().min(2, 'Business name must be at least 2 characters').optional(), // Google sign-ups start with a placeholder
   businessRegistrationNumber: z.string().optional(),
   taxId: z.string().optional(),
   businessType: z.string().optional(),
@@ -86,20 +115,90 @@ export const completeProfileSchema = z.object({
 
 // Login Schema
 export const loginSchema = z.object({
-  email: z.string().email('Invalid email address'),
+  email: emailSchema,
   password: z.string().min(1, 'Password is required'),
 });
 
+// Two-Factor Schemas
+const totpCodeSchema = z.string().trim().regex(/^\d{6}$/, 'Code must be 6 digits');
+
+export const loginTwoFactorSchema = z
+  .object({
+    challengeToken: z.string().min(1, 'Challenge token is required'),
+    code: totpCodeSchema.optional(),
+    recoveryCode: z.string().trim().min(1).optional(),
+  })
+  .refine((data) => Boolean(data.code) !== Boolean(data.recoveryCode), {
+    message: 'Provide either an authentication code or a recovery code',
+    path: ['code'],
+  });
+
+export const twoFactorCodeSchema = z.object({
+  code: totpCodeSchema,
+});
+
+export const twoFactorRequirementSchema = z.object({
+  required: z.boolean(),
+});
+
+// Password Reset Schemas
+export const forgotPasswordSchema = z.object({
+  email: emailSchema,
+});
+
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1, 'Reset token is required'),
+  password: passwordSchema,
+});
+
+// Account Settings Schemas
+export const updateAccountSchema = z
+  .object({
+    name: z.string().trim().min(2, 'Name must be at least 2 characters').max(100).optional(),
+    phone: z.string().trim().max(20, 'Phone number is too long').nullable().optional(),
+    avatar: z.string().url('Avatar must be a valid URL').nullable().optional(),
+    bio: z.string().trim().max(500, 'Bio cannot exceed 500 characters').nullable().optional(),
+  })
+  .strict()
+  .refine((data) => Object.keys(data).length > 0, 'At least one field is required');
+
+export const changePasswordSchema = z
+  .object({
+    currentPassword: z.string().min(1, 'Current password is required'),
+    newPassword: passwordSchema,
+  })
+  .refine((data) => data.currentPassword !== data.newPassword, {
+    message: 'New password must be different from the current password',
+    path: ['newPassword'],
+  });
+
+// Email Verification Schema
+export const verifyEmailSchema = z.object({
+  token: z.string().min(1, 'Verification token is required'),
+});
+
+export const unlockAccountSchema = z.object({
+  token: z.string().min(1, 'Unlock token is required'),
+});
+
+// Mock OAuth Schema - the local stand-in for Google's consent screen
+export const mockOAuthSchema = z.object({
+  email: emailSchema,
+  name: z.string().min(2, 'Name must be at least 2 characters'),
+  emailVerified: z.enum(['true', 'false']),
+  intent: z.enum(['login', 'merchant']).default('login'),
+});
+
+// OAuth Code Exchange Schema - the one-time code from the OAuth redirect
+export const oauthExchangeSchema = z.object({
+  code: z.string().min(1, 'Code is required'),
+});
+
 // Admin Create Merchant Schema
 export const adminCreateMerchantSchema = z.object({
   // User Information
-  email: z.string().email('Invalid email address'),
-  password: z
-    .string()
-    .min(8, 'Password must be at least 8 characters')
-    .regex(/[A-Z]/, 'Password must contain at least one uppercase letter')
-    .regex(/[a-z]/, 'Password must contain at least one lowercase letter')
-    .regex(/[0-9]/, 'Password must contain at least one number'),
+  email: emailSchema,
+  password: passwordSchema,
   name: z.string().min(2, 'Name must be at least 2 characters'),
   phone: z.string().optional(),
   
@@ -126,7 +225,18 @@ export const adminCreateMerchantSchema = z.object({
   description: z.string().optional(),
 });
 
+export const suspendMerchantSchema = z.object({
+  reason: z.string().trim().min(1, 'Suspension reason is required').max(500),
+  // Also stop redemptions of cards already sold - for fraud or disputes
+  freezeRedemptions: z.boolean().optional().default(false),
+});
+
 export type MerchantRegister = z.infer<typeof merchantQuickRegisterSchema>;
 export type MerchantRegisterInput = z.infer<typeof completeProfileSchema>;
 export type LoginInput = z.infer<typeof loginSchema>;
-export type AdminCreateMerchantInput = z.infer<typeof adminCreateMerchantSchema>;
\ No newline at end of file
+export type UpdateAccountInput = z.infer<typeof updateAccountSchema>;
+export type ChangePasswordInput = z.infer<typeof changePasswordSchema>;
+export type ForgotPasswordInput = z.infer<typeof forgotPasswordSchema>;
+export type ResetPasswordInput = z.infer<typeof resetPasswordSchema>;
+export type AdminCreateMerchantInput = z.infer<typeof adminCreateMerchantSchema>;
+export type SuspendMerchantInput = z.infer<typeof suspendMerchantSchema>;
\ No newline at end of file
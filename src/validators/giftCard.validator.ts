@@ -1,4 +1,57 @@
 import { z } from 'zod';
+import {
+  GiftCardPricing,
+  getPricingError,
+  getValidityError,
+} from '../utils/giftCard.util';
+
+const amountSchema = (label: string) =>
+  z
+    .number()
+    .positive(`${label} must be a positive number`)
+    .max(999999.99, `${label} is too high`)
+    .multipleOf(0.01, `${label} must have at most 2 decimal places`);
+
+const dateStringSchema = z
+  .string()
+  .refine((value) => {
+    const date = new Date(value);
+    return !isNaN(date.getTime());
+  }, 'Invalid date format');
+
+// Fields that depend on each other are checked together
+const refineGiftCard = (
+  data: Partial<GiftCardPricing> & {
+    expiryDate: string;
+    salesStartDate?: string;
+    validityValue?: number;
+    validityUnit?: 'DAYS' | 'MONTHS';
+  },
+  ctx: z.RefinementCtx
+) => {
+  const pricingError = data.pricingType ? getPricingError(data as GiftCardPricing) : null;
+  if (pricingError) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: [pricingError.field],
+      message: pricingError.message,
+    });
+  }
+
+  const validityError = getValidityError({
+    salesStartDate: data.salesStartDate ? new Date(data.salesStartDate) : null,
+    expiryDate: new Date(data.expiryDate),
+    validityValue: data.validityValue,
+    validityUnit: data.validityUnit,
+  });
+  if (validityError) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: [validityError.field],
+      message: validityError.message,
+    });
+  }
+};
 
 // Create Gift Card Schema
 export const createGiftCardSchema = z.object({
@@ -15,11 +68,18 @@ export const createGiftCardSchema = z.object({
     .optional()
     .or(z.literal('')), // Allow empty string
   
-  price: z
-    .number()
-    .positive('Price must be a positive number')
-    .max(999999.99, 'Price is too high')
-    .multipleOf(0.01, 'Price must have at most 2 decimal places'),
+  pricingType: z
+    .enum(['FIXED', 'DENOMINATIONS', 'RANGE'])
+    .default('FIXED'),
+
+  price: amountSchema('Price').optional(), // FIXED
+
+  denominations: z
+    .array(amountSchema('Denomination'))
+    .optional(), // DENOMINATIONS
+
+  minAmount: amountSchema('Minimum amount').optional(), // RANGE
+  maxAmount: amountSchema('Maximum amount').optional(), // RANGE
   
   expiryDate: z
     .string()
@@ -33,7 +93,20 @@ export const createGiftCardSchema = z.object({
       today.setHours(0, 0, 0, 0); // Start of today
       return date > today;
     }, 'Expiry date must be in the future'),
-});
+
+  // When the card can first be bought - expiryDate ends the sales window
+  salesStartDate: dateStringSchema.optional(),
+
+  // Purchased cards expire this long after purchase instead of on expiryDate
+  validityValue: z
+    .number()
+    .int('Validity must be a whole number')
+    .positive('Validity must be positive')
+    .optional(),
+  validityUnit: z
+    .enum(['DAYS', 'MONTHS'])
+    .optional(),
+}).superRefine(refineGiftCard);
 
 // Update Gift Card Schema
 export const updateGiftCardSchema = z.object({
@@ -51,12 +124,18 @@ export const updateGiftCardSchema = z.object({
     .optional()
     .or(z.literal('')),
   
-  price: z
-    .number()
-    .positive('Price must be a positive number')
-    .max(999999.99, 'Price is too high')
-    .multipleOf(0.01, 'Price must have at most 2 decimal places')
+  pricingType: z
+    .enum(['FIXED', 'DENOMINATIONS', 'RANGE'])
     .optional(),
+
+  price: amountSchema('Price').optional(),
+
+  denominations: z
+    .array(amountSchema('Denomination'))
+    .optional(),
+
+  minAmount: amountSchema('Minimum amount').optional(),
+  maxAmount: amountSchema('Maximum amount').optional(),
   
   expiryDate: z
     .string()
@@ -71,6 +150,19 @@ export const updateGiftCardSchema = z.object({
       return date > today;
     }, 'Expiry date must be in the future')
     .optional(),
+
+  // null clears the value
+  salesStartDate: dateStringSchema.nullable().optional(),
+  validityValue: z
+    .number()
+    .int('Validity must be a whole number')
+    .positive('Validity must be positive')
+    .nullable()
+    .optional(),
+  validityUnit: z
+    .enum(['DAYS', 'MONTHS'])
+    .nullable()
+    .optional(),
   
   isActive: z.boolean().optional(),
 });
@@ -90,11 +182,23 @@ export const createGiftCardSchemaForm = z.object({
     .optional()
     .or(z.literal('')),
   
+  pricingType: z
+    .enum(['FIXED', 'DENOMINATIONS', 'RANGE'])
+    .default('FIXED'),
+
   price: z.coerce
     .number()
     .positive('Price must be a positive number')
     .max(999999.99, 'Price is too high')
-    .multipleOf(0.01, 'Price must have at most 2 decimal places'),
+    .multipleOf(0.01, 'Price must have at most 2 decimal places')
+    .optional(),
+
+  denominations: z
+    .array(z.coerce.number().pipe(amountSchema('Denomination')))
+    .optional(),
+
+  minAmount: z.coerce.number().pipe(amountSchema('Minimum amount')).optional(),
+  maxAmount: z.coerce.number().pipe(amountSchema('Maximum amount')).optional(),
   
   expiryDate: z
     .string()
@@ -108,7 +212,20 @@ export const createGiftCardSchemaForm = z.object({
       today.setHours(0, 0, 0, 0);
       return date > today;
     }, 'Expiry date must be in the future'),
-});
+
+  // When the card can first be bought - expiryDate ends the sales window
+  salesStartDate: dateStringSchema.optional(),
+
+  // Purchased cards expire this long after purchase instead of on expiryDate
+  validityValue: z.coerce
+    .number()
+    .int('Validity must be a whole number')
+    .positive('Validity must be positive')
+    .optional(),
+  validityUnit: z
+    .enum(['DAYS', 'MONTHS'])
+    .optional(),
+}).superRefine(refineGiftCard);
 
 export type CreateGiftCardInput = z.infer<typeof createGiftCardSchema>;
 export type UpdateGiftCardInput = z.infer<typeof updateGiftCardSchema>;
\ No newline at end of file
@@ -0,0 +1,19 @@
+import { z } from 'zod';
+
+// Manual Balance Adjustment Schema (Admin)
+export const ledgerAdjustmentSchema = z.object({
+  purchaseId: z
+    .string()
+    .uuid('Invalid purchase ID'),
+  amount: z
+    .number()
+    .refine((value) => value !== 0, 'Amount cannot be zero')
+    .refine((value) => Math.abs(Math.round(value * 100) - value * 100) < 1e-6, 'Amount can have at most 2 decimal places')
+    .refine((value) => Math.abs(value) <= 999999.99, 'Amount is too high'),
+  reason: z
+    .string()
+    .min(3, 'Reason must be at least 3 characters')
+    .max(500, 'Reason is too long'),
+});
+
+export type LedgerAdjustmentInput = z.infer<typeof ledgerAdjustmentSchema>;
@@ -0,0 +1,26 @@
+import { z } from 'zod';
+
+const giftCardIdsSchema = z
+  .array(z.string().uuid('Invalid gift card ID'))
+  .max(200, 'Too many gift cards');
+
+export const createLocationSchema = z.object({
+  name: z.string().min(2, 'Location name must be at least 2 characters').max(100),
+  address: z.string().max(255).optional(),
+  city: z.string().max(100).optional(),
+  phone: z.string().max(20).optional(),
+  // Gift cards redeemable here - omit or leave empty to accept all
+  giftCardIds: giftCardIdsSchema.optional(),
+});
+
+export const updateLocationSchema = createLocationSchema.partial().extend({
+  isActive: z.boolean().optional(),
+});
+
+export const assignStaffLocationsSchema = z.object({
+  // Empty clears the assignment - the staff member can redeem anywhere
+  locationIds: z.array(z.string().uuid('Invalid location ID')).max(100),
+});
+
+export type CreateLocationInput = z.infer<typeof createLocationSchema>;
+export type UpdateLocationInput = z.infer<typeof updateLocationSchema>;
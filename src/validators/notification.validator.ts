@@ -9,12 +9,15 @@ export const updatePreferencesSchema = z.object({
   profileSubmittedForVerification: z.boolean().optional(),
   purchaseMade: z.boolean().optional(),
   redemptionMade: z.boolean().optional(),
+  purchaseRefunded: z.boolean().optional(),
 
   // Merchant notification preferences
   profileVerified: z.boolean().optional(),
   profileRejected: z.boolean().optional(),
   giftCardPurchased: z.boolean().optional(),
   giftCardRedeemed: z.boolean().optional(),
+  giftCardRefunded: z.boolean().optional(),
+  giftCardsExpired: z.boolean().optional(),
 }).strict();
 
 // Get notifications query schema
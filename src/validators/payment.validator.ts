@@ -0,0 +1,17 @@
+import { z } from 'zod';
+
+// Simulate Local Payment Schema (development only)
+export const simulateLocalPaymentSchema = z.object({
+  purchaseId: z
+    .string()
+    .uuid('Invalid purchase ID'),
+  outcome: z
+    .enum(['succeeded', 'failed'])
+    .default('succeeded'),
+  failureReason: z
+    .string()
+    .max(200, 'Failure reason is too long')
+    .optional(),
+});
+
+export type SimulateLocalPaymentInput = z.infer<typeof simulateLocalPaymentSchema>;
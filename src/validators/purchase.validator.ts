@@ -8,7 +8,9 @@ export const purchaseGiftCardSchema = z.object({
     .max(100, 'Name is too long'),
   customerEmail: z
     .string()
-    .email('Invalid email address'),
+    .trim()
+    .email('Invalid email address')
+    .transform((email) => email.toLowerCase()),
   customerPhone: z
     .string()
     .min(10, 'Phone number must be at least 10 digits')
@@ -16,10 +18,42 @@ export const purchaseGiftCardSchema = z.object({
   paymentMethod: z
     .string()
     .optional(),
-  transactionId: z
+
+  // Required for denomination and range gift cards
+  amount: z
+    .number()
+    .positive('Amount must be positive')
+    .max(999999.99, 'Amount is too high')
+    .multipleOf(0.01, 'Amount must have at most 2 decimal places')
+    .optional(),
+
+  // Gift fields - leave empty when buying for yourself
+  recipientName: z
     .string()
+    .min(2, 'Recipient name must be at least 2 characters')
+    .max(100, 'Recipient name is too long')
     .optional(),
-});
+  recipientEmail: z
+    .string()
+    .email('Invalid recipient email address')
+    .transform((email) => email.toLowerCase())
+    .optional(),
+  personalMessage: z
+    .string()
+    .max(500, 'Personal message is too long')
+    .optional(),
+  deliverAt: z
+    .coerce
+    .date()
+    .refine((date) => date > new Date(), 'Delivery date must be in the future')
+    .optional(),
+}).refine(
+  (data) => !!data.recipientName === !!data.recipientEmail,
+  { message: 'Recipient name and email must be provided together', path: ['recipientEmail'] }
+).refine(
+  (data) => !data.personalMessage || !!data.recipientEmail,
+  { message: 'A personal message requires a recipient', path: ['personalMessage'] }
+);
 
 // Redeem Gift Card Schema
 export const redeemGiftCardSchema = z.object({
@@ -29,7 +63,13 @@ export const redeemGiftCardSchema = z.object({
   amount: z
     .number()
     .positive('Amount must be positive')
-    .max(999999.99, 'Amount is too high'),
+    .max(999999.99, 'Amount is too high')
+    .multipleOf(0.01, 'Amount must have at most 2 decimal places'),
+  locationId: z
+    .string()
+    .uuid('Invalid location ID')
+    .optional(),
+  // Free-text location for merchants without configured locations
   locationName: z
     .string()
     .optional(),
@@ -42,5 +82,29 @@ export const redeemGiftCardSchema = z.object({
     .optional(),
 });
 
+// Refund Purchased Gift Card Schema (amount defaults to the remaining balance)
+export const refundPurchaseSchema = z.object({
+  amount: z
+    .number()
+    .positive('Amount must be positive')
+    .max(999999.99, 'Amount is too high')
+    .multipleOf(0.01, 'Amount must have at most 2 decimal places')
+    .optional(),
+  reason: z
+    .string()
+    .min(3, 'Reason must be at least 3 characters')
+    .max(500, 'Reason is too long'),
+});
+
+// Void Redemption Schema
+export const voidRedemptionSchema = z.object({
+  reason: z
+    .string()
+    .min(3, 'Reason must be at least 3 characters')
+    .max(500, 'Reason is too long'),
+});
+
 export type PurchaseGiftCardInput = z.infer<typeof purchaseGiftCardSchema>;
-export type RedeemGiftCardInput = z.infer<typeof redeemGiftCardSchema>;
\ No newline at end of file
+export type RedeemGiftCardInput = z.infer<typeof redeemGiftCardSchema>;
+export type RefundPurchaseInput = z.infer<typeof refundPurchaseSchema>;
+export type VoidRedemptionInput = z.infer<typeof voidRedemptionSchema>;
\ No newline at end of file
@@ -0,0 +1,24 @@
+import { z } from 'zod';
+import { emailSchema, passwordSchema } from './auth.validator';
+
+// OWNER is the merchant account itself and can't be handed out
+const staffRoleSchema = z.enum(['MANAGER', 'CASHIER']);
+
+export const inviteStaffSchema = z.object({
+  email: emailSchema,
+  name: z.string().min(2, 'Name must be at least 2 characters'),
+  role: staffRoleSchema.default('CASHIER'),
+});
+
+export const updateStaffSchema = z.object({
+  role: staffRoleSchema,
+});
+
+export const acceptStaffInviteSchema = z.object({
+  token: z.string().min(1, 'Invite token is required'),
+  password: passwordSchema,
+  phone: z.string().optional(),
+});
+
+export type InviteStaffInput = z.infer<typeof inviteStaffSchema>;
+export type AcceptStaffInviteInput = z.infer<typeof acceptStaffInviteSchema>;
@@ -0,0 +1,80 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { refreshToken } from '../../src/controllers/auth.controller';
+import { SessionService } from '../../src/services/session.service';
+import { generateRefreshToken } from '../../src/utils/jwt.util';
+import { fakePrisma } from '../helpers/fakePrisma';
+import { createUser } from '../helpers/factories';
+import { mockRequest, mockResponse } from '../helpers/http';
+
+let user: Awaited<ReturnType<typeof createUser>>;
+
+const refresh = async (token: string) => {
+  const res = mockResponse();
+  await refreshToken(mockRequest({ body: { refreshToken: token } }), res);
+  return res;
+};
+
+const startSession = () =>
+  SessionService.create({
+    userId: user.id,
+    email: user.email,
+    role: user.role,
+    isVerified: false,
+    tokenVersion: user.tokenVersion,
+  });
+
+const activeTokens = () => fakePrisma.$store.refreshToken.filter((token) => token.revokedAt == null);
+
+beforeEach(async () => {
+  user = await createUser();
+});
+
+describe('refreshToken', () => {
+  it('rotates the token within the same session', async () => {
+    const session = await startSession();
+
+    const res = await refresh(session.refreshToken);
+
+    expect(res.statusCode).toBe(200);
+    const rotated = res.body.data.tokens.refreshToken;
+    expect(rotated).not.toBe(session.refreshToken);
+
+    const [active] = activeTokens();
+    expect(activeTokens()).toHaveLength(1);
+    expect(active.token).toBe(rotated);
+    expect(fakePrisma.$store.refreshToken.find((token) => token.token === session.refreshToken)).toMatchObject({
+      replacedById: active.id,
+      familyId: active.familyId,
+    });
+  });
+
+  it('revokes the whole session when a rotated token is replayed', async () => {
+    const session = await startSession();
+    const rotated = (await refresh(session.refreshToken)).body.data.tokens.refreshToken;
+
+    const replay = await refresh(session.refreshToken);
+
+    expect(replay.statusCode).toBe(401);
+    expect(activeTokens()).toHaveLength(0);
+
+    // The legitimate holder's newer token dies with the session
+    expect((await refresh(rotated)).statusCode).toBe(401);
+  });
+
+  it("leaves the user's other sessions alone", async () => {
+    const stolen = await startSession();
+    const other = await startSession();
+    await refresh(stolen.refreshToken);
+
+    await refresh(stolen.refreshToken);
+
+    expect(activeTokens()).toEqual([expect.objectContaining({ token: other.refreshToken })]);
+    expect((await refresh(other.refreshToken)).statusCode).toBe(200);
+  });
+
+  it('rejects a token it never issued', async () => {
+    const unknown = generateRefreshToken(user.id, 'no-such-session');
+
+    expect((await refresh(unknown)).statusCode).toBe(401);
+  });
+});
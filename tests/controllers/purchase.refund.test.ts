@@ -0,0 +1,118 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { refundPurchase } from '../../src/controllers/purchase.controller';
+import { fakePrisma } from '../helpers/fakePrisma';
+import { createIssuedPurchase, createMerchant, createPurchase, ledgerBalance } from '../helpers/factories';
+import { mockRequest, mockResponse } from '../helpers/http';
+
+let merchantId: string;
+
+const refund = async (purchaseId: string, body: Record<string, any>, merchantContext = { merchantId }) => {
+  const res = mockResponse();
+  await refundPurchase(
+    mockRequest({
+      params: { purchaseId },
+      body: { reason: 'Customer changed their mind', ...body },
+      authUser: { userId: merchantId, role: 'MERCHANT' },
+      merchantContext,
+    }),
+    res
+  );
+  return res;
+};
+
+const stored = (id: string) => fakePrisma.purchasedGiftCard.findUnique({ where: { id } });
+
+beforeEach(async () => {
+  merchantId = (await createMerchant()).id;
+});
+
+describe('refundPurchase', () => {
+  it('takes a partial refund off the balance and the ledger together', async () => {
+    const purchase = await createIssuedPurchase(merchantId);
+
+    const res = await refund(purchase.id, { amount: 40 });
+
+    expect(res.statusCode).toBe(200);
+
+    const card = await stored(purchase.id);
+    expect(card.currentBalance.toNumber()).toBe(60);
+    expect(card.status).toBe('ACTIVE');
+    expect(card.paymentStatus).toBe('COMPLETED');
+    expect(ledgerBalance(purchase.id)).toBe(60);
+    expect(fakePrisma.$store.refund).toEqual([
+      expect.objectContaining({ type: 'PARTIAL', status: 'COMPLETED' }),
+    ]);
+  });
+
+  it('cancels the card and marks the payment REFUNDED on a full refund', async () => {
+    const purchase = await createIssuedPurchase(merchantId);
+
+    const res = await refund(purchase.id, {});
+
+    expect(res.statusCode).toBe(200);
+
+    const card = await stored(purchase.id);
+    expect(card.currentBalance.toNumber()).toBe(0);
+    expect(card.status).toBe('CANCELLED');
+    expect(card.paymentStatus).toBe('REFUNDED');
+    expect(ledgerBalance(purchase.id)).toBe(0);
+  });
+
+  it('keeps every ledger transaction balanced', async () => {
+    const purchase = await createIssuedPurchase(merchantId);
+
+    await refund(purchase.id, { amount: 25 });
+    await refund(purchase.id, { amount: 75 });
+
+    const sums = new Map<string, number>();
+    for (const entry of fakePrisma.$store.ledgerEntry) {
+      sums.set(entry.transactionId, (sums.get(entry.transactionId) ?? 0) + Number(entry.amount));
+    }
+    expect([...sums.values()].every((sum) => sum === 0)).toBe(true);
+    expect(ledgerBalance(purchase.id)).toBe(0);
+  });
+
+  it('rejects a refund larger than the remaining balance', async () => {
+    const purchase = await createIssuedPurchase(merchantId);
+
+    const res = await refund(purchase.id, { amount: 150 });
+
+    expect(res.statusCode).toBe(400);
+    expect((await stored(purchase.id)).currentBalance.toNumber()).toBe(100);
+    expect(ledgerBalance(purchase.id)).toBe(100);
+  });
+
+  it('puts the balance back when the provider declines', async () => {
+    // The local provider only refunds its own payment ids
+    const purchase = await createIssuedPurchase(merchantId, { transactionId: 'unknown_payment' });
+
+    const res = await refund(purchase.id, {});
+
+    expect(res.statusCode).toBe(502);
+
+    const card = await stored(purchase.id);
+    expect(card.currentBalance.toNumber()).toBe(100);
+    expect(card.status).toBe('ACTIVE');
+    expect(card.paymentStatus).toBe('COMPLETED');
+    expect(ledgerBalance(purchase.id)).toBe(100);
+    expect(fakePrisma.$store.refund).toEqual([expect.objectContaining({ status: 'FAILED' })]);
+  });
+
+  it("refuses another merchant's card", async () => {
+    const purchase = await createIssuedPurchase(merchantId);
+
+    const res = await refund(purchase.id, {}, { merchantId: 'someone-else' });
+
+    expect(res.statusCode).toBe(403);
+    expect(ledgerBalance(purchase.id)).toBe(100);
+  });
+
+  it('only refunds completed payments', async () => {
+    const purchase = await createPurchase(merchantId, { paymentStatus: 'PENDING', currentBalance: 0 });
+
+    const res = await refund(purchase.id, {});
+
+    expect(res.statusCode).toBe(400);
+    expect(fakePrisma.$store.refund).toHaveLength(0);
+  });
+});
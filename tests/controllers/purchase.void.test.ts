@@ -0,0 +1,92 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { voidRedemption } from '../../src/controllers/purchase.controller';
+import { fakePrisma } from '../helpers/fakePrisma';
+import { createIssuedPurchase, createMerchant, ledgerBalance, redeem } from '../helpers/factories';
+import { mockRequest, mockResponse } from '../helpers/http';
+
+let merchantId: string;
+
+const voidIt = async (redemptionId: string) => {
+  const res = mockResponse();
+  await voidRedemption(
+    mockRequest({
+      params: { redemptionId },
+      body: { reason: 'Keyed the wrong amount' },
+      authUser: { userId: merchantId, role: 'MERCHANT' },
+      merchantContext: { merchantId },
+    }),
+    res
+  );
+  return res;
+};
+
+const stored = (id: string) => fakePrisma.purchasedGiftCard.findUnique({ where: { id } });
+
+beforeEach(async () => {
+  merchantId = (await createMerchant()).id;
+});
+
+describe('voidRedemption', () => {
+  it('restores the balance and writes a VOID ledger entry', async () => {
+    const purchase = await createIssuedPurchase(merchantId);
+    const redemption = await redeem(purchase.id, 30, merchantId);
+
+    const res = await voidIt(redemption.id);
+
+    expect(res.statusCode).toBe(200);
+    expect((await stored(purchase.id)).currentBalance.toNumber()).toBe(100);
+    expect(ledgerBalance(purchase.id)).toBe(100);
+    expect(fakePrisma.$store.ledgerEntry.some((entry) => entry.type === 'VOID')).toBe(true);
+  });
+
+  it('reactivates a fully redeemed card', async () => {
+    const purchase = await createIssuedPurchase(merchantId);
+    const redemption = await redeem(purchase.id, 100, merchantId);
+
+    await voidIt(redemption.id);
+
+    const card = await stored(purchase.id);
+    expect(card.status).toBe('ACTIVE');
+    expect(card.currentBalance.toNumber()).toBe(100);
+    expect(ledgerBalance(purchase.id)).toBe(100);
+  });
+
+  it('does not void the same redemption twice', async () => {
+    const purchase = await createIssuedPurchase(merchantId);
+    const redemption = await redeem(purchase.id, 30, merchantId);
+
+    await voidIt(redemption.id);
+    const again = await voidIt(redemption.id);
+
+    expect(again.statusCode).toBe(400);
+    expect((await stored(purchase.id)).currentBalance.toNumber()).toBe(100);
+    expect(ledgerBalance(purchase.id)).toBe(100);
+  });
+
+  it('only voids the most recent balance change', async () => {
+    const purchase = await createIssuedPurchase(merchantId);
+    const first = await redeem(purchase.id, 30, merchantId);
+    await redeem(purchase.id, 20, merchantId);
+
+    const res = await voidIt(first.id);
+
+    expect(res.statusCode).toBe(409);
+    expect((await stored(purchase.id)).currentBalance.toNumber()).toBe(50);
+    expect(ledgerBalance(purchase.id)).toBe(50);
+    expect(fakePrisma.$store.redemption.find((row) => row.id === first.id).voidedAt).toBeNull();
+  });
+
+  it('refuses redemptions past the void window', async () => {
+    const purchase = await createIssuedPurchase(merchantId);
+    const redemption = await redeem(purchase.id, 30, merchantId);
+    await fakePrisma.redemption.update({
+      where: { id: redemption.id },
+      data: { redeemedAt: new Date(Date.now() - 24 * 60 * 60 * 1000) },
+    });
+
+    const res = await voidIt(redemption.id);
+
+    expect(res.statusCode).toBe(400);
+    expect(ledgerBalance(purchase.id)).toBe(70);
+  });
+});
@@ -0,0 +1,108 @@
+import crypto from 'crypto';
+import { LedgerService } from '../../src/services/ledger.service';
+import { fakePrisma } from './fakePrisma';
+
+// Rows with just the fields the code under test reads
+
+export const createUser = (overrides: Record<string, any> = {}) =>
+  fakePrisma.user.create({
+    data: {
+      email: `${crypto.randomUUID()}@example.com`,
+      name: 'Test User',
+      role: 'USER',
+      isActive: true,
+      tokenVersion: 0,
+      ...overrides,
+    },
+  });
+
+export const createMerchant = async (overrides: Record<string, any> = {}) => {
+  const merchant = await createUser({ role: 'MERCHANT', name: 'Test Merchant' });
+  await fakePrisma.merchantProfile.create({
+    data: {
+      userId: merchant.id,
+      businessName: 'Test Cafe',
+      profileStatus: 'VERIFIED',
+      isVerified: true,
+      ...overrides,
+    },
+  });
+  return merchant;
+};
+
+export const createPurchase = async (merchantId: string, overrides: Record<string, any> = {}) => {
+  const giftCard = await fakePrisma.giftCard.create({
+    data: { merchantId, title: 'Coffee Card', price: 100 },
+  });
+
+  return fakePrisma.purchasedGiftCard.create({
+    data: {
+      giftCardId: giftCard.id,
+      qrCode: crypto.randomUUID(),
+      customerName: 'Buyer',
+      customerEmail: 'buyer@example.com',
+      purchasedAt: new Date(),
+      expiresAt: new Date(Date.now() + 365 * 24 * 60 * 60 * 1000),
+      purchaseAmount: 100,
+      currentBalance: 100,
+      status: 'ACTIVE',
+      paymentStatus: 'COMPLETED',
+      paymentProvider: 'local',
+      transactionId: `local_pay_${crypto.randomBytes(12).toString('hex')}`,
+      ...overrides,
+    },
+  });
+};
+
+// Sum of a card's GIFT_CARD ledger legs - must always equal currentBalance
+export const ledgerBalance = (purchaseId: string) =>
+  fakePrisma.$store.ledgerEntry
+    .filter((entry) => entry.purchasedGiftCardId === purchaseId && entry.account === 'GIFT_CARD')
+    .reduce((sum, entry) => sum + Number(entry.amount), 0);
+
+// A paid card with its ISSUE ledger entry, as a completed payment leaves it
+export const createIssuedPurchase = async (merchantId: string, overrides: Record<string, any> = {}) => {
+  const purchase = await createPurchase(merchantId, overrides);
+
+  await LedgerService.record(fakePrisma as any, {
+    purchaseId: purchase.id,
+    type: 'ISSUE',
+    amount: purchase.currentBalance,
+  });
+
+  return purchase;
+};
+
+// Redeem from a card the way the redeem endpoint does
+export const redeem = async (purchaseId: string, amount: number, redeemedById: string) => {
+  const purchase = await fakePrisma.purchasedGiftCard.findUnique({ where: { id: purchaseId } });
+  const balanceAfter = purchase.currentBalance.minus(amount);
+
+  await fakePrisma.purchasedGiftCard.update({
+    where: { id: purchaseId },
+    data: { currentBalance: balanceAfter, status: balanceAfter.isZero() ? 'FULLY_REDEEMED' : 'ACTIVE' },
+  });
+
+  const redemption = await fakePrisma.redemption.create({
+    data: {
+      purchasedGiftCardId: purchaseId,
+      redeemedById,
+      type: 'REDEEM',
+      amount,
+      balanceBefore: purchase.currentBalance,
+      balanceAfter,
+      redeemedAt: new Date(),
+      voidedAt: null,
+    },
+  });
+
+  await LedgerService.record(fakePrisma as any, {
+    purchaseId,
+    type: 'REDEEM',
+    amount: -amount,
+    referenceType: 'redemption',
+    referenceId: redemption.id,
+  });
+
+  return redemption;
+};
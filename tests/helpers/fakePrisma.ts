@@ -0,0 +1,249 @@
+import crypto from 'crypto';
+import { Prisma } from '@prisma/client';
+
+/**
+ * Just enough of the Prisma client, kept in memory, for the services under
+ * test: equality/in/not/range filters, include/select over the relations
+ * below, increments, unique constraints and transactions that roll back.
+ */
+
+type Row = Record<string, any>;
+type Args = Record<string, any>;
+
+const MODELS = [
+  'user',
+  'merchantProfile',
+  'merchantStaff',
+  'giftCard',
+  'purchasedGiftCard',
+  'paymentEvent',
+  'ledgerEntry',
+  'refund',
+  'redemption',
+  'refreshToken',
+] as const;
+
+type Model = (typeof MODELS)[number];
+
+// relation name -> [target model, key on this row, key on the target]
+const RELATIONS: Partial<Record<Model, Record<string, [Model, string, string]>>> = {
+  user: { merchantProfile: ['merchantProfile', 'id', 'userId'] },
+  merchantProfile: { user: ['user', 'userId', 'id'] },
+  merchantStaff: { merchantProfile: ['merchantProfile', 'merchantProfileId', 'id'] },
+  giftCard: { merchant: ['user', 'merchantId', 'id'] },
+  purchasedGiftCard: { giftCard: ['giftCard', 'giftCardId', 'id'] },
+  redemption: { purchasedGiftCard: ['purchasedGiftCard', 'purchasedGiftCardId', 'id'] },
+  refreshToken: { user: ['user', 'userId', 'id'] },
+};
+
+const UNIQUE: Partial<Record<Model, string[]>> = {
+  user: ['email'],
+  paymentEvent: ['providerEventId'],
+  refreshToken: ['token'],
+};
+
+const DECIMAL_FIELDS = ['purchaseAmount', 'currentBalance', 'amount', 'balanceBefore', 'balanceAfter'];
+
+const isDecimal = (value: unknown): value is Prisma.Decimal => Prisma.Decimal.isDecimal(value);
+
+const comparable = (value: any) => (value instanceof Date ? value.getTime() : value);
+
+const equals = (a: any, b: any): boolean => {
+  if (isDecimal(a) || isDecimal(b)) {
+    return a != null && b != null && new Prisma.Decimal(a).equals(b);
+  }
+  return comparable(a ?? null) === comparable(b ?? null);
+};
+
+const compare = (a: any, b: any): number => {
+  if (isDecimal(a) || isDecimal(b)) return new Prisma.Decimal(a).comparedTo(b);
+  return comparable(a) < comparable(b) ? -1 : comparable(a) > comparable(b) ? 1 : 0;
+};
+
+const isFilterObject = (value: unknown): value is Args =>
+  !!value && typeof value === 'object' && !isDecimal(value) && !(value instanceof Date);
+
+const matchesField = (value: any, condition: any): boolean => {
+  if (!isFilterObject(condition)) return equals(value, condition);
+
+  return Object.entries(condition).every(([operator, operand]) => {
+    switch (operator) {
+      case 'equals':
+        return equals(value, operand);
+      case 'in':
+        return (operand as any[]).some((item) => equals(value, item));
+      case 'notIn':
+        return !(operand as any[]).some((item) => equals(value, item));
+      case 'not':
+        return !matchesField(value, operand);
+      case 'gt':
+        return value != null && compare(value, operand) > 0;
+      case 'gte':
+        return value != null && compare(value, operand) >= 0;
+      case 'lt':
+        return value != null && compare(value, operand) < 0;
+      case 'lte':
+        return value != null && compare(value, operand) <= 0;
+      case 'mode':
+        return true;
+      default:
+        throw new Error(`fakePrisma: unsupported filter "${operator}"`);
+    }
+  });
+};
+
+const matches = (row: Row, where: Args = {}): boolean =>
+  Object.entries(where).every(([key, condition]) => {
+    if (condition === undefined) return true;
+    if (key === 'AND') return (condition as Args[]).every((part) => matches(row, part));
+    if (key === 'OR') return (condition as Args[]).some((part) => matches(row, part));
+    if (key === 'NOT') return !matches(row, condition);
+    return matchesField(row[key], condition);
+  });
+
+const normalize = (key: string, value: any) =>
+  DECIMAL_FIELDS.includes(key) && value != null && !isDecimal(value) ? new Prisma.Decimal(value) : value;
+
+const applyData = (row: Row, data: Args) => {
+  for (const [key, value] of Object.entries(data)) {
+    if (value === undefined) continue;
+
+    if (isFilterObject(value) && ('increment' in value || 'decrement' in value)) {
+      const delta = 'increment' in value ? value.increment : -value.decrement;
+      row[key] = isDecimal(row[key]) || isDecimal(delta)
+        ? new Prisma.Decimal(row[key] ?? 0).plus(delta)
+        : (row[key] ?? 0) + delta;
+      continue;
+    }
+
+    // Nested relation writes aren't modelled
+    if (isFilterObject(value) && !Array.isArray(value)) continue;
+
+    row[key] = normalize(key, value);
+  }
+};
+
+export const createFakePrisma = () => {
+  const store = Object.fromEntries(MODELS.map((model) => [model, [] as Row[]])) as Record<Model, Row[]>;
+
+  const project = (model: Model, row: Row | undefined, args: Args = {}): Row | null => {
+    if (!row) return null;
+
+    const relations = RELATIONS[model] ?? {};
+    const shape: Args = args.select ?? args.include ?? {};
+    const result: Row = args.select
+      ? Object.fromEntries(Object.keys(shape).filter((key) => !relations[key]).map((key) => [key, row[key]]))
+      : { ...row };
+
+    for (const [key, spec] of Object.entries(shape)) {
+      const relation = relations[key];
+      if (!relation || !spec) continue;
+
+      const [target, localKey, remoteKey] = relation;
+      const related = store[target].find((candidate) => equals(candidate[remoteKey], row[localKey]));
+      result[key] = project(target, related, spec === true ? {} : spec);
+    }
+
+    return result;
+  };
+
+  const insert = (model: Model, data: Args): Row => {
+    const row: Row = { id: crypto.randomUUID(), createdAt: new Date(), updatedAt: new Date() };
+    applyData(row, data);
+
+    for (const field of UNIQUE[model] ?? []) {
+      if (row[field] != null && store[model].some((existing) => equals(existing[field], row[field]))) {
+        throw new Prisma.PrismaClientKnownRequestError(`Unique constraint failed on ${model}.${field}`, {
+          code: 'P2002',
+          clientVersion: 'fake',
+        });
+      }
+    }
+
+    store[model].push(row);
+    return row;
+  };
+
+  const notFound = (model: Model) =>
+    new Prisma.PrismaClientKnownRequestError(`No ${model} found`, { code: 'P2025', clientVersion: 'fake' });
+
+  const delegate = (model: Model) => {
+    const findAll = (where?: Args) => store[model].filter((row) => matches(row, where));
+
+    return {
+      findUnique: async (args: Args) => project(model, findAll(args.where)[0], args),
+      findFirst: async (args: Args = {}) => project(model, findAll(args.where)[0], args),
+      findUniqueOrThrow: async (args: Args) => {
+        const row = findAll(args.where)[0];
+        if (!row) throw notFound(model);
+        return project(model, row, args);
+      },
+      findMany: async (args: Args = {}) => {
+        let rows = findAll(args.where);
+        if (args.distinct) {
+          const seen = new Set<string>();
+          rows = rows.filter((row) => {
+            const key = JSON.stringify(args.distinct.map((field: string) => row[field]));
+            return seen.has(key) ? false : (seen.add(key), true);
+          });
+        }
+        return rows.map((row) => project(model, row, args));
+      },
+      count: async (args: Args = {}) => findAll(args.where).length,
+      create: async ({ data, ...args }: Args) => project(model, insert(model, data), args),
+      createMany: async ({ data }: Args) => {
+        (data as Args[]).forEach((item) => insert(model, item));
+        return { count: data.length };
+      },
+      update: async ({ where, data, ...args }: Args) => {
+        const row = findAll(where)[0];
+        if (!row) throw notFound(model);
+        applyData(row, data);
+        return project(model, row, args);
+      },
+      updateMany: async ({ where, data }: Args) => {
+        const rows = findAll(where);
+        rows.forEach((row) => applyData(row, data));
+        return { count: rows.length };
+      },
+      delete: async ({ where }: Args) => {
+        const row = findAll(where)[0];
+        if (!row) throw notFound(model);
+        store[model].splice(store[model].indexOf(row), 1);
+        return row;
+      },
+      deleteMany: async ({ where }: Args = {}) => {
+        const rows = findAll(where);
+        store[model] = store[model].filter((row) => !rows.includes(row));
+        return { count: rows.length };
+      },
+    };
+  };
+
+  const client: Record<string, any> = Object.fromEntries(MODELS.map((model) => [model, delegate(model)]));
+
+  // Callback transactions roll back on error; array transactions just run
+  client.$transaction = async (arg: any) => {
+    if (Array.isArray(arg)) return Promise.all(arg);
+
+    const snapshot = Object.fromEntries(
+      MODELS.map((model) => [model, store[model].map((row) => ({ ...row }))])
+    ) as Record<Model, Row[]>;
+
+    try {
+      return await arg(client);
+    } catch (error) {
+      for (const model of MODELS) store[model] = snapshot[model];
+      throw error;
+    }
+  };
+
+  client.$store = store;
+  client.$reset = () => {
+    for (const model of MODELS) store[model] = [];
+  };
+
+  return client as typeof client & { $store: Record<Model, Row[]>; $reset: () => void };
+};
+
+export const fakePrisma = createFakePrisma();
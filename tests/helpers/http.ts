@@ -0,0 +1,28 @@
+import { Request, Response } from 'express';
+
+// Just enough of req/res to call a controller directly
+
+export const mockRequest = (overrides: Record<string, any> = {}) =>
+  ({
+    params: {},
+    query: {},
+    body: {},
+    headers: {},
+    ip: '127.0.0.1',
+    ...overrides,
+  }) as unknown as Request;
+
+export const mockResponse = () => {
+  const res: Record<string, any> = { statusCode: 200, body: undefined };
+
+  res.status = (code: number) => {
+    res.statusCode = code;
+    return res;
+  };
+  res.json = (body: unknown) => {
+    res.body = body;
+    return res;
+  };
+
+  return res as Response & { statusCode: number; body: any };
+};
@@ -0,0 +1,87 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { authenticate } from '../../src/middleware/auth.middleware';
+import { generateAccessToken } from '../../src/utils/jwt.util';
+import { invalidateTokenVersion } from '../../src/utils/tokenVersion.util';
+import { fakePrisma } from '../helpers/fakePrisma';
+import { createUser } from '../helpers/factories';
+import { mockRequest, mockResponse } from '../helpers/http';
+
+let user: Awaited<ReturnType<typeof createUser>>;
+
+const tokenFor = (tokenVersion: number) =>
+  generateAccessToken({
+    userId: user.id,
+    email: user.email,
+    role: user.role,
+    isVerified: false,
+    tokenVersion,
+  });
+
+const call = async (token: string) => {
+  const req = mockRequest({
+    headers: { authorization: `Bearer ${token}` },
+    baseUrl: '/api/wallet',
+    path: '/',
+  });
+  const res = mockResponse();
+  const next = vi.fn();
+
+  await authenticate(req, res, next);
+  return { req, res, next };
+};
+
+// Role change as the Prisma extension applies it: bump, then drop the cached version
+const bumpTokenVersion = async () => {
+  await fakePrisma.user.update({ where: { id: user.id }, data: { tokenVersion: { increment: 1 } } });
+  await invalidateTokenVersion([user.id]);
+};
+
+beforeEach(async () => {
+  user = await createUser({ tokenVersion: 3 });
+});
+
+describe('authenticate', () => {
+  it('accepts a token carrying the current version', async () => {
+    const { req, next } = await call(tokenFor(3));
+
+    expect(next).toHaveBeenCalled();
+    expect(req.authUser).toMatchObject({ userId: user.id, role: 'USER' });
+  });
+
+  it('rejects a token issued before the version was bumped', async () => {
+    const token = tokenFor(3);
+    await call(token); // caches version 3
+
+    await bumpTokenVersion();
+    const { res, next } = await call(token);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(401);
+    expect(res.body.code).toBe('TOKEN_REVOKED');
+  });
+
+  it('accepts a token issued after the bump', async () => {
+    await bumpTokenVersion();
+
+    const { next } = await call(tokenFor(4));
+
+    expect(next).toHaveBeenCalled();
+  });
+
+  it('rejects tokens of a deleted user', async () => {
+    await fakePrisma.user.delete({ where: { id: user.id } });
+    await invalidateTokenVersion([user.id]);
+
+    const { res } = await call(tokenFor(3));
+
+    expect(res.statusCode).toBe(401);
+    expect(res.body.code).toBe('TOKEN_REVOKED');
+  });
+
+  it('rejects a token without a valid signature', async () => {
+    const { res, next } = await call(`${tokenFor(3)}x`);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(401);
+  });
+});
@@ -0,0 +1,140 @@
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import express from 'express';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import {
+  IDEMPOTENCY_HEADER,
+  IDEMPOTENT_REPLAYED_HEADER,
+  idempotency,
+} from '../../src/middleware/idempotency.middleware';
+
+let server: Server;
+let baseUrl: string;
+let handled: number;
+let nextStatus: number;
+let release: (() => void) | null;
+
+const app = express();
+app.use(express.json());
+app.use((req, _res, next) => {
+  const userId = req.header('x-test-user');
+  if (userId) req.authUser = { userId, email: `${userId}@example.com`, role: 'USER', isVerified: true };
+  next();
+});
+app.post('/purchases', idempotency({ required: true }), async (req, res) => {
+  handled += 1;
+  const count = handled;
+
+  // Holds the request open until the test lets it finish
+  if (req.body.slow) {
+    await new Promise<void>((resolve) => {
+      release = resolve;
+    });
+  }
+
+  res.status(nextStatus).json({ success: nextStatus < 300, count });
+});
+
+const post = (body: object, key?: string, userId = 'user-1') =>
+  fetch(`${baseUrl}/purchases`, {
+    method: 'POST',
+    headers: {
+      'content-type': 'application/json',
+      'x-test-user': userId,
+      ...(key && { [IDEMPOTENCY_HEADER]: key }),
+    },
+    body: JSON.stringify(body),
+  });
+
+// The stored response is written after the response finishes
+const settle = () => new Promise((resolve) => setTimeout(resolve, 20));
+
+beforeAll(async () => {
+  server = app.listen(0);
+  await new Promise((resolve) => server.once('listening', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => new Promise((resolve) => server.close(resolve)));
+
+beforeEach(() => {
+  handled = 0;
+  nextStatus = 201;
+  release = null;
+});
+
+describe('idempotency middleware', () => {
+  it('requires the header when configured to', async () => {
+    const res = await post({ amount: 10 });
+
+    expect(res.status).toBe(400);
+    expect(handled).toBe(0);
+  });
+
+  it('replays the first response for a repeated key', async () => {
+    const first = await post({ amount: 10 }, 'key-1');
+    await settle();
+    const second = await post({ amount: 10 }, 'key-1');
+
+    expect(first.status).toBe(201);
+    expect(second.status).toBe(201);
+    expect(await second.json()).toEqual(await first.json());
+    expect(second.headers.get(IDEMPOTENT_REPLAYED_HEADER)).toBe('true');
+    expect(handled).toBe(1);
+  });
+
+  it('rejects the same key with a different body', async () => {
+    await post({ amount: 10 }, 'key-1');
+    await settle();
+    const res = await post({ amount: 99 }, 'key-1');
+
+    expect(res.status).toBe(422);
+    expect(handled).toBe(1);
+  });
+
+  it('rejects a retry while the first request is still running', async () => {
+    const first = post({ amount: 10, slow: true }, 'key-1');
+    await expect.poll(() => release).not.toBeNull();
+
+    const retry = await post({ amount: 10, slow: true }, 'key-1');
+    expect(retry.status).toBe(409);
+
+    release!();
+    expect((await first).status).toBe(201);
+    expect(handled).toBe(1);
+  });
+
+  it('scopes keys to the caller', async () => {
+    await post({ amount: 10 }, 'key-1', 'user-1');
+    await settle();
+    const other = await post({ amount: 10 }, 'key-1', 'user-2');
+
+    expect(other.headers.get(IDEMPOTENT_REPLAYED_HEADER)).toBeNull();
+    expect(handled).toBe(2);
+  });
+
+  it.each([409, 429, 500])('releases the key after a %i so the client can retry', async (status) => {
+    nextStatus = status;
+    await post({ amount: 10 }, 'key-1');
+    await settle();
+
+    nextStatus = 201;
+    const retry = await post({ amount: 10 }, 'key-1');
+
+    expect(retry.status).toBe(201);
+    expect(retry.headers.get(IDEMPOTENT_REPLAYED_HEADER)).toBeNull();
+    expect(handled).toBe(2);
+  });
+
+  it('replays validation errors', async () => {
+    nextStatus = 422;
+    await post({ amount: 10 }, 'key-1');
+    await settle();
+
+    nextStatus = 201;
+    const retry = await post({ amount: 10 }, 'key-1');
+
+    expect(retry.status).toBe(422);
+    expect(handled).toBe(1);
+  });
+});
@@ -0,0 +1,123 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { LoginProtectionService } from '../../src/services/loginProtection.service';
+import { loginProtectionConfig } from '../../src/config/loginProtection.config';
+import { emailQueue } from '../../src/queues/email.queue';
+
+const EMAIL = 'victim@example.com';
+const user = { id: 'user-1', email: EMAIL, name: 'Victim' };
+
+const ips = (count: number) => Array.from({ length: count }, (_, i) => `10.0.0.${i + 1}`);
+
+const failFrom = async (ip: string, times = 1, lockable: typeof user | null = user) => {
+  let result = { lockedForSeconds: 0 };
+  for (let i = 0; i < times; i++) {
+    result = await LoginProtectionService.recordFailure(EMAIL, ip, lockable);
+  }
+  return result;
+};
+
+// Token from the unlock link in the last account-locked email
+const emailedUnlockToken = () => {
+  const [, job] = vi.mocked(emailQueue.add).mock.calls.findLast(([name]) => name === 'account_locked')!;
+  return new URL((job as { unlockLink: string }).unlockLink).searchParams.get('token')!;
+};
+
+beforeEach(() => {
+  vi.mocked(emailQueue.add).mockClear();
+});
+
+describe('LoginProtectionService', () => {
+  it('allows a first attempt', async () => {
+    expect(await LoginProtectionService.check(EMAIL, '10.0.0.1')).toEqual({ allowed: true });
+  });
+
+  it('makes the same IP wait longer after every failure', async () => {
+    await failFrom('10.0.0.1');
+    expect((await LoginProtectionService.check(EMAIL, '10.0.0.1')).allowed).toBe(true);
+
+    const waits: number[] = [];
+    for (let i = 0; i < 3; i++) {
+      await failFrom('10.0.0.1');
+      const result = await LoginProtectionService.check(EMAIL, '10.0.0.1');
+      expect(result.reason).toBe('TOO_MANY_ATTEMPTS');
+      waits.push(result.retryAfterSeconds!);
+    }
+
+    expect(waits).toEqual([1, 2, 4]);
+  });
+
+  it('only slows down the failing IP', async () => {
+    await failFrom('10.0.0.1', 3);
+
+    expect(await LoginProtectionService.check(EMAIL, '10.0.0.2')).toEqual({ allowed: true });
+  });
+
+  it('never locks the account over failures from a single IP', async () => {
+    const result = await failFrom('10.0.0.1', loginProtectionConfig.maxIpFailures - 1);
+
+    expect(result.lockedForSeconds).toBe(0);
+    expect((await LoginProtectionService.check(EMAIL, '10.0.0.99')).allowed).toBe(true);
+  });
+
+  it('blocks an IP that keeps failing', async () => {
+    await failFrom('10.0.0.1', loginProtectionConfig.maxIpFailures);
+
+    const result = await LoginProtectionService.check('someone-else@example.com', '10.0.0.1');
+    expect(result.reason).toBe('IP_BLOCKED');
+  });
+
+  it('locks a known account failing from several IPs and emails an unlock link', async () => {
+    const [last, ...others] = ips(loginProtectionConfig.maxAccountFailingIps);
+    for (const ip of others) {
+      expect((await failFrom(ip)).lockedForSeconds).toBe(0);
+    }
+
+    const result = await failFrom(last);
+
+    expect(result.lockedForSeconds).toBe(loginProtectionConfig.lockoutSeconds);
+    expect((await LoginProtectionService.check(EMAIL, '192.168.1.1')).reason).toBe('ACCOUNT_LOCKED');
+    expect(emailQueue.add).toHaveBeenCalledWith('account_locked', expect.objectContaining({ to: EMAIL }));
+  });
+
+  it('never locks an unknown email', async () => {
+    for (const ip of ips(loginProtectionConfig.maxAccountFailingIps * 2)) {
+      expect((await failFrom(ip, 1, null)).lockedForSeconds).toBe(0);
+    }
+
+    expect((await LoginProtectionService.check(EMAIL, '192.168.1.1')).allowed).toBe(true);
+  });
+
+  it('forgets failures after a successful login', async () => {
+    const failing = ips(loginProtectionConfig.maxAccountFailingIps);
+    for (const ip of failing.slice(0, -1)) {
+      await failFrom(ip, 2);
+    }
+
+    await LoginProtectionService.recordSuccess(EMAIL, failing[0]);
+
+    expect((await LoginProtectionService.check(EMAIL, failing[0])).allowed).toBe(true);
+    expect((await failFrom(failing.at(-1)!)).lockedForSeconds).toBe(0);
+  });
+
+  it('unlocks with the emailed token exactly once', async () => {
+    for (const ip of ips(loginProtectionConfig.maxAccountFailingIps)) {
+      await failFrom(ip);
+    }
+    const token = emailedUnlockToken();
+
+    expect(await LoginProtectionService.unlockWithToken(token)).toBe(EMAIL);
+    expect((await LoginProtectionService.check(EMAIL, '192.168.1.1')).allowed).toBe(true);
+
+    expect(await LoginProtectionService.unlockWithToken(token)).toBeNull();
+  });
+
+  it('lets an admin lift a lock', async () => {
+    for (const ip of ips(loginProtectionConfig.maxAccountFailingIps)) {
+      await failFrom(ip);
+    }
+
+    expect(await LoginProtectionService.unlock(EMAIL)).toBe(true);
+    expect((await LoginProtectionService.check(EMAIL, '192.168.1.1')).allowed).toBe(true);
+    expect(await LoginProtectionService.unlock(EMAIL)).toBe(false);
+  });
+});
@@ -0,0 +1,201 @@
+import { describe, expect, it } from 'vitest';
+import { PaymentStatus } from '@prisma/client';
+import { canTransitionPayment, PaymentService } from '../../src/services/payment.service';
+import { LOCAL_SIGNATURE_HEADER, LocalPaymentProvider } from '../../src/providers/localPayment.provider';
+import { fakePrisma } from '../helpers/fakePrisma';
+import { createMerchant, createPurchase, ledgerBalance } from '../helpers/factories';
+
+const provider = new LocalPaymentProvider('test-webhook-secret');
+
+const pendingPurchase = async (overrides: Record<string, any> = {}) => {
+  const merchant = await createMerchant();
+  return createPurchase(merchant.id, { paymentStatus: 'PENDING', currentBalance: 0, ...overrides });
+};
+
+const webhookFor = (
+  purchase: { id: string; transactionId: string },
+  type: 'payment.succeeded' | 'payment.failed' = 'payment.succeeded',
+  amount = 100
+) => {
+  const { body, headers } = provider.buildWebhook({
+    type,
+    providerPaymentId: purchase.transactionId,
+    reference: purchase.id,
+    amount,
+  });
+  return provider.verifyWebhook(Buffer.from(body), headers);
+};
+
+describe('PaymentStatus state machine', () => {
+  const allowed: [PaymentStatus, PaymentStatus][] = [
+    ['PENDING', 'COMPLETED'],
+    ['PENDING', 'FAILED'],
+    ['COMPLETED', 'REFUNDED'],
+  ];
+
+  it.each(allowed)('allows %s -> %s', (from, to) => {
+    expect(canTransitionPayment(from, to)).toBe(true);
+  });
+
+  it('rejects every other transition', () => {
+    const statuses = Object.values(PaymentStatus);
+
+    for (const from of statuses) {
+      for (const to of statuses) {
+        if (allowed.some(([a, b]) => a === from && b === to)) continue;
+        expect(canTransitionPayment(from, to), `${from} -> ${to}`).toBe(false);
+      }
+    }
+  });
+
+  it('records the transition as a payment event', async () => {
+    const purchase = await pendingPurchase();
+
+    const { changed, purchase: updated } = await PaymentService.transitionPaymentStatus({
+      purchaseId: purchase.id,
+      toStatus: 'FAILED',
+      provider: 'local',
+      eventType: 'payment.failed',
+    });
+
+    expect(changed).toBe(true);
+    expect(updated.paymentStatus).toBe('FAILED');
+    expect(fakePrisma.$store.paymentEvent).toEqual([
+      expect.objectContaining({ purchasedGiftCardId: purchase.id, fromStatus: 'PENDING', toStatus: 'FAILED' }),
+    ]);
+  });
+
+  it('leaves a disallowed transition unrecorded', async () => {
+    const purchase = await pendingPurchase({ paymentStatus: 'FAILED' });
+
+    const { changed, purchase: unchanged } = await PaymentService.transitionPaymentStatus({
+      purchaseId: purchase.id,
+      toStatus: 'COMPLETED',
+      provider: 'local',
+      eventType: 'payment.succeeded',
+    });
+
+    expect(changed).toBe(false);
+    expect(unchanged.paymentStatus).toBe('FAILED');
+    expect(fakePrisma.$store.paymentEvent).toHaveLength(0);
+  });
+});
+
+describe('local webhook signature', () => {
+  const { body, headers } = provider.buildWebhook({
+    type: 'payment.succeeded',
+    providerPaymentId: 'local_pay_abc',
+    reference: 'purchase-1',
+    amount: 100,
+  });
+
+  it('accepts a correctly signed body', () => {
+    const event = provider.verifyWebhook(Buffer.from(body), headers);
+
+    expect(event).toMatchObject({
+      type: 'payment.succeeded',
+      providerPaymentId: 'local_pay_abc',
+      reference: 'purchase-1',
+      amount: 100,
+    });
+  });
+
+  it('rejects a tampered body', () => {
+    const tampered = body.replace('"amount":100', '"amount":1');
+    expect(() => provider.verifyWebhook(Buffer.from(tampered), headers)).toThrow('Invalid webhook signature');
+  });
+
+  it('rejects a missing signature', () => {
+    expect(() => provider.verifyWebhook(Buffer.from(body), {})).toThrow('Missing webhook signature');
+  });
+
+  it('rejects a body signed with another secret', () => {
+    const other = new LocalPaymentProvider('another-secret');
+    const forged = { [LOCAL_SIGNATURE_HEADER]: other.sign(body) };
+
+    expect(() => provider.verifyWebhook(Buffer.from(body), forged)).toThrow('Invalid webhook signature');
+  });
+});
+
+describe('PaymentService.processWebhookEvent', () => {
+  it('completes the purchase and issues its balance on success', async () => {
+    const purchase = await pendingPurchase();
+
+    const result = await PaymentService.processWebhookEvent(provider, webhookFor(purchase));
+
+    expect(result).toMatchObject({ status: 'processed', paymentStatus: 'COMPLETED' });
+
+    const stored = await fakePrisma.purchasedGiftCard.findUnique({ where: { id: purchase.id } });
+    expect(stored.currentBalance.toNumber()).toBe(100);
+    expect(ledgerBalance(purchase.id)).toBe(100);
+  });
+
+  it('treats a redelivered event as a duplicate', async () => {
+    const purchase = await pendingPurchase();
+    const event = webhookFor(purchase);
+
+    await PaymentService.processWebhookEvent(provider, event);
+    const again = await PaymentService.processWebhookEvent(provider, event);
+
+    expect(again.status).toBe('duplicate');
+    expect(ledgerBalance(purchase.id)).toBe(100);
+  });
+
+  it('ignores a second success for an already completed purchase', async () => {
+    const purchase = await pendingPurchase();
+
+    await PaymentService.processWebhookEvent(provider, webhookFor(purchase));
+    const second = await PaymentService.processWebhookEvent(provider, webhookFor(purchase));
+
+    expect(second.status).toBe('ignored');
+    expect(ledgerBalance(purchase.id)).toBe(100);
+  });
+
+  it('cancels the card when the payment fails', async () => {
+    const purchase = await pendingPurchase();
+
+    const result = await PaymentService.processWebhookEvent(provider, webhookFor(purchase, 'payment.failed'));
+
+    expect(result).toMatchObject({ status: 'processed', paymentStatus: 'FAILED' });
+
+    const stored = await fakePrisma.purchasedGiftCard.findUnique({ where: { id: purchase.id } });
+    expect(stored.status).toBe('CANCELLED');
+    expect(fakePrisma.$store.ledgerEntry).toHaveLength(0);
+  });
+
+  it('fails a payment whose amount does not match the purchase', async () => {
+    const purchase = await pendingPurchase();
+
+    const result = await PaymentService.processWebhookEvent(
+      provider,
+      webhookFor(purchase, 'payment.succeeded', 1)
+    );
+
+    expect(result).toMatchObject({ paymentStatus: 'FAILED', reason: 'amount_mismatch' });
+    expect(ledgerBalance(purchase.id)).toBe(0);
+  });
+
+  it('ignores events for an unknown payment', async () => {
+    const purchase = await pendingPurchase();
+
+    const result = await PaymentService.processWebhookEvent(
+      provider,
+      webhookFor({ id: purchase.id, transactionId: 'local_pay_someone_else' })
+    );
+
+    expect(result).toEqual({ status: 'ignored', reason: 'unknown_payment' });
+  });
+
+  it('refunds a payment confirmed after the card expired', async () => {
+    const purchase = await pendingPurchase({ status: 'EXPIRED' });
+
+    const result = await PaymentService.processWebhookEvent(provider, webhookFor(purchase));
+
+    expect(result).toMatchObject({ paymentStatus: 'REFUNDED', reason: 'card_not_active' });
+
+    const stored = await fakePrisma.purchasedGiftCard.findUnique({ where: { id: purchase.id } });
+    expect(stored.status).toBe('EXPIRED');
+    expect(stored.currentBalance.toNumber()).toBe(0);
+    expect(ledgerBalance(purchase.id)).toBe(0);
+  });
+});
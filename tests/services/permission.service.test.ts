@@ -0,0 +1,139 @@
+import { describe, expect, it } from 'vitest';
+import { PermissionService } from '../../src/services/permission.service';
+import { fakePrisma } from '../helpers/fakePrisma';
+import { createMerchant, createUser } from '../helpers/factories';
+
+const staffMember = async (
+  role: 'MANAGER' | 'CASHIER',
+  { profileStatus = 'VERIFIED', removedAt = null as Date | null, ownerActive = true } = {}
+) => {
+  const merchant = await createMerchant({ profileStatus });
+  if (!ownerActive) {
+    await fakePrisma.user.update({ where: { id: merchant.id }, data: { isActive: false } });
+  }
+
+  const profile = fakePrisma.$store.merchantProfile.find((row) => row.userId === merchant.id)!;
+  const staffUser = await createUser({ role: 'STAFF' });
+  const staff = await fakePrisma.merchantStaff.create({
+    data: { userId: staffUser.id, merchantProfileId: profile.id, role, removedAt },
+  });
+
+  return { merchant, staffUser, staff };
+};
+
+describe('PermissionService.resolve', () => {
+  describe('admins', () => {
+    const resolveAdmin = (adminRole?: string) =>
+      PermissionService.resolve({ userId: 'a', role: 'ADMIN', adminRole });
+
+    it('gives a SUPER_ADMIN everything, including refunds and balance adjustments', async () => {
+      const access = await resolveAdmin('SUPER_ADMIN');
+
+      expect(access.accessRole).toBe('SUPER_ADMIN');
+      expect(access.permissions).toEqual(
+        expect.arrayContaining(['purchases:refund', 'ledger:adjust', 'users:manage', 'merchant:verify'])
+      );
+    });
+
+    it('keeps a SUPPORT_AGENT read-only apart from unlocks and 2FA resets', async () => {
+      const access = await resolveAdmin('SUPPORT_AGENT');
+
+      expect(access.accessRole).toBe('SUPPORT_AGENT');
+      expect(access.permissions).toEqual(
+        expect.arrayContaining(['users:read', 'users:unlock', 'users:2fa_reset', 'logs:read'])
+      );
+      for (const permission of ['purchases:refund', 'ledger:adjust', 'users:manage', 'merchant:verify']) {
+        expect(access.permissions).not.toContain(permission);
+      }
+    });
+
+    it('treats admins without a scope as SUPER_ADMIN', async () => {
+      const access = await resolveAdmin();
+
+      expect(access.accessRole).toBe('SUPER_ADMIN');
+    });
+
+    it('never gives admins a merchant context', async () => {
+      const access = await resolveAdmin('SUPER_ADMIN');
+
+      expect(access.merchantContext).toBeUndefined();
+    });
+  });
+
+  describe('merchants', () => {
+    const resolveMerchant = (profileStatus: string) =>
+      PermissionService.resolve({ userId: 'm', role: 'MERCHANT', profileStatus });
+
+    it('unlocks permissions as the profile is completed and verified', async () => {
+      const incomplete = await resolveMerchant('INCOMPLETE');
+      const pending = await resolveMerchant('PENDING_VERIFICATION');
+      const verified = await resolveMerchant('VERIFIED');
+
+      expect(incomplete.permissions).not.toContain('giftcard:read');
+      expect(pending.permissions).toContain('giftcard:read');
+      expect(pending.permissions).not.toContain('giftcard:create');
+      expect(verified.permissions).toEqual(expect.arrayContaining(['giftcard:create', 'redemptions:create']));
+      expect(verified.merchantContext).toMatchObject({ merchantId: 'm', staffRole: 'OWNER' });
+    });
+
+    it('stops a suspended merchant selling but keeps redemptions', async () => {
+      const access = await resolveMerchant('SUSPENDED');
+
+      expect(access.permissions).not.toContain('giftcard:create');
+      expect(access.permissions).toContain('redemptions:create');
+    });
+  });
+
+  describe('staff', () => {
+    it('gives a MANAGER refunds, voids and locations but not staff management', async () => {
+      const { merchant, staffUser, staff } = await staffMember('MANAGER');
+
+      const access = await PermissionService.resolve({ userId: staffUser.id, role: 'STAFF' });
+
+      expect(access.merchantContext).toEqual({
+        merchantId: merchant.id,
+        staffId: staff.id,
+        staffRole: 'MANAGER',
+        permissions: expect.arrayContaining(['purchases:refund', 'redemptions:void', 'locations:manage']),
+      });
+      expect(access.permissions).not.toContain('staff:manage');
+    });
+
+    it('limits a CASHIER to redeeming and reading', async () => {
+      const { staffUser } = await staffMember('CASHIER');
+
+      const access = await PermissionService.resolve({ userId: staffUser.id, role: 'STAFF' });
+
+      expect(access.merchantContext?.permissions).toEqual([
+        'redemptions:create',
+        'redemptions:read',
+        'locations:read',
+      ]);
+      expect(access.permissions).not.toContain('purchases:refund');
+      expect(access.permissions).not.toContain('redemptions:void');
+    });
+
+    it.each([
+      ['removed from the business', { removedAt: new Date() }],
+      ['working for a deactivated merchant', { ownerActive: false }],
+      ['working for an unverified merchant', { profileStatus: 'PENDING_VERIFICATION' }],
+    ])('gives staff no merchant permissions when %s', async (_, options) => {
+      const { staffUser } = await staffMember('MANAGER', options);
+
+      const access = await PermissionService.resolve({ userId: staffUser.id, role: 'STAFF' });
+
+      expect(access.merchantContext).toBeUndefined();
+      expect(access.permissions).toEqual(['account:2fa']);
+      expect(access.merchantRestriction).toBeDefined();
+    });
+  });
+
+  it('gives everyone else the customer permissions', async () => {
+    const access = await PermissionService.resolve({ userId: 'u', role: 'USER' });
+
+    expect(access).toEqual({
+      accessRole: 'USER',
+      permissions: ['wallet:read', 'wallet:claim', 'purchases:read'],
+    });
+  });
+});
@@ -0,0 +1,44 @@
+import { beforeEach, vi } from 'vitest';
+
+// No database, Redis or queues in tests - Prisma is an in-memory fake and
+// Redis is ioredis-mock. Queues and notifications are stubbed out.
+// Modules that build their own PrismaClient only use it for admin queries
+// the tests don't make - keep it from loading the query engine
+vi.mock('@prisma/client', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@prisma/client')>()),
+  PrismaClient: class PrismaClient {},
+}));
+
+vi.mock('../src/utils/prisma.util', async () => {
+  const { fakePrisma } = await import('./helpers/fakePrisma');
+  return { default: fakePrisma, prisma: fakePrisma };
+});
+
+vi.mock('../src/config/redis.config', async () => {
+  const { default: RedisMock } = await import('ioredis-mock');
+  return { redisConnection: new RedisMock(), default: {} };
+});
+
+vi.mock('../src/queues/activityLog.queue', () => ({
+  activityLogQueue: { add: vi.fn().mockResolvedValue(undefined) },
+}));
+
+vi.mock('../src/queues/email.queue', () => ({
+  emailQueue: {
+    add: vi.fn().mockResolvedValue(undefined),
+    remove: vi.fn().mockResolvedValue(undefined),
+  },
+}));
+
+vi.mock('../src/services/notification.service', () => {
+  const notificationService = new Proxy({}, { get: () => vi.fn().mockResolvedValue(undefined) });
+  return { default: notificationService, notificationService };
+});
+
+beforeEach(async () => {
+  const { fakePrisma } = await import('./helpers/fakePrisma');
+  const { redisConnection } = await import('../src/config/redis.config');
+
+  fakePrisma.$reset();
+  await redisConnection.flushall();
+});